@@ -0,0 +1,179 @@
+/**
+ * Cache-through helper
+ * Coalesces concurrent fetches per key, serves stale entries while they are
+ * refreshed in the background and falls back to stale entries when a
+ * refresh fails
+ */
+
+import type { Cache } from './types.js';
+import { ProviderError, TimeoutError } from '../utils/errors.js';
+
+/** Default time a stale entry is served while it is refreshed: 5 minutes */
+const DEFAULT_GRACE_MS = 5 * 60 * 1000;
+
+/** Default time a stale entry is kept for when refreshing fails: 1 day */
+const DEFAULT_STALE_IF_ERROR_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stored entry: the value and the end of its TTL
+ */
+interface CacheThroughEntry<T> {
+  value: T;
+  freshUntil: number;
+}
+
+/**
+ * Cache-through options
+ */
+export interface CacheThroughOptions<T> {
+  /** Time the fetched value is fresh */
+  ttlMs: number;
+  /**
+   * Time after the TTL during which the stale value is served while it is
+   * refreshed in the background (default: 5 minutes)
+   */
+  graceMs?: number;
+  /**
+   * Time after the TTL during which the stale value is served when
+   * refreshing fails (default: the larger of graceMs and one day)
+   */
+  staleIfErrorMs?: number;
+  /** Whether a fetched value may be cached (default: always) */
+  shouldCache?: (value: T) => boolean;
+  /** Tags to cache a fetched value with */
+  tags?: (value: T) => string[];
+  /** Whether a fetch error allows serving stale data (default: provider unavailable) */
+  serveStaleOn?: (error: unknown) => boolean;
+  /** Called when a background refresh fails */
+  onRefreshError?: (error: unknown) => void;
+}
+
+/**
+ * Cache-through result
+ */
+export interface CacheThroughResult<T> {
+  value: T;
+  /** Whether the value came from the cache */
+  cached: boolean;
+  /** Whether the value is past its TTL (revalidating, or the provider is down) */
+  stale: boolean;
+}
+
+/**
+ * Check if an error means the provider is unavailable
+ */
+export function isProviderUnavailable(error: unknown): boolean {
+  return (error instanceof ProviderError && error.isRetryable) || error instanceof TimeoutError;
+}
+
+/**
+ * Cache-through layer over a cache
+ */
+export class CacheThrough {
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly cache: Cache) {}
+
+  /**
+   * Get a value from the cache, fetching and caching it when needed
+   * @throws the fetch error when there is no stale value to fall back to
+   */
+  async get<T>(
+    key: string,
+    fetch: () => Promise<T>,
+    options: CacheThroughOptions<T>
+  ): Promise<CacheThroughResult<T>> {
+    const entry = await this.read<T>(key);
+    const now = Date.now();
+
+    if (entry && now < entry.freshUntil) {
+      return { value: entry.value, cached: true, stale: false };
+    }
+
+    if (entry && now < entry.freshUntil + (options.graceMs ?? DEFAULT_GRACE_MS)) {
+      this.refresh(key, fetch, options).catch((error: unknown) => options.onRefreshError?.(error));
+      return { value: entry.value, cached: true, stale: true };
+    }
+
+    try {
+      return { value: await this.refresh(key, fetch, options), cached: false, stale: false };
+    } catch (error) {
+      // Entries are only kept for the stale-if-error window, see write()
+      if (entry && (options.serveStaleOn ?? isProviderUnavailable)(error)) {
+        return { value: entry.value, cached: true, stale: true };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch and cache a value, joining the fetch in flight for the key
+   */
+  private refresh<T>(
+    key: string,
+    fetch: () => Promise<T>,
+    options: CacheThroughOptions<T>
+  ): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const request = (async () => {
+      try {
+        const value = await fetch();
+        if (options.shouldCache?.(value) ?? true) {
+          await this.write(key, value, options);
+        }
+        return value;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, request);
+
+    return request;
+  }
+
+  /**
+   * Read an entry (undefined on a miss, an unrecognized entry or a cache error)
+   */
+  private async read<T>(key: string): Promise<CacheThroughEntry<T> | undefined> {
+    try {
+      const entry = await this.cache.get<CacheThroughEntry<T>>(key);
+      return entry && typeof entry.freshUntil === 'number' && 'value' in entry
+        ? entry
+        : undefined;
+    } catch {
+      // Cache errors are non-fatal
+      return undefined;
+    }
+  }
+
+  /**
+   * Write an entry, kept past its TTL for the grace and stale-if-error windows
+   */
+  private async write<T>(key: string, value: T, options: CacheThroughOptions<T>): Promise<void> {
+    const graceMs = options.graceMs ?? DEFAULT_GRACE_MS;
+    const staleIfErrorMs = options.staleIfErrorMs ?? Math.max(graceMs, DEFAULT_STALE_IF_ERROR_MS);
+    const entry: CacheThroughEntry<T> = { value, freshUntil: Date.now() + options.ttlMs };
+
+    try {
+      await this.cache.set(
+        key,
+        entry,
+        options.ttlMs + Math.max(graceMs, staleIfErrorMs),
+        options.tags?.(value)
+      );
+    } catch {
+      // Cache errors are non-fatal
+    }
+  }
+}
+
+/**
+ * Create a cache-through layer
+ */
+export function createCacheThrough(cache: Cache): CacheThrough {
+  return new CacheThrough(cache);
+}
@@ -0,0 +1,30 @@
+/**
+ * Compressed cache values
+ * Large texts are stored gzip-compressed and base64-encoded so that every
+ * cache backend can keep them as JSON
+ */
+
+import { gzipSync, gunzipSync } from 'node:zlib';
+
+/**
+ * Compressed text
+ */
+export interface CompressedText {
+  encoding: 'gzip';
+  /** Base64-encoded gzip data */
+  data: string;
+}
+
+/**
+ * Compress text for caching
+ */
+export function compressText(text: string): CompressedText {
+  return { encoding: 'gzip', data: gzipSync(text).toString('base64') };
+}
+
+/**
+ * Decompress cached text
+ */
+export function decompressText(compressed: CompressedText): string {
+  return gunzipSync(Buffer.from(compressed.data, 'base64')).toString('utf8');
+}
@@ -5,16 +5,51 @@
 export * from './types.js';
 export { MemoryCache, createMemoryCache } from './memory-cache.js';
 export { RedisCache, createRedisCache, isRedisConfigured } from './redis-cache.js';
+export { SqliteCache, createSqliteCache, type SqliteCacheConfig } from './sqlite-cache.js';
+export {
+  CacheThrough,
+  createCacheThrough,
+  isProviderUnavailable,
+  type CacheThroughOptions,
+  type CacheThroughResult,
+} from './cache-through.js';
+export { compressText, decompressText, type CompressedText } from './compression.js';
+export { providerTag, judgmentTag } from './tags.js';
 
 import type { Cache, CacheConfig } from './types.js';
+import type { CacheType } from '../config/defaults.js';
 import { createMemoryCache } from './memory-cache.js';
 import { createRedisCache, isRedisConfigured } from './redis-cache.js';
+import { createSqliteCache, type SqliteCacheConfig } from './sqlite-cache.js';
 
 /**
- * Create appropriate cache based on environment
- * Uses Redis if REDIS_URL is set, otherwise falls back to memory cache
+ * Cache backend selection
  */
-export function createCache(config?: CacheConfig): Cache {
+export interface CacheBackend {
+  type: CacheType;
+  /** Required for the redis backend */
+  redisUrl?: string;
+  /** Database file, required for the sqlite backend */
+  sqlitePath?: string;
+  /** Receives sqlite backend errors */
+  onError?: SqliteCacheConfig['onError'];
+}
+
+/**
+ * Create appropriate cache for a backend
+ * Without a backend, uses Redis if REDIS_URL is set, otherwise the memory cache
+ */
+export function createCache(config?: CacheConfig, backend?: CacheBackend): Cache {
+  if (backend?.type === 'redis' && backend.redisUrl) {
+    return createRedisCache(backend.redisUrl, config);
+  }
+  if (backend?.type === 'sqlite' && backend.sqlitePath) {
+    return createSqliteCache(backend.sqlitePath, config && { ...config, onError: backend.onError });
+  }
+  if (backend) {
+    return createMemoryCache(config);
+  }
+
   if (isRedisConfigured()) {
     const redisUrl = process.env.REDIS_URL!;
     return createRedisCache(redisUrl, config);
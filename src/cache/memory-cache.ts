@@ -5,13 +5,30 @@
 import type { Cache, CacheEntry, CacheConfig, CacheStats } from './types.js';
 
 /**
- * Memory cache with automatic expiration
+ * Stored entry with its serialized size
+ */
+interface MemoryCacheEntry extends CacheEntry<unknown> {
+  /** Serialized size in bytes (0 without a maxBytes budget) */
+  size: number;
+  tags?: string[];
+}
+
+/**
+ * Memory cache with automatic expiration and LRU eviction
+ *
+ * Entries are kept in recency order: reads move an entry to the end, and
+ * the least recently used entries are evicted first when more than
+ * maxEntries entries or maxBytes of serialized values are stored.
  */
 export class MemoryCache implements Cache {
-  private readonly cache: Map<string, CacheEntry<unknown>>;
+  private readonly cache: Map<string, MemoryCacheEntry>;
+  /** Full keys by tag */
+  private readonly tagIndex = new Map<string, Set<string>>();
   private readonly config: Required<CacheConfig>;
   private hits = 0;
   private misses = 0;
+  private evictions = 0;
+  private bytes = 0;
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
   constructor(config: CacheConfig = { defaultTtlMs: 60000 }) {
@@ -19,6 +36,7 @@ export class MemoryCache implements Cache {
     this.config = {
       defaultTtlMs: config.defaultTtlMs,
       maxEntries: config.maxEntries ?? 10000,
+      maxBytes: config.maxBytes ?? Infinity,
       keyPrefix: config.keyPrefix ?? '',
     };
 
@@ -41,19 +59,52 @@ export class MemoryCache implements Cache {
   }
 
   /**
-   * Evict oldest entries if over capacity
+   * Remove an entry, keeping the byte total and tag index in sync
    */
-  private evictIfNeeded(): void {
-    if (this.cache.size <= this.config.maxEntries) {
-      return;
+  private remove(fullKey: string): boolean {
+    const entry = this.cache.get(fullKey);
+    if (!entry) {
+      return false;
+    }
+    this.cache.delete(fullKey);
+    this.bytes -= entry.size;
+
+    for (const tag of entry.tags ?? []) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(fullKey);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
     }
+    return true;
+  }
 
-    // Evict oldest entries (first in map = oldest)
-    const toEvict = this.cache.size - this.config.maxEntries;
-    const keys = Array.from(this.cache.keys()).slice(0, toEvict);
+  /**
+   * Evict least recently used entries while over capacity
+   */
+  private evictIfNeeded(): void {
+    // First in map = least recently used
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= this.config.maxEntries && this.bytes <= this.config.maxBytes) {
+        return;
+      }
+      this.remove(key);
+      this.evictions++;
+    }
+  }
 
-    for (const key of keys) {
-      this.cache.delete(key);
+  /**
+   * Serialized size of a value, measured only under a maxBytes budget
+   * @returns undefined when the value cannot be serialized
+   */
+  private sizeOf(value: unknown): number | undefined {
+    if (this.config.maxBytes === Infinity) {
+      return 0;
+    }
+    try {
+      return Buffer.byteLength(JSON.stringify(value) ?? '');
+    } catch {
+      return undefined;
     }
   }
 
@@ -64,14 +115,14 @@ export class MemoryCache implements Cache {
     const now = Date.now();
     for (const [key, entry] of this.cache.entries()) {
       if (now > entry.expiresAt) {
-        this.cache.delete(key);
+        this.remove(key);
       }
     }
   }
 
   async get<T>(key: string): Promise<T | undefined> {
     const fullKey = this.buildKey(key);
-    const entry = this.cache.get(fullKey) as CacheEntry<T> | undefined;
+    const entry = this.cache.get(fullKey);
 
     if (!entry) {
       this.misses++;
@@ -79,33 +130,52 @@ export class MemoryCache implements Cache {
     }
 
     if (this.isExpired(entry)) {
-      this.cache.delete(fullKey);
+      this.remove(fullKey);
       this.misses++;
       return undefined;
     }
 
+    // Move to the most recently used end
+    this.cache.delete(fullKey);
+    this.cache.set(fullKey, entry);
+
     this.hits++;
-    return entry.value;
+    return entry.value as T;
   }
 
-  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+  async set<T>(key: string, value: T, ttlMs?: number, tags?: string[]): Promise<void> {
     const fullKey = this.buildKey(key);
     const ttl = ttlMs ?? this.config.defaultTtlMs;
     const now = Date.now();
 
-    const entry: CacheEntry<T> = {
+    // Replacing re-inserts the key at the most recently used end
+    this.remove(fullKey);
+
+    // Values that cannot be measured or exceed the whole budget are not stored
+    const size = this.sizeOf(value);
+    if (size === undefined || size > this.config.maxBytes) {
+      return;
+    }
+
+    this.cache.set(fullKey, {
       value,
       expiresAt: now + ttl,
       createdAt: now,
-    };
-
-    this.cache.set(fullKey, entry);
+      size,
+      ...(tags?.length && { tags }),
+    });
+    this.bytes += size;
+    for (const tag of tags ?? []) {
+      const keys = this.tagIndex.get(tag) ?? new Set<string>();
+      keys.add(fullKey);
+      this.tagIndex.set(tag, keys);
+    }
     this.evictIfNeeded();
   }
 
   async delete(key: string): Promise<boolean> {
     const fullKey = this.buildKey(key);
-    return this.cache.delete(fullKey);
+    return this.remove(fullKey);
   }
 
   async has(key: string): Promise<boolean> {
@@ -117,17 +187,41 @@ export class MemoryCache implements Cache {
     }
 
     if (this.isExpired(entry)) {
-      this.cache.delete(fullKey);
+      this.remove(fullKey);
       return false;
     }
 
     return true;
   }
 
+  async invalidateTag(tag: string): Promise<number> {
+    let deleted = 0;
+    for (const fullKey of [...(this.tagIndex.get(tag) ?? [])]) {
+      if (this.remove(fullKey)) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async invalidatePrefix(prefix: string): Promise<number> {
+    const fullPrefix = this.buildKey(prefix);
+    let deleted = 0;
+    for (const fullKey of [...this.cache.keys()]) {
+      if (fullKey.startsWith(fullPrefix) && this.remove(fullKey)) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   async clear(): Promise<void> {
     this.cache.clear();
+    this.tagIndex.clear();
+    this.bytes = 0;
     this.hits = 0;
     this.misses = 0;
+    this.evictions = 0;
   }
 
   stats(): CacheStats {
@@ -137,6 +231,7 @@ export class MemoryCache implements Cache {
       misses: this.misses,
       size: this.cache.size,
       hitRate: total > 0 ? this.hits / total : 0,
+      evictions: this.evictions,
     };
   }
 
@@ -146,6 +241,8 @@ export class MemoryCache implements Cache {
       this.cleanupInterval = null;
     }
     this.cache.clear();
+    this.tagIndex.clear();
+    this.bytes = 0;
   }
 }
 
@@ -9,15 +9,40 @@ import type { Cache, CacheConfig, CacheStats } from './types.js';
 type RedisClient = {
   get(key: string): Promise<string | null>;
   set(key: string, value: string, mode: string, ttl: number): Promise<unknown>;
-  del(key: string): Promise<number>;
+  del(...keys: string[]): Promise<number>;
   exists(key: string): Promise<number>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  ttl(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+  scan(
+    cursor: string,
+    matchOption: 'MATCH',
+    pattern: string,
+    countOption: 'COUNT',
+    count: number
+  ): Promise<[string, string[]]>;
   flushdb(): Promise<string>;
   dbsize(): Promise<number>;
   quit(): Promise<string>;
 };
 
+/** Keys examined per SCAN call */
+const SCAN_BATCH = 100;
+
+/**
+ * Escape glob characters for a SCAN pattern
+ */
+function escapePattern(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
 /**
  * Redis cache with TTL support
+ *
+ * Tags are Redis sets of full keys, kept at least as long as their entries.
+ * They live outside the entry namespace, so prefix invalidation never
+ * matches them.
  */
 export class RedisCache implements Cache {
   private client: RedisClient | null = null;
@@ -33,6 +58,7 @@ export class RedisCache implements Cache {
     this.config = {
       defaultTtlMs: config.defaultTtlMs,
       maxEntries: config.maxEntries ?? 100000,
+      maxBytes: config.maxBytes ?? Infinity,
       keyPrefix: config.keyPrefix ?? 'kio',
     };
   }
@@ -60,6 +86,14 @@ export class RedisCache implements Cache {
     return `${this.config.keyPrefix}:${key}`;
   }
 
+  /**
+   * Build the key of the set holding a tag's keys
+   * `#` instead of `:` keeps it out of the `${keyPrefix}:*` entry keys.
+   */
+  private buildTagKey(tag: string): string {
+    return `${this.config.keyPrefix}#tag:${tag}`;
+  }
+
   async get<T>(key: string): Promise<T | undefined> {
     try {
       const client = await this.ensureConnected();
@@ -79,7 +113,7 @@ export class RedisCache implements Cache {
     }
   }
 
-  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+  async set<T>(key: string, value: T, ttlMs?: number, tags?: string[]): Promise<void> {
     try {
       const client = await this.ensureConnected();
       const fullKey = this.buildKey(key);
@@ -87,6 +121,15 @@ export class RedisCache implements Cache {
       const ttlSeconds = Math.ceil(ttl / 1000);
 
       await client.set(fullKey, JSON.stringify(value), 'EX', ttlSeconds);
+
+      for (const tag of tags ?? []) {
+        const tagKey = this.buildTagKey(tag);
+        await client.sadd(tagKey, fullKey);
+        // Only extend the set's TTL (-1: no TTL yet)
+        if ((await client.ttl(tagKey)) < ttlSeconds) {
+          await client.expire(tagKey, ttlSeconds);
+        }
+      }
     } catch {
       // Silently fail - cache is optional
     }
@@ -114,6 +157,38 @@ export class RedisCache implements Cache {
     }
   }
 
+  async invalidateTag(tag: string): Promise<number> {
+    try {
+      const client = await this.ensureConnected();
+      const tagKey = this.buildTagKey(tag);
+      const keys = await client.smembers(tagKey);
+      const deleted = keys.length > 0 ? await client.del(...keys) : 0;
+      await client.del(tagKey);
+      return deleted;
+    } catch {
+      return 0;
+    }
+  }
+
+  async invalidatePrefix(prefix: string): Promise<number> {
+    try {
+      const client = await this.ensureConnected();
+      const pattern = `${escapePattern(this.buildKey(prefix))}*`;
+      let cursor = '0';
+      let deleted = 0;
+      do {
+        const [next, keys] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_BATCH);
+        if (keys.length > 0) {
+          deleted += await client.del(...keys);
+        }
+        cursor = next;
+      } while (cursor !== '0');
+      return deleted;
+    } catch {
+      return 0;
+    }
+  }
+
   async clear(): Promise<void> {
     try {
       const client = await this.ensureConnected();
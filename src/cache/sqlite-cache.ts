@@ -0,0 +1,397 @@
+/**
+ * SQLite cache implementation
+ * Optional - persists entries in a single database file across restarts
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { Database } from 'better-sqlite3';
+import type { Cache, CacheConfig, CacheStats } from './types.js';
+
+/** Default size bound: 256 MiB of serialized values */
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+/** Entries evicted per batch */
+const EVICTION_BATCH = 100;
+
+/** Interval between purges of expired entries: 5 minutes */
+const PURGE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * SQLite cache configuration
+ */
+export interface SqliteCacheConfig extends CacheConfig {
+  /** Called with database errors; the failed operation then behaves as a miss */
+  onError?: (error: unknown, operation: string) => void;
+}
+
+/**
+ * Entry count and serialized size of the database file
+ */
+interface Totals {
+  count: number;
+  bytes: number;
+}
+
+/**
+ * Stored entry row
+ */
+interface CacheRow {
+  value: string;
+  expires_at: number;
+}
+
+/**
+ * SQLite cache with TTL support and size-bounded eviction
+ *
+ * When more than maxEntries entries or maxBytes of serialized values are
+ * stored, expired entries are removed first, then the least recently read.
+ * Totals are kept in memory and recounted when expired entries are purged,
+ * every few minutes.
+ */
+export class SqliteCache implements Cache {
+  private db: Database | null = null;
+  private readonly config: Required<CacheConfig>;
+  private readonly onError?: SqliteCacheConfig['onError'];
+  private totals: Totals = { count: 0, bytes: 0 };
+  private lastPurgeAt = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly path: string,
+    config: SqliteCacheConfig = { defaultTtlMs: 60000 }
+  ) {
+    this.config = {
+      defaultTtlMs: config.defaultTtlMs,
+      maxEntries: config.maxEntries ?? 100000,
+      maxBytes: config.maxBytes ?? DEFAULT_MAX_BYTES,
+      keyPrefix: config.keyPrefix ?? '',
+    };
+    this.onError = config.onError;
+  }
+
+  /**
+   * Lazy open the database file, creating the table on first use
+   */
+  private async ensureOpen(): Promise<Database> {
+    if (this.db) {
+      return this.db;
+    }
+
+    // Dynamic import to avoid loading the native module if not using SQLite
+    const { default: Sqlite } = await import('better-sqlite3');
+    if (this.path !== ':memory:') {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+
+    const db = new Sqlite(this.path);
+    // Tags are deleted with their entries
+    db.pragma('foreign_keys = ON');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        accessed_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS cache_entries_expires_at ON cache_entries (expires_at);
+      CREATE INDEX IF NOT EXISTS cache_entries_accessed_at ON cache_entries (accessed_at);
+      CREATE TABLE IF NOT EXISTS cache_tags (
+        tag TEXT NOT NULL,
+        key TEXT NOT NULL REFERENCES cache_entries (key) ON DELETE CASCADE,
+        PRIMARY KEY (tag, key)
+      );
+      CREATE INDEX IF NOT EXISTS cache_tags_key ON cache_tags (key);
+    `);
+    this.purgeExpired(db);
+    this.db = db;
+
+    return db;
+  }
+
+  /**
+   * Build full cache key with prefix
+   */
+  private buildKey(key: string): string {
+    return this.config.keyPrefix ? `${this.config.keyPrefix}:${key}` : key;
+  }
+
+  /**
+   * SQL condition and parameter restricting a query to this cache's prefix
+   */
+  private prefixFilter(): { where: string; params: (string | number)[] } {
+    if (!this.config.keyPrefix) {
+      return { where: '1 = 1', params: [] };
+    }
+    // substr() instead of LIKE so that % and _ in prefixes match literally
+    const prefix = `${this.config.keyPrefix}:`;
+    return { where: 'substr(key, 1, ?) = ?', params: [prefix.length, prefix] };
+  }
+
+  /**
+   * Report a database error to the configured handler
+   */
+  private report(error: unknown, operation: string): void {
+    this.onError?.(error, operation);
+  }
+
+  /**
+   * Subtract deleted rows from the totals
+   */
+  private forget(rows: { size: number }[]): void {
+    this.totals.count -= rows.length;
+    for (const row of rows) {
+      this.totals.bytes -= row.size;
+    }
+  }
+
+  /**
+   * Whether the database file is over its entry or byte bound
+   */
+  private isOverBounds(): boolean {
+    return this.totals.count > this.config.maxEntries || this.totals.bytes > this.config.maxBytes;
+  }
+
+  /**
+   * Remove expired entries and recount the totals
+   * Recounting also picks up entries written by other caches sharing the file
+   */
+  private purgeExpired(db: Database): void {
+    const now = Date.now();
+    db.prepare('DELETE FROM cache_entries WHERE expires_at <= ?').run(now);
+    this.totals = db
+      .prepare('SELECT COUNT(*) AS count, COALESCE(SUM(size), 0) AS bytes FROM cache_entries')
+      .get() as Totals;
+    this.lastPurgeAt = now;
+  }
+
+  /**
+   * Purge expired entries when due or when over bounds, then evict least
+   * recently read entries until the database file is within its bounds
+   */
+  private evictIfNeeded(db: Database): void {
+    if (Date.now() - this.lastPurgeAt >= PURGE_INTERVAL_MS) {
+      this.purgeExpired(db);
+    } else if (this.isOverBounds()) {
+      this.forget(
+        db
+          .prepare('DELETE FROM cache_entries WHERE expires_at <= ? RETURNING size')
+          .all(Date.now()) as { size: number }[]
+      );
+    }
+    if (!this.isOverBounds()) {
+      return;
+    }
+
+    const oldest = db.prepare(
+      `SELECT key, size FROM cache_entries ORDER BY accessed_at ASC LIMIT ${EVICTION_BATCH}`
+    );
+    const remove = db.prepare('DELETE FROM cache_entries WHERE key = ?');
+    const evict = db.transaction(() => {
+      while (this.isOverBounds()) {
+        const rows = oldest.all() as { key: string; size: number }[];
+        for (const row of rows) {
+          if (!this.isOverBounds()) {
+            break;
+          }
+          remove.run(row.key);
+          this.evictions++;
+          this.forget([row]);
+        }
+        if (rows.length < EVICTION_BATCH) {
+          break;
+        }
+      }
+    });
+    evict();
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const db = await this.ensureOpen();
+      const fullKey = this.buildKey(key);
+      const row = db
+        .prepare('SELECT value, expires_at FROM cache_entries WHERE key = ?')
+        .get(fullKey) as CacheRow | undefined;
+
+      if (!row) {
+        this.misses++;
+        return undefined;
+      }
+
+      const now = Date.now();
+      if (now >= row.expires_at) {
+        this.forget(
+          db.prepare('DELETE FROM cache_entries WHERE key = ? RETURNING size').all(fullKey) as {
+            size: number;
+          }[]
+        );
+        this.misses++;
+        return undefined;
+      }
+
+      db.prepare('UPDATE cache_entries SET accessed_at = ? WHERE key = ?').run(now, fullKey);
+      this.hits++;
+      return JSON.parse(row.value) as T;
+    } catch (error) {
+      this.report(error, 'get');
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number, tags?: string[]): Promise<void> {
+    try {
+      const db = await this.ensureOpen();
+      const fullKey = this.buildKey(key);
+      const data = JSON.stringify(value);
+      const ttl = ttlMs ?? this.config.defaultTtlMs;
+      const now = Date.now();
+      const size = Buffer.byteLength(data);
+
+      // Replacing the entry also drops its previous tags
+      const previous = db.prepare('SELECT size FROM cache_entries WHERE key = ?');
+      const insertEntry = db.prepare(
+        `INSERT OR REPLACE INTO cache_entries
+           (key, value, size, expires_at, created_at, accessed_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      );
+      const insertTag = db.prepare('INSERT OR IGNORE INTO cache_tags (tag, key) VALUES (?, ?)');
+      db.transaction(() => {
+        const replaced = previous.get(fullKey) as { size: number } | undefined;
+        insertEntry.run(fullKey, data, size, now + ttl, now, now);
+        for (const tag of tags ?? []) {
+          insertTag.run(tag, fullKey);
+        }
+        if (replaced) {
+          this.forget([replaced]);
+        }
+        this.totals.count++;
+        this.totals.bytes += size;
+      })();
+      this.evictIfNeeded(db);
+    } catch (error) {
+      // The cache is optional, a failed write only loses the entry
+      this.report(error, 'set');
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const db = await this.ensureOpen();
+      const rows = db
+        .prepare('DELETE FROM cache_entries WHERE key = ? RETURNING size')
+        .all(this.buildKey(key)) as { size: number }[];
+      this.forget(rows);
+      return rows.length > 0;
+    } catch (error) {
+      this.report(error, 'delete');
+      return false;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      const db = await this.ensureOpen();
+      const row = db
+        .prepare('SELECT 1 FROM cache_entries WHERE key = ? AND expires_at > ?')
+        .get(this.buildKey(key), Date.now());
+      return row !== undefined;
+    } catch (error) {
+      this.report(error, 'has');
+      return false;
+    }
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    try {
+      const db = await this.ensureOpen();
+      const { where, params } = this.prefixFilter();
+      const rows = db
+        .prepare(
+          `DELETE FROM cache_entries
+           WHERE key IN (SELECT key FROM cache_tags WHERE tag = ?) AND ${where}
+           RETURNING size`
+        )
+        .all(tag, ...params) as { size: number }[];
+      this.forget(rows);
+      return rows.length;
+    } catch (error) {
+      this.report(error, 'invalidate_tag');
+      return 0;
+    }
+  }
+
+  async invalidatePrefix(prefix: string): Promise<number> {
+    try {
+      const db = await this.ensureOpen();
+      const fullPrefix = this.buildKey(prefix);
+      const rows = db
+        .prepare('DELETE FROM cache_entries WHERE substr(key, 1, ?) = ? RETURNING size')
+        .all(fullPrefix.length, fullPrefix) as { size: number }[];
+      this.forget(rows);
+      return rows.length;
+    } catch (error) {
+      this.report(error, 'invalidate_prefix');
+      return 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const db = await this.ensureOpen();
+      const { where, params } = this.prefixFilter();
+      this.forget(
+        db.prepare(`DELETE FROM cache_entries WHERE ${where} RETURNING size`).all(...params) as {
+          size: number;
+        }[]
+      );
+      this.hits = 0;
+      this.misses = 0;
+      this.evictions = 0;
+    } catch (error) {
+      this.report(error, 'clear');
+    }
+  }
+
+  stats(): CacheStats {
+    const total = this.hits + this.misses;
+    let size = 0;
+    if (this.db) {
+      const { where, params } = this.prefixFilter();
+      const row = this.db
+        .prepare(`SELECT COUNT(*) AS count FROM cache_entries WHERE ${where} AND expires_at > ?`)
+        .get(...params, Date.now()) as { count: number };
+      size = row.count;
+    }
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size,
+      hitRate: total > 0 ? this.hits / total : 0,
+      evictions: this.evictions,
+    };
+  }
+
+  close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Create a SQLite cache instance
+ * @param path Database file path
+ * @param config Cache configuration
+ */
+export function createSqliteCache(path: string, config?: SqliteCacheConfig): SqliteCache {
+  return new SqliteCache(path, config);
+}
@@ -0,0 +1,18 @@
+/**
+ * Cache tags
+ * Naming shared by the tools that tag entries and kio_cache_admin
+ */
+
+/**
+ * Tag of every entry built from a provider's data
+ */
+export function providerTag(provider: string): string {
+  return `provider:${provider}`;
+}
+
+/**
+ * Tag of every entry built from one provider document
+ */
+export function judgmentTag(provider: string, providerId: string): string {
+  return `judgment:${provider}:${providerId}`;
+}
@@ -26,8 +26,9 @@ export interface Cache {
    * @param key Cache key
    * @param value Value to cache
    * @param ttlMs Time-to-live in milliseconds
+   * @param tags Tags for invalidateTag (e.g. provider:saos, judgment:saos:123)
    */
-  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  set<T>(key: string, value: T, ttlMs: number, tags?: string[]): Promise<void>;
 
   /**
    * Delete a value from cache
@@ -39,6 +40,18 @@ export interface Cache {
    */
   has(key: string): Promise<boolean>;
 
+  /**
+   * Delete every entry set with a tag
+   * @returns Number of deleted entries
+   */
+  invalidateTag(tag: string): Promise<number>;
+
+  /**
+   * Delete every entry whose key starts with a prefix
+   * @returns Number of deleted entries
+   */
+  invalidatePrefix(prefix: string): Promise<number>;
+
   /**
    * Clear all entries from cache
    */
@@ -63,6 +76,8 @@ export interface CacheStats {
   misses: number;
   size: number;
   hitRate: number;
+  /** Entries evicted to stay within maxEntries / maxBytes (memory and SQLite caches) */
+  evictions?: number;
 }
 
 /**
@@ -71,8 +86,10 @@ export interface CacheStats {
 export interface CacheConfig {
   /** Default TTL in milliseconds */
   defaultTtlMs: number;
-  /** Maximum entries (for memory cache) */
+  /** Maximum entries (for memory and SQLite caches) */
   maxEntries?: number;
+  /** Maximum total size of serialized values in bytes (for memory and SQLite caches) */
+  maxBytes?: number;
   /** Key prefix for namespacing */
   keyPrefix?: string;
 }
@@ -87,4 +104,6 @@ export const CacheTTL = {
   JUDGMENT: 7 * 24 * 60 * 60 * 1000,
   /** Health check: 1 minute */
   HEALTH: 60 * 1000,
+  /** Cross-provider identity mappings: 30 days */
+  IDENTITY: 30 * 24 * 60 * 60 * 1000,
 } as const;
@@ -0,0 +1,61 @@
+/**
+ * Configuration CLI flags
+ * Shared by the stdio and HTTP entrypoints
+ */
+
+import { parseArgs } from 'node:util';
+import { ConfigError } from './errors.js';
+import { coerceConfigValue, validateConfigInput, type KioConfigInput } from './schema.js';
+import type { LoadConfigOptions } from './env.js';
+
+/** CLI flags and the config keys they set */
+const CONFIG_FLAGS = {
+  'log-level': 'logLevel',
+  'cache-type': 'cacheType',
+  'redis-url': 'redisUrl',
+  'sqlite-path': 'sqlitePath',
+  'local-corpus-dir': 'localCorpusDir',
+  'request-timeout': 'requestTimeoutMs',
+  port: 'httpPort',
+  host: 'httpHost',
+} as const satisfies Record<string, keyof KioConfigInput>;
+
+/**
+ * Parse configuration flags into loadConfig options
+ * @throws ConfigError on unknown flags or invalid values
+ */
+export function parseConfigArgs(args: string[]): LoadConfigOptions {
+  let values: Record<string, string | undefined>;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        config: { type: 'string' },
+        ...Object.fromEntries(
+          Object.keys(CONFIG_FLAGS).map((flag) => [flag, { type: 'string' as const }])
+        ),
+      },
+    }));
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error));
+  }
+
+  const overrides: Record<string, unknown> = {};
+  const flagOf = new Map<string, string>();
+  for (const [flag, key] of Object.entries(CONFIG_FLAGS)) {
+    const value = values[flag];
+    if (value !== undefined) {
+      overrides[key] = coerceConfigValue(`--${flag}`, key, value);
+      flagOf.set(key, `--${flag}`);
+    }
+  }
+
+  return {
+    configFile: values['config'],
+    overrides: validateConfigInput(
+      overrides,
+      'command line flags',
+      (path) => flagOf.get(String(path[0])) ?? path.join('.')
+    ),
+  };
+}
@@ -14,6 +14,7 @@ export const defaults = {
   cacheType: 'memory' as const,
   searchCacheTtlMs: 15 * 60 * 1000, // 15 minutes
   judgmentCacheTtlMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+  cacheAdmin: false, // kio_cache_admin tool
 
   // Rate limiting
   searchRateLimitPerMinute: 60,
@@ -31,8 +32,8 @@ export const defaults = {
 
   // HTTP Server
   httpPort: 3000,
-  httpHost: '127.0.0.1',
+  httpHost: '0.0.0.0',
 } as const;
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
-export type CacheType = 'memory' | 'redis';
+export type CacheType = 'memory' | 'redis' | 'sqlite';
@@ -1,8 +1,20 @@
 /**
  * Environment variable parsing and configuration loading
+ * Sources are layered: defaults < config file < environment < CLI flags
  */
 
 import { defaults, type LogLevel, type CacheType } from './defaults.js';
+import { ConfigError } from './errors.js';
+import { findConfigFile, readConfigFile } from './file.js';
+import {
+  coerceConfigValue,
+  validateConfigInput,
+  type KioConfigInput,
+  type ProvidersConfig,
+  type ToolRateLimits,
+} from './schema.js';
+
+export { ConfigError } from './errors.js';
 
 export interface KioConfig {
   // Server
@@ -15,17 +27,29 @@ export interface KioConfig {
   // Cache
   cacheType: CacheType;
   redisUrl?: string;
+  sqlitePath?: string;
+  /** Serialized size budget of the memory and SQLite caches */
+  cacheMaxBytes?: number;
   searchCacheTtlMs: number;
   judgmentCacheTtlMs: number;
+  /** Whether the kio_cache_admin tool is registered */
+  cacheAdmin: boolean;
 
   // Rate limiting
   searchRateLimitPerMinute: number;
   judgmentRateLimitPerMinute: number;
+  toolRateLimits: ToolRateLimits;
 
   // Provider URLs
   saosBaseUrl: string;
   uzpBaseUrl: string;
 
+  // Per-provider settings (enabled, base URL, timeout, weight)
+  providers: ProvidersConfig;
+
+  // Local corpus (offline provider)
+  localCorpusDir?: string;
+
   // HTTP
   requestTimeoutMs: number;
 
@@ -37,97 +61,173 @@ export interface KioConfig {
   httpHost: string;
 }
 
-function getEnvString(key: string, defaultValue: string): string {
-  return process.env[key] ?? defaultValue;
+/**
+ * Configuration loading options
+ */
+export interface LoadConfigOptions {
+  /** Config file path (defaults to MCP_KIO_CONFIG, then a config file in cwd) */
+  configFile?: string;
+  /** Values from CLI flags, taking precedence over every other source */
+  overrides?: KioConfigInput;
+  /** Directory searched for mcp-kio.config.{json,yaml,yml} */
+  cwd?: string;
 }
 
-function getEnvInt(key: string, defaultValue: number): number {
-  const value = process.env[key];
-  if (value === undefined) return defaultValue;
-  const parsed = parseInt(value, 10);
-  return isNaN(parsed) ? defaultValue : parsed;
-}
+/** Environment variables and the config keys they set */
+const ENV_VARS = {
+  MCP_KIO_SERVER_NAME: 'serverName',
+  MCP_KIO_SERVER_VERSION: 'serverVersion',
+  MCP_KIO_LOG_LEVEL: 'logLevel',
+  MCP_KIO_CACHE_TYPE: 'cacheType',
+  MCP_KIO_REDIS_URL: 'redisUrl',
+  MCP_KIO_SQLITE_PATH: 'sqlitePath',
+  MCP_KIO_CACHE_MAX_BYTES: 'cacheMaxBytes',
+  MCP_KIO_SEARCH_CACHE_TTL_MS: 'searchCacheTtlMs',
+  MCP_KIO_JUDGMENT_CACHE_TTL_MS: 'judgmentCacheTtlMs',
+  MCP_KIO_CACHE_ADMIN: 'cacheAdmin',
+  MCP_KIO_SEARCH_RATE_LIMIT: 'searchRateLimitPerMinute',
+  MCP_KIO_JUDGMENT_RATE_LIMIT: 'judgmentRateLimitPerMinute',
+  MCP_KIO_SAOS_BASE_URL: 'saosBaseUrl',
+  MCP_KIO_UZP_BASE_URL: 'uzpBaseUrl',
+  MCP_KIO_LOCAL_CORPUS_DIR: 'localCorpusDir',
+  MCP_KIO_REQUEST_TIMEOUT_MS: 'requestTimeoutMs',
+  MCP_KIO_HTTP_PORT: 'httpPort',
+  MCP_KIO_HTTP_HOST: 'httpHost',
+} as const satisfies Record<string, keyof KioConfigInput>;
+
+/** Older variables, read when their MCP_KIO_ equivalent is not set */
+const LEGACY_ENV_VARS = {
+  PORT: 'httpPort',
+  HOST: 'httpHost',
+} as const satisfies Record<string, keyof KioConfigInput>;
 
-function getEnvLogLevel(key: string, defaultValue: LogLevel): LogLevel {
-  const value = process.env[key];
-  if (value === undefined) return defaultValue;
-  const normalized = value.toLowerCase();
-  if (['debug', 'info', 'warn', 'error'].includes(normalized)) {
-    return normalized as LogLevel;
+/**
+ * Read the configuration set through environment variables
+ * @throws ConfigError naming the offending variable
+ */
+function readEnvConfig(env: NodeJS.ProcessEnv): KioConfigInput {
+  const input: Record<string, unknown> = {};
+  const variableOf = new Map<string, string>();
+
+  for (const [name, key] of [...Object.entries(LEGACY_ENV_VARS), ...Object.entries(ENV_VARS)]) {
+    const value = env[name];
+    if (value !== undefined && value !== '') {
+      input[key] = coerceConfigValue(name, key, value);
+      variableOf.set(key, name);
+    }
   }
-  return defaultValue;
+
+  // REDIS_URL is still read for older deployments, see loadConfig for the cache type
+  const legacyRedisUrl = env['REDIS_URL'];
+  if (legacyRedisUrl && input['redisUrl'] === undefined) {
+    input['redisUrl'] = legacyRedisUrl;
+    variableOf.set('redisUrl', 'REDIS_URL');
+  }
+
+  return validateConfigInput(
+    input,
+    'environment',
+    (path) => variableOf.get(String(path[0])) ?? path.join('.')
+  );
 }
 
-function getEnvCacheType(key: string, defaultValue: CacheType): CacheType {
-  const value = process.env[key];
-  if (value === undefined) return defaultValue;
-  const normalized = value.toLowerCase();
-  if (['memory', 'redis'].includes(normalized)) {
-    return normalized as CacheType;
+/**
+ * Merge configuration inputs; later inputs win, per-provider and
+ * per-tool settings are merged key by key
+ */
+function mergeConfigInputs(...inputs: KioConfigInput[]): KioConfigInput {
+  const merged: KioConfigInput = {};
+  for (const input of inputs) {
+    const providers: ProvidersConfig = { ...merged.providers };
+    for (const [name, settings] of Object.entries(input.providers ?? {})) {
+      const provider = name as keyof ProvidersConfig;
+      providers[provider] = { ...providers[provider], ...settings };
+    }
+
+    Object.assign(merged, input, {
+      providers,
+      toolRateLimits: { ...merged.toolRateLimits, ...input.toolRateLimits },
+    });
   }
-  return defaultValue;
+  return merged;
 }
 
 /**
- * Load configuration from environment variables with defaults
+ * Load configuration from a config file, environment variables and CLI
+ * flags over the defaults
+ * @throws ConfigError if any source holds an invalid value
  */
-export function loadConfig(): KioConfig {
-  const cacheType = getEnvCacheType('MCP_KIO_CACHE_TYPE', defaults.cacheType);
-  const redisUrl = process.env['MCP_KIO_REDIS_URL'];
+export function loadConfig(options: LoadConfigOptions = {}): KioConfig {
+  const env = process.env;
+  const configFile =
+    options.configFile ?? (env['MCP_KIO_CONFIG'] || findConfigFile(options.cwd ?? process.cwd()));
+
+  const input = mergeConfigInputs(
+    configFile ? readConfigFile(configFile) : {},
+    readEnvConfig(env),
+    options.overrides ?? {}
+  );
+
+  // REDIS_URL selects the Redis cache unless some source sets cacheType
+  const cacheType = input.cacheType ?? (env['REDIS_URL'] ? 'redis' : defaults.cacheType);
 
   // Validate Redis URL is provided when cache type is redis
-  if (cacheType === 'redis' && !redisUrl) {
+  if (cacheType === 'redis' && !input.redisUrl) {
+    throw new ConfigError(
+      'MCP_KIO_REDIS_URL must be set when MCP_KIO_CACHE_TYPE is "redis" ' +
+        '(redisUrl and cacheType in a config file)'
+    );
+  }
+
+  // Validate SQLite file path is provided when cache type is sqlite
+  if (cacheType === 'sqlite' && !input.sqlitePath) {
     throw new ConfigError(
-      'MCP_KIO_REDIS_URL must be set when MCP_KIO_CACHE_TYPE is "redis"'
+      'MCP_KIO_SQLITE_PATH must be set when MCP_KIO_CACHE_TYPE is "sqlite" ' +
+        '(sqlitePath and cacheType in a config file)'
     );
   }
 
   return {
     // Server
-    serverName: getEnvString('MCP_KIO_SERVER_NAME', defaults.serverName),
-    serverVersion: getEnvString('MCP_KIO_SERVER_VERSION', defaults.serverVersion),
+    serverName: input.serverName ?? defaults.serverName,
+    serverVersion: input.serverVersion ?? defaults.serverVersion,
 
     // Logging
-    logLevel: getEnvLogLevel('MCP_KIO_LOG_LEVEL', defaults.logLevel),
+    logLevel: input.logLevel ?? defaults.logLevel,
 
     // Cache
     cacheType,
-    redisUrl,
-    searchCacheTtlMs: getEnvInt('MCP_KIO_SEARCH_CACHE_TTL_MS', defaults.searchCacheTtlMs),
-    judgmentCacheTtlMs: getEnvInt('MCP_KIO_JUDGMENT_CACHE_TTL_MS', defaults.judgmentCacheTtlMs),
+    redisUrl: input.redisUrl,
+    sqlitePath: input.sqlitePath,
+    cacheMaxBytes: input.cacheMaxBytes,
+    searchCacheTtlMs: input.searchCacheTtlMs ?? defaults.searchCacheTtlMs,
+    judgmentCacheTtlMs: input.judgmentCacheTtlMs ?? defaults.judgmentCacheTtlMs,
+    cacheAdmin: input.cacheAdmin ?? defaults.cacheAdmin,
 
     // Rate limiting
-    searchRateLimitPerMinute: getEnvInt(
-      'MCP_KIO_SEARCH_RATE_LIMIT',
-      defaults.searchRateLimitPerMinute
-    ),
-    judgmentRateLimitPerMinute: getEnvInt(
-      'MCP_KIO_JUDGMENT_RATE_LIMIT',
-      defaults.judgmentRateLimitPerMinute
-    ),
+    searchRateLimitPerMinute: input.searchRateLimitPerMinute ?? defaults.searchRateLimitPerMinute,
+    judgmentRateLimitPerMinute:
+      input.judgmentRateLimitPerMinute ?? defaults.judgmentRateLimitPerMinute,
+    toolRateLimits: input.toolRateLimits ?? {},
 
     // Provider URLs
-    saosBaseUrl: getEnvString('MCP_KIO_SAOS_BASE_URL', defaults.saosBaseUrl),
-    uzpBaseUrl: getEnvString('MCP_KIO_UZP_BASE_URL', defaults.uzpBaseUrl),
+    saosBaseUrl: input.saosBaseUrl ?? defaults.saosBaseUrl,
+    uzpBaseUrl: input.uzpBaseUrl ?? defaults.uzpBaseUrl,
+
+    // Per-provider settings
+    providers: input.providers ?? {},
+
+    // Local corpus (offline provider)
+    localCorpusDir: input.localCorpusDir,
 
     // HTTP
-    requestTimeoutMs: getEnvInt('MCP_KIO_REQUEST_TIMEOUT_MS', defaults.requestTimeoutMs),
+    requestTimeoutMs: input.requestTimeoutMs ?? defaults.requestTimeoutMs,
 
     // Allowed domains
-    allowedDomains: [...defaults.allowedDomains],
+    allowedDomains: [...(input.allowedDomains ?? defaults.allowedDomains)],
 
     // HTTP Server
-    httpPort: getEnvInt('MCP_KIO_HTTP_PORT', defaults.httpPort),
-    httpHost: getEnvString('MCP_KIO_HTTP_HOST', defaults.httpHost),
+    httpPort: input.httpPort ?? defaults.httpPort,
+    httpHost: input.httpHost ?? defaults.httpHost,
   };
 }
-
-/**
- * Error thrown when configuration is invalid
- */
-export class ConfigError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ConfigError';
-  }
-}
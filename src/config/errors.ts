@@ -0,0 +1,13 @@
+/**
+ * Configuration errors
+ */
+
+/**
+ * Error thrown when configuration is invalid
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Configuration file loading (mcp-kio.config.json / .yaml)
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import yaml from 'js-yaml';
+import { ConfigError } from './errors.js';
+import { validateConfigInput, type KioConfigInput } from './schema.js';
+
+/** File names looked up in the working directory, in order */
+export const CONFIG_FILE_NAMES = ['mcp-kio.config.json', 'mcp-kio.config.yaml', 'mcp-kio.config.yml'];
+
+/**
+ * Find a config file in a directory
+ * @returns the file path, or undefined when there is none
+ */
+export function findConfigFile(directory: string): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => join(directory, name)).find((path) => existsSync(path));
+}
+
+/**
+ * Read and validate a config file (JSON, or YAML for .yaml/.yml)
+ * @throws ConfigError if the file cannot be read, parsed or validated
+ */
+export function readConfigFile(path: string): KioConfigInput {
+  const isYaml = /\.ya?ml$/i.test(path);
+  if (!isYaml && !/\.json$/i.test(path)) {
+    throw new ConfigError(`Config file ${path} must be .json, .yaml or .yml`);
+  }
+
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = isYaml ? yaml.load(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  // An empty YAML file is an empty configuration
+  return validateConfigInput(data ?? {}, `config file ${path}`);
+}
@@ -2,5 +2,16 @@
  * Configuration module exports
  */
 
-export { loadConfig, ConfigError, type KioConfig } from './env.js';
+export { loadConfig, ConfigError, type KioConfig, type LoadConfigOptions } from './env.js';
 export { defaults, type LogLevel, type CacheType } from './defaults.js';
+export {
+  KioConfigInputSchema,
+  ProviderSettingsSchema,
+  ToolRateLimitsSchema,
+  type KioConfigInput,
+  type ProviderSettings,
+  type ProvidersConfig,
+  type ToolRateLimits,
+} from './schema.js';
+export { CONFIG_FILE_NAMES, findConfigFile, readConfigFile } from './file.js';
+export { parseConfigArgs } from './args.js';
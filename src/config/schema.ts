@@ -0,0 +1,156 @@
+/**
+ * Configuration schema
+ * Validates every configuration source (file, environment, CLI flags)
+ */
+
+import { z } from 'zod';
+import { ConfigError } from './errors.js';
+
+const PositiveIntSchema = z.number().int().positive();
+const NonNegativeIntSchema = z.number().int().nonnegative();
+
+/**
+ * Per-provider settings
+ */
+export const ProviderSettingsSchema = z
+  .object({
+    /** Whether the provider is used at all */
+    enabled: z.boolean(),
+    /** Base URL (overrides saosBaseUrl / uzpBaseUrl) */
+    baseUrl: z.string().url(),
+    /** Request timeout (overrides requestTimeoutMs) */
+    timeoutMs: PositiveIntSchema,
+    /** Fallback priority; providers with a higher weight are tried first */
+    weight: z.number().nonnegative(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Per-provider settings by provider
+ */
+export const ProvidersConfigSchema = z
+  .object({
+    saos: ProviderSettingsSchema,
+    uzp: ProviderSettingsSchema,
+    local: ProviderSettingsSchema,
+  })
+  .partial()
+  .strict();
+
+/**
+ * Per-tool rate limits (requests per minute)
+ */
+export const ToolRateLimitsSchema = z
+  .object({
+    kio_search: PositiveIntSchema,
+    kio_get_judgment: PositiveIntSchema,
+    kio_get_source_links: PositiveIntSchema,
+    kio_health: PositiveIntSchema,
+  })
+  .partial()
+  .strict();
+
+/**
+ * Configuration input: any subset of KioConfig
+ */
+export const KioConfigInputSchema = z
+  .object({
+    serverName: z.string().min(1),
+    serverVersion: z.string().min(1),
+    logLevel: z.enum(['debug', 'info', 'warn', 'error']),
+    cacheType: z.enum(['memory', 'redis', 'sqlite']),
+    redisUrl: z.string().url(),
+    sqlitePath: z.string().min(1),
+    cacheMaxBytes: PositiveIntSchema,
+    searchCacheTtlMs: NonNegativeIntSchema,
+    judgmentCacheTtlMs: NonNegativeIntSchema,
+    cacheAdmin: z.boolean(),
+    searchRateLimitPerMinute: PositiveIntSchema,
+    judgmentRateLimitPerMinute: PositiveIntSchema,
+    toolRateLimits: ToolRateLimitsSchema,
+    saosBaseUrl: z.string().url(),
+    uzpBaseUrl: z.string().url(),
+    providers: ProvidersConfigSchema,
+    localCorpusDir: z.string().min(1),
+    requestTimeoutMs: PositiveIntSchema,
+    allowedDomains: z.array(z.string().min(1)),
+    httpPort: z.number().int().min(0).max(65535),
+    httpHost: z.string().min(1),
+  })
+  .partial()
+  .strict();
+
+export type ProviderSettings = z.infer<typeof ProviderSettingsSchema>;
+export type ProvidersConfig = z.infer<typeof ProvidersConfigSchema>;
+export type ToolRateLimits = z.infer<typeof ToolRateLimitsSchema>;
+export type KioConfigInput = z.infer<typeof KioConfigInputSchema>;
+
+/** Configuration keys holding integers (parsed from strings for env and CLI) */
+const INTEGER_KEYS: ReadonlySet<keyof KioConfigInput> = new Set<keyof KioConfigInput>([
+  'cacheMaxBytes',
+  'searchCacheTtlMs',
+  'judgmentCacheTtlMs',
+  'searchRateLimitPerMinute',
+  'judgmentRateLimitPerMinute',
+  'requestTimeoutMs',
+  'httpPort',
+]);
+
+/** Configuration keys holding booleans */
+const BOOLEAN_KEYS: ReadonlySet<keyof KioConfigInput> = new Set<keyof KioConfigInput>([
+  'cacheAdmin',
+]);
+
+/** Configuration keys holding case-insensitive enum values */
+const ENUM_KEYS: ReadonlySet<keyof KioConfigInput> = new Set<keyof KioConfigInput>([
+  'logLevel',
+  'cacheType',
+]);
+
+/**
+ * Convert a string value (from the environment or a CLI flag) for a key
+ * @param name Variable or flag name used in error messages
+ */
+export function coerceConfigValue(
+  name: string,
+  key: keyof KioConfigInput,
+  value: string
+): string | number | boolean {
+  if (BOOLEAN_KEYS.has(key)) {
+    const normalized = value.trim().toLowerCase();
+    if (!['true', 'false', '1', '0'].includes(normalized)) {
+      throw new ConfigError(`${name} must be true or false, got "${value}"`);
+    }
+    return normalized === 'true' || normalized === '1';
+  }
+  if (INTEGER_KEYS.has(key)) {
+    if (!/^-?\d+$/.test(value.trim())) {
+      throw new ConfigError(`${name} must be an integer, got "${value}"`);
+    }
+    return parseInt(value, 10);
+  }
+  return ENUM_KEYS.has(key) ? value.toLowerCase() : value;
+}
+
+/**
+ * Validate configuration input from one source
+ * @param source Source description used in error messages
+ * @param nameOf Maps a key path to the name the user wrote it as
+ * @throws ConfigError listing every invalid value
+ */
+export function validateConfigInput(
+  data: unknown,
+  source: string,
+  nameOf: (path: (string | number)[]) => string = (path) => path.join('.')
+): KioConfigInput {
+  const result = KioConfigInputSchema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const problems = result.error.issues.map((issue) =>
+    issue.path.length > 0 ? `${nameOf(issue.path)}: ${issue.message}` : issue.message
+  );
+  throw new ConfigError(`Invalid configuration in ${source}: ${problems.join('; ')}`);
+}
@@ -8,11 +8,8 @@ import { createServer, type IncomingMessage, type ServerResponse } from 'node:ht
 import { randomUUID } from 'node:crypto';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { createKioServer, type KioMcpServer } from './server/index.js';
-
-// Configuration from environment
-const PORT = parseInt(process.env.PORT ?? '3000', 10);
-const HOST = process.env.HOST ?? '0.0.0.0';
-const VERSION = process.env.npm_package_version ?? '1.0.0';
+import { loadConfig, ConfigError } from './config/env.js';
+import { parseConfigArgs } from './config/args.js';
 
 // Active transports by session ID
 const transports = new Map<string, StreamableHTTPServerTransport>();
@@ -90,7 +87,7 @@ function handleHealthCheck(res: ServerResponse): void {
   res.writeHead(200, { 'Content-Type': 'application/json' });
   res.end(JSON.stringify({
     status: 'ok',
-    version: VERSION,
+    version: kioServer.context.version,
     sessions: transports.size,
   }));
 }
@@ -131,11 +128,13 @@ async function handleRequest(
  * Start the HTTP server
  */
 async function main(): Promise<void> {
+  // Configuration (config file < environment < CLI flags)
+  const config = loadConfig(parseConfigArgs(process.argv.slice(2)));
+  const PORT = config.httpPort;
+  const HOST = config.httpHost;
+
   // Create the KIO server
-  kioServer = createKioServer({
-    name: 'mcp-kio',
-    version: VERSION,
-  });
+  kioServer = createKioServer({ config });
 
   // Create HTTP server
   const httpServer = createServer((req, res) => {
@@ -172,12 +171,12 @@ async function main(): Promise<void> {
     console.log(`[mcp-kio] HTTP server started on http://${HOST}:${PORT}`);
     console.log(`[mcp-kio] MCP endpoint: http://${HOST}:${PORT}/mcp`);
     console.log(`[mcp-kio] Health check: http://${HOST}:${PORT}/health`);
-    console.log('[mcp-kio] Available tools: kio_search, kio_get_judgment, kio_get_source_links, kio_health');
+    console.log(`[mcp-kio] Available tools: ${kioServer.tools.join(', ')}`);
   });
 }
 
 // Run
 main().catch((error) => {
-  console.error('[mcp-kio] Fatal error:', error);
+  console.error('[mcp-kio] Fatal error:', error instanceof ConfigError ? error.message : error);
   process.exit(1);
 });
@@ -22,6 +22,13 @@ export {
   executeKioGetJudgment,
   executeKioGetSourceLinks,
   executeKioHealth,
+  executeKioCacheAdmin,
+  warmCache,
+  type CacheWarmJob,
+  type CacheWarmRequest,
+  type CacheWarmOptions,
+  type CacheWarmProgress,
+  type CacheWarmResult,
   type ToolContext,
   type ToolContextConfig,
   type ToolResult,
@@ -34,7 +41,10 @@ export {
   // Common schemas
   ProviderSchema,
   ProviderPreferenceSchema,
+  SearchProviderPreferenceSchema,
   JudgmentTypeSchema,
+  JudgmentOutcomeSchema,
+  SearchSortSchema,
   FormatPreferenceSchema,
   DateStringSchema,
   CaseNumberSchema,
@@ -51,9 +61,16 @@ export {
   KioSearchOutputSchema,
   // Judgment schemas
   KioGetJudgmentInputSchema,
+  JudgmentSectionSchema,
+  JudgmentSegmentSchema,
+  LegalBasisSchema,
+  JudgmentPartySchema,
+  JudgmentPartiesSchema,
   JudgmentMetadataSchema,
   JudgmentContentSchema,
   KioGetJudgmentOutputSchema,
+  KioGetJudgmentDisambiguationSchema,
+  isJudgmentDisambiguation,
   // Source links schemas
   KioGetSourceLinksInputSchema,
   KioGetSourceLinksOutputSchema,
@@ -61,24 +78,51 @@ export {
   ProviderHealthStatusSchema,
   KioHealthInputSchema,
   KioHealthOutputSchema,
+  // Cache admin schemas
+  KioCacheAdminInputSchema,
+  KioCacheAdminOutputSchema,
   // Type exports
   type KioSearchInput,
   type SearchResultItem,
   type KioSearchOutput,
   type KioGetJudgmentInput,
+  type JudgmentSection,
+  type JudgmentSegmentOutput,
+  type LegalBasisOutput,
+  type JudgmentPartyOutput,
+  type JudgmentPartiesOutput,
   type JudgmentMetadata,
   type JudgmentContent,
   type KioGetJudgmentOutput,
+  type KioGetJudgmentDisambiguation,
   type KioGetSourceLinksInput,
   type KioGetSourceLinksOutput,
   type ProviderHealthStatus,
   type KioHealthInput,
   type KioHealthOutput,
+  type KioCacheAdminInput,
+  type KioCacheAdminOutput,
 } from './schemas/index.js';
 
 // Configuration
-export { loadConfig, ConfigError, defaults } from './config/index.js';
-export type { KioConfig, LogLevel, CacheType } from './config/index.js';
+export {
+  loadConfig,
+  ConfigError,
+  defaults,
+  KioConfigInputSchema,
+  readConfigFile,
+  parseConfigArgs,
+} from './config/index.js';
+export type {
+  KioConfig,
+  KioConfigInput,
+  LoadConfigOptions,
+  ProviderSettings,
+  ProvidersConfig,
+  ToolRateLimits,
+  LogLevel,
+  CacheType,
+} from './config/index.js';
 
 // Utilities
 export {
@@ -102,11 +146,26 @@ export {
   // Types
   type Provider,
   type JudgmentType,
+  type JudgmentOutcome,
+  type PzpAct,
+  type LegalBasis,
+  type LegalBasisFilter,
   type ProviderPreference,
+  type SearchProviderPreference,
+  type SearchSort,
   type FormatPreference,
   type NormalizedSearchResult,
+  type ProviderSource,
+  type MergedSearchResult,
+  type FederatedSearchResponse,
   type NormalizedJudgmentMetadata,
   type NormalizedJudgmentContent,
+  type JudgmentSectionType,
+  type JudgmentSegment,
+  type JudgmentParty,
+  type JudgmentIntervener,
+  type InterveningSide,
+  type JudgmentParties,
   type SourceLinks,
   type ContinuationInfo,
   type SearchParams,
@@ -123,6 +182,31 @@ export {
   UzpProvider,
   createUzpProvider,
   type UzpProviderConfig,
+  // Local Provider
+  LocalProvider,
+  createLocalProvider,
+  type LocalProviderConfig,
+  type LocalJudgmentRecord,
+  CorpusSync,
+  createCorpusSync,
+  type CorpusSyncConfig,
+  type SyncResult,
+  // Routing and failover
+  ProviderRouter,
+  createProviderRouter,
+  type ProviderRouterConfig,
+  type RoutedResponse,
+  federatedSearch,
+  normalizeCaseNumber,
+  IdentityResolver,
+  createIdentityResolver,
+  type JudgmentIdentity,
+  type ResolvedSourceLinks,
+  type IdentityResolverConfig,
+  CircuitBreaker,
+  createCircuitBreaker,
+  type CircuitBreakerConfig,
+  type CircuitState,
 } from './providers/index.js';
 
 // Normalization
@@ -133,6 +217,31 @@ export {
   extractTitle,
   extractMetaDescription,
   paginateContent,
+  paginateJudgment,
+  segmentJudgment,
+  findSegment,
+  extractSection,
+  extractParties,
+  parseLegalBases,
+  parseLegalBasis,
+  parseLegalBasisFilter,
+  formatLegalBasis,
+  formatProvision,
+  isSameLegalBasis,
+  matchesLegalBasis,
+  filterByLegalBasis,
+  resolvePzpAct,
+  definedPzpAct,
+  classifyOutcome,
+  classifyJudgmentOutcome,
+  filterByOutcome,
+  type OutcomeClassification,
+  foldDiacritics,
+  analyzeText,
+  scoreResults,
+  rankByRelevance,
+  buildSnippet,
+  type SnippetOptions,
   normalizeHtmlContent,
   mergeMetadata,
   extractCaseNumbersFromText,
@@ -151,7 +260,20 @@ export {
   RedisCache,
   createRedisCache,
   isRedisConfigured,
+  SqliteCache,
+  createSqliteCache,
+  type SqliteCacheConfig,
   createCache,
+  type CacheBackend,
+  CacheThrough,
+  createCacheThrough,
+  type CacheThroughOptions,
+  type CacheThroughResult,
+  compressText,
+  decompressText,
+  type CompressedText,
+  providerTag,
+  judgmentTag,
 } from './cache/index.js';
 
 // Security
@@ -13,8 +13,46 @@ export {
 
 export {
   paginateContent,
+  paginateJudgment,
   normalizeHtmlContent,
   mergeMetadata,
   extractCaseNumbersFromText,
   extractJudgmentDateFromText,
 } from './judgment.js';
+
+export { segmentJudgment, findSegment, extractSection } from './segmenter.js';
+
+export { extractParties } from './parties.js';
+
+export {
+  parseLegalBases,
+  parseLegalBasis,
+  parseLegalBasisFilter,
+  formatLegalBasis,
+  formatProvision,
+  isSameLegalBasis,
+  matchesLegalBasis,
+  filterByLegalBasis,
+  resolvePzpAct,
+  definedPzpAct,
+} from './legal-basis.js';
+
+export {
+  classifyOutcome,
+  classifyJudgmentOutcome,
+  filterByOutcome,
+  type OutcomeClassification,
+} from './outcome.js';
+
+export { buildSnippet, type SnippetOptions } from './snippets.js';
+
+export {
+  foldDiacritics,
+  stemToken,
+  analyzeToken,
+  analyzeText,
+  buildQueryText,
+  bm25TermScore,
+  scoreResults,
+  rankByRelevance,
+} from './relevance.js';
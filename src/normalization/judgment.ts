@@ -2,8 +2,15 @@
  * Judgment content normalization utilities
  */
 
-import type { NormalizedJudgmentMetadata, ContinuationInfo } from '../providers/types.js';
+import type {
+  NormalizedJudgmentMetadata,
+  ContinuationInfo,
+  JudgmentParams,
+  JudgmentSegment,
+} from '../providers/types.js';
 import { extractTextFromHtml } from './text-extractor.js';
+import { segmentJudgment, extractSection } from './segmenter.js';
+import { isSameLegalBasis } from './legal-basis.js';
 
 /**
  * Apply character-based pagination to judgment content
@@ -30,6 +37,24 @@ export function paginateContent(
   };
 }
 
+/**
+ * Segment full judgment text and paginate it
+ * With a section requested, only that section is paginated and
+ * offsets are relative to the section start
+ */
+export function paginateJudgment(
+  fullText: string,
+  params: Pick<JudgmentParams, 'maxChars' | 'offsetChars' | 'section'>
+): { text: string; continuation: ContinuationInfo; segments: JudgmentSegment[] } {
+  const segments = segmentJudgment(fullText);
+  const text = params.section ? extractSection(fullText, segments, params.section) : fullText;
+
+  return {
+    ...paginateContent(text, params.maxChars, params.offsetChars),
+    segments,
+  };
+}
+
 /**
  * Normalize HTML judgment content to plain text with pagination
  */
@@ -91,6 +116,16 @@ export function mergeMetadata(
       ]);
     }
 
+    if (source.structuredLegalBases?.length) {
+      const merged = [...(result.structuredLegalBases ?? [])];
+      for (const basis of source.structuredLegalBases) {
+        if (!merged.some((b) => isSameLegalBasis(b, basis))) {
+          merged.push(basis);
+        }
+      }
+      result.structuredLegalBases = merged;
+    }
+
     if (source.judges?.length) {
       result.judges = deduplicateArray([...result.judges, ...source.judges]);
     }
@@ -105,6 +140,10 @@ export function mergeMetadata(
     if (source.courtName) {
       result.courtName = source.courtName;
     }
+
+    if (source.parties) {
+      result.parties = source.parties;
+    }
   }
 
   return result;
@@ -0,0 +1,247 @@
+/**
+ * Legal basis parser for Prawo zamówień publicznych citations
+ * Recognizes citations like "art. 226 ust. 1 pkt 5 ustawy Pzp" and tells
+ * the 2019 act apart from the 2004 act
+ */
+
+import type {
+  LegalBasis,
+  LegalBasisFilter,
+  PzpAct,
+  NormalizedSearchResult,
+} from '../providers/types.js';
+
+/** The 2019 act applies to proceedings started from this date */
+const PZP_2019_EFFECTIVE_DATE = '2021-01-01';
+
+/** Article reference ("art. 226 ust. 1 pkt 5 lit. a") */
+const ARTICLE_PATTERN =
+  /art\.\s*(\d+[a-z]{0,2})(?:\s*ust\.\s*(\d+[a-z]?))?(?:\s*pkt\s*(\d+[a-z]?))?(?:\s*lit\.\s*([a-z])\b)?/giu;
+
+/** Text joining references of one chain ("art. 226 ... w zw. z art. 224 ...") */
+const CHAIN_GAP = /^\s*(?:,|;|i|oraz|a\s+także|w\s+zw\.\s*z|w\s+związku\s+z)\s*$/iu;
+
+/** Act named right after a chain */
+const ACT_2019 = /^\s*,?\s*(?:ustawy\s+)?(?:z\s+dnia\s+)?11\s+września\s+2019/iu;
+const ACT_2004 =
+  /^\s*,?\s*(?:ustawy\s+)?(?:(?:z\s+dnia\s+)?29\s+stycznia\s+2004|(?:n?Pzp|p\.\s?z\.\s?p\.?)\s*\(\s*2004\s*\))/iu;
+const ACT_GENERIC =
+  /^\s*,?\s*(?:ustawy\s+)?(?:n?Pzp|p\.\s?z\.\s?p\.?|Prawo\s+zamówień\s+publicznych|-\s*Prawo\s+zamówień\s+publicznych)(?![\p{L}])/iu;
+
+/** Definitions of the act in the text ("ustawy z dnia 29 stycznia 2004 r. - Prawo zamówień publicznych") */
+const DEFINES_2019 = /11\s+września\s+2019\s*r?\.?\s*[-–—]?\s*Prawo\s+zamówień\s+publicznych/iu;
+const DEFINES_2004 = /29\s+stycznia\s+2004\s*r?\.?\s*[-–—]?\s*Prawo\s+zamówień\s+publicznych/iu;
+
+/**
+ * Find the one act a text defines (a SAOS journal title, a judgment)
+ * @returns undefined when the text defines neither act or both
+ */
+export function definedPzpAct(text: string): PzpAct | undefined {
+  const defines2019 = DEFINES_2019.test(text);
+  const defines2004 = DEFINES_2004.test(text);
+
+  if (defines2019 === defines2004) {
+    return undefined;
+  }
+  return defines2019 ? 'PZP_2019' : 'PZP_2004';
+}
+
+/**
+ * Determine the act generic citations ("ustawy Pzp") refer to
+ * An act defined in the text wins; otherwise the judgment date decides.
+ */
+export function resolvePzpAct(text: string, judgmentDate?: string): PzpAct {
+  const defined = definedPzpAct(text);
+  if (defined) {
+    return defined;
+  }
+
+  return judgmentDate && judgmentDate < PZP_2019_EFFECTIVE_DATE ? 'PZP_2004' : 'PZP_2019';
+}
+
+/**
+ * Identify the act named after a chain of article references
+ */
+function actAfter(text: string, defaultAct: PzpAct): PzpAct | undefined {
+  if (ACT_2019.test(text)) {
+    return 'PZP_2019';
+  }
+  if (ACT_2004.test(text)) {
+    return 'PZP_2004';
+  }
+  if (ACT_GENERIC.test(text)) {
+    return defaultAct;
+  }
+  return undefined;
+}
+
+/**
+ * Build a structured legal basis from an article reference match
+ */
+function toLegalBasis(match: RegExpMatchArray, act: PzpAct): LegalBasis {
+  const basis: LegalBasis = { act, article: match[1]! };
+  if (match[2]) {
+    basis.paragraph = match[2];
+  }
+  if (match[3]) {
+    basis.point = match[3];
+  }
+  if (match[4]) {
+    basis.letter = match[4].toLowerCase();
+  }
+  return basis;
+}
+
+/**
+ * Check if two legal bases cite the same provision
+ */
+export function isSameLegalBasis(a: LegalBasis, b: LegalBasis): boolean {
+  return (
+    a.act === b.act &&
+    a.article === b.article &&
+    a.paragraph === b.paragraph &&
+    a.point === b.point &&
+    a.letter === b.letter
+  );
+}
+
+/**
+ * Check if a citation falls under a filter provision
+ * Fields missing from the filter match any value ("art. 226 ust. 1" matches "art. 226 ust. 1 pkt 5").
+ */
+export function matchesLegalBasis(basis: LegalBasis, filter: LegalBasisFilter): boolean {
+  return (
+    (filter.act === undefined || basis.act === filter.act) &&
+    basis.article === filter.article &&
+    (filter.paragraph === undefined || basis.paragraph === filter.paragraph) &&
+    (filter.point === undefined || basis.point === filter.point) &&
+    (filter.letter === undefined || basis.letter === filter.letter)
+  );
+}
+
+/**
+ * Keep search results citing the given provision
+ * Results without known legal bases are dropped.
+ */
+export function filterByLegalBasis<T extends NormalizedSearchResult>(
+  results: T[],
+  filter: LegalBasisFilter | undefined
+): T[] {
+  if (!filter) {
+    return results;
+  }
+  return results.filter((result) =>
+    result.structuredLegalBases?.some((basis) => matchesLegalBasis(basis, filter))
+  );
+}
+
+/**
+ * Parse Pzp citations from judgment text
+ *
+ * Only references followed by a Pzp act marker are returned, so
+ * citations of other acts (k.c., k.p.c.) are skipped. Chains joined
+ * with "w zw. z", "oraz" or commas share the act named after them.
+ *
+ * @param text Judgment text or a single citation
+ * @param judgmentDate Judgment date (YYYY-MM-DD), used for generic "Pzp" citations
+ */
+export function parseLegalBases(text: string, judgmentDate?: string): LegalBasis[] {
+  const defaultAct = resolvePzpAct(text, judgmentDate);
+  const matches = [...text.matchAll(ARTICLE_PATTERN)];
+  const bases: LegalBasis[] = [];
+
+  let chain: RegExpMatchArray[] = [];
+  for (const [index, match] of matches.entries()) {
+    chain.push(match);
+
+    const end = match.index + match[0].length;
+    const next = matches[index + 1];
+    if (next && CHAIN_GAP.test(text.slice(end, next.index))) {
+      continue;
+    }
+
+    const act = actAfter(text.slice(end, end + 80), defaultAct);
+    if (act) {
+      for (const reference of chain) {
+        const basis = toLegalBasis(reference, act);
+        if (!bases.some((b) => isSameLegalBasis(b, basis))) {
+          bases.push(basis);
+        }
+      }
+    }
+    chain = [];
+  }
+
+  return bases;
+}
+
+/**
+ * Parse a single provision ("art. 226 ust. 1 pkt 5"), with or without a Pzp act marker
+ * @param defaultAct Act of citations without a marker or with a generic one
+ * @returns undefined if the text is not an article reference or names another act
+ */
+export function parseLegalBasis(
+  citation: string,
+  defaultAct: PzpAct = 'PZP_2019'
+): LegalBasis | undefined {
+  const trimmed = citation.trim();
+  const match = trimmed.match(new RegExp(`^${ARTICLE_PATTERN.source}`, 'iu'));
+  if (!match) {
+    return undefined;
+  }
+
+  const rest = trimmed.slice(match[0].length);
+  const act = rest.trim() ? actAfter(rest, defaultAct) : defaultAct;
+  return act ? toLegalBasis(match, act) : undefined;
+}
+
+/**
+ * Parse a provision filter ("art. 89 ust. 1 pkt 2", "art. 226 Pzp (2004)")
+ * Only a citation naming the 2019 or the 2004 act sets the act; without one,
+ * or with a generic "Pzp", the filter matches citations of either act.
+ * @returns undefined if the text is not an article reference or names another act
+ */
+export function parseLegalBasisFilter(citation: string): LegalBasisFilter | undefined {
+  const trimmed = citation.trim();
+  const match = trimmed.match(new RegExp(`^${ARTICLE_PATTERN.source}`, 'iu'));
+  if (!match) {
+    return undefined;
+  }
+
+  const rest = trimmed.slice(match[0].length);
+  const act = ACT_2019.test(rest) ? 'PZP_2019' : ACT_2004.test(rest) ? 'PZP_2004' : undefined;
+  if (!act && rest.trim() && !ACT_GENERIC.test(rest)) {
+    return undefined;
+  }
+
+  const filter: LegalBasisFilter = toLegalBasis(match, act ?? 'PZP_2019');
+  if (!act) {
+    delete filter.act;
+  }
+  return filter;
+}
+
+/**
+ * Format a legal basis as a citation ("art. 226 ust. 1 pkt 5 Pzp")
+ * The 2004 act is marked with its year.
+ */
+export function formatLegalBasis(basis: LegalBasis): string {
+  return `${formatProvision(basis)} ${basis.act === 'PZP_2004' ? 'Pzp (2004)' : 'Pzp'}`;
+}
+
+/**
+ * Format the provision of a legal basis without the act ("art. 226 ust. 1 pkt 5")
+ */
+export function formatProvision(basis: LegalBasisFilter): string {
+  const parts = [`art. ${basis.article}`];
+  if (basis.paragraph) {
+    parts.push(`ust. ${basis.paragraph}`);
+  }
+  if (basis.point) {
+    parts.push(`pkt ${basis.point}`);
+  }
+  if (basis.letter) {
+    parts.push(`lit. ${basis.letter}`);
+  }
+  return parts.join(' ');
+}
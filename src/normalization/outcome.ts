@@ -0,0 +1,138 @@
+/**
+ * Rule-based outcome classification of KIO rulings
+ * Maps the operative wording of the sentencja ("oddala odwołanie",
+ * "umarza postępowanie", ...) to a normalized outcome with a confidence
+ */
+
+import type { JudgmentOutcome, NormalizedSearchResult } from '../providers/types.js';
+import { segmentJudgment, findSegment } from './segmenter.js';
+
+/**
+ * Classified outcome
+ */
+export interface OutcomeClassification {
+  outcome: JudgmentOutcome;
+  /** Confidence (0-1) */
+  confidence: number;
+}
+
+/**
+ * Wording of one outcome
+ */
+interface OutcomeRule {
+  outcome: JudgmentOutcome;
+  /** Operative verb (present tense, infinitive or past tense) */
+  verb: RegExp;
+  /** Nominal form, used when no operative verb is found */
+  noun: RegExp;
+}
+
+const RULES: OutcomeRule[] = [
+  {
+    outcome: 'UPHELD',
+    verb: /uwzględni(?:a|ć|ła|ło)\s+(?:w\s+całości\s+)?odwołani[ea]/iu,
+    noun: /uwzględnieni\p{L}*\s+odwołani/iu,
+  },
+  {
+    outcome: 'DISMISSED',
+    verb: /odd(?:ala|alić|aliła|aliło)\s+odwołani[ea]/iu,
+    noun: /oddaleni\p{L}*\s+odwołani/iu,
+  },
+  {
+    outcome: 'DISCONTINUED',
+    verb: /(?:umarza|umorzyć|umorzyła|umorzyło)\s+postępowani/iu,
+    noun: /umorzeni\p{L}*\s+postępowani/iu,
+  },
+  {
+    outcome: 'REJECTED',
+    verb: /odrzu(?:ca|cić|ciła|ciło)\s+odwołani[ea]/iu,
+    noun: /odrzuceni\p{L}*\s+odwołani/iu,
+  },
+  {
+    outcome: 'RETURNED',
+    verb: /zw(?:raca|rócić|róciła|róciło)\s+odwołani[ea]/iu,
+    noun: /zwr(?:ot\p{L}*|óceni\p{L}*)\s+odwołani/iu,
+  },
+];
+
+/** Explicit partial upholding ("uwzględnia odwołanie w części") */
+const PARTIAL_PATTERN =
+  /uwzględni\p{L}*\s+(?:odwołani[ea]\s+)?(?:w\s+części|częściowo|w\s+zakresie)|częściowo\s+uwzględni/iu;
+
+/** Confidence of an unambiguous operative verb */
+const VERB_CONFIDENCE = 0.95;
+
+/** Confidence when several outcomes are worded */
+const MIXED_CONFIDENCE = 0.75;
+
+/** Confidence of a nominal form only */
+const NOUN_CONFIDENCE = 0.5;
+
+/** Weight of text that is not a located sentencja */
+const UNSTRUCTURED_WEIGHT = 0.6;
+
+/**
+ * Round a confidence to two decimals
+ */
+function round(confidence: number): number {
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Classify the outcome of operative wording
+ * @param text Sentencja or decision summary
+ * @param weight Reliability of the text (1 for a sentencja)
+ */
+export function classifyOutcome(text: string, weight = 1): OutcomeClassification | undefined {
+  if (PARTIAL_PATTERN.test(text)) {
+    return { outcome: 'PARTIALLY_UPHELD', confidence: round(VERB_CONFIDENCE * weight) };
+  }
+
+  const found = RULES.map((rule) => ({ outcome: rule.outcome, index: text.search(rule.verb) }))
+    .filter((match) => match.index !== -1)
+    .sort((a, b) => a.index - b.index);
+  const outcomes = new Set(found.map((match) => match.outcome));
+
+  if (outcomes.size === 0) {
+    const nominal = RULES.find((rule) => rule.noun.test(text));
+    return nominal
+      ? { outcome: nominal.outcome, confidence: round(NOUN_CONFIDENCE * weight) }
+      : undefined;
+  }
+
+  if (outcomes.size === 1) {
+    return { outcome: found[0]!.outcome, confidence: round(VERB_CONFIDENCE * weight) };
+  }
+
+  // Upheld in part and dismissed in the remaining scope
+  if (outcomes.has('UPHELD') && outcomes.has('DISMISSED')) {
+    return { outcome: 'PARTIALLY_UPHELD', confidence: round(MIXED_CONFIDENCE * weight) };
+  }
+
+  // Partial discontinuation is secondary to the ruling on the merits
+  const merits = found.find((match) => match.outcome !== 'DISCONTINUED') ?? found[0]!;
+  return { outcome: merits.outcome, confidence: round(MIXED_CONFIDENCE * weight) };
+}
+
+/**
+ * Classify the outcome of a full judgment text
+ * Only the sentencja is read when it can be located.
+ */
+export function classifyJudgmentOutcome(text: string): OutcomeClassification | undefined {
+  const sentencja = findSegment(segmentJudgment(text), 'sentencja');
+  if (sentencja) {
+    return classifyOutcome(text.slice(sentencja.start, sentencja.end));
+  }
+  return classifyOutcome(text, UNSTRUCTURED_WEIGHT);
+}
+
+/**
+ * Keep search results with the given outcome
+ * Results without a classified outcome are dropped.
+ */
+export function filterByOutcome<T extends NormalizedSearchResult>(
+  results: T[],
+  outcome: JudgmentOutcome | undefined
+): T[] {
+  return outcome ? results.filter((result) => result.outcome === outcome) : results;
+}
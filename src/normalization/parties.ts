@@ -0,0 +1,137 @@
+/**
+ * Party extraction from KIO judgment text
+ * Parses the komparycja for the appellant (odwołujący), the contracting
+ * authority (zamawiający) and intervening parties (przystępujący)
+ */
+
+import type {
+  JudgmentParties,
+  JudgmentParty,
+  JudgmentIntervener,
+  InterveningSide,
+} from '../providers/types.js';
+import { segmentJudgment, findSegment } from './segmenter.js';
+
+/** Text searched when the komparycja cannot be located */
+const FALLBACK_LENGTH = 5000;
+
+/** Appeal clause ("odwołania wniesionego ... przez wykonawcę X"), up to the proceedings */
+const APPEAL_PATTERN =
+  /odwoła\p{L}*\s+wniesion\p{L}*(.+?)(?=\s*,?\s*(?:w\s+postępowaniu\s+(?:o\s+udzielenie\s+zamówienia\s+(?:publicznego\s+)?)?prowadzon|przy\s+udziale|$))/iu;
+
+/** Appellant within the appeal clause, one per lettered or joined appeal */
+const APPELLANT_PATTERN =
+  /\sprzez\s+(.+?)(?=\s*(?:[,;]\s*\p{Lu}\.\s|[,;]?\s*oraz\s+przez\s|[,;]?\s*$))/gu;
+
+/** Proceedings conducted by ... ("w postępowaniu prowadzonym przez Zamawiającego - X") */
+const CONTRACTING_AUTHORITY_PATTERN =
+  /postępowani\p{L}*\s+(?:o\s+udzielenie\s+zamówienia\s+(?:publicznego\s+)?)?prowadzon\p{L}*\s+przez\s+(.+?)(?=\s*,?\s*(?:przy\s+udziale|orzeka|postanawia|$))/giu;
+
+/** Intervention clause ("przy udziale ...") */
+const INTERVENTION_PATTERN = /przy\s+udziale\s*:?\s*(.+?)(?=\s*(?:orzeka|postanawia|$))/i;
+
+/** One intervener, up to the side it joined */
+const INTERVENER_PATTERN = /(.+?)po\s+stronie\s+(zamawiając\p{L}*|odwołując\p{L}*)/giu;
+
+/** Role descriptions preceding a party name */
+const ROLE_PREFIX =
+  /^(?:[,;:\s]|oraz\s|i\s|a\s+także\s)*(?:\p{Lu}\.\s+(?=uczestnik|wykonawc|zamawiając|odwołując|przystępując))?(?:uczestnik\p{L}*\s+postępowania\s*:?\s*)?(?:(?:zamawiając|odwołując|wykonawc|przystępując)\p{L}*(?:\s+wspólnie\s+ubiegając\p{L}*\s+się\s+o\s+udzielenie\s+zamówienia)?(?:\s*[:\-–—]\s*|\s+))?/iu;
+
+/** Intervention wording following an intervener's name */
+const INTERVENTION_SUFFIX = /\s*,?\s*(?:zgłaszając\p{L}*|któr\p{L}*\s+zgłosił\p{L}*)\s.*$/iu;
+
+/** Case reference of a joined appeal ("(sygn. akt KIO 100/24)") */
+const CASE_REFERENCE = /\s*\(\s*sygn\.[^)]*\)/gi;
+
+/** Seat clause at the end of a name */
+const SEAT_PATTERN = /^(.+?)\s*,?\s+z\s+siedzibą\s+w\s+(.+)$/i;
+
+/**
+ * Get the text to search for parties
+ */
+function partiesText(text: string): string {
+  const segments = segmentJudgment(text);
+  const komparycja = findSegment(segments, 'komparycja');
+  if (komparycja) {
+    return text.slice(komparycja.start, komparycja.end);
+  }
+
+  const sentencja = findSegment(segments, 'sentencja');
+  return text.slice(0, sentencja?.start ?? FALLBACK_LENGTH);
+}
+
+/**
+ * Build a party from its description in the komparycja
+ */
+function toParty(description: string): JudgmentParty | undefined {
+  const cleaned = description
+    .replace(ROLE_PREFIX, '')
+    .replace(CASE_REFERENCE, '')
+    .replace(/[\s,;:]+$/, '')
+    .trim();
+  if (cleaned.length === 0) {
+    return undefined;
+  }
+
+  // Consortia list several seats, keep the whole description then
+  const seatMatch = cleaned.match(SEAT_PATTERN);
+  if (seatMatch?.[1] && seatMatch[2] && !/z\s+siedzibą/i.test(seatMatch[2])) {
+    return { name: seatMatch[1], seat: seatMatch[2] };
+  }
+
+  return { name: cleaned };
+}
+
+/**
+ * Add a party unless one with the same name is already listed
+ */
+function addParty<T extends JudgmentParty>(parties: T[], party: T | undefined): void {
+  if (party && !parties.some((p) => p.name.toLowerCase() === party.name.toLowerCase())) {
+    parties.push(party);
+  }
+}
+
+/**
+ * Map the wording of an intervention side
+ */
+function interveningSide(wording: string): InterveningSide {
+  return wording.toLowerCase().startsWith('odwołując') ? 'appellant' : 'contracting_authority';
+}
+
+/**
+ * Extract the parties to the dispute from judgment text
+ * Only the komparycja is parsed; parties named elsewhere are ignored.
+ */
+export function extractParties(text: string): JudgmentParties {
+  const parties: JudgmentParties = {
+    appellants: [],
+    contractingAuthorities: [],
+    interveners: [],
+  };
+
+  const komparycja = partiesText(text).replace(/\s+/g, ' ').trim();
+
+  const appeal = komparycja.match(APPEAL_PATTERN)?.[1];
+  if (appeal) {
+    for (const match of ` ${appeal}`.matchAll(APPELLANT_PATTERN)) {
+      addParty(parties.appellants, toParty(match[1] ?? ''));
+    }
+  }
+
+  for (const match of komparycja.matchAll(CONTRACTING_AUTHORITY_PATTERN)) {
+    addParty(parties.contractingAuthorities, toParty(match[1] ?? ''));
+  }
+
+  const intervention = komparycja.match(INTERVENTION_PATTERN)?.[1];
+  if (intervention) {
+    for (const match of intervention.matchAll(INTERVENER_PATTERN)) {
+      const party = toParty((match[1] ?? '').replace(INTERVENTION_SUFFIX, ''));
+      if (party) {
+        const intervener: JudgmentIntervener = { ...party, side: interveningSide(match[2] ?? '') };
+        addParty(parties.interveners, intervener);
+      }
+    }
+  }
+
+  return parties;
+}
@@ -0,0 +1,192 @@
+/**
+ * Local relevance scoring of search results
+ * Ranks the returned items against the query with BM25 over the snippet,
+ * decision, keywords and case numbers. Terms are folded to ASCII and
+ * lightly stemmed so Polish inflected forms match ("cena", "ceny", "cenie").
+ */
+
+import type { NormalizedSearchResult, SearchParams } from '../providers/types.js';
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+
+/** BM25 document length normalization */
+const B = 0.75;
+
+/** Weight of each field in the term frequencies */
+const FIELD_WEIGHTS = {
+  snippet: 1,
+  decision: 1,
+  keywords: 2,
+  caseNumbers: 3,
+} as const;
+
+/** Shortest stem left after stripping a suffix */
+const MIN_STEM_LENGTH = 3;
+
+/** Inflectional suffixes (folded), longest first */
+const SUFFIXES = [
+  'owaniami', 'owaniach', 'owaniem', 'owania', 'owanie', 'owaniu',
+  'osciami', 'osciach', 'aniami', 'aniach', 'eniami', 'eniach',
+  'aniem', 'eniem', 'oscia', 'osci',
+  'ania', 'anie', 'aniu', 'enia', 'enie', 'eniu',
+  'ami', 'ach', 'ego', 'emu', 'iej', 'ymi', 'imi', 'ych', 'ich', 'owi', 'osc',
+  'ow', 'om', 'em', 'ej', 'ie', 'ia', 'iu',
+  'a', 'e', 'i', 'o', 'u', 'y',
+].sort((a, b) => b.length - a.length);
+
+/** Function words ignored in queries and documents (folded) */
+const STOPWORDS = new Set([
+  'a', 'aby', 'albo', 'ale', 'bez', 'by', 'byc', 'czy', 'do', 'dla', 'i', 'jak', 'jest',
+  'jego', 'jej', 'ich', 'juz', 'lub', 'na', 'nie', 'o', 'od', 'oraz', 'po', 'pod', 'przez',
+  'przy', 'sie', 'ta', 'tak', 'te', 'ten', 'to', 'tym', 'w', 'we', 'z', 'za', 'ze', 'zas',
+]);
+
+/**
+ * Fold Polish diacritics to ASCII ("zamówień" → "zamowien")
+ */
+export function foldDiacritics(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/ł/g, 'l')
+    .replace(/Ł/g, 'L');
+}
+
+/**
+ * Strip the longest inflectional suffix from a folded, lowercase token
+ * Tokens with digits are returned unchanged.
+ */
+export function stemToken(token: string): string {
+  if (/\d/.test(token)) {
+    return token;
+  }
+  for (const suffix of SUFFIXES) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= MIN_STEM_LENGTH) {
+      return token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+}
+
+/**
+ * Map one word to its search term
+ * @returns undefined for stopwords
+ */
+export function analyzeToken(word: string): string | undefined {
+  const token = foldDiacritics(word.toLowerCase());
+  return token.length > 0 && !STOPWORDS.has(token) ? stemToken(token) : undefined;
+}
+
+/**
+ * Split text into folded, stemmed terms without stopwords
+ */
+export function analyzeText(text: string): string[] {
+  return text
+    .split(/[^\p{L}\p{N}]+/u)
+    .map(analyzeToken)
+    .filter((term): term is string => term !== undefined);
+}
+
+/**
+ * Join the free-text parts of a search (query, phrase and keywords)
+ */
+export function buildQueryText(params: Pick<SearchParams, 'query' | 'phrase' | 'keywords'>): string {
+  return [params.query, params.phrase, ...(params.keywords ?? [])]
+    .filter((part) => part !== undefined)
+    .join(' ');
+}
+
+/**
+ * Weighted term frequencies of one result
+ */
+interface ScoredDocument {
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Build the weighted term frequencies of a result
+ */
+function toDocument(result: NormalizedSearchResult): ScoredDocument {
+  const fields: [string, number][] = [
+    [result.snippet ?? '', FIELD_WEIGHTS.snippet],
+    [result.decision ?? '', FIELD_WEIGHTS.decision],
+    [(result.keywords ?? []).join(' '), FIELD_WEIGHTS.keywords],
+    [result.caseNumbers.join(' '), FIELD_WEIGHTS.caseNumbers],
+  ];
+
+  const frequencies = new Map<string, number>();
+  let length = 0;
+  for (const [text, weight] of fields) {
+    for (const term of analyzeText(text)) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+      length += weight;
+    }
+  }
+  return { frequencies, length };
+}
+
+/**
+ * BM25 score of one query term in one document
+ * @param frequency Term frequency in the document
+ * @param length Document length in terms
+ * @param averageLength Average document length in the collection
+ * @param matching Documents containing the term
+ * @param total Documents in the collection
+ */
+export function bm25TermScore(
+  frequency: number,
+  length: number,
+  averageLength: number,
+  matching: number,
+  total: number
+): number {
+  const idf = Math.log(1 + (total - matching + 0.5) / (matching + 0.5));
+  const norm = K1 * (1 - B + (B * length) / averageLength);
+  return (idf * frequency * (K1 + 1)) / (frequency + norm);
+}
+
+/**
+ * Score results against a query
+ *
+ * Document frequencies come from the results themselves, so scores are
+ * relative to the page: the best match scores 1 and results without any
+ * query term score 0.
+ *
+ * @returns Copies of the results, in the same order, with relevanceScore set
+ */
+export function scoreResults<T extends NormalizedSearchResult>(results: T[], query: string): T[] {
+  const queryTerms = [...new Set(analyzeText(query))];
+  const documents = results.map(toDocument);
+  const averageLength =
+    documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(documents.length, 1) || 1;
+
+  const raw = documents.map((doc) =>
+    queryTerms.reduce((score, term) => {
+      const frequency = doc.frequencies.get(term);
+      if (!frequency) {
+        return score;
+      }
+      const matching = documents.filter((d) => d.frequencies.has(term)).length;
+      return score + bm25TermScore(frequency, doc.length, averageLength, matching, documents.length);
+    }, 0)
+  );
+
+  const best = Math.max(0, ...raw);
+  return results.map((result, index) => ({
+    ...result,
+    relevanceScore: best > 0 ? Math.round((raw[index]! / best) * 1000) / 1000 : 0,
+  }));
+}
+
+/**
+ * Score results against a query and order them by score
+ * Ties keep the provider order.
+ */
+export function rankByRelevance<T extends NormalizedSearchResult>(results: T[], query: string): T[] {
+  return scoreResults(results, query)
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) => (b.result.relevanceScore ?? 0) - (a.result.relevanceScore ?? 0) || a.index - b.index)
+    .map(({ result }) => result);
+}
@@ -0,0 +1,257 @@
+/**
+ * Structural segmentation of KIO judgment text
+ * Splits a judgment into header, komparycja, sentencja and uzasadnienie
+ * with character offsets into the full text
+ */
+
+import type { JudgmentSegment, JudgmentSectionType } from '../providers/types.js';
+import { NotFoundError } from '../utils/errors.js';
+
+/**
+ * A line of text with its offsets
+ */
+interface Line {
+  text: string;
+  start: number;
+}
+
+/** Operative part heading ("orzeka:", "p o s t a n a w i a :") compared without spaces */
+const SENTENCJA_HEADING = /^(orzeka|postanawia|uchwala):?$/;
+
+/** Reasoning heading ("UZASADNIENIE", "U z a s a d n i e n i e") compared without spaces */
+const UZASADNIENIE_HEADING = /^uzasadnienie:?$/;
+
+/** Panel description ("Krajowa Izba Odwoławcza w składzie:") */
+const KOMPARYCJA_MARKER = /\bw\s+składzie\b/i;
+const CHAMBER_NAME = /^Krajowa\s+Izba\s+Odwoławcza\s*$/i;
+
+/** Numbered points of the sentencja ("1.", "II.") */
+const POINT_MARKER = /^\s*(\d{1,2}|[IVX]{1,5})\.\s+\S/;
+
+/** List items produced from HTML ordered lists */
+const LIST_ITEM_MARKER = /^\s*•\s+\S/;
+
+/** Explicit start of the facts in the uzasadnienie */
+const STAN_FAKTYCZNY_MARKER =
+  /^\s*(?:Izba\s+ustaliła(?!\s+i\s+zważyła)|Stan\s+faktyczny|Ustalenia\s+faktyczne)/i;
+
+/** Start of the Chamber's assessment */
+const OCENA_IZBY_MARKER =
+  /^\s*(?:(?:Krajowa\s+)?Izba\s+(?:ustaliła\s+i\s+)?zważyła|Ocena\s+Izby|Izba\s+dokonała\s+oceny)/i;
+
+/** Start of the costs reasoning */
+const KOSZTY_MARKER =
+  /^\s*(?:O\s+kosztach|Kosztami\s+postępowania|Rozstrzygając\s+o\s+kosztach|W\s+zakresie\s+kosztów)/i;
+
+/**
+ * Split text into lines keeping start offsets
+ */
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+
+  for (const part of text.split('\n')) {
+    lines.push({ text: part, start });
+    start += part.length + 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Compact a short heading line for comparison (spaces removed, lowercase)
+ */
+function compact(line: string): string {
+  return line.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Find the first line index matching a predicate
+ */
+function findLine(lines: Line[], from: number, to: number, test: (line: string) => boolean): number {
+  for (let i = from; i < to; i++) {
+    if (test(lines[i]!.text)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Build contiguous segments from ordered start offsets
+ */
+function buildSegments<T extends JudgmentSegment['type']>(
+  starts: { type: T; start: number; label?: string }[],
+  end: number
+): JudgmentSegment[] {
+  return starts.map((segment, index) => ({
+    type: segment.type,
+    ...(segment.label !== undefined ? { label: segment.label } : {}),
+    start: segment.start,
+    end: starts[index + 1]?.start ?? end,
+  }));
+}
+
+/**
+ * Split the sentencja into numbered points
+ */
+function segmentPoints(lines: Line[], from: number, to: number, end: number): JudgmentSegment[] {
+  const points: { type: 'punkt'; start: number; label: string }[] = [];
+
+  for (let i = from; i < to; i++) {
+    const match = lines[i]!.text.match(POINT_MARKER);
+    if (match?.[1]) {
+      points.push({ type: 'punkt', start: lines[i]!.start, label: match[1] });
+    }
+  }
+
+  // HTML lists lose their numbering, count the items instead
+  if (points.length === 0) {
+    for (let i = from; i < to; i++) {
+      if (LIST_ITEM_MARKER.test(lines[i]!.text)) {
+        points.push({ type: 'punkt', start: lines[i]!.start, label: String(points.length + 1) });
+      }
+    }
+  }
+
+  return buildSegments(points, end);
+}
+
+/**
+ * Split the uzasadnienie into stan faktyczny, ocena Izby and koszty
+ */
+function segmentReasoning(lines: Line[], from: number, to: number, end: number): JudgmentSegment[] {
+  // First non-empty line after the heading
+  const bodyLine = findLine(lines, from, to, (line) => line.trim().length > 0);
+  if (bodyLine === -1) {
+    return [];
+  }
+
+  const ocenaLine = findLine(lines, bodyLine, to, (line) => OCENA_IZBY_MARKER.test(line));
+  const kosztyLine = findLine(lines, ocenaLine === -1 ? bodyLine : ocenaLine + 1, to, (line) =>
+    KOSZTY_MARKER.test(line)
+  );
+
+  const starts: { type: JudgmentSectionType; start: number }[] = [];
+
+  // Facts run from an explicit marker, or from the start of the reasoning up to the assessment
+  const factsEnd = ocenaLine === -1 ? to : ocenaLine;
+  const factsLine = findLine(lines, bodyLine, factsEnd, (line) => STAN_FAKTYCZNY_MARKER.test(line));
+  if (factsLine !== -1 || ocenaLine > bodyLine) {
+    starts.push({ type: 'stan_faktyczny', start: lines[factsLine === -1 ? bodyLine : factsLine]!.start });
+  }
+  if (ocenaLine !== -1) {
+    starts.push({ type: 'ocena_izby', start: lines[ocenaLine]!.start });
+  }
+  if (kosztyLine !== -1) {
+    starts.push({ type: 'koszty', start: lines[kosztyLine]!.start });
+  }
+
+  return buildSegments(starts, end);
+}
+
+/**
+ * Segment KIO judgment text into its structural parts
+ *
+ * Top-level segments are contiguous: header (title, signature, date),
+ * komparycja (panel and parties), sentencja (operative part, with numbered
+ * points) and uzasadnienie (reasoning, with sub-sections). Parts whose
+ * heading is not found are omitted.
+ */
+export function segmentJudgment(text: string): JudgmentSegment[] {
+  const lines = splitLines(text);
+
+  const uzasadnienieLine = findLine(lines, 0, lines.length, (line) =>
+    UZASADNIENIE_HEADING.test(compact(line))
+  );
+  const operativeEnd = uzasadnienieLine === -1 ? lines.length : uzasadnienieLine;
+
+  const sentencjaLine = findLine(lines, 0, operativeEnd, (line) =>
+    SENTENCJA_HEADING.test(compact(line))
+  );
+
+  let komparycjaLine = findLine(lines, 0, sentencjaLine === -1 ? operativeEnd : sentencjaLine, (line) =>
+    KOMPARYCJA_MARKER.test(line)
+  );
+  if (komparycjaLine > 0 && CHAMBER_NAME.test(lines[komparycjaLine - 1]!.text.trim())) {
+    komparycjaLine--;
+  }
+
+  const starts: { type: JudgmentSectionType; line: number }[] = [];
+  const firstMarker = [komparycjaLine, sentencjaLine, uzasadnienieLine].find((l) => l !== -1);
+
+  if (firstMarker === undefined) {
+    return [];
+  }
+  if (firstMarker > 0) {
+    starts.push({ type: 'header', line: 0 });
+  }
+  if (komparycjaLine !== -1) {
+    starts.push({ type: 'komparycja', line: komparycjaLine });
+  }
+  if (sentencjaLine !== -1) {
+    starts.push({ type: 'sentencja', line: sentencjaLine });
+  }
+  if (uzasadnienieLine !== -1) {
+    starts.push({ type: 'uzasadnienie', line: uzasadnienieLine });
+  }
+
+  const segments = buildSegments(
+    starts.map((s) => ({ type: s.type, start: lines[s.line]!.start })),
+    text.length
+  );
+
+  // Nested segments
+  for (const [index, segment] of segments.entries()) {
+    const fromLine = starts[index]!.line + 1;
+    const toLine = starts[index + 1]?.line ?? lines.length;
+
+    const children =
+      segment.type === 'sentencja'
+        ? segmentPoints(lines, fromLine, toLine, segment.end)
+        : segment.type === 'uzasadnienie'
+          ? segmentReasoning(lines, fromLine, toLine, segment.end)
+          : [];
+
+    if (children.length > 0) {
+      segment.children = children;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Find a section in a segment tree
+ */
+export function findSegment(
+  segments: JudgmentSegment[],
+  type: JudgmentSectionType
+): JudgmentSegment | undefined {
+  for (const segment of segments) {
+    if (segment.type === type) {
+      return segment;
+    }
+    const nested = segment.children ? findSegment(segment.children, type) : undefined;
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract the text of one section
+ * @throws NotFoundError if the judgment has no such section
+ */
+export function extractSection(
+  text: string,
+  segments: JudgmentSegment[],
+  type: JudgmentSectionType
+): string {
+  const segment = findSegment(segments, type);
+  if (!segment) {
+    throw new NotFoundError('judgment section', type);
+  }
+  return text.slice(segment.start, segment.end);
+}
@@ -0,0 +1,224 @@
+/**
+ * Keyword-in-context snippets
+ * Cuts fragments of a text around query hits and marks the hits with
+ * `**...**`. Words are matched by their folded stems, so inflected forms
+ * ("niskiej ceny" for "niska cena") are highlighted too.
+ */
+
+import { analyzeText, analyzeToken } from './relevance.js';
+
+/**
+ * Snippet options
+ */
+export interface SnippetOptions {
+  /** Maximum fragments per snippet (default: 1) */
+  fragments?: number;
+  /** Approximate length of each fragment in characters (default: 200) */
+  fragmentLength?: number;
+}
+
+/** Default fragments per snippet */
+const DEFAULT_FRAGMENTS = 1;
+
+/** Default fragment length */
+const DEFAULT_FRAGMENT_LENGTH = 200;
+
+/** Marker around highlighted words */
+const HIGHLIGHT = '**';
+
+/** Marker of text cut from a fragment */
+const ELLIPSIS = '...';
+
+/**
+ * Word of the text with its search term
+ */
+interface Word {
+  start: number;
+  end: number;
+  term?: string;
+}
+
+/**
+ * Character range of a fragment
+ */
+interface Fragment {
+  start: number;
+  end: number;
+  /** Distinct query terms inside */
+  terms: number;
+  /** Hits inside */
+  hits: number;
+}
+
+/** Hits considered as fragment centres, in text order */
+const MAX_CANDIDATE_HITS = 100;
+
+/**
+ * Split text into words with their positions and search terms
+ * Each distinct token is analyzed once.
+ */
+function splitWords(text: string): Word[] {
+  const terms = new Map<string, string | undefined>();
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => {
+    const token = match[0];
+    if (!terms.has(token)) {
+      terms.set(token, analyzeToken(token));
+    }
+    return { start: match.index, end: match.index + token.length, term: terms.get(token) };
+  });
+}
+
+/**
+ * Index of the first word matching a predicate that holds for every later word
+ * (words.length when none does)
+ */
+function searchWords(words: Word[], predicate: (word: Word) => boolean): number {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (predicate(words[middle]!)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Query hits lying entirely within a character range
+ */
+function hitsWithin(
+  words: Word[],
+  start: number,
+  end: number,
+  queryTerms: Set<string>
+): Word[] {
+  return words
+    .slice(
+      searchWords(words, (word) => word.start >= start),
+      searchWords(words, (word) => word.end > end)
+    )
+    .filter((word) => word.term !== undefined && queryTerms.has(word.term));
+}
+
+/**
+ * Build the fragment centred on a hit, snapped to word boundaries
+ */
+function fragmentAround(
+  text: string,
+  words: Word[],
+  hit: Word,
+  length: number,
+  queryTerms: Set<string>
+): Fragment {
+  const centre = Math.floor((hit.start + hit.end) / 2);
+  let start = Math.max(0, centre - Math.floor(length / 2));
+  let end = Math.min(text.length, start + length);
+  start = Math.max(0, end - length);
+
+  // Drop words cut in half, except the hit itself
+  const first = words[searchWords(words, (word) => word.end > start)];
+  if (first && first.start < start && first !== hit) {
+    start = first.end;
+  }
+  const last = words[searchWords(words, (word) => word.start >= end) - 1];
+  if (last && last.end > end && last !== hit) {
+    end = last.start;
+  }
+  start = Math.min(start, hit.start);
+  end = Math.max(end, hit.end);
+
+  const inside = hitsWithin(words, start, end, queryTerms);
+  return {
+    start,
+    end,
+    terms: new Set(inside.map((word) => word.term)).size,
+    hits: inside.length,
+  };
+}
+
+/**
+ * Render a fragment with hits marked and cut text elided
+ * Adjacent hits are marked together ("**rażąco niskiej ceny**").
+ */
+function renderFragment(
+  text: string,
+  words: Word[],
+  fragment: Fragment,
+  queryTerms: Set<string>
+): string {
+  const hits = hitsWithin(words, fragment.start, fragment.end, queryTerms);
+
+  // Group hits separated by whitespace only
+  const groups: { start: number; end: number }[] = [];
+  for (const hit of hits) {
+    const previous = groups[groups.length - 1];
+    if (previous && /^\s+$/.test(text.slice(previous.end, hit.start))) {
+      previous.end = hit.end;
+    } else {
+      groups.push({ start: hit.start, end: hit.end });
+    }
+  }
+
+  let rendered = '';
+  let position = fragment.start;
+  for (const group of groups) {
+    rendered += text.slice(position, group.start);
+    rendered += `${HIGHLIGHT}${text.slice(group.start, group.end)}${HIGHLIGHT}`;
+    position = group.end;
+  }
+  rendered += text.slice(position, fragment.end);
+
+  return `${fragment.start > 0 ? ELLIPSIS : ''}${rendered.trim()}${fragment.end < text.length ? ELLIPSIS : ''}`;
+}
+
+/**
+ * Build a keyword-in-context snippet
+ *
+ * Fragments around the first hits covering the most distinct query terms
+ * are picked first and returned in text order, joined with spaces.
+ *
+ * @param text Text to cut the snippet from
+ * @param query Query text
+ * @returns undefined when the text has no query hits
+ */
+export function buildSnippet(
+  text: string,
+  query: string,
+  options: SnippetOptions = {}
+): string | undefined {
+  const maxFragments = options.fragments ?? DEFAULT_FRAGMENTS;
+  const length = options.fragmentLength ?? DEFAULT_FRAGMENT_LENGTH;
+  const queryTerms = new Set(analyzeText(query));
+  if (queryTerms.size === 0) {
+    return undefined;
+  }
+
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const words = splitWords(normalized);
+  const candidates = words
+    .filter((word) => word.term !== undefined && queryTerms.has(word.term))
+    .slice(0, MAX_CANDIDATE_HITS)
+    .map((hit) => fragmentAround(normalized, words, hit, length, queryTerms));
+
+  const chosen: Fragment[] = [];
+  for (const candidate of [...candidates].sort((a, b) => b.terms - a.terms || b.hits - a.hits)) {
+    if (chosen.length >= maxFragments) {
+      break;
+    }
+    if (!chosen.some((f) => candidate.start < f.end && f.start < candidate.end)) {
+      chosen.push(candidate);
+    }
+  }
+
+  if (chosen.length === 0) {
+    return undefined;
+  }
+
+  return chosen
+    .sort((a, b) => a.start - b.start)
+    .map((fragment) => renderFragment(normalized, words, fragment, queryTerms))
+    .join(' ');
+}
@@ -0,0 +1,115 @@
+/**
+ * Per-provider circuit breaker
+ * Stops routing requests to a provider after repeated failures
+ */
+
+/**
+ * Circuit breaker state
+ * - closed: requests flow normally
+ * - open: requests are rejected until the reset timeout elapses
+ * - half_open: a single probe is allowed to decide whether to close again
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: number;
+  /** Time the circuit stays open before allowing a probe (ms) */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Default circuit breaker settings
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  resetTimeoutMs: 30 * 1000,
+};
+
+/**
+ * Circuit breaker tracking consecutive failures of one provider
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = {
+      ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+      ...config,
+    };
+  }
+
+  /**
+   * Get current state (open circuits become half-open after the reset timeout)
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.resetTimeoutMs) {
+      this.state = 'half_open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Check if requests may be sent to the provider
+   */
+  canRequest(): boolean {
+    return this.getState() !== 'open';
+  }
+
+  /**
+   * Record a successful request or healthy check
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+  }
+
+  /**
+   * Record a failed request
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (
+      this.getState() === 'half_open' ||
+      this.consecutiveFailures >= this.config.failureThreshold
+    ) {
+      this.trip();
+    }
+  }
+
+  /**
+   * Open the circuit immediately
+   */
+  trip(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+
+  /**
+   * Get number of consecutive failures
+   */
+  getFailureCount(): number {
+    return this.consecutiveFailures;
+  }
+
+  /**
+   * Reset to closed state
+   */
+  reset(): void {
+    this.recordSuccess();
+  }
+}
+
+/**
+ * Create a circuit breaker instance
+ */
+export function createCircuitBreaker(config?: Partial<CircuitBreakerConfig>): CircuitBreaker {
+  return new CircuitBreaker(config);
+}
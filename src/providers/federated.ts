@@ -0,0 +1,325 @@
+/**
+ * Federated search across providers
+ * Merges per-provider result streams by judgment date, removes duplicates
+ * and paginates the merged stream with an opaque cursor
+ */
+
+import type {
+  Provider,
+  SearchResponse,
+  NormalizedSearchResult,
+  MergedSearchResult,
+  FederatedSearchResponse,
+  SearchSort,
+} from './types.js';
+import { ProviderError, TimeoutError, ValidationError } from '../utils/errors.js';
+
+/**
+ * Position within one provider's result stream
+ */
+interface StreamPosition {
+  /** Provider page to fetch */
+  page: number;
+  /** Items of that page already consumed */
+  skip: number;
+}
+
+/**
+ * Decoded search cursor
+ * Providers missing from `streams` are exhausted
+ */
+export interface SearchCursor {
+  v: 1;
+  streams: Partial<Record<Provider, StreamPosition>>;
+}
+
+/**
+ * Fetch one page of a provider's results
+ */
+export type SearchPageFetcher = (provider: Provider, page: number) => Promise<SearchResponse>;
+
+/**
+ * In-flight state of a provider stream
+ */
+interface Stream {
+  provider: Provider;
+  page: number;
+  buffer: NormalizedSearchResult[];
+  position: number;
+  nextPage?: number;
+  done: boolean;
+  fetches: number;
+}
+
+/** First page requested from each provider (every provider takes 1-based pages) */
+const FIRST_PAGE = 1;
+
+/** Upper bound on page fetches per provider in one federated request */
+const MAX_FETCHES_PER_STREAM = 10;
+
+/**
+ * Normalize a KIO case number for comparison
+ * "KIO 123/23", "KIO/123/23" and "kio 123/2023" all become "KIO 123/23"
+ */
+export function normalizeCaseNumber(caseNumber: string): string {
+  const match = caseNumber.match(/^\s*(KIO(?:\/K[UD])?)[\s/]*0*(\d+)\s*\/\s*(\d{2,4})\s*$/i);
+  if (match?.[1] && match[2] && match[3]) {
+    return `${match[1].toUpperCase()} ${match[2]}/${match[3].slice(-2)}`;
+  }
+  return caseNumber.replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+/**
+ * Build de-duplication keys (normalized case number + judgment date)
+ */
+export function buildDedupeKeys(result: NormalizedSearchResult): string[] {
+  return result.caseNumbers.map((c) => `${normalizeCaseNumber(c)}|${result.judgmentDate}`);
+}
+
+/**
+ * Encode a search cursor as an opaque string
+ */
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a search cursor
+ * @throws ValidationError if the cursor is malformed
+ */
+export function decodeSearchCursor(value: string): SearchCursor {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid search cursor', 'cursor');
+  }
+
+  const cursor = parsed as Partial<SearchCursor> | null;
+  if (!cursor || cursor.v !== 1 || typeof cursor.streams !== 'object' || !cursor.streams) {
+    throw new ValidationError('Invalid search cursor', 'cursor');
+  }
+
+  for (const position of Object.values(cursor.streams)) {
+    if (
+      !position ||
+      !Number.isInteger(position.page) ||
+      !Number.isInteger(position.skip) ||
+      position.page < 0 ||
+      position.skip < 0
+    ) {
+      throw new ValidationError('Invalid search cursor', 'cursor');
+    }
+  }
+
+  return cursor as SearchCursor;
+}
+
+/**
+ * Compare judgment dates, newest first (missing dates last)
+ */
+function compareByDateDesc(a: NormalizedSearchResult, b: NormalizedSearchResult): number {
+  return b.judgmentDate.localeCompare(a.judgmentDate);
+}
+
+/**
+ * Compare judgment dates, oldest first (missing dates last)
+ */
+function compareByDateAsc(a: NormalizedSearchResult, b: NormalizedSearchResult): number {
+  if (!a.judgmentDate || !b.judgmentDate) {
+    return compareByDateDesc(a, b);
+  }
+  return a.judgmentDate.localeCompare(b.judgmentDate);
+}
+
+/**
+ * Create a merged result from the first provider copy
+ */
+function toMergedResult(result: NormalizedSearchResult): MergedSearchResult {
+  return {
+    ...result,
+    sources: [
+      {
+        provider: result.provider,
+        providerId: result.providerId,
+        sourceUrl: result.sourceUrl,
+      },
+    ],
+  };
+}
+
+/**
+ * Add another provider copy to a merged result
+ */
+function absorbDuplicate(target: MergedSearchResult, duplicate: NormalizedSearchResult): void {
+  const known = target.sources.some(
+    (s) => s.provider === duplicate.provider && s.providerId === duplicate.providerId
+  );
+  if (!known) {
+    target.sources.push({
+      provider: duplicate.provider,
+      providerId: duplicate.providerId,
+      sourceUrl: duplicate.sourceUrl,
+    });
+  }
+
+  target.caseNumbers = [
+    ...target.caseNumbers,
+    ...duplicate.caseNumbers.filter(
+      (c) => !target.caseNumbers.some((t) => normalizeCaseNumber(t) === normalizeCaseNumber(c))
+    ),
+  ];
+  target.decision ??= duplicate.decision;
+  target.keywords ??= duplicate.keywords;
+  if (
+    duplicate.outcome &&
+    (duplicate.outcomeConfidence ?? 0) > (target.outcomeConfidence ?? 0)
+  ) {
+    target.outcome = duplicate.outcome;
+    target.outcomeConfidence = duplicate.outcomeConfidence;
+  }
+  target.snippet ??= duplicate.snippet;
+}
+
+/**
+ * Search all given providers and merge their result streams
+ *
+ * Streams are expected in judgment-date order (ascending for `date_asc`,
+ * descending otherwise; provider relevance scores are not comparable, so
+ * `relevance` streams are merged by date). Duplicates are folded into one
+ * result listing every provider copy. Providers failing with
+ * ProviderError/TimeoutError are skipped and reported.
+ */
+export async function federatedSearch(
+  providers: Provider[],
+  fetchPage: SearchPageFetcher,
+  limit: number,
+  cursor?: string,
+  sort: SearchSort = 'date_desc'
+): Promise<FederatedSearchResponse> {
+  const compare = sort === 'date_asc' ? compareByDateAsc : compareByDateDesc;
+  const positions: Partial<Record<Provider, StreamPosition>> = cursor
+    ? decodeSearchCursor(cursor).streams
+    : Object.fromEntries(providers.map((p) => [p, { page: FIRST_PAGE, skip: 0 }]));
+
+  const streams: Stream[] = [];
+  for (const provider of providers) {
+    const position = positions[provider];
+    if (position) {
+      streams.push({
+        provider,
+        page: position.page,
+        buffer: [],
+        position: position.skip,
+        done: false,
+        fetches: 0,
+      });
+    }
+  }
+
+  const failedProviders: Provider[] = [];
+  let firstError: unknown;
+
+  const load = async (stream: Stream): Promise<void> => {
+    stream.fetches++;
+    try {
+      const response = await fetchPage(stream.provider, stream.page);
+      stream.buffer = [...response.results].sort(compare);
+      // A page emptied by provider-side filters may still be followed by hits
+      stream.nextPage = response.nextPage;
+    } catch (error) {
+      if (!(error instanceof ProviderError || error instanceof TimeoutError)) {
+        throw error;
+      }
+      firstError ??= error;
+      failedProviders.push(stream.provider);
+      stream.done = true;
+    }
+  };
+
+  await Promise.all(streams.map((stream) => load(stream)));
+
+  if (streams.length > 0 && failedProviders.length === streams.length) {
+    throw firstError;
+  }
+
+  const merged: MergedSearchResult[] = [];
+  const byKey = new Map<string, MergedSearchResult>();
+
+  for (;;) {
+    // Refill streams whose buffered page is used up. Once the page is full,
+    // only already-buffered items are checked for duplicates.
+    const full = merged.length >= limit;
+    for (const stream of streams) {
+      while (
+        !stream.done &&
+        !full &&
+        stream.position >= stream.buffer.length &&
+        stream.fetches < MAX_FETCHES_PER_STREAM
+      ) {
+        if (stream.nextPage === undefined) {
+          stream.done = true;
+        } else {
+          stream.page = stream.nextPage;
+          stream.position = 0;
+          await load(stream);
+        }
+      }
+    }
+
+    // Pick the first head item in sort order (provider order breaks ties)
+    let next: Stream | undefined;
+    for (const stream of streams) {
+      if (stream.done || stream.position >= stream.buffer.length) continue;
+      if (!next || compare(stream.buffer[stream.position]!, next.buffer[next.position]!) < 0) {
+        next = stream;
+      }
+    }
+
+    if (!next) {
+      break;
+    }
+
+    const item = next.buffer[next.position]!;
+    const keys = buildDedupeKeys(item);
+    const existing = keys.map((k) => byKey.get(k)).find((m) => m !== undefined);
+
+    if (existing) {
+      absorbDuplicate(existing, item);
+    } else if (!full) {
+      merged.push(toMergedResult(item));
+    } else {
+      // Page is full and the next item is not a duplicate
+      break;
+    }
+
+    const target = existing ?? merged[merged.length - 1]!;
+    for (const key of buildDedupeKeys(target)) {
+      byKey.set(key, target);
+    }
+    next.position++;
+  }
+
+  // Build the cursor from the remaining stream positions
+  const remaining: Partial<Record<Provider, StreamPosition>> = {};
+  for (const stream of streams) {
+    if (stream.done) continue;
+    if (stream.position < stream.buffer.length) {
+      remaining[stream.provider] = { page: stream.page, skip: stream.position };
+    } else if (stream.nextPage !== undefined) {
+      remaining[stream.provider] = { page: stream.nextPage, skip: 0 };
+    }
+  }
+
+  return {
+    results: merged,
+    nextCursor:
+      Object.keys(remaining).length > 0
+        ? encodeSearchCursor({ v: 1, streams: remaining })
+        : undefined,
+    providers: streams
+      .map((s) => s.provider)
+      .filter((p) => !failedProviders.includes(p)),
+    failedProviders,
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * Cross-provider identity resolution
+ * Maps KIO case numbers to SAOS and UZP document IDs, persisting
+ * the mappings in the cache
+ */
+
+import type {
+  Provider,
+  KioProvider,
+  JudgmentType,
+  JudgmentResponse,
+  MergedSearchResult,
+  SourceLinks,
+} from './types.js';
+import type { ProviderRouter } from './router.js';
+import { extractUzpId } from './router.js';
+import { normalizeCaseNumber } from './federated.js';
+import type { Cache } from '../cache/types.js';
+import { CacheTTL } from '../cache/types.js';
+import { ProviderError, TimeoutError, NotFoundError } from '../utils/errors.js';
+
+/**
+ * One judgment known under provider-specific IDs
+ */
+export interface JudgmentIdentity {
+  /** Normalized case numbers */
+  caseNumbers: string[];
+  /** Judgment date (YYYY-MM-DD) */
+  judgmentDate: string;
+  /** Judgment type, if known */
+  judgmentType?: JudgmentType;
+  /** Document ID per provider */
+  ids: Partial<Record<Provider, string>>;
+}
+
+/**
+ * Source links of a document
+ */
+export interface ResolvedSourceLinks {
+  links: SourceLinks;
+  /** Whether resolution failed and only the provider's own links are given */
+  partial: boolean;
+}
+
+/**
+ * Identity resolver configuration
+ */
+export interface IdentityResolverConfig {
+  /** TTL for persisted mappings (ms) */
+  ttlMs?: number;
+  /** Maximum search results inspected per case number */
+  searchLimit?: number;
+}
+
+/**
+ * Cache key for identities of a case number
+ */
+function caseKey(caseNumber: string): string {
+  return `identity:case:${normalizeCaseNumber(caseNumber)}`;
+}
+
+/**
+ * Cache key for the identity of a provider document
+ */
+function providerKey(provider: Provider, providerId: string): string {
+  return `identity:${provider}:${providerId}`;
+}
+
+/**
+ * Check if two identities describe the same judgment
+ */
+function isSameJudgment(a: JudgmentIdentity, b: JudgmentIdentity): boolean {
+  const sharesId = (Object.keys(a.ids) as Provider[]).some(
+    (p) => a.ids[p] !== undefined && a.ids[p] === b.ids[p]
+  );
+  if (sharesId) {
+    return true;
+  }
+
+  return (
+    a.judgmentDate !== '' &&
+    a.judgmentDate === b.judgmentDate &&
+    a.caseNumbers.some((c) => b.caseNumbers.includes(c))
+  );
+}
+
+/**
+ * Merge two identities of the same judgment
+ */
+function mergeIdentities(a: JudgmentIdentity, b: JudgmentIdentity): JudgmentIdentity {
+  return {
+    caseNumbers: [...new Set([...a.caseNumbers, ...b.caseNumbers])],
+    judgmentDate: a.judgmentDate || b.judgmentDate,
+    judgmentType: a.judgmentType ?? b.judgmentType,
+    ids: { ...b.ids, ...a.ids },
+  };
+}
+
+/**
+ * Build an identity from a merged search result
+ */
+function identityFromSearchResult(result: MergedSearchResult): JudgmentIdentity {
+  const ids: Partial<Record<Provider, string>> = {};
+  for (const source of result.sources) {
+    ids[source.provider] ??= source.providerId;
+  }
+
+  return {
+    caseNumbers: [...new Set(result.caseNumbers.map(normalizeCaseNumber))],
+    judgmentDate: result.judgmentDate,
+    judgmentType: result.judgmentType,
+    ids,
+  };
+}
+
+/**
+ * Resolves judgments across providers by case number
+ */
+export class IdentityResolver {
+  private readonly providers: Map<Provider, KioProvider>;
+  private readonly router: ProviderRouter;
+  private readonly cache: Cache;
+  private readonly ttlMs: number;
+  private readonly searchLimit: number;
+
+  constructor(
+    providers: Map<Provider, KioProvider>,
+    router: ProviderRouter,
+    cache: Cache,
+    config: IdentityResolverConfig = {}
+  ) {
+    this.providers = providers;
+    this.router = router;
+    this.cache = cache;
+    this.ttlMs = config.ttlMs ?? CacheTTL.IDENTITY;
+    this.searchLimit = config.searchLimit ?? 20;
+  }
+
+  /**
+   * Resolve a case number to every judgment published under it
+   * Several identities are returned for joined cases or separate rulings
+   */
+  async resolveCaseNumber(caseNumber: string): Promise<JudgmentIdentity[]> {
+    const normalized = normalizeCaseNumber(caseNumber);
+    const cached = await this.read<JudgmentIdentity[]>(caseKey(normalized));
+    if (cached && cached.length > 0) {
+      return cached;
+    }
+
+    const response = await this.router.searchAll({
+      caseNumber,
+      limit: this.searchLimit,
+      page: 1,
+      includeSnippets: false,
+    });
+
+    const identities = response.results
+      .map(identityFromSearchResult)
+      .filter((identity) => identity.caseNumbers.includes(normalized));
+
+    // Only persist answers that every provider contributed to; a case number
+    // not found yet may be published later
+    if (response.failedProviders.length === 0 && identities.length > 0) {
+      await this.write(caseKey(normalized), identities);
+      for (const identity of identities) {
+        await this.record(identity);
+      }
+    }
+
+    return identities;
+  }
+
+  /**
+   * Resolve a provider document to its cross-provider identity
+   * Unknown documents are fetched once to learn their case number
+   */
+  async resolveProviderId(
+    provider: Provider,
+    providerId: string
+  ): Promise<JudgmentIdentity> {
+    const cached = await this.read<JudgmentIdentity>(providerKey(provider, providerId));
+    if (cached) {
+      return cached;
+    }
+
+    const { response } = await this.router.getJudgment(provider, {
+      providerId,
+      formatPreference: 'text',
+      maxChars: 1000,
+      offsetChars: 0,
+    });
+
+    let identity = await this.recordJudgment(provider, providerId, response);
+
+    // Look up the other providers by case number
+    const caseNumber = identity.caseNumbers.find((c) => c.startsWith('KIO'));
+    if (caseNumber && Object.keys(identity.ids).length < this.providers.size) {
+      try {
+        const match = (await this.resolveCaseNumber(caseNumber)).find((candidate) =>
+          isSameJudgment(identity, candidate)
+        );
+        if (match) {
+          identity = mergeIdentities(identity, match);
+          await this.record(identity);
+        }
+      } catch (error) {
+        // Partial identity is still useful when search is unavailable
+        if (!(error instanceof ProviderError || error instanceof TimeoutError)) {
+          throw error;
+        }
+      }
+    }
+
+    return identity;
+  }
+
+  /**
+   * Record the identity learned from a retrieved judgment
+   */
+  async recordJudgment(
+    provider: Provider,
+    providerId: string,
+    response: JudgmentResponse
+  ): Promise<JudgmentIdentity> {
+    const ids: Partial<Record<Provider, string>> = { [provider]: providerId };
+
+    // SAOS keeps the original UZP document URL
+    const uzpId = provider === 'uzp' ? undefined : extractUzpId(response.sourceLinks);
+    if (uzpId) {
+      ids.uzp = uzpId;
+    }
+
+    const identity: JudgmentIdentity = {
+      caseNumbers: [...new Set(response.metadata.caseNumbers.map(normalizeCaseNumber))],
+      judgmentDate: response.metadata.judgmentDate,
+      judgmentType: response.metadata.judgmentType,
+      ids,
+    };
+
+    const existing = await this.read<JudgmentIdentity>(providerKey(provider, providerId));
+    const merged = existing ? mergeIdentities(existing, identity) : identity;
+    await this.record(merged);
+    return merged;
+  }
+
+  /**
+   * Get source links for a document, completed with other providers' links
+   * Falls back to the provider's own links, flagged partial, when resolution fails
+   */
+  async getSourceLinks(provider: Provider, providerId: string): Promise<ResolvedSourceLinks> {
+    const links: SourceLinks = { ...this.getProviderLinks(provider, providerId) };
+
+    let identity: JudgmentIdentity;
+    try {
+      identity = await this.resolveProviderId(provider, providerId);
+    } catch (error) {
+      if (
+        error instanceof ProviderError ||
+        error instanceof TimeoutError ||
+        error instanceof NotFoundError
+      ) {
+        return { links, partial: true };
+      }
+      throw error;
+    }
+
+    return { links: this.completeSourceLinks(links, identity), partial: false };
+  }
+
+  /**
+   * Fill missing source links from every provider copy of a judgment
+   */
+  completeSourceLinks(links: SourceLinks, identity: JudgmentIdentity): SourceLinks {
+    const complete: SourceLinks = { ...links };
+
+    for (const [name, id] of Object.entries(identity.ids) as [Provider, string][]) {
+      const other = this.getProviderLinks(name, id);
+      complete.saosHref ??= other.saosHref;
+      complete.saosSourceUrl ??= other.saosSourceUrl;
+      complete.uzpHtml ??= other.uzpHtml;
+      complete.uzpPdf ??= other.uzpPdf;
+    }
+
+    return complete;
+  }
+
+  /**
+   * Get a provider's own links for a document
+   */
+  private getProviderLinks(provider: Provider, providerId: string): SourceLinks {
+    return this.providers.get(provider)?.getSourceLinks(providerId) ?? {};
+  }
+
+  /**
+   * Persist an identity under each of its provider IDs
+   */
+  private async record(identity: JudgmentIdentity): Promise<void> {
+    for (const [provider, id] of Object.entries(identity.ids) as [Provider, string][]) {
+      await this.write(providerKey(provider, id), identity);
+    }
+  }
+
+  /**
+   * Read a mapping (cache errors are treated as misses)
+   */
+  private async read<T>(key: string): Promise<T | undefined> {
+    try {
+      return await this.cache.get<T>(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a mapping (cache errors are non-fatal)
+   */
+  private async write<T>(key: string, value: T): Promise<void> {
+    try {
+      await this.cache.set(key, value, this.ttlMs);
+    } catch {
+      // Cache errors are non-fatal
+    }
+  }
+}
+
+/**
+ * Create an identity resolver instance
+ */
+export function createIdentityResolver(
+  providers: Map<Provider, KioProvider>,
+  router: ProviderRouter,
+  cache: Cache,
+  config?: IdentityResolverConfig
+): IdentityResolver {
+  return new IdentityResolver(providers, router, cache, config);
+}
@@ -18,3 +18,49 @@ export {
   createUzpProvider,
   type UzpProviderConfig,
 } from './uzp/index.js';
+
+// Local Provider (offline corpus)
+export {
+  LocalProvider,
+  createLocalProvider,
+  LocalStore,
+  createLocalStore,
+  CorpusSync,
+  createCorpusSync,
+  type LocalProviderConfig,
+  type CorpusSyncConfig,
+  type SyncResult,
+  type LocalJudgmentRecord,
+} from './local/index.js';
+
+// Routing and failover
+export {
+  ProviderRouter,
+  createProviderRouter,
+  extractUzpId,
+  type ProviderRouterConfig,
+  type RoutedResponse,
+} from './router.js';
+export {
+  federatedSearch,
+  normalizeCaseNumber,
+  buildDedupeKeys,
+  encodeSearchCursor,
+  decodeSearchCursor,
+  type SearchCursor,
+  type SearchPageFetcher,
+} from './federated.js';
+export {
+  IdentityResolver,
+  createIdentityResolver,
+  type JudgmentIdentity,
+  type ResolvedSourceLinks,
+  type IdentityResolverConfig,
+} from './identity.js';
+export {
+  CircuitBreaker,
+  createCircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  type CircuitBreakerConfig,
+  type CircuitState,
+} from './circuit-breaker.js';
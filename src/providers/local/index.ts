@@ -0,0 +1,17 @@
+/**
+ * Local Provider exports
+ */
+
+export { LocalProvider, createLocalProvider, type LocalProviderConfig } from './provider.js';
+export { LocalStore, createLocalStore, RECORDS_FILE, INDEX_FILE } from './store.js';
+export {
+  CorpusSync,
+  createCorpusSync,
+  SYNC_STATE_FILE,
+  type CorpusSyncConfig,
+  type SyncOptions,
+  type SyncProgress,
+  type SyncResult,
+  type SyncState,
+} from './sync.js';
+export * from './types.js';
@@ -0,0 +1,304 @@
+/**
+ * Local Provider implementation
+ * Implements the KioProvider interface on top of an on-disk corpus,
+ * for offline use without SAOS or UZP
+ */
+
+import type {
+  KioProvider,
+  SearchParams,
+  SearchResponse,
+  JudgmentParams,
+  JudgmentResponse,
+  SourceLinks,
+  HealthStatus,
+  NormalizedSearchResult,
+} from '../types.js';
+import type { LocalDocument } from './types.js';
+import { LocalStore, createLocalStore } from './store.js';
+import { normalizeCaseNumber } from '../federated.js';
+import {
+  paginateJudgment,
+  analyzeText,
+  bm25TermScore,
+  buildQueryText,
+  buildSnippet,
+  foldDiacritics,
+  matchesLegalBasis,
+} from '../../normalization/index.js';
+import { NotFoundError } from '../../utils/errors.js';
+
+export interface LocalProviderConfig {
+  /** Corpus directory (judgments.jsonl and index.json) */
+  directory: string;
+}
+
+/** Length of the snippet when the text has no query hits */
+const SNIPPET_LENGTH = 300;
+
+/**
+ * Fold text for case- and diacritic-insensitive comparison
+ */
+function fold(text: string): string {
+  return foldDiacritics(text.toLowerCase()).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Check the metadata filters of a search
+ */
+function matchesFilters(doc: LocalDocument, params: SearchParams): boolean {
+  if (params.caseNumber) {
+    const caseNumber = normalizeCaseNumber(params.caseNumber);
+    if (!doc.caseNumbers.some((c) => normalizeCaseNumber(c) === caseNumber)) {
+      return false;
+    }
+  }
+  if (params.dateFrom && doc.judgmentDate < params.dateFrom) {
+    return false;
+  }
+  if (params.dateTo && doc.judgmentDate > params.dateTo) {
+    return false;
+  }
+  if (params.judgmentType && doc.judgmentType !== params.judgmentType) {
+    return false;
+  }
+  if (params.outcome && doc.outcome !== params.outcome) {
+    return false;
+  }
+  if (
+    params.legalBasis &&
+    !doc.structuredLegalBases?.some((basis) => matchesLegalBasis(basis, params.legalBasis!))
+  ) {
+    return false;
+  }
+  if (params.judge) {
+    const judge = fold(params.judge);
+    if (!doc.judges.some((name) => fold(name).includes(judge))) {
+      return false;
+    }
+  }
+  if (params.keywords?.length) {
+    const keywords = doc.keywords.map(fold);
+    if (!params.keywords.every((keyword) => keywords.includes(fold(keyword)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Local Provider for KIO judgments
+ *
+ * Full-text search requires every query and phrase term; phrases are
+ * then checked in the stored text. Results are scored with BM25.
+ */
+export class LocalProvider implements KioProvider {
+  readonly name = 'local' as const;
+  private readonly store: LocalStore;
+
+  constructor(config: LocalProviderConfig) {
+    this.store = createLocalStore(config.directory);
+  }
+
+  /**
+   * Search the local corpus
+   */
+  async search(params: SearchParams): Promise<SearchResponse> {
+    await this.store.load();
+
+    // Pages are 1-based, as for UZP
+    const page = Math.max(1, params.page);
+    const requiredTerms = [...new Set(analyzeText([params.query, params.phrase].join(' ')))];
+    const scores = this.scoreDocuments(requiredTerms);
+
+    let candidates = scores
+      ? [...scores.keys()]
+      : this.store.allDocuments();
+    candidates = candidates.filter((doc) => matchesFilters(doc, params));
+
+    const excluded = new Set(
+      analyzeText((params.excludeTerms ?? []).join(' ')).flatMap((term) => [
+        ...this.store.lookup(term).keys(),
+      ])
+    );
+    candidates = candidates.filter((doc) => !excluded.has(doc));
+
+    if (params.phrase) {
+      candidates = await this.filterByPhrase(candidates, params.phrase);
+    }
+
+    const byDate = (a: LocalDocument, b: LocalDocument) =>
+      b.judgmentDate.localeCompare(a.judgmentDate) || a.id.localeCompare(b.id);
+    candidates.sort(
+      params.sort === 'date_asc'
+        ? (a, b) => -byDate(a, b)
+        : params.sort === 'relevance' && scores
+          ? (a, b) => scores.get(b)! - scores.get(a)! || byDate(a, b)
+          : byDate
+    );
+
+    const start = (page - 1) * params.limit;
+    const pageDocs = candidates.slice(start, start + params.limit);
+    const query = params.includeSnippets ? buildQueryText(params) : undefined;
+    const results = await Promise.all(
+      pageDocs.map((doc) =>
+        this.toSearchResult(doc, params.includeSnippets, query, params.snippetFragments)
+      )
+    );
+
+    return {
+      results,
+      nextPage: start + params.limit < candidates.length ? page + 1 : undefined,
+      totalCount: candidates.length,
+    };
+  }
+
+  /**
+   * Get a specific judgment by local ID
+   */
+  async getJudgment(params: JudgmentParams): Promise<JudgmentResponse> {
+    await this.store.load();
+
+    const record = await this.store.read(params.providerId);
+    if (!record) {
+      throw new NotFoundError('judgment', params.providerId);
+    }
+
+    // Segment and apply pagination (optionally within one section)
+    const { text, continuation, segments } = paginateJudgment(record.content.text, params);
+
+    return {
+      metadata: record.metadata,
+      content: {
+        text,
+        htmlUrl: record.content.htmlUrl,
+        pdfUrl: record.content.pdfUrl,
+      },
+      continuation,
+      sourceLinks: record.sourceLinks,
+      segments,
+    };
+  }
+
+  /**
+   * Get source links for a judgment (the links of its original source)
+   */
+  getSourceLinks(providerId: string): SourceLinks {
+    return { ...this.store.getSourceLinks(providerId) };
+  }
+
+  /**
+   * Check if the corpus can be loaded
+   */
+  async healthCheck(): Promise<HealthStatus> {
+    const startTime = Date.now();
+
+    try {
+      await this.store.load();
+
+      return {
+        provider: 'local',
+        available: true,
+        latencyMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        provider: 'local',
+        available: false,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Score documents containing every term with BM25
+   * @returns undefined when there are no terms to match
+   */
+  private scoreDocuments(terms: string[]): Map<LocalDocument, number> | undefined {
+    if (terms.length === 0) {
+      return undefined;
+    }
+
+    const total = this.store.size;
+    const averageLength = this.store.averageTermCount() || 1;
+    let scores: Map<LocalDocument, number> | undefined;
+
+    for (const term of terms) {
+      const matches = this.store.lookup(term);
+      const next = new Map<LocalDocument, number>();
+
+      for (const [doc, frequency] of matches) {
+        const previous = scores ? scores.get(doc) : 0;
+        if (previous === undefined) {
+          continue;
+        }
+        next.set(
+          doc,
+          previous + bm25TermScore(frequency, doc.termCount, averageLength, matches.size, total)
+        );
+      }
+      scores = next;
+    }
+
+    return scores;
+  }
+
+  /**
+   * Keep documents whose text contains the phrase
+   */
+  private async filterByPhrase(docs: LocalDocument[], phrase: string): Promise<LocalDocument[]> {
+    const folded = fold(phrase);
+    const kept: LocalDocument[] = [];
+    for (const doc of docs) {
+      const record = await this.store.read(doc.id);
+      if (record && fold(record.content.text).includes(folded)) {
+        kept.push(doc);
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Map an indexed document to a search result
+   */
+  private async toSearchResult(
+    doc: LocalDocument,
+    includeSnippets: boolean,
+    query: string | undefined,
+    fragments: number | undefined
+  ): Promise<NormalizedSearchResult> {
+    let snippet: string | undefined;
+    if (includeSnippets) {
+      const text = (await this.store.read(doc.id))?.content.text ?? '';
+      snippet =
+        (query && buildSnippet(text, query, { fragments })) ||
+        (text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}...` : text) ||
+        undefined;
+    }
+
+    return {
+      provider: 'local',
+      providerId: doc.id,
+      caseNumbers: doc.caseNumbers,
+      judgmentDate: doc.judgmentDate,
+      judgmentType: doc.judgmentType,
+      decision: doc.decision,
+      outcome: doc.outcome,
+      outcomeConfidence: doc.outcomeConfidence,
+      structuredLegalBases: doc.structuredLegalBases,
+      keywords: doc.keywords,
+      snippet,
+      sourceUrl: doc.sourceLinks.saosHref ?? doc.sourceLinks.uzpHtml ?? `local:${doc.id}`,
+    };
+  }
+}
+
+/**
+ * Create a local provider instance
+ */
+export function createLocalProvider(config: LocalProviderConfig): LocalProvider {
+  return new LocalProvider(config);
+}
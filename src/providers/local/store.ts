@@ -0,0 +1,467 @@
+/**
+ * Local judgment store
+ * Appends normalized judgments to judgments.jsonl and keeps an inverted
+ * index of their terms in index.json. Records appended after the index was
+ * saved are indexed on load; a missing or mismatched index is rebuilt from
+ * the JSON lines.
+ */
+
+import { createReadStream } from 'node:fs';
+import { mkdir, open, readFile, rename, stat, writeFile, appendFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { SourceLinks } from '../types.js';
+import type { LocalJudgmentRecord, LocalDocument, LocalIndexFile } from './types.js';
+import { analyzeText } from '../../normalization/index.js';
+import { ProviderError } from '../../utils/errors.js';
+
+/** Record file name */
+export const RECORDS_FILE = 'judgments.jsonl';
+
+/** Index file name */
+export const INDEX_FILE = 'index.json';
+
+/**
+ * Count the terms of a record
+ */
+function countTerms(record: LocalJudgmentRecord): Map<string, number> {
+  const text = [
+    record.content.text,
+    record.metadata.decision ?? '',
+    record.metadata.keywords.join(' '),
+    record.metadata.caseNumbers.join(' '),
+  ].join(' ');
+
+  const counts = new Map<string, number>();
+  for (const term of analyzeText(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Build the indexed summary of a record
+ */
+function toDocument(
+  record: LocalJudgmentRecord,
+  offset: number,
+  length: number,
+  termCount: number
+): LocalDocument {
+  const { metadata } = record;
+  return {
+    id: record.id,
+    offset,
+    length,
+    caseNumbers: metadata.caseNumbers,
+    judgmentDate: metadata.judgmentDate,
+    judgmentType: metadata.judgmentType,
+    decision: metadata.decision,
+    outcome: metadata.outcome,
+    outcomeConfidence: metadata.outcomeConfidence,
+    judges: metadata.judges,
+    keywords: metadata.keywords,
+    structuredLegalBases: metadata.structuredLegalBases,
+    sourceLinks: record.sourceLinks,
+    termCount,
+  };
+}
+
+/** Unindexed record bytes that trigger an index save on upsert */
+const INDEX_SAVE_BYTES = 16 * 1024 * 1024;
+
+/**
+ * On-disk store of normalized judgments with an inverted index
+ * Loads, reads, writes and compaction run one at a time.
+ */
+export class LocalStore {
+  readonly directory: string;
+  private documents: (LocalDocument | null)[] = [];
+  private postings = new Map<string, number[]>();
+  private readonly ordinals = new Map<string, number>();
+  private storeBytes = 0;
+  private replacedBytes = 0;
+  private totalTerms = 0;
+  /** Record bytes covered by index.json */
+  private savedBytes = 0;
+  /** Size and mtime of judgments.jsonl when it was last loaded or written */
+  private signature?: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Load the index, rebuilding it when missing or stale
+   * Reloads when judgments.jsonl changed size or mtime since the last load.
+   */
+  load(): Promise<void> {
+    return this.exclusive(() => this.refresh());
+  }
+
+  /**
+   * Number of stored judgments
+   */
+  get size(): number {
+    return this.ordinals.size;
+  }
+
+  /**
+   * Check if a judgment is stored
+   */
+  has(id: string): boolean {
+    return this.ordinals.has(id);
+  }
+
+  /**
+   * Get the indexed summary of a judgment
+   */
+  getDocument(id: string): LocalDocument | undefined {
+    const ordinal = this.ordinals.get(id);
+    return ordinal === undefined ? undefined : (this.documents[ordinal] ?? undefined);
+  }
+
+  /**
+   * Get source links of a judgment (undefined until the index is loaded)
+   */
+  getSourceLinks(id: string): SourceLinks | undefined {
+    return this.getDocument(id)?.sourceLinks;
+  }
+
+  /**
+   * Current documents in index order
+   */
+  allDocuments(): LocalDocument[] {
+    return this.documents.filter((doc): doc is LocalDocument => doc !== null);
+  }
+
+  /**
+   * Documents containing a term, with the term frequency
+   */
+  lookup(term: string): Map<LocalDocument, number> {
+    const found = new Map<LocalDocument, number>();
+    const list = this.postings.get(term) ?? [];
+    for (let i = 0; i < list.length; i += 2) {
+      const doc = this.documents[list[i]!];
+      if (doc) {
+        found.set(doc, list[i + 1]!);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Average number of indexed terms per document
+   */
+  averageTermCount(): number {
+    return this.size === 0 ? 0 : this.totalTerms / this.size;
+  }
+
+  /**
+   * Read a stored judgment
+   */
+  read(id: string): Promise<LocalJudgmentRecord | undefined> {
+    return this.exclusive(async () => {
+      const doc = this.getDocument(id);
+      if (!doc) {
+        return undefined;
+      }
+
+      const handle = await open(join(this.directory, RECORDS_FILE), 'r');
+      try {
+        const buffer = Buffer.alloc(doc.length);
+        await handle.read(buffer, 0, doc.length, doc.offset);
+        return JSON.parse(buffer.toString('utf8')) as LocalJudgmentRecord;
+      } finally {
+        await handle.close();
+      }
+    });
+  }
+
+  /**
+   * Store judgments, replacing earlier records with the same ID
+   * The records are appended; the index is saved once enough records are
+   * not covered by index.json, and the records are compacted once replaced
+   * records take up more than half of judgments.jsonl.
+   */
+  upsert(records: LocalJudgmentRecord[]): Promise<void> {
+    return this.exclusive(async () => {
+      await this.refresh();
+      if (records.length === 0) {
+        return;
+      }
+
+      await mkdir(this.directory, { recursive: true });
+      const lines = records.map((record) => JSON.stringify(record));
+      await appendFile(
+        join(this.directory, RECORDS_FILE),
+        lines.map((line) => `${line}\n`).join('')
+      );
+
+      records.forEach((record, index) => this.indexRecord(record, lines[index]!));
+      if (this.replacedBytes * 2 >= this.storeBytes) {
+        await this.compactRecords();
+      } else if (this.storeBytes - this.savedBytes >= INDEX_SAVE_BYTES) {
+        await this.writeIndex();
+      }
+      this.signature = await this.recordsSignature();
+    });
+  }
+
+  /**
+   * Write the index next to the records
+   */
+  save(): Promise<void> {
+    return this.exclusive(() => this.writeIndex());
+  }
+
+  /**
+   * Rewrite judgments.jsonl without replaced records
+   */
+  compact(): Promise<void> {
+    return this.exclusive(async () => {
+      await this.refresh();
+      if (this.replacedBytes > 0) {
+        await this.compactRecords();
+        this.signature = await this.recordsSignature();
+      }
+    });
+  }
+
+  /**
+   * Run a task after every task queued before it
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Size and mtime of judgments.jsonl (undefined when it does not exist)
+   */
+  private async recordsSignature(): Promise<string | undefined> {
+    try {
+      const { size, mtimeMs } = await stat(join(this.directory, RECORDS_FILE));
+      return `${size}:${mtimeMs}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reload the index unless judgments.jsonl is unchanged since the last load
+   */
+  private async refresh(): Promise<void> {
+    const signature = await this.recordsSignature();
+    if (this.signature === signature) {
+      return;
+    }
+
+    await this.loadIndex();
+    this.signature = signature;
+  }
+
+  /**
+   * Drop the in-memory index
+   */
+  private clear(): void {
+    this.documents = [];
+    this.postings = new Map();
+    this.ordinals.clear();
+    this.storeBytes = 0;
+    this.replacedBytes = 0;
+    this.totalTerms = 0;
+    this.savedBytes = 0;
+  }
+
+  /**
+   * Write index.json covering every record
+   */
+  private async writeIndex(): Promise<void> {
+    const file: LocalIndexFile = {
+      version: 2,
+      storeBytes: this.storeBytes,
+      replacedBytes: this.replacedBytes,
+      totalTerms: this.totalTerms,
+      documents: this.documents,
+      postings: Object.fromEntries(this.postings),
+    };
+
+    const path = join(this.directory, INDEX_FILE);
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(file));
+    await rename(`${path}.tmp`, path);
+    this.savedBytes = this.storeBytes;
+  }
+
+  /**
+   * Add one record line to the in-memory index
+   */
+  private indexRecord(record: LocalJudgmentRecord, line: string): void {
+    const length = Buffer.byteLength(line);
+    const counts = countTerms(record);
+    const termCount = [...counts.values()].reduce((sum, count) => sum + count, 0);
+
+    const previous = this.ordinals.get(record.id);
+    const replaced = previous === undefined ? undefined : this.documents[previous];
+    if (replaced) {
+      this.documents[previous!] = null;
+      this.replacedBytes += replaced.length + 1;
+      this.totalTerms -= replaced.termCount;
+    }
+
+    const ordinal = this.documents.length;
+    this.documents.push(toDocument(record, this.storeBytes, length, termCount));
+    this.ordinals.set(record.id, ordinal);
+    this.totalTerms += termCount;
+    for (const [term, count] of counts) {
+      let list = this.postings.get(term);
+      if (!list) {
+        list = [];
+        this.postings.set(term, list);
+      }
+      list.push(ordinal, count);
+    }
+
+    this.storeBytes += length + 1;
+  }
+
+  /**
+   * Copy the current records to a new judgments.jsonl and renumber the index
+   */
+  private async compactRecords(): Promise<void> {
+    const recordsPath = join(this.directory, RECORDS_FILE);
+    const documents: LocalDocument[] = [];
+    const renumbered = new Map<number, number>();
+    let offset = 0;
+
+    const source = await open(recordsPath, 'r');
+    const target = await open(`${recordsPath}.tmp`, 'w');
+    try {
+      for (const [ordinal, doc] of this.documents.entries()) {
+        if (!doc) {
+          continue;
+        }
+        const buffer = Buffer.alloc(doc.length + 1, '\n');
+        await source.read(buffer, 0, doc.length, doc.offset);
+        await target.write(buffer);
+        renumbered.set(ordinal, documents.length);
+        documents.push({ ...doc, offset });
+        offset += buffer.length;
+      }
+    } finally {
+      await source.close();
+      await target.close();
+    }
+
+    const postings = new Map<string, number[]>();
+    for (const [term, list] of this.postings) {
+      const kept: number[] = [];
+      for (let i = 0; i < list.length; i += 2) {
+        const ordinal = renumbered.get(list[i]!);
+        if (ordinal !== undefined) {
+          kept.push(ordinal, list[i + 1]!);
+        }
+      }
+      if (kept.length > 0) {
+        postings.set(term, kept);
+      }
+    }
+
+    await rename(`${recordsPath}.tmp`, recordsPath);
+    this.documents = documents;
+    this.postings = postings;
+    this.ordinals.clear();
+    documents.forEach((doc, ordinal) => this.ordinals.set(doc.id, ordinal));
+    this.storeBytes = offset;
+    this.replacedBytes = 0;
+    await this.writeIndex();
+  }
+
+  /**
+   * Load index.json and index the records appended after it, or rebuild the
+   * index from the records
+   */
+  private async loadIndex(): Promise<void> {
+    this.clear();
+    const recordsPath = join(this.directory, RECORDS_FILE);
+    let recordsBytes: number;
+    try {
+      recordsBytes = (await stat(recordsPath)).size;
+    } catch {
+      // Empty corpus, the directory is created on the first write
+      return;
+    }
+
+    try {
+      const file = JSON.parse(
+        await readFile(join(this.directory, INDEX_FILE), 'utf8')
+      ) as LocalIndexFile;
+      if (file.version === 2 && file.storeBytes <= recordsBytes) {
+        this.documents = file.documents;
+        this.postings = new Map(Object.entries(file.postings));
+        this.storeBytes = file.storeBytes;
+        this.replacedBytes = file.replacedBytes;
+        this.totalTerms = file.totalTerms;
+        this.savedBytes = file.storeBytes;
+        this.documents.forEach((doc, ordinal) => {
+          if (doc) {
+            this.ordinals.set(doc.id, ordinal);
+          }
+        });
+        if (file.storeBytes < recordsBytes) {
+          await this.indexRecords(recordsPath, file.storeBytes);
+        }
+        return;
+      }
+    } catch {
+      // Missing or unreadable index, rebuilt below
+    }
+
+    this.clear();
+    await this.indexRecords(recordsPath, 0);
+    await this.writeIndex();
+  }
+
+  /**
+   * Index the records from a byte offset to the end of the file
+   */
+  private async indexRecords(recordsPath: string, start: number): Promise<void> {
+    const lines = createInterface({
+      input: createReadStream(recordsPath, { encoding: 'utf8', start }),
+      crlfDelay: Infinity,
+    });
+
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim().length === 0) {
+        this.storeBytes += Buffer.byteLength(line) + 1;
+        this.replacedBytes += Buffer.byteLength(line) + 1;
+        continue;
+      }
+
+      let record: LocalJudgmentRecord;
+      try {
+        record = JSON.parse(line) as LocalJudgmentRecord;
+      } catch {
+        throw new ProviderError(
+          `Corrupt local corpus record at ${RECORDS_FILE}:${lineNumber}`,
+          'local',
+          500,
+          false
+        );
+      }
+      this.indexRecord(record, line);
+    }
+  }
+}
+
+/**
+ * Create a local store for a corpus directory
+ */
+export function createLocalStore(directory: string): LocalStore {
+  return new LocalStore(directory);
+}
@@ -0,0 +1,297 @@
+/**
+ * Corpus sync
+ * Mirrors SAOS KIO judgments into a local store, page by page in judgment
+ * date order, with a checkpoint after every page so that interrupted runs
+ * resume where they stopped
+ */
+
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { LocalJudgmentRecord } from './types.js';
+import { LocalStore, createLocalStore } from './store.js';
+import { SaosClient, createSaosClient } from '../saos/client.js';
+import { mapJudgmentMetadata, mapJudgmentContent, buildSourceLinks } from '../saos/mapper.js';
+import { RateLimiter } from '../../security/rate-limiter.js';
+import type { DomainAllowlist } from '../../security/allowlist.js';
+import { ProviderError, RateLimitError } from '../../utils/errors.js';
+
+/** Checkpoint file name */
+export const SYNC_STATE_FILE = 'sync-state.json';
+
+/**
+ * Persisted sync checkpoint (sync-state.json)
+ */
+export interface SyncState {
+  version: 1;
+  /** Judgment date the current run started from */
+  dateFrom?: string;
+  /** Next search page of an unfinished run (0-based, as at SAOS) */
+  nextPage?: number;
+  /** Latest judgment date stored so far */
+  lastJudgmentDate?: string;
+  /** Time the last run finished (ISO 8601) */
+  completedAt?: string;
+}
+
+/**
+ * Sync progress, reported after every page
+ */
+export interface SyncProgress {
+  /** Page just processed (0-based) */
+  page: number;
+  /** Judgments matching the run at SAOS */
+  totalResults: number;
+  /** Judgments fetched and stored */
+  stored: number;
+  /** Judgments skipped because they are already stored */
+  skipped: number;
+  /** Judgments that could not be fetched */
+  failed: number;
+}
+
+/**
+ * Outcome of a sync run
+ */
+export interface SyncResult extends SyncProgress {
+  /** Judgment date the run started from */
+  dateFrom?: string;
+  /** Whether the run continued from a checkpoint */
+  resumed: boolean;
+  /** Whether every page was synced (false when stopped by maxPages) */
+  completed: boolean;
+}
+
+export interface CorpusSyncConfig {
+  /** Corpus directory */
+  directory: string;
+  /** SAOS base URL */
+  baseUrl: string;
+  /** Request timeout */
+  timeoutMs: number;
+  /** Domains SAOS requests may go to (defaults to the KIO sources) */
+  allowlist?: DomainAllowlist;
+  /** Limiter for SAOS requests; the sync waits when it is exhausted */
+  rateLimiter: RateLimiter;
+  /** Search page size */
+  pageSize?: number;
+  /** Called after every page */
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface SyncOptions {
+  /** Only sync judgments dated on or after this day (YYYY-MM-DD) */
+  since?: string;
+  /** Stop after this many pages (the checkpoint keeps the rest) */
+  maxPages?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Rate limiter key for SAOS requests */
+const RATE_LIMIT_KEY = 'sync:saos';
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Syncs SAOS KIO judgments into a local corpus
+ */
+export class CorpusSync {
+  private readonly store: LocalStore;
+  private readonly client: SaosClient;
+  private readonly config: CorpusSyncConfig;
+
+  constructor(config: CorpusSyncConfig) {
+    this.config = config;
+    this.store = createLocalStore(config.directory);
+    this.client = createSaosClient({
+      baseUrl: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      allowlist: config.allowlist,
+    });
+  }
+
+  /**
+   * Run a sync
+   *
+   * Unfinished runs resume from their checkpoint unless `since` asks for a
+   * different start date. Without `since`, a new run starts from the latest
+   * judgment date already stored, so repeated runs only fetch new judgments.
+   * The index is saved when the run ends.
+   */
+  async run(options: SyncOptions = {}): Promise<SyncResult> {
+    try {
+      return await this.runPages(options);
+    } finally {
+      await this.store.save();
+    }
+  }
+
+  /**
+   * Fetch pages until SAOS has no more or maxPages is reached
+   */
+  private async runPages(options: SyncOptions): Promise<SyncResult> {
+    await this.store.load();
+    const state = await this.readState();
+
+    const resumed =
+      state.nextPage !== undefined &&
+      (options.since === undefined || options.since === state.dateFrom);
+    const dateFrom = resumed ? state.dateFrom : (options.since ?? state.lastJudgmentDate);
+    let page = resumed ? state.nextPage! : 0;
+    let lastJudgmentDate = state.lastJudgmentDate;
+
+    const result: SyncResult = {
+      dateFrom,
+      resumed,
+      completed: false,
+      page,
+      totalResults: 0,
+      stored: 0,
+      skipped: 0,
+      failed: 0,
+    };
+
+    for (let pages = 0; options.maxPages === undefined || pages < options.maxPages; pages++) {
+      await this.acquire();
+      const response = await this.client.search({
+        courtType: 'NATIONAL_APPEAL_CHAMBER',
+        judgmentDateFrom: dateFrom,
+        sortingField: 'JUDGMENT_DATE',
+        sortingDirection: 'ASC',
+        pageSize: this.config.pageSize ?? DEFAULT_PAGE_SIZE,
+        pageNumber: page,
+      });
+
+      const records: LocalJudgmentRecord[] = [];
+      for (const item of response.items) {
+        const id = String(item.id);
+        if (this.store.has(id)) {
+          result.skipped++;
+          continue;
+        }
+
+        const record = await this.fetchRecord(item.id);
+        if (record) {
+          records.push(record);
+        } else {
+          result.failed++;
+        }
+      }
+
+      await this.store.upsert(records);
+      result.stored += records.length;
+      for (const item of response.items) {
+        if (!lastJudgmentDate || item.judgmentDate > lastJudgmentDate) {
+          lastJudgmentDate = item.judgmentDate;
+        }
+      }
+
+      result.page = page;
+      result.totalResults = response.info.totalResults;
+      this.config.onProgress?.({ ...result });
+
+      const pageSize = response.info.pageSize || 1;
+      const done =
+        response.items.length === 0 || (page + 1) * pageSize >= response.info.totalResults;
+      page++;
+
+      if (done) {
+        await this.writeState({
+          version: 1,
+          lastJudgmentDate,
+          completedAt: new Date().toISOString(),
+        });
+        result.completed = true;
+        return result;
+      }
+
+      await this.writeState({ version: 1, dateFrom, nextPage: page, lastJudgmentDate });
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch and normalize one judgment
+   * @returns undefined when SAOS does not have it as a KIO judgment
+   */
+  private async fetchRecord(id: number): Promise<LocalJudgmentRecord | undefined> {
+    await this.acquire();
+
+    let response;
+    try {
+      response = await this.client.getJudgment(id);
+    } catch (error) {
+      if (error instanceof ProviderError && error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (response.courtType !== 'NATIONAL_APPEAL_CHAMBER') {
+      return undefined;
+    }
+
+    return {
+      id: String(id),
+      source: { provider: 'saos', providerId: String(id) },
+      metadata: mapJudgmentMetadata(response),
+      content: mapJudgmentContent(response, this.config.baseUrl),
+      sourceLinks: buildSourceLinks(id, response, this.config.baseUrl),
+      storedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Wait until the rate limiter allows another request
+   */
+  private async acquire(): Promise<void> {
+    for (;;) {
+      try {
+        this.config.rateLimiter.checkLimit(RATE_LIMIT_KEY);
+        return;
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) {
+          throw error;
+        }
+        await sleep(Math.max(error.retryAfterMs, 1));
+      }
+    }
+  }
+
+  /**
+   * Read the checkpoint (empty when there is none)
+   */
+  private async readState(): Promise<SyncState> {
+    try {
+      const state = JSON.parse(
+        await readFile(join(this.config.directory, SYNC_STATE_FILE), 'utf8')
+      ) as SyncState;
+      return state.version === 1 ? state : { version: 1 };
+    } catch {
+      return { version: 1 };
+    }
+  }
+
+  /**
+   * Write the checkpoint
+   */
+  private async writeState(state: SyncState): Promise<void> {
+    const path = join(this.config.directory, SYNC_STATE_FILE);
+    await mkdir(this.config.directory, { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(state, null, 2));
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+/**
+ * Create a corpus sync
+ */
+export function createCorpusSync(config: CorpusSyncConfig): CorpusSync {
+  return new CorpusSync(config);
+}
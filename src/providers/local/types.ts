@@ -0,0 +1,71 @@
+/**
+ * Local corpus types
+ * Judgments are stored as JSON lines; the inverted index maps search
+ * terms to the records containing them
+ */
+
+import type {
+  Provider,
+  NormalizedJudgmentMetadata,
+  NormalizedJudgmentContent,
+  SourceLinks,
+} from '../types.js';
+
+/**
+ * Stored judgment (one line of judgments.jsonl)
+ */
+export interface LocalJudgmentRecord {
+  /** Local ID, unique within the corpus */
+  id: string;
+  /** Provider the judgment was collected from */
+  source?: {
+    provider: Exclude<Provider, 'local'>;
+    providerId: string;
+  };
+  metadata: NormalizedJudgmentMetadata;
+  content: NormalizedJudgmentContent;
+  sourceLinks: SourceLinks;
+  /** Time the record was stored (ISO 8601) */
+  storedAt: string;
+}
+
+/**
+ * Indexed summary of a stored judgment
+ * Carries what search needs without reading the record
+ */
+export interface LocalDocument {
+  id: string;
+  /** Byte offset of the record in judgments.jsonl */
+  offset: number;
+  /** Byte length of the record line (without the newline) */
+  length: number;
+  caseNumbers: string[];
+  judgmentDate: string;
+  judgmentType: NormalizedJudgmentMetadata['judgmentType'];
+  decision?: string;
+  outcome?: NormalizedJudgmentMetadata['outcome'];
+  outcomeConfidence?: number;
+  judges: string[];
+  keywords: string[];
+  structuredLegalBases?: NormalizedJudgmentMetadata['structuredLegalBases'];
+  sourceLinks: SourceLinks;
+  /** Number of indexed terms */
+  termCount: number;
+}
+
+/**
+ * Persisted index (index.json)
+ */
+export interface LocalIndexFile {
+  version: 2;
+  /** Bytes of judgments.jsonl covered by the index */
+  storeBytes: number;
+  /** Bytes taken by replaced records and blank lines */
+  replacedBytes: number;
+  /** Sum of the term counts of current documents */
+  totalTerms: number;
+  /** Documents by ordinal; records replaced by a later line are null */
+  documents: (LocalDocument | null)[];
+  /** Term → flat list of [ordinal, term frequency] pairs */
+  postings: Record<string, number[]>;
+}
@@ -0,0 +1,382 @@
+/**
+ * Provider router
+ * Selects providers for a request, falls back on failure and
+ * tracks provider availability with per-provider circuit breakers
+ */
+
+import type {
+  Provider,
+  ProviderPreference,
+  KioProvider,
+  SearchParams,
+  SearchResponse,
+  JudgmentParams,
+  JudgmentResponse,
+  HealthStatus,
+  SourceLinks,
+  FederatedSearchResponse,
+} from './types.js';
+import {
+  CircuitBreaker,
+  createCircuitBreaker,
+  type CircuitBreakerConfig,
+  type CircuitState,
+} from './circuit-breaker.js';
+import { federatedSearch } from './federated.js';
+import { ProviderError, TimeoutError, NotFoundError, ValidationError } from '../utils/errors.js';
+
+/**
+ * Provider router configuration
+ */
+export interface ProviderRouterConfig {
+  /** Providers tried in order when preference is "auto" */
+  fallbackOrder?: Provider[];
+  /** Circuit breaker settings applied to every provider */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+}
+
+/**
+ * Result of a routed request
+ */
+export interface RoutedResponse<T> {
+  /** Provider that served the request */
+  provider: Provider;
+  /** Provider-specific ID used (judgment requests only) */
+  providerId?: string;
+  /** Provider response */
+  response: T;
+  /** Provider that was tried first and failed, if any */
+  fallbackFrom?: Provider;
+}
+
+export const DEFAULT_FALLBACK_ORDER: Provider[] = ['saos', 'uzp', 'local'];
+
+/**
+ * Check if an error should trigger fallback to the next provider
+ * Only timeouts, server errors and retryable errors count against the
+ * provider's circuit breaker; other 4xx errors are the request's fault.
+ */
+function isFailoverError(error: unknown): error is ProviderError | TimeoutError {
+  return (
+    error instanceof TimeoutError ||
+    (error instanceof ProviderError && (error.isRetryable || error.statusCode >= 500))
+  );
+}
+
+/**
+ * IDs a provider document has without identity resolution
+ * The local corpus stores SAOS judgments under their SAOS IDs.
+ */
+function documentIds(provider: Provider, providerId: string): Partial<Record<Provider, string>> {
+  return provider === 'saos' ? { saos: providerId, local: providerId } : { [provider]: providerId };
+}
+
+/**
+ * Extract a UZP document ID from source links
+ * SAOS keeps the original UZP URL in source.judgmentUrl
+ */
+export function extractUzpId(links: SourceLinks): string | undefined {
+  for (const url of [links.uzpHtml, links.uzpPdf, links.saosSourceUrl]) {
+    const match = url?.match(/uzp\.gov\.pl\/Home\/(?:ContentHtml|PdfContent|Details)\/([^?/#]+)/i);
+    if (match?.[1]) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Routes requests to providers with fallback and circuit breaking
+ */
+export class ProviderRouter {
+  private readonly providers: Map<Provider, KioProvider>;
+  private readonly fallbackOrder: Provider[];
+  private readonly breakerConfig: Partial<CircuitBreakerConfig>;
+  private readonly breakers = new Map<Provider, CircuitBreaker>();
+  private readonly probes = new Map<Provider, Promise<void>>();
+
+  constructor(providers: Map<Provider, KioProvider>, config: ProviderRouterConfig = {}) {
+    this.providers = providers;
+    this.fallbackOrder = config.fallbackOrder ?? DEFAULT_FALLBACK_ORDER;
+    this.breakerConfig = config.circuitBreaker ?? {};
+  }
+
+  /**
+   * Get (or lazily create) the circuit breaker for a provider
+   */
+  private getBreaker(provider: Provider): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = createCircuitBreaker(this.breakerConfig);
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Health check a half-open provider
+   * Requests arriving while a probe is in flight wait for it instead of
+   * sending their own.
+   */
+  private probe(name: Provider): Promise<void> {
+    let probe = this.probes.get(name);
+    if (!probe) {
+      probe = this.providers
+        .get(name)!
+        .healthCheck()
+        .then(
+          (status) => this.recordHealth(status),
+          () => this.getBreaker(name).trip()
+        )
+        .finally(() => this.probes.delete(name));
+      this.probes.set(name, probe);
+    }
+    return probe;
+  }
+
+  /**
+   * Resolve the ordered list of providers to try for a preference
+   */
+  private async resolveCandidates(preference: ProviderPreference | 'all'): Promise<Provider[]> {
+    const requested =
+      preference === 'auto'
+        ? this.fallbackOrder
+        : preference === 'all'
+          ? [
+              ...this.fallbackOrder,
+              ...[...this.providers.keys()].filter((p) => !this.fallbackOrder.includes(p)),
+            ]
+          : [preference];
+    const candidates: Provider[] = [];
+
+    for (const name of requested) {
+      if (!this.providers.has(name)) {
+        continue;
+      }
+
+      const breaker = this.getBreaker(name);
+      let state = breaker.getState();
+
+      // Probe a half-open provider with a health check before sending traffic
+      if (state === 'half_open') {
+        await this.probe(name);
+        state = breaker.getState();
+      }
+
+      if (state !== 'open') {
+        candidates.push(name);
+      }
+    }
+
+    if (candidates.length === 0) {
+      throw new ProviderError(
+        `No available provider for "${preference}" (tried: ${requested.join(', ')})`,
+        preference,
+        503,
+        true
+      );
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Drop candidates that cannot apply the search filters
+   */
+  private filterSearchCandidates(
+    candidates: Provider[],
+    preference: ProviderPreference | 'all',
+    params: SearchParams
+  ): Provider[] {
+    const supported = candidates.filter(
+      (name) => this.providers.get(name)!.supportsSearch?.(params) ?? true
+    );
+    if (supported.length === 0) {
+      throw new ValidationError(
+        `No "${preference}" provider supports these search filters (tried: ${candidates.join(', ')})`,
+        'provider'
+      );
+    }
+    return supported;
+  }
+
+  /**
+   * Search using the preferred provider, falling back on provider errors
+   * Providers that cannot apply the filters are skipped.
+   */
+  async search(
+    preference: ProviderPreference,
+    params: SearchParams
+  ): Promise<RoutedResponse<SearchResponse>> {
+    const candidates = this.filterSearchCandidates(
+      await this.resolveCandidates(preference),
+      preference,
+      params
+    );
+    let lastError: unknown;
+
+    for (const name of candidates) {
+      const provider = this.providers.get(name)!;
+
+      try {
+        const response = await provider.search(params);
+        this.getBreaker(name).recordSuccess();
+
+        return {
+          provider: name,
+          response,
+          fallbackFrom: name !== candidates[0] ? candidates[0] : undefined,
+        };
+      } catch (error) {
+        if (!isFailoverError(error)) {
+          throw error;
+        }
+        this.getBreaker(name).recordFailure();
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Search every available provider and merge the results
+   * Providers failing mid-request are skipped as long as one succeeds
+   */
+  async searchAll(params: SearchParams, cursor?: string): Promise<FederatedSearchResponse> {
+    const candidates = this.filterSearchCandidates(
+      await this.resolveCandidates('all'),
+      'all',
+      params
+    );
+
+    return federatedSearch(
+      candidates,
+      async (name, page) => {
+        try {
+          const response = await this.providers.get(name)!.search({ ...params, page });
+          this.getBreaker(name).recordSuccess();
+          return response;
+        } catch (error) {
+          if (isFailoverError(error)) {
+            this.getBreaker(name).recordFailure();
+          }
+          throw error;
+        }
+      },
+      params.limit,
+      cursor,
+      params.sort
+    );
+  }
+
+  /**
+   * Get a judgment using the preferred provider
+   *
+   * Falls back on provider errors or when the provider has no text content,
+   * to providers holding the same document only: those in `knownIds` (from
+   * identity resolution), otherwise the local copy of a SAOS judgment and a
+   * UZP document linked from an empty response. Without `knownIds`, the ID
+   * belongs to the preferred provider (the first configured one for auto).
+   */
+  async getJudgment(
+    preference: ProviderPreference,
+    params: JudgmentParams,
+    knownIds?: Partial<Record<Provider, string>>
+  ): Promise<RoutedResponse<JudgmentResponse>> {
+    const candidates = await this.resolveCandidates(preference);
+    const owner =
+      preference === 'auto'
+        ? this.fallbackOrder.find((name) => this.providers.has(name))!
+        : preference;
+    const ids = { ...(knownIds ?? documentIds(owner, params.providerId)) };
+    let lastError: ProviderError | TimeoutError | undefined;
+    let emptyResult: RoutedResponse<JudgmentResponse> | undefined;
+    let firstTried: Provider | undefined;
+
+    for (const name of candidates) {
+      const provider = this.providers.get(name)!;
+
+      // Only providers holding the judgment are tried
+      const providerId = ids[name];
+      if (providerId === undefined) {
+        continue;
+      }
+      firstTried ??= name;
+
+      try {
+        const response = await provider.getJudgment({ ...params, providerId });
+        this.getBreaker(name).recordSuccess();
+
+        const routed: RoutedResponse<JudgmentResponse> = {
+          provider: name,
+          providerId,
+          response,
+          fallbackFrom: name !== firstTried ? firstTried : undefined,
+        };
+
+        // Empty text at the start of the document means the provider lacks content
+        const isEmpty = params.offsetChars === 0 && response.content.text.trim().length === 0;
+        if (!isEmpty) {
+          return routed;
+        }
+
+        emptyResult ??= routed;
+        ids.uzp ??= extractUzpId(response.sourceLinks);
+      } catch (error) {
+        if (!isFailoverError(error)) {
+          throw error;
+        }
+        this.getBreaker(name).recordFailure();
+        lastError = error;
+      }
+    }
+
+    // Prefer the first empty but valid response over a fallback error
+    if (emptyResult) {
+      return emptyResult;
+    }
+
+    if (lastError === undefined) {
+      throw new NotFoundError('judgment', params.providerId);
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Feed a health check result into the provider's circuit breaker
+   */
+  recordHealth(status: HealthStatus): void {
+    const breaker = this.getBreaker(status.provider);
+    if (status.available) {
+      breaker.recordSuccess();
+    } else {
+      breaker.trip();
+    }
+  }
+
+  /**
+   * Get circuit state for a provider
+   */
+  getCircuitState(provider: Provider): CircuitState {
+    return this.getBreaker(provider).getState();
+  }
+
+  /**
+   * Reset all circuit breakers
+   */
+  reset(): void {
+    this.breakers.clear();
+  }
+}
+
+/**
+ * Create a provider router instance
+ */
+export function createProviderRouter(
+  providers: Map<Provider, KioProvider>,
+  config?: ProviderRouterConfig
+): ProviderRouter {
+  return new ProviderRouter(providers, config);
+}
@@ -2,12 +2,20 @@
  * SAOS API client
  */
 
-import { HttpClient, createHttpClient } from '../../utils/http-client.js';
+import { HttpClient, createHttpClient, type RetryConfig } from '../../utils/http-client.js';
+import type { AuditLogger } from '../../security/audit-logger.js';
+import type { DomainAllowlist } from '../../security/allowlist.js';
 import type { SaosSearchResponse, SaosJudgmentResponse, SaosSearchParams } from './types.js';
 
 export interface SaosClientConfig {
   baseUrl: string;
   timeoutMs: number;
+  /** Retry settings for failed requests */
+  retry?: Partial<RetryConfig>;
+  /** Audit logger receiving per-attempt request timing and blocked domains */
+  auditLogger?: AuditLogger;
+  /** Domains requests may go to (defaults to the KIO sources) */
+  allowlist?: DomainAllowlist;
 }
 
 /**
@@ -22,6 +30,10 @@ export class SaosClient {
     this.http = createHttpClient({
       baseUrl: config.baseUrl,
       timeoutMs: config.timeoutMs,
+      provider: 'saos',
+      retry: config.retry,
+      auditLogger: config.auditLogger,
+      allowlist: config.allowlist,
       headers: {
         'Accept': 'application/json',
       },
@@ -33,7 +45,7 @@ export class SaosClient {
    * GET /api/search/judgments
    */
   async search(params: SaosSearchParams): Promise<SaosSearchResponse> {
-    const queryParams: Record<string, string | number | boolean | undefined> = {
+    const queryParams: Record<string, string | number | boolean | string[] | undefined> = {
       pageSize: params.pageSize ?? 10,
       pageNumber: params.pageNumber ?? 0,
     };
@@ -47,6 +59,23 @@ export class SaosClient {
       queryParams['caseNumber'] = params.caseNumber;
     }
 
+    if (params.legalBase) {
+      queryParams['legalBase'] = params.legalBase;
+    }
+
+    if (params.referencedRegulation) {
+      queryParams['referencedRegulation'] = params.referencedRegulation;
+    }
+
+    if (params.judgeName) {
+      queryParams['judgeName'] = params.judgeName;
+    }
+
+    if (params.keywords && params.keywords.length > 0) {
+      // One keywords parameter per keyword, all must match
+      queryParams['keywords'] = params.keywords;
+    }
+
     if (params.courtType) {
       queryParams['courtType'] = params.courtType;
     }
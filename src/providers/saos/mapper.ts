@@ -9,12 +9,27 @@ import type {
   NormalizedJudgmentContent,
   SourceLinks,
   JudgmentType,
+  LegalBasis,
 } from '../types.js';
 import type {
   SaosSearchResultItem,
   SaosJudgmentResponse,
   SaosJudgmentType,
 } from './types.js';
+import {
+  extractParties,
+  parseLegalBases,
+  parseLegalBasis,
+  formatLegalBasis,
+  isSameLegalBasis,
+  resolvePzpAct,
+  definedPzpAct,
+  classifyOutcome,
+  classifyJudgmentOutcome,
+  buildSnippet,
+  type OutcomeClassification,
+  type SnippetOptions,
+} from '../../normalization/index.js';
 
 /**
  * Map SAOS judgment type to normalized type
@@ -53,23 +68,49 @@ export function extractJudgeNames(
   return judges.map((j) => j.name);
 }
 
+/**
+ * Classify the outcome of a SAOS judgment
+ * Prefers the sentencja in the text, then the decision field, then the summary
+ */
+export function classifySaosOutcome(item: {
+  decision?: string;
+  summary?: string;
+  thesis?: string;
+  textContent?: string;
+}): OutcomeClassification | undefined {
+  return (
+    (item.textContent ? classifyJudgmentOutcome(item.textContent) : undefined) ??
+    (item.decision ? classifyOutcome(item.decision, 0.9) : undefined) ??
+    classifyOutcome([item.summary, item.thesis].filter(Boolean).join('\n'), 0.6)
+  );
+}
+
 /**
  * Map SAOS search result item to normalized search result
+ * @param query Query text to highlight in the snippet
  */
 export function mapSearchResult(
   item: SaosSearchResultItem,
-  baseUrl: string
+  baseUrl: string,
+  query?: string,
+  snippetOptions?: SnippetOptions
 ): NormalizedSearchResult {
   const caseNumbers = extractCaseNumbers(item.courtCases);
+  const classification = classifySaosOutcome(item);
 
-  // Generate snippet from available content
+  // Generate snippet from available content, around query hits when possible
+  const texts = [item.summary, item.thesis, item.textContent].filter(
+    (text): text is string => Boolean(text)
+  );
   let snippet: string | undefined;
-  if (item.summary) {
-    snippet = truncateText(item.summary, 300);
-  } else if (item.thesis) {
-    snippet = truncateText(item.thesis, 300);
-  } else if (item.textContent) {
-    snippet = truncateText(item.textContent, 300);
+  if (query) {
+    for (const text of texts) {
+      snippet = buildSnippet(text, query, snippetOptions);
+      if (snippet) break;
+    }
+  }
+  if (!snippet && texts[0]) {
+    snippet = truncateText(texts[0], 300);
   }
 
   return {
@@ -79,26 +120,88 @@ export function mapSearchResult(
     judgmentDate: item.judgmentDate,
     judgmentType: mapJudgmentType(item.judgmentType),
     decision: item.decision,
+    outcome: classification?.outcome,
+    outcomeConfidence: classification?.confidence,
+    structuredLegalBases: extractSaosLegalBases(item).structuredLegalBases,
+    keywords: item.keywords,
     snippet,
     sourceUrl: `${baseUrl}/judgments/${item.id}`,
   };
 }
 
+/**
+ * Extract Pzp legal bases from SAOS fields and the judgment text
+ * Legal bases that are not Pzp citations are kept as raw strings.
+ */
+export function extractSaosLegalBases(
+  response: Pick<
+    SaosSearchResultItem,
+    'judgmentDate' | 'textContent' | 'legalBases' | 'referencedRegulations'
+  >
+): { legalBases: string[]; structuredLegalBases: LegalBasis[] } {
+  const text = response.textContent ?? '';
+  const defaultAct = resolvePzpAct(text, response.judgmentDate);
+  const structured: LegalBasis[] = [];
+  const unparsed: string[] = [];
+
+  const add = (basis: LegalBasis) => {
+    if (!structured.some((b) => isSameLegalBasis(b, basis))) {
+      structured.push(basis);
+    }
+  };
+
+  for (const raw of response.legalBases ?? []) {
+    const basis = parseLegalBasis(raw, defaultAct);
+    if (basis) {
+      add(basis);
+    } else {
+      unparsed.push(raw);
+    }
+  }
+
+  // The journal title names the act a referenced regulation belongs to
+  for (const regulation of response.referencedRegulations ?? []) {
+    const title = regulation.journalTitle ?? '';
+    if (/zamówień\s+publicznych/i.test(title)) {
+      const basis = parseLegalBasis(regulation.text, definedPzpAct(title) ?? defaultAct);
+      if (basis) {
+        add(basis);
+      }
+    }
+  }
+
+  for (const basis of parseLegalBases(text, response.judgmentDate)) {
+    add(basis);
+  }
+
+  return {
+    legalBases: [...structured.map(formatLegalBasis), ...unparsed],
+    structuredLegalBases: structured,
+  };
+}
+
 /**
  * Map SAOS judgment response to normalized metadata
  */
 export function mapJudgmentMetadata(
   response: SaosJudgmentResponse
 ): NormalizedJudgmentMetadata {
+  const classification = classifySaosOutcome(response);
+  const { legalBases, structuredLegalBases } = extractSaosLegalBases(response);
+
   return {
     caseNumbers: extractCaseNumbers(response.courtCases),
     judgmentDate: response.judgmentDate,
     judgmentType: mapJudgmentType(response.judgmentType),
     decision: response.decision,
-    legalBases: response.legalBases ?? [],
+    outcome: classification?.outcome,
+    outcomeConfidence: classification?.confidence,
+    legalBases,
+    structuredLegalBases,
     judges: extractJudgeNames(response.judges),
     keywords: response.keywords ?? [],
     courtName: 'Krajowa Izba Odwoławcza',
+    parties: extractParties(response.textContent),
   };
 }
 
@@ -11,7 +11,6 @@ import type {
   JudgmentResponse,
   SourceLinks,
   HealthStatus,
-  ContinuationInfo,
 } from '../types.js';
 import { SaosClient, createSaosClient, type SaosClientConfig } from './client.js';
 import type { SaosSearchParams, SaosJudgmentType } from './types.js';
@@ -22,6 +21,13 @@ import {
   buildSourceLinks,
 } from './mapper.js';
 import { NotFoundError, ProviderError } from '../../utils/errors.js';
+import {
+  paginateJudgment,
+  filterByOutcome,
+  filterByLegalBasis,
+  formatProvision,
+  buildQueryText,
+} from '../../normalization/index.js';
 
 export interface SaosProviderConfig extends Partial<SaosClientConfig> {}
 
@@ -30,6 +36,32 @@ const DEFAULT_SAOS_CONFIG: SaosClientConfig = {
   timeoutMs: 30000,
 };
 
+/**
+ * Quote a term for the SAOS full-text syntax when it has several words
+ */
+function quoteTerm(term: string): string {
+  const cleaned = term.replace(/"/g, '').trim();
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Build the SAOS `all` query
+ * Phrases are quoted and excluded terms prefixed with a minus sign.
+ */
+function buildFullTextQuery(params: SearchParams): string | undefined {
+  const parts: string[] = [];
+  if (params.query) {
+    parts.push(params.query.trim());
+  }
+  if (params.phrase) {
+    parts.push(`"${params.phrase.replace(/"/g, '').trim()}"`);
+  }
+  for (const term of params.excludeTerms ?? []) {
+    parts.push(`-${quoteTerm(term)}`);
+  }
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
 /**
  * SAOS Provider for KIO judgments
  */
@@ -51,18 +83,34 @@ export class SaosProvider implements KioProvider {
    * Search for KIO judgments
    */
   async search(params: SearchParams): Promise<SearchResponse> {
+    // Pages are 1-based, as for UZP and local; SAOS counts them from 0
+    const page = Math.max(1, params.page);
+
     // Build SAOS-specific search params
     const saosParams: SaosSearchParams = {
       courtType: 'NATIONAL_APPEAL_CHAMBER', // Always filter to KIO
       pageSize: params.limit,
-      pageNumber: params.page,
-      sortingField: 'JUDGMENT_DATE',
-      sortingDirection: 'DESC',
+      pageNumber: page - 1,
     };
 
-    // Add query if provided
-    if (params.query) {
-      saosParams.all = params.query;
+    // SAOS orders by relevance when no sorting field is given
+    if (params.sort !== 'relevance') {
+      saosParams.sortingField = 'JUDGMENT_DATE';
+      saosParams.sortingDirection = params.sort === 'date_asc' ? 'ASC' : 'DESC';
+    }
+
+    // Add query, phrase and excluded terms to the full-text search
+    const all = buildFullTextQuery(params);
+    if (all) {
+      saosParams.all = all;
+    }
+
+    if (params.judge) {
+      saosParams.judgeName = params.judge;
+    }
+
+    if (params.keywords && params.keywords.length > 0) {
+      saosParams.keywords = params.keywords;
     }
 
     // Add case number if provided
@@ -70,6 +118,13 @@ export class SaosProvider implements KioProvider {
       saosParams.caseNumber = params.caseNumber;
     }
 
+    // Cited provision; legalBase holds the judgment's own basis text, which
+    // is often empty for KIO, so only the referenced regulations are matched.
+    // SAOS matches the provision in any act; results are filtered below.
+    if (params.legalBasis) {
+      saosParams.referencedRegulation = formatProvision(params.legalBasis);
+    }
+
     // Add date filters
     if (params.dateFrom) {
       saosParams.judgmentDateFrom = params.dateFrom;
@@ -86,20 +141,24 @@ export class SaosProvider implements KioProvider {
     // Execute search
     const response = await this.client.search(saosParams);
 
-    // Map results to normalized format
+    // Map results to normalized format, highlighting the query in snippets
+    const query = params.includeSnippets ? buildQueryText(params) : undefined;
     const results = response.items.map((item) =>
-      mapSearchResult(item, this.baseUrl)
+      mapSearchResult(item, this.baseUrl, query, { fragments: params.snippetFragments })
     );
 
     // Calculate next page
     const totalPages = Math.ceil(response.info.totalResults / response.info.pageSize);
-    const currentPage = response.info.pageNumber;
-    const nextPage = currentPage + 1 < totalPages ? currentPage + 1 : undefined;
+    const currentPage = response.info.pageNumber + 1;
+    const nextPage = currentPage < totalPages ? currentPage + 1 : undefined;
 
+    // SAOS cannot filter by outcome or by the act of a provision, results are
+    // filtered per page
     return {
-      results,
+      results: filterByLegalBasis(filterByOutcome(results, params.outcome), params.legalBasis),
       nextPage,
-      totalCount: response.info.totalResults,
+      totalCount:
+        params.outcome || params.legalBasis ? undefined : response.info.totalResults,
     };
   }
 
@@ -133,30 +192,19 @@ export class SaosProvider implements KioProvider {
     const fullContent = mapJudgmentContent(response, this.baseUrl);
     const sourceLinks = buildSourceLinks(id, response, this.baseUrl);
 
-    // Apply pagination (char-based)
-    const fullText = fullContent.text;
-    const totalChars = fullText.length;
-    const startOffset = params.offsetChars;
-    const endOffset = Math.min(startOffset + params.maxChars, totalChars);
-
-    const truncated = endOffset < totalChars;
-    const paginatedText = fullText.substring(startOffset, endOffset);
-
-    const continuation: ContinuationInfo = {
-      truncated,
-      nextOffsetChars: truncated ? endOffset : undefined,
-      totalChars,
-    };
+    // Segment and apply pagination (char-based, optionally within one section)
+    const { text, continuation, segments } = paginateJudgment(fullContent.text, params);
 
     return {
       metadata,
       content: {
-        text: paginatedText,
+        text,
         htmlUrl: fullContent.htmlUrl,
         pdfUrl: fullContent.pdfUrl,
       },
       continuation,
       sourceLinks,
+      segments,
     };
   }
 
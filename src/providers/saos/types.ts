@@ -152,6 +152,14 @@ export interface SaosJudgmentResponse {
 export interface SaosSearchParams {
   all?: string;
   caseNumber?: string;
+  /** Text of the judgment's legal basis */
+  legalBase?: string;
+  /** Text of a regulation referenced by the judgment */
+  referencedRegulation?: string;
+  /** Name of a judge on the panel */
+  judgeName?: string;
+  /** Keywords assigned to the judgment (all must match) */
+  keywords?: string[];
   courtType?: SaosCourtType;
   judgmentTypes?: SaosJudgmentType[];
   judgmentDateFrom?: string;
@@ -4,13 +4,31 @@
  */
 
 // Provider identifiers
-export type Provider = 'saos' | 'uzp';
+export type Provider = 'saos' | 'uzp' | 'local';
 
 // Judgment types from KIO
 export type JudgmentType = 'SENTENCE' | 'DECISION' | 'RESOLUTION';
 
+// Outcome of an appeal, derived from the sentencja
+export type JudgmentOutcome =
+  | 'UPHELD'
+  | 'PARTIALLY_UPHELD'
+  | 'DISMISSED'
+  | 'DISCONTINUED'
+  | 'REJECTED'
+  | 'RETURNED';
+
+// Prawo zamówień publicznych: act of 11 September 2019 or of 29 January 2004
+export type PzpAct = 'PZP_2019' | 'PZP_2004';
+
 // Provider preference for search operations
-export type ProviderPreference = 'auto' | 'saos' | 'uzp';
+export type ProviderPreference = 'auto' | 'saos' | 'uzp' | 'local';
+
+// Search preference, adding federated search across all providers
+export type SearchProviderPreference = ProviderPreference | 'all';
+
+// Search result order
+export type SearchSort = 'date_desc' | 'date_asc' | 'relevance';
 
 // Format preference for judgment content
 export type FormatPreference = 'text' | 'html' | 'pdf';
@@ -25,10 +43,36 @@ export interface NormalizedSearchResult {
   judgmentDate: string; // YYYY-MM-DD
   judgmentType: JudgmentType;
   decision?: string;
+  outcome?: JudgmentOutcome;
+  /** Classifier confidence for outcome (0-1) */
+  outcomeConfidence?: number;
+  /** Pzp citations known from the listing */
+  structuredLegalBases?: LegalBasis[];
+  /** Subject keywords assigned by the provider */
+  keywords?: string[];
   snippet?: string;
+  /** Relevance to the query (0-1), set by local re-ranking */
+  relevanceScore?: number;
   sourceUrl: string;
 }
 
+/**
+ * A provider copy of a judgment
+ */
+export interface ProviderSource {
+  provider: Provider;
+  providerId: string;
+  sourceUrl: string;
+}
+
+/**
+ * Search result merged across providers
+ * Carries every provider copy of the same judgment
+ */
+export interface MergedSearchResult extends NormalizedSearchResult {
+  sources: ProviderSource[];
+}
+
 /**
  * Normalized judgment metadata
  */
@@ -37,10 +81,73 @@ export interface NormalizedJudgmentMetadata {
   judgmentDate: string;
   judgmentType: JudgmentType;
   decision?: string;
+  outcome?: JudgmentOutcome;
+  /** Classifier confidence for outcome (0-1) */
+  outcomeConfidence?: number;
   legalBases: string[];
+  /** Pzp citations parsed from the text */
+  structuredLegalBases?: LegalBasis[];
   judges: string[];
   keywords: string[];
   courtName?: string;
+  parties?: JudgmentParties;
+}
+
+/**
+ * Structured Pzp citation ("art. 226 ust. 1 pkt 5 lit. a")
+ */
+export interface LegalBasis {
+  act: PzpAct;
+  /** Article (artykuł), e.g. "226" or "24aa" */
+  article: string;
+  /** Paragraph (ustęp) */
+  paragraph?: string;
+  /** Point (punkt) */
+  point?: string;
+  /** Letter (litera) */
+  letter?: string;
+}
+
+/**
+ * Cited provision filter
+ * Without an act, citations of either act match.
+ */
+export interface LegalBasisFilter extends Omit<LegalBasis, 'act'> {
+  act?: PzpAct;
+}
+
+/**
+ * Party to an appeal as named in the komparycja
+ */
+export interface JudgmentParty {
+  /** Name without the seat clause */
+  name: string;
+  /** Seat as written ("z siedzibą w Warszawie" gives "Warszawie") */
+  seat?: string;
+}
+
+/**
+ * Side joined by an intervening party
+ */
+export type InterveningSide = 'appellant' | 'contracting_authority';
+
+/**
+ * Intervening party (przystępujący)
+ */
+export interface JudgmentIntervener extends JudgmentParty {
+  side: InterveningSide;
+}
+
+/**
+ * Parties to the dispute
+ */
+export interface JudgmentParties {
+  /** Odwołujący */
+  appellants: JudgmentParty[];
+  /** Zamawiający */
+  contractingAuthorities: JudgmentParty[];
+  /** Przystępujący po stronie odwołującego or zamawiającego */
+  interveners: JudgmentIntervener[];
 }
 
 /**
@@ -52,6 +159,31 @@ export interface NormalizedJudgmentContent {
   pdfUrl?: string;
 }
 
+// Structural sections of a KIO judgment (uzasadnienie sub-sections included)
+export type JudgmentSectionType =
+  | 'header'
+  | 'komparycja'
+  | 'sentencja'
+  | 'uzasadnienie'
+  | 'stan_faktyczny'
+  | 'ocena_izby'
+  | 'koszty';
+
+/**
+ * Structural segment of judgment text
+ * Offsets are character positions in the full text (end exclusive)
+ */
+export interface JudgmentSegment {
+  /** Section type, or "punkt" for a numbered point of the sentencja */
+  type: JudgmentSectionType | 'punkt';
+  /** Point number or heading, if any */
+  label?: string;
+  start: number;
+  end: number;
+  /** Nested segments (sentencja points, uzasadnienie sub-sections) */
+  children?: JudgmentSegment[];
+}
+
 /**
  * Source links for citations (canonical URLs)
  */
@@ -80,9 +212,24 @@ export interface SearchParams {
   dateFrom?: string; // YYYY-MM-DD
   dateTo?: string; // YYYY-MM-DD
   judgmentType?: JudgmentType;
+  outcome?: JudgmentOutcome;
+  /** Cited provision; less specific filters match more specific citations */
+  legalBasis?: LegalBasisFilter;
+  /** Judge sitting on the panel */
+  judge?: string;
+  /** Subject keywords assigned to the judgment; all must match */
+  keywords?: string[];
+  /** Exact phrase that must appear in the text */
+  phrase?: string;
+  /** Terms that must not appear in the text */
+  excludeTerms?: string[];
+  /** Result order (default: date_desc) */
+  sort?: SearchSort;
   limit: number;
   page: number;
   includeSnippets: boolean;
+  /** Highlighted fragments per snippet (default: 1) */
+  snippetFragments?: number;
 }
 
 /**
@@ -94,6 +241,19 @@ export interface SearchResponse {
   totalCount?: number;
 }
 
+/**
+ * Federated search response (all providers merged)
+ */
+export interface FederatedSearchResponse {
+  results: MergedSearchResult[];
+  /** Opaque cursor for the next page, undefined when all streams are exhausted */
+  nextCursor?: string;
+  /** Providers that returned results */
+  providers: Provider[];
+  /** Providers that failed and were skipped */
+  failedProviders: Provider[];
+}
+
 /**
  * Judgment retrieval parameters
  */
@@ -102,6 +262,8 @@ export interface JudgmentParams {
   formatPreference: FormatPreference;
   maxChars: number;
   offsetChars: number;
+  /** Return only this section (offsets are then relative to the section) */
+  section?: JudgmentSectionType;
 }
 
 /**
@@ -112,6 +274,8 @@ export interface JudgmentResponse {
   content: NormalizedJudgmentContent;
   continuation: ContinuationInfo;
   sourceLinks: SourceLinks;
+  /** Structure of the full judgment text */
+  segments?: JudgmentSegment[];
 }
 
 /**
@@ -159,6 +323,12 @@ export interface KioProvider extends SearchProvider, JudgmentProvider {
    */
   readonly name: Provider;
 
+  /**
+   * Check if the provider can apply every filter of a search
+   * The router skips providers that cannot; absent means every filter is supported.
+   */
+  supportsSearch?(params: SearchParams): boolean;
+
   /**
    * Check if the provider is available
    */
@@ -3,13 +3,21 @@
  * Client for orzeczenia.uzp.gov.pl portal
  */
 
-import { HttpClient, createHttpClient } from '../../utils/http-client.js';
+import { HttpClient, createHttpClient, type RetryConfig } from '../../utils/http-client.js';
+import type { AuditLogger } from '../../security/audit-logger.js';
+import type { DomainAllowlist } from '../../security/allowlist.js';
 import { NotFoundError, ProviderError } from '../../utils/errors.js';
-import type { UzpKind } from './types.js';
+import type { UzpKind, UzpSearchParams } from './types.js';
 
 export interface UzpClientConfig {
   baseUrl: string;
   timeoutMs: number;
+  /** Retry settings for failed requests */
+  retry?: Partial<RetryConfig>;
+  /** Audit logger receiving per-attempt request timing and blocked domains */
+  auditLogger?: AuditLogger;
+  /** Domains requests may go to (defaults to the KIO sources) */
+  allowlist?: DomainAllowlist;
 }
 
 /**
@@ -24,6 +32,10 @@ export class UzpClient {
     this.http = createHttpClient({
       baseUrl: config.baseUrl,
       timeoutMs: config.timeoutMs,
+      provider: 'uzp',
+      retry: config.retry,
+      auditLogger: config.auditLogger,
+      allowlist: config.allowlist,
       headers: {
         'Accept': 'text/html,application/xhtml+xml',
         'Accept-Language': 'pl-PL,pl;q=0.9',
@@ -31,6 +43,46 @@ export class UzpClient {
     });
   }
 
+  /**
+   * Search the judgment listing
+   * GET /Home/GetResults
+   * Returns the HTML fragment rendered by the portal's results view
+   */
+  async search(params: UzpSearchParams): Promise<string> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      Kind: params.kind ?? 'KIO',
+      CurrentPage: params.page ?? 1,
+      PageSize: params.pageSize ?? 10,
+      CountStats: true,
+    };
+
+    if (params.phrase) {
+      queryParams['Phrase'] = params.phrase;
+    }
+
+    if (params.signature) {
+      queryParams['SignatureNumber'] = params.signature;
+    }
+
+    if (params.dateFrom) {
+      queryParams['JudgmentDateFrom'] = params.dateFrom;
+    }
+
+    if (params.dateTo) {
+      queryParams['JudgmentDateTo'] = params.dateTo;
+    }
+
+    if (params.documentType) {
+      queryParams['JudgmentType'] = params.documentType;
+    }
+
+    const response = await this.http.getHtml('/Home/GetResults', {
+      params: queryParams,
+    });
+
+    return response.data;
+  }
+
   /**
    * Get HTML content for a judgment
    * GET /Home/ContentHtml/{id}?Kind={kind}
@@ -4,16 +4,30 @@
  */
 
 import type {
+  NormalizedSearchResult,
   NormalizedJudgmentMetadata,
   NormalizedJudgmentContent,
   SourceLinks,
   JudgmentType,
 } from '../types.js';
-import type { UzpParsedMetadata, UzpKind } from './types.js';
+import type {
+  UzpParsedMetadata,
+  UzpKind,
+  UzpDocumentType,
+  UzpSearchResultItem,
+  UzpSearchResponse,
+} from './types.js';
 import {
   extractTextFromHtml,
   extractCaseNumbersFromText,
   extractJudgmentDateFromText,
+  extractParties,
+  parseLegalBases,
+  formatLegalBasis,
+  classifyOutcome,
+  classifyJudgmentOutcome,
+  buildSnippet,
+  type SnippetOptions,
 } from '../../normalization/index.js';
 
 /**
@@ -87,16 +101,23 @@ export function mapUzpMetadata(
   providerId: string
 ): NormalizedJudgmentMetadata {
   const parsed = parseUzpHtml(html);
+  const text = extractTextFromHtml(html, { preserveParagraphs: true, preserveLists: true });
+  const classification = classifyJudgmentOutcome(text);
+  const structuredLegalBases = parseLegalBases(text, parsed.judgmentDate);
 
   return {
     caseNumbers: parsed.caseNumbers ?? [providerId],
     judgmentDate: parsed.judgmentDate ?? '',
     judgmentType: inferJudgmentType(html),
     decision: parsed.decision,
-    legalBases: [], // UZP doesn't provide structured legal bases
+    outcome: classification?.outcome,
+    outcomeConfidence: classification?.confidence,
+    legalBases: structuredLegalBases.map(formatLegalBasis),
+    structuredLegalBases,
     judges: [], // Would need to parse from content
     keywords: [],
     courtName: parsed.courtName,
+    parties: extractParties(text),
   };
 }
 
@@ -136,3 +157,158 @@ export function buildUzpSourceLinks(
     uzpPdf: `${baseUrl}/Home/PdfContent/${id}?Kind=${kind}`,
   };
 }
+
+/**
+ * Parse the UZP search listing HTML into result items
+ */
+export function parseUzpSearchResults(html: string): UzpSearchResponse {
+  const items: UzpSearchResultItem[] = [];
+
+  // Each result is rendered as a "search-list-item" block
+  const blocks = html.split(/<div[^>]*class="[^"]*\bsearch-list-item\b[^"]*"[^>]*>/i).slice(1);
+
+  for (const block of blocks) {
+    const item = parseUzpSearchItem(block);
+    if (item) {
+      items.push(item);
+    }
+  }
+
+  const countText = extractFieldText(html, 'results-count');
+  const totalResults = countText ? parseInt(countText.replace(/\D/g, ''), 10) : NaN;
+
+  return {
+    items,
+    totalResults: isNaN(totalResults) ? items.length : totalResults,
+  };
+}
+
+/**
+ * Parse a single listing block
+ */
+function parseUzpSearchItem(block: string): UzpSearchResultItem | undefined {
+  const linkMatch = block.match(
+    /href="[^"]*\/Home\/(?:Details|ContentHtml|PdfContent)\/([^?"/]+)(?:\?Kind=(KIO|GK|SO))?/i
+  );
+  if (!linkMatch?.[1]) {
+    return undefined;
+  }
+
+  const signature = extractFieldText(block, 'signature') ?? '';
+  const caseNumbers = extractCaseNumbersFromText(signature);
+  const dateText = extractFieldText(block, 'judgment-date');
+
+  return {
+    id: linkMatch[1],
+    kind: (linkMatch[2]?.toUpperCase() as UzpKind | undefined) ?? 'KIO',
+    caseNumbers:
+      caseNumbers.length > 0
+        ? caseNumbers
+        : signature
+            .split(',')
+            .map((s) => s.trim())
+            .filter((s) => s.length > 0),
+    judgmentDate: dateText ? normalizeUzpDate(dateText) : undefined,
+    documentType: extractFieldText(block, 'document-type'),
+    excerpt: extractFieldText(block, 'excerpt'),
+  };
+}
+
+/**
+ * Extract the text of the first element carrying the given class
+ */
+function extractFieldText(html: string, className: string): string | undefined {
+  const pattern = new RegExp(
+    `<(\\w+)[^>]*class="[^"]*\\b${className}\\b[^"]*"[^>]*>([\\s\\S]*?)</\\1>`,
+    'i'
+  );
+  const match = html.match(pattern);
+  if (!match?.[2]) {
+    return undefined;
+  }
+
+  const text = extractTextFromHtml(match[2]).replace(/\s+/g, ' ').trim();
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * Normalize UZP listing dates (DD-MM-YYYY, DD.MM.YYYY or YYYY-MM-DD) to YYYY-MM-DD
+ */
+export function normalizeUzpDate(value: string): string | undefined {
+  const iso = value.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return iso[0];
+  }
+
+  const dmy = value.match(/(\d{1,2})[-.](\d{1,2})[-.](\d{4})/);
+  if (dmy?.[1] && dmy[2] && dmy[3]) {
+    return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Map UZP document type label to normalized judgment type
+ */
+export function mapUzpDocumentType(label: string | undefined): JudgmentType {
+  const normalized = (label ?? '').toLowerCase();
+
+  if (normalized.startsWith('wyrok')) {
+    return 'SENTENCE';
+  }
+
+  if (normalized.startsWith('uchwał')) {
+    return 'RESOLUTION';
+  }
+
+  return 'DECISION'; // Postanowienie and unknown labels
+}
+
+/**
+ * Map normalized judgment type to the UZP document type filter
+ */
+export function toUzpDocumentType(type: JudgmentType): UzpDocumentType {
+  switch (type) {
+    case 'SENTENCE':
+      return 'Wyrok';
+    case 'RESOLUTION':
+      return 'Uchwała';
+    case 'DECISION':
+    default:
+      return 'Postanowienie';
+  }
+}
+
+/**
+ * Map UZP search listing item to normalized search result
+ * @param query Query text to highlight in the snippet
+ */
+export function mapUzpSearchResult(
+  item: UzpSearchResultItem,
+  baseUrl: string,
+  query?: string,
+  snippetOptions?: SnippetOptions
+): NormalizedSearchResult {
+  // The excerpt is a summary, not the sentencja
+  const classification = item.excerpt ? classifyOutcome(item.excerpt, 0.6) : undefined;
+  const structuredLegalBases = item.excerpt
+    ? parseLegalBases(item.excerpt, item.judgmentDate)
+    : [];
+
+  return {
+    provider: 'uzp',
+    providerId: item.id,
+    caseNumbers: item.caseNumbers,
+    judgmentDate: item.judgmentDate ?? '',
+    judgmentType: mapUzpDocumentType(item.documentType),
+    decision: undefined, // The listing does not show the sentencja
+    outcome: classification?.outcome,
+    outcomeConfidence: classification?.confidence,
+    structuredLegalBases,
+    snippet:
+      (query && item.excerpt && buildSnippet(item.excerpt, query, snippetOptions)) ||
+      item.excerpt,
+    sourceUrl: `${baseUrl}/Home/ContentHtml/${item.id}?Kind=${item.kind}`,
+  };
+}
@@ -1,9 +1,6 @@
 /**
  * UZP Provider implementation
  * Implements the KioProvider interface for UZP portal
- *
- * Note: UZP is primarily used for content retrieval, not search.
- * Search is handled by SAOS provider.
  */
 
 import type {
@@ -14,10 +11,43 @@ import type {
   JudgmentResponse,
   SourceLinks,
   HealthStatus,
+  NormalizedSearchResult,
 } from '../types.js';
 import { UzpClient, createUzpClient, type UzpClientConfig } from './client.js';
-import { mapUzpMetadata, mapUzpContent, buildUzpSourceLinks } from './mapper.js';
-import { paginateContent } from '../../normalization/index.js';
+import type { UzpSearchParams } from './types.js';
+import {
+  mapUzpMetadata,
+  mapUzpContent,
+  buildUzpSourceLinks,
+  parseUzpSearchResults,
+  mapUzpSearchResult,
+  toUzpDocumentType,
+} from './mapper.js';
+import {
+  paginateJudgment,
+  filterByOutcome,
+  formatProvision,
+  buildQueryText,
+} from '../../normalization/index.js';
+import { ValidationError } from '../../utils/errors.js';
+
+/**
+ * Drop results whose excerpt contains an excluded term
+ * Only the listing excerpt is checked, the full text is not fetched.
+ */
+function filterByExcludedTerms(
+  results: NormalizedSearchResult[],
+  excludeTerms: string[] | undefined
+): NormalizedSearchResult[] {
+  if (!excludeTerms || excludeTerms.length === 0) {
+    return results;
+  }
+  const terms = excludeTerms.map((term) => term.toLowerCase());
+  return results.filter((result) => {
+    const text = `${result.snippet ?? ''} ${result.decision ?? ''}`.toLowerCase();
+    return !terms.some((term) => text.includes(term));
+  });
+}
 
 export interface UzpProviderConfig extends Partial<UzpClientConfig> {}
 
@@ -29,8 +59,8 @@ const DEFAULT_UZP_CONFIG: UzpClientConfig = {
 /**
  * UZP Provider for KIO judgments
  *
- * Primary use case: Content retrieval when SAOS lacks full text
- * Search is not implemented (use SAOS for search)
+ * Searches the orzeczenia.uzp.gov.pl listing and retrieves
+ * judgment content from the portal's HTML views
  */
 export class UzpProvider implements KioProvider {
   readonly name = 'uzp' as const;
@@ -47,19 +77,79 @@ export class UzpProvider implements KioProvider {
   }
 
   /**
-   * Search for judgments
-   *
-   * Note: UZP search is not implemented in MVP.
-   * Use SAOS provider for search functionality.
-   * This returns empty results.
+   * The portal has no judge or keyword index
    */
-  async search(_params: SearchParams): Promise<SearchResponse> {
-    // UZP search requires UI automation or XHR reverse-engineering
-    // Not implemented in MVP - use SAOS for search
+  supportsSearch(params: SearchParams): boolean {
+    return !params.judge && !(params.keywords && params.keywords.length > 0);
+  }
+
+  /**
+   * Search for KIO judgments
+   */
+  async search(params: SearchParams): Promise<SearchResponse> {
+    if (!this.supportsSearch(params)) {
+      throw new ValidationError('UZP search does not support judge or keywords filters', 'provider');
+    }
+
+    // UZP pages are 1-based
+    const page = Math.max(1, params.page);
+
+    const uzpParams: UzpSearchParams = {
+      kind: 'KIO',
+      page,
+      pageSize: params.limit,
+    };
+
+    // The portal has one text field; the provision text narrows the listing.
+    // Excerpts rarely quote the provision, so the legal basis is not filtered locally
+    const text = [
+      params.query,
+      params.phrase,
+      params.legalBasis && formatProvision(params.legalBasis),
+    ].filter(Boolean);
+    if (text.length > 0) {
+      uzpParams.phrase = text.join(' ');
+    }
+
+    if (params.caseNumber) {
+      uzpParams.signature = params.caseNumber;
+    }
+
+    if (params.dateFrom) {
+      uzpParams.dateFrom = params.dateFrom;
+    }
+    if (params.dateTo) {
+      uzpParams.dateTo = params.dateTo;
+    }
+
+    if (params.judgmentType) {
+      uzpParams.documentType = toUzpDocumentType(params.judgmentType);
+    }
+
+    // Execute search and parse the listing
+    const html = await this.client.search(uzpParams);
+    const response = parseUzpSearchResults(html);
+
+    const query = params.includeSnippets ? buildQueryText(params) : undefined;
+    const results = response.items.map((item) =>
+      mapUzpSearchResult(item, this.baseUrl, query, { fragments: params.snippetFragments })
+    );
+
+    const nextPage = page * params.limit < response.totalResults ? page + 1 : undefined;
+
+    // The portal cannot filter by outcome or excluded terms, results are
+    // filtered per page
+    const filtered = filterByExcludedTerms(
+      filterByOutcome(results, params.outcome),
+      params.excludeTerms
+    );
+    const postFiltered = Boolean(params.outcome || params.excludeTerms?.length);
     return {
-      results: [],
-      nextPage: undefined,
-      totalCount: 0,
+      results: params.includeSnippets
+        ? filtered
+        : filtered.map((result) => ({ ...result, snippet: undefined })),
+      nextPage,
+      totalCount: postFiltered ? undefined : response.totalResults,
     };
   }
 
@@ -76,12 +166,8 @@ export class UzpProvider implements KioProvider {
     // Get full text content
     const fullContent = mapUzpContent(html, params.providerId, this.baseUrl, 'KIO');
 
-    // Apply pagination
-    const { text, continuation } = paginateContent(
-      fullContent.text,
-      params.maxChars,
-      params.offsetChars
-    );
+    // Segment and apply pagination (optionally within one section)
+    const { text, continuation, segments } = paginateJudgment(fullContent.text, params);
 
     // Build source links
     const sourceLinks = buildUzpSourceLinks(params.providerId, this.baseUrl, 'KIO');
@@ -95,6 +181,7 @@ export class UzpProvider implements KioProvider {
       },
       continuation,
       sourceLinks,
+      segments,
     };
   }
 
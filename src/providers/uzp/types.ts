@@ -33,3 +33,42 @@ export interface UzpContentResponse {
   html: string;
   metadata: UzpParsedMetadata;
 }
+
+/**
+ * UZP document type labels as shown in the search listing
+ */
+export type UzpDocumentType = 'Wyrok' | 'Postanowienie' | 'Uchwała';
+
+/**
+ * UZP search parameters (GET /Home/GetResults)
+ */
+export interface UzpSearchParams {
+  phrase?: string;
+  signature?: string;
+  dateFrom?: string; // YYYY-MM-DD
+  dateTo?: string; // YYYY-MM-DD
+  documentType?: UzpDocumentType;
+  kind?: UzpKind;
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+/**
+ * Single row of the UZP search listing
+ */
+export interface UzpSearchResultItem {
+  id: string;
+  kind: UzpKind;
+  caseNumbers: string[];
+  judgmentDate?: string; // YYYY-MM-DD
+  documentType?: string;
+  excerpt?: string;
+}
+
+/**
+ * Parsed UZP search listing
+ */
+export interface UzpSearchResponse {
+  items: UzpSearchResultItem[];
+  totalResults: number;
+}
@@ -0,0 +1,95 @@
+/**
+ * Cache admin tool Zod schemas
+ */
+
+import { z } from 'zod';
+import { ProviderSchema } from './common.schema.js';
+
+/**
+ * Cache admin action
+ */
+export const CacheAdminActionSchema = z.enum(['stats', 'invalidate', 'warm']);
+export type CacheAdminAction = z.infer<typeof CacheAdminActionSchema>;
+
+/**
+ * Cache admin input schema
+ */
+export const KioCacheAdminInputSchema = z
+  .object({
+    /** stats, invalidate (by tag or key prefix) or warm (fetch judgments into the cache) */
+    action: CacheAdminActionSchema,
+
+    /** Tag to invalidate, e.g. provider:saos or judgment:saos:123 */
+    tag: z.string().min(1).max(200).optional(),
+
+    /** Key prefix to invalidate, e.g. search: or judgment:uzp: */
+    key_prefix: z.string().min(1).max(200).optional(),
+
+    /** Judgments to fetch into the cache */
+    judgments: z
+      .array(
+        z.object({
+          provider: ProviderSchema,
+          provider_id: z.string().min(1),
+        })
+      )
+      .min(1)
+      .max(50)
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.action !== 'invalidate' || (data.tag === undefined) !== (data.key_prefix === undefined),
+    { message: 'invalidate requires exactly one of tag or key_prefix' }
+  )
+  .refine((data) => data.action !== 'warm' || data.judgments !== undefined, {
+    message: 'warm requires judgments',
+    path: ['judgments'],
+  });
+
+export type KioCacheAdminInput = z.infer<typeof KioCacheAdminInputSchema>;
+
+/**
+ * Warm-up failure
+ */
+export const CacheWarmFailureSchema = z.object({
+  /** provider:id of the judgment */
+  target: z.string(),
+  error: z.string(),
+});
+
+/**
+ * Cache admin output schema
+ */
+export const KioCacheAdminOutputSchema = z.object({
+  /** Action performed */
+  action: CacheAdminActionSchema,
+
+  /** Cache statistics (stats) */
+  stats: z
+    .object({
+      type: z.enum(['memory', 'redis', 'sqlite']),
+      hits: z.number(),
+      misses: z.number(),
+      size: z.number(),
+      hitRate: z.number(),
+      evictions: z.number().optional(),
+    })
+    .optional(),
+
+  /** Number of deleted entries (invalidate) */
+  invalidated: z.number().optional(),
+
+  /** Warm-up summary (warm) */
+  warmed: z
+    .object({
+      total: z.number(),
+      fetched: z.number(),
+      skipped: z.number(),
+      failed: z.number(),
+      failures: z.array(CacheWarmFailureSchema),
+    })
+    .optional(),
+});
+
+export type KioCacheAdminOutput = z.infer<typeof KioCacheAdminOutputSchema>;
@@ -7,21 +7,46 @@ import { z } from 'zod';
 /**
  * Provider type
  */
-export const ProviderSchema = z.enum(['saos', 'uzp']);
+export const ProviderSchema = z.enum(['saos', 'uzp', 'local']);
 export type Provider = z.infer<typeof ProviderSchema>;
 
 /**
  * Provider preference for search/retrieval
  */
-export const ProviderPreferenceSchema = z.enum(['saos', 'uzp', 'auto']);
+export const ProviderPreferenceSchema = z.enum(['saos', 'uzp', 'local', 'auto']);
 export type ProviderPreference = z.infer<typeof ProviderPreferenceSchema>;
 
+/**
+ * Provider preference for search ("all" merges every provider)
+ */
+export const SearchProviderPreferenceSchema = z.enum(['saos', 'uzp', 'local', 'auto', 'all']);
+export type SearchProviderPreference = z.infer<typeof SearchProviderPreferenceSchema>;
+
 /**
  * Judgment type
  */
 export const JudgmentTypeSchema = z.enum(['SENTENCE', 'DECISION', 'RESOLUTION']);
 export type JudgmentType = z.infer<typeof JudgmentTypeSchema>;
 
+/**
+ * Outcome of an appeal
+ */
+export const JudgmentOutcomeSchema = z.enum([
+  'UPHELD',
+  'PARTIALLY_UPHELD',
+  'DISMISSED',
+  'DISCONTINUED',
+  'REJECTED',
+  'RETURNED',
+]);
+export type JudgmentOutcome = z.infer<typeof JudgmentOutcomeSchema>;
+
+/**
+ * Search result order
+ */
+export const SearchSortSchema = z.enum(['date_desc', 'date_asc', 'relevance']);
+export type SearchSort = z.infer<typeof SearchSortSchema>;
+
 /**
  * Format preference for content
  */
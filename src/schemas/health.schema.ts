@@ -23,6 +23,9 @@ export const ProviderHealthStatusSchema = z.object({
 
   /** Last successful check timestamp */
   lastChecked: z.string().datetime(),
+
+  /** Circuit breaker state used by automatic provider selection */
+  circuitState: z.enum(['closed', 'open', 'half_open']).optional(),
 });
 
 export type ProviderHealthStatus = z.infer<typeof ProviderHealthStatusSchema>;
@@ -49,12 +52,13 @@ export const KioHealthOutputSchema = z.object({
 
   /** Cache status */
   cache: z.object({
-    type: z.enum(['memory', 'redis']),
+    type: z.enum(['memory', 'redis', 'sqlite']),
     healthy: z.boolean(),
     stats: z.object({
       hits: z.number(),
       misses: z.number(),
       size: z.number(),
+      evictions: z.number().optional(),
     }).optional(),
   }),
 
@@ -16,3 +16,6 @@ export * from './source-links.schema.js';
 
 // Health schemas
 export * from './health.schema.js';
+
+// Cache admin schemas
+export * from './cache-admin.schema.js';
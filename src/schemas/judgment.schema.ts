@@ -5,8 +5,11 @@
 import { z } from 'zod';
 import {
   ProviderSchema,
+  ProviderPreferenceSchema,
   JudgmentTypeSchema,
+  JudgmentOutcomeSchema,
   FormatPreferenceSchema,
+  CaseNumberSchema,
   MaxCharsSchema,
   OffsetCharsSchema,
   ContinuationInfoSchema,
@@ -14,25 +17,138 @@ import {
 } from './common.schema.js';
 
 /**
- * Judgment retrieval input schema
+ * Structural section of a judgment
+ */
+export const JudgmentSectionSchema = z.enum([
+  'header',
+  'komparycja',
+  'sentencja',
+  'uzasadnienie',
+  'stan_faktyczny',
+  'ocena_izby',
+  'koszty',
+]);
+export type JudgmentSection = z.infer<typeof JudgmentSectionSchema>;
+
+/**
+ * Judgment segment with offsets into the full text
+ */
+export interface JudgmentSegmentOutput {
+  type: JudgmentSection | 'punkt';
+  label?: string;
+  start: number;
+  end: number;
+  children?: JudgmentSegmentOutput[];
+}
+
+export const JudgmentSegmentSchema: z.ZodType<JudgmentSegmentOutput> = z.lazy(() =>
+  z.object({
+    /** Section type, or "punkt" for a numbered sentencja point */
+    type: z.union([JudgmentSectionSchema, z.literal('punkt')]),
+
+    /** Point number or heading */
+    label: z.string().optional(),
+
+    /** Start offset in the full text */
+    start: z.number().int().min(0),
+
+    /** End offset in the full text (exclusive) */
+    end: z.number().int().min(0),
+
+    /** Nested segments */
+    children: z.array(JudgmentSegmentSchema).optional(),
+  })
+);
+
+/**
+ * Structured Pzp citation
+ */
+export const LegalBasisSchema = z.object({
+  /** Act of 11 September 2019 or of 29 January 2004 */
+  act: z.enum(['PZP_2019', 'PZP_2004']),
+
+  /** Article (artykuł) */
+  article: z.string(),
+
+  /** Paragraph (ustęp) */
+  paragraph: z.string().optional(),
+
+  /** Point (punkt) */
+  point: z.string().optional(),
+
+  /** Letter (litera) */
+  letter: z.string().optional(),
+});
+
+export type LegalBasisOutput = z.infer<typeof LegalBasisSchema>;
+
+/**
+ * Party named in the komparycja
  */
-export const KioGetJudgmentInputSchema = z.object({
-  /** Provider to fetch from */
-  provider: ProviderSchema,
+export const JudgmentPartySchema = z.object({
+  /** Name without the seat clause */
+  name: z.string(),
+
+  /** Seat as written in the judgment */
+  seat: z.string().optional(),
+});
 
-  /** Provider-specific judgment ID */
-  provider_id: z.string().min(1),
+export type JudgmentPartyOutput = z.infer<typeof JudgmentPartySchema>;
 
-  /** Preferred content format */
-  format_preference: FormatPreferenceSchema.default('text'),
+/**
+ * Parties to the dispute
+ */
+export const JudgmentPartiesSchema = z.object({
+  /** Appellants (odwołujący) */
+  appellants: z.array(JudgmentPartySchema),
 
-  /** Maximum characters to return */
-  max_chars: MaxCharsSchema,
+  /** Contracting authorities (zamawiający) */
+  contractingAuthorities: z.array(JudgmentPartySchema),
 
-  /** Character offset for pagination */
-  offset_chars: OffsetCharsSchema,
+  /** Intervening parties (przystępujący) and the side they joined */
+  interveners: z.array(
+    JudgmentPartySchema.extend({
+      side: z.enum(['appellant', 'contracting_authority']),
+    })
+  ),
 });
 
+export type JudgmentPartiesOutput = z.infer<typeof JudgmentPartiesSchema>;
+
+/**
+ * Judgment retrieval input schema
+ */
+export const KioGetJudgmentInputSchema = z
+  .object({
+    /** Provider to fetch from ("auto" falls back from SAOS to UZP) */
+    provider: ProviderPreferenceSchema.optional(),
+
+    /** Provider-specific judgment ID */
+    provider_id: z.string().min(1).optional(),
+
+    /** Case number, resolved to provider IDs (alternative to provider_id) */
+    case_number: CaseNumberSchema,
+
+    /** Preferred content format */
+    format_preference: FormatPreferenceSchema.default('text'),
+
+    /** Maximum characters to return */
+    max_chars: MaxCharsSchema,
+
+    /** Character offset for pagination (relative to the section when given) */
+    offset_chars: OffsetCharsSchema,
+
+    /** Return only this section of the judgment */
+    section: JudgmentSectionSchema.optional(),
+  })
+  .refine((data) => (data.provider_id === undefined) !== (data.case_number === undefined), {
+    message: 'Exactly one of provider_id or case_number must be provided',
+  })
+  .refine((data) => data.provider_id === undefined || data.provider !== undefined, {
+    message: 'provider is required with provider_id',
+    path: ['provider'],
+  });
+
 export type KioGetJudgmentInput = z.infer<typeof KioGetJudgmentInputSchema>;
 
 /**
@@ -51,9 +167,18 @@ export const JudgmentMetadataSchema = z.object({
   /** Decision summary */
   decision: z.string().optional(),
 
+  /** Outcome classified from the sentencja */
+  outcome: JudgmentOutcomeSchema.optional(),
+
+  /** Classifier confidence for outcome (0-1) */
+  outcomeConfidence: z.number().min(0).max(1).optional(),
+
   /** Legal bases referenced */
   legalBases: z.array(z.string()),
 
+  /** Pzp citations in structured form */
+  structuredLegalBases: z.array(LegalBasisSchema).optional(),
+
   /** Judges */
   judges: z.array(z.string()),
 
@@ -62,6 +187,9 @@ export const JudgmentMetadataSchema = z.object({
 
   /** Court name */
   courtName: z.string().optional(),
+
+  /** Parties extracted from the komparycja */
+  parties: JudgmentPartiesSchema.optional(),
 });
 
 export type JudgmentMetadata = z.infer<typeof JudgmentMetadataSchema>;
@@ -98,13 +226,58 @@ export const KioGetJudgmentOutputSchema = z.object({
   /** Source links for citations */
   sourceLinks: SourceLinksSchema,
 
+  /** Structure of the full judgment text */
+  segments: z.array(JudgmentSegmentSchema).optional(),
+
   /** Retrieval metadata */
   retrievalMetadata: z.object({
     provider: ProviderSchema,
     providerId: z.string(),
     queryTimeMs: z.number(),
     cached: z.boolean(),
+    /** Set when a cached judgment past its TTL was served */
+    stale: z.boolean().optional(),
   }),
 });
 
 export type KioGetJudgmentOutput = z.infer<typeof KioGetJudgmentOutputSchema>;
+
+/**
+ * Disambiguation output, returned when a case number matches several judgments
+ */
+export const KioGetJudgmentDisambiguationSchema = z.object({
+  disambiguation: z.object({
+    /** Requested case number */
+    caseNumber: z.string(),
+
+    /** How to pick a candidate */
+    message: z.string(),
+
+    /** Judgments published under the case number */
+    candidates: z.array(
+      z.object({
+        caseNumbers: z.array(z.string()),
+        judgmentDate: z.string(),
+        judgmentType: JudgmentTypeSchema.optional(),
+        /** Provider copies usable as provider + provider_id */
+        sources: z.array(
+          z.object({
+            provider: ProviderSchema,
+            id: z.string(),
+          })
+        ),
+      })
+    ),
+  }),
+});
+
+export type KioGetJudgmentDisambiguation = z.infer<typeof KioGetJudgmentDisambiguationSchema>;
+
+/**
+ * Check if a judgment tool result is a disambiguation list
+ */
+export function isJudgmentDisambiguation(
+  output: KioGetJudgmentOutput | KioGetJudgmentDisambiguation
+): output is KioGetJudgmentDisambiguation {
+  return 'disambiguation' in output;
+}
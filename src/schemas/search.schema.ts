@@ -4,8 +4,11 @@
 
 import { z } from 'zod';
 import {
-  ProviderPreferenceSchema,
+  ProviderSchema,
+  SearchProviderPreferenceSchema,
   JudgmentTypeSchema,
+  JudgmentOutcomeSchema,
+  SearchSortSchema,
   DateStringSchema,
   CaseNumberSchema,
   LimitSchema,
@@ -32,20 +35,60 @@ export const KioSearchInputSchema = z
     /** Filter by judgment type */
     judgment_type: JudgmentTypeSchema.optional(),
 
+    /** Filter by classified outcome */
+    outcome: JudgmentOutcomeSchema.optional(),
+
+    /** Filter by cited Pzp provision ("art. 226 ust. 1 pkt 5") */
+    legal_basis: z.string().min(1).max(200).optional(),
+
+    /** Filter by judge name */
+    judge: z.string().min(1).max(200).optional(),
+
+    /** Filter by judgment keywords (all must match) */
+    keywords: z.array(z.string().min(1).max(100)).min(1).max(10).optional(),
+
+    /** Exact phrase to search for */
+    phrase: z.string().min(1).max(500).optional(),
+
+    /** Terms excluded from the full-text search */
+    exclude_terms: z.array(z.string().min(1).max(100)).min(1).max(20).optional(),
+
+    /** Result order */
+    sort: SearchSortSchema.default('date_desc'),
+
     /** Maximum results per page */
     limit: LimitSchema,
 
     /** Page number (1-based) */
     page: PageSchema,
 
-    /** Provider preference */
-    provider: ProviderPreferenceSchema.default('auto'),
+    /** Provider preference ("all" merges results from every provider) */
+    provider: SearchProviderPreferenceSchema.default('auto'),
+
+    /** Continuation cursor from a previous "all" search (replaces page) */
+    cursor: z.string().min(1).optional(),
 
     /** Include text snippets in results */
     include_snippets: z.boolean().default(true),
+
+    /** Highlighted fragments per snippet */
+    snippet_fragments: z.number().int().min(1).max(5).default(1),
   })
-  .refine((data) => data.query || data.case_number, {
-    message: 'Either query or case_number must be provided',
+  .refine(
+    (data) =>
+      data.query ||
+      data.phrase ||
+      data.case_number ||
+      data.legal_basis ||
+      data.judge ||
+      data.keywords,
+    {
+      message: 'One of query, phrase, case_number, legal_basis, judge or keywords must be provided',
+    }
+  )
+  .refine((data) => data.cursor === undefined || data.provider === 'all', {
+    message: 'cursor is only supported with provider "all"',
+    path: ['cursor'],
   });
 
 export type KioSearchInput = z.infer<typeof KioSearchInputSchema>;
@@ -58,7 +101,18 @@ export const SearchResultItemSchema = z.object({
   id: z.string(),
 
   /** Provider that returned this result */
-  provider: z.enum(['saos', 'uzp']),
+  provider: ProviderSchema,
+
+  /** Every provider copy of this judgment (federated search only) */
+  sources: z
+    .array(
+      z.object({
+        provider: ProviderSchema,
+        id: z.string(),
+        url: z.string(),
+      })
+    )
+    .optional(),
 
   /** Case numbers */
   caseNumbers: z.array(z.string()),
@@ -75,6 +129,12 @@ export const SearchResultItemSchema = z.object({
   /** Decision summary */
   decision: z.string().optional(),
 
+  /** Outcome classified from the sentencja */
+  outcome: JudgmentOutcomeSchema.optional(),
+
+  /** Classifier confidence for outcome (0-1) */
+  outcomeConfidence: z.number().min(0).max(1).optional(),
+
   /** Text snippet with search term highlighted */
   snippet: z.string().optional(),
 
@@ -97,13 +157,21 @@ export const KioSearchOutputSchema = z.object({
     limit: z.number(),
     total: z.number().optional(),
     hasMore: z.boolean(),
+    /** Cursor for the next page (federated search only) */
+    nextCursor: z.string().optional(),
   }),
 
   /** Search metadata */
   metadata: z.object({
-    provider: z.enum(['saos', 'uzp']),
+    provider: z.enum(['saos', 'uzp', 'local', 'all']),
     queryTimeMs: z.number(),
     cached: z.boolean(),
+    /** Set when cached results past their TTL were served */
+    stale: z.boolean().optional(),
+    /** Providers that contributed results (federated search only) */
+    providers: z.array(ProviderSchema).optional(),
+    /** Providers that failed and were skipped (federated search only) */
+    failedProviders: z.array(ProviderSchema).optional(),
   }),
 });
 
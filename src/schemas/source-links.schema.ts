@@ -34,6 +34,8 @@ export const KioGetSourceLinksOutputSchema = z.object({
   /** Retrieval metadata */
   metadata: z.object({
     queryTimeMs: z.number(),
+    /** Set when cached links past their TTL were served */
+    stale: z.boolean().optional(),
   }),
 });
 
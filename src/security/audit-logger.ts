@@ -15,8 +15,10 @@ export type AuditEventType =
   | 'domain_blocked'
   | 'cache_hit'
   | 'cache_miss'
+  | 'cache_admin'
   | 'error'
-  | 'health_check';
+  | 'health_check'
+  | 'http_request';
 
 /**
  * Audit log entry
@@ -119,7 +121,10 @@ export class AuditLogger {
    */
   logSearch(params: {
     clientId?: string;
-    provider: Provider;
+    /** Serving provider, omitted for federated searches */
+    provider?: Provider;
+    /** Providers merged by a federated search */
+    providers?: Provider[];
     query?: string;
     resultCount: number;
     latencyMs: number;
@@ -135,6 +140,7 @@ export class AuditLogger {
       metadata: {
         resultCount: params.resultCount,
         cached: params.cached,
+        ...(params.providers ? { providers: params.providers } : {}),
       },
     });
   }
@@ -237,6 +243,29 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log a cache administration action
+   */
+  logCacheAdmin(params: {
+    clientId?: string;
+    action: string;
+    /** Tag or key prefix invalidated */
+    target?: string;
+    /** Entries invalidated or judgments warmed */
+    count?: number;
+  }): void {
+    this.log({
+      eventType: 'cache_admin',
+      clientId: params.clientId,
+      success: true,
+      metadata: {
+        action: params.action,
+        target: params.target,
+        count: params.count,
+      },
+    });
+  }
+
   /**
    * Log an error
    */
@@ -275,6 +304,36 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log one attempt of an outgoing HTTP request
+   * The query string is dropped unless sensitive data is included.
+   */
+  logHttpAttempt(params: {
+    provider?: Provider;
+    url: string;
+    attempt: number;
+    status?: number;
+    latencyMs: number;
+    success: boolean;
+    errorMessage?: string;
+    /** Delay before the next attempt, when the request is retried */
+    retryDelayMs?: number;
+  }): void {
+    this.log({
+      eventType: 'http_request',
+      provider: params.provider,
+      success: params.success,
+      latencyMs: params.latencyMs,
+      errorMessage: params.errorMessage,
+      metadata: {
+        url: this.config.includeSensitive ? params.url : params.url.split('?')[0],
+        attempt: params.attempt,
+        status: params.status,
+        ...(params.retryDelayMs !== undefined && { retryDelayMs: params.retryDelayMs }),
+      },
+    });
+  }
+
   /**
    * Get recent audit entries
    */
@@ -170,15 +170,23 @@ export function createRateLimiter(config: RateLimitConfig): RateLimiter {
 
 /**
  * Create rate limiters for all operation types
+ * @param limits Limits overriding the predefined RateLimits
  */
-export function createRateLimiters(): {
+export function createRateLimiters(limits: {
+  search?: RateLimitConfig;
+  judgment?: RateLimitConfig;
+  sourceLinks?: RateLimitConfig;
+  health?: RateLimitConfig;
+} = {}): {
   search: RateLimiter;
   judgment: RateLimiter;
+  sourceLinks: RateLimiter;
   health: RateLimiter;
 } {
   return {
-    search: new RateLimiter(RateLimits.SEARCH),
-    judgment: new RateLimiter(RateLimits.JUDGMENT),
-    health: new RateLimiter(RateLimits.HEALTH),
+    search: new RateLimiter(limits.search ?? RateLimits.SEARCH),
+    judgment: new RateLimiter(limits.judgment ?? RateLimits.JUDGMENT),
+    sourceLinks: new RateLimiter(limits.sourceLinks ?? RateLimits.JUDGMENT),
+    health: new RateLimiter(limits.health ?? RateLimits.HEALTH),
   };
 }
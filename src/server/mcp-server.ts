@@ -6,6 +6,7 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerKioTools } from './tool-registry.js';
 import { createToolContext, closeToolContext, type ToolContext } from '../tools/index.js';
+import { loadConfig, type KioConfig } from '../config/env.js';
 
 /**
  * Server configuration
@@ -15,6 +16,8 @@ export interface KioServerConfig {
   version?: string;
   /** Server name */
   name?: string;
+  /** Server configuration (defaults to loadConfig()) */
+  config?: KioConfig;
 }
 
 /**
@@ -25,6 +28,8 @@ export interface KioMcpServer {
   server: McpServer;
   /** Tool context with providers, cache, etc. */
   context: ToolContext;
+  /** Names of the registered tools */
+  tools: string[];
   /** Close server and cleanup resources */
   close(): Promise<void>;
 }
@@ -33,8 +38,9 @@ export interface KioMcpServer {
  * Create a KIO MCP server instance
  */
 export function createKioServer(config: KioServerConfig = {}): KioMcpServer {
-  const version = config.version ?? '1.0.0';
-  const name = config.name ?? 'mcp-kio';
+  const kioConfig = config.config ?? loadConfig();
+  const version = config.version ?? kioConfig.serverVersion;
+  const name = config.name ?? kioConfig.serverName;
 
   // Create MCP server
   const server = new McpServer({
@@ -43,14 +49,15 @@ export function createKioServer(config: KioServerConfig = {}): KioMcpServer {
   });
 
   // Create tool context with all dependencies
-  const context = createToolContext({ version });
+  const context = createToolContext({ version, config: kioConfig });
 
   // Register all tools
-  registerKioTools(server, context);
+  const tools = registerKioTools(server, context);
 
   return {
     server,
     context,
+    tools,
     async close() {
       await closeToolContext(context);
     },
@@ -65,7 +72,7 @@ export function getServerInfo(config: KioServerConfig = {}): {
   version: string;
 } {
   return {
-    name: config.name ?? 'mcp-kio',
-    version: config.version ?? '1.0.0',
+    name: config.name ?? config.config?.serverName ?? 'mcp-kio',
+    version: config.version ?? config.config?.serverVersion ?? '1.0.0',
   };
 }
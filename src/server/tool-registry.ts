@@ -10,6 +10,7 @@ import { executeKioSearch } from '../tools/kio-search.js';
 import { executeKioGetJudgment } from '../tools/kio-get-judgment.js';
 import { executeKioGetSourceLinks } from '../tools/kio-get-source-links.js';
 import { executeKioHealth } from '../tools/kio-health.js';
+import { executeKioCacheAdmin } from '../tools/kio-cache-admin.js';
 
 /**
  * Tool result content type
@@ -55,8 +56,12 @@ function formatToolResponse<T>(
 
 /**
  * Register all KIO tools with the MCP server
+ * kio_cache_admin is only registered with cacheAdmin enabled in the config
+ * @returns names of the registered tools
  */
-export function registerKioTools(server: McpServer, context: ToolContext): void {
+export function registerKioTools(server: McpServer, context: ToolContext): string[] {
+  const names: string[] = [];
+
   // Register kio_search tool
   server.tool(
     'kio_search',
@@ -67,40 +72,53 @@ export function registerKioTools(server: McpServer, context: ToolContext): void
       date_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Start date filter (YYYY-MM-DD)'),
       date_to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('End date filter (YYYY-MM-DD)'),
       judgment_type: z.enum(['SENTENCE', 'DECISION', 'RESOLUTION']).optional().describe('Filter by judgment type'),
+      outcome: z.enum(['UPHELD', 'PARTIALLY_UPHELD', 'DISMISSED', 'DISCONTINUED', 'REJECTED', 'RETURNED']).optional().describe('Filter by appeal outcome classified from the sentencja (results without a recognizable outcome are left out)'),
+      legal_basis: z.string().min(1).max(200).optional().describe('Filter by cited Pzp provision, e.g. "art. 226 ust. 1 pkt 5" (matches either act; append "ustawy z dnia 11 września 2019 r." or "Pzp (2004)" to pick one)'),
+      judge: z.string().min(1).max(200).optional().describe('Filter by the name of a judge on the panel (not supported by UZP)'),
+      keywords: z.array(z.string().min(1).max(100)).min(1).max(10).optional().describe('Filter by subject keywords assigned to the judgment, all must match (not supported by UZP)'),
+      phrase: z.string().min(1).max(500).optional().describe('Exact phrase that must appear in the judgment text'),
+      exclude_terms: z.array(z.string().min(1).max(100)).min(1).max(20).optional().describe('Terms that must not appear in the judgment text'),
+      sort: z.enum(['date_desc', 'date_asc', 'relevance']).default('date_desc').describe('Result order: newest first, oldest first, or by relevance to the query'),
       limit: z.number().int().min(1).max(100).default(20).describe('Maximum results per page'),
       page: z.number().int().min(1).default(1).describe('Page number (1-based)'),
-      provider: z.enum(['saos', 'uzp', 'auto']).default('auto').describe('Data provider preference'),
+      provider: z.enum(['saos', 'uzp', 'local', 'auto', 'all']).default('auto').describe('Data provider preference (local searches the offline corpus when configured; all merges and de-duplicates results from every provider)'),
+      cursor: z.string().min(1).optional().describe('Continuation cursor from a previous provider=all search (use instead of page)'),
       include_snippets: z.boolean().default(true).describe('Include text snippets in results'),
+      snippet_fragments: z.number().int().min(1).max(5).default(1).describe('Number of fragments around query hits per snippet; hits are marked with **...**'),
     },
     async (params) => {
       const result = await executeKioSearch(params, context);
       return formatToolResponse(result);
     }
   );
+  names.push('kio_search');
 
   // Register kio_get_judgment tool
   server.tool(
     'kio_get_judgment',
-    'Retrieve full content of a KIO judgment by provider and ID. Supports character-based pagination for long documents. Use offset_chars to continue reading from a previous position.',
+    'Retrieve full content of a KIO judgment by provider and ID, or by case number. Supports character-based pagination for long documents. Use offset_chars to continue reading from a previous position.',
     {
-      provider: z.enum(['saos', 'uzp']).describe('Data provider (saos or uzp)'),
-      provider_id: z.string().min(1).describe('Provider-specific judgment ID'),
+      provider: z.enum(['saos', 'uzp', 'local', 'auto']).optional().describe('Data provider (saos, uzp, local, or auto to fall back from SAOS to UZP); required with provider_id, defaults to auto'),
+      provider_id: z.string().min(1).optional().describe('Provider-specific judgment ID'),
+      case_number: z.string().regex(/^KIO\s*\d+\/\d{2,4}$/i).optional().describe('KIO case number (e.g., KIO 123/23), instead of provider + provider_id. Returns a disambiguation list when several judgments share it'),
       format_preference: z.enum(['text', 'html', 'auto']).default('text').describe('Preferred content format'),
       max_chars: z.number().int().min(1000).max(100000).default(40000).describe('Maximum characters to return'),
       offset_chars: z.number().int().min(0).default(0).describe('Character offset for pagination'),
+      section: z.enum(['header', 'komparycja', 'sentencja', 'uzasadnienie', 'stan_faktyczny', 'ocena_izby', 'koszty']).optional().describe('Return only this section; offset_chars is then relative to the section'),
     },
     async (params) => {
       const result = await executeKioGetJudgment(params, context);
       return formatToolResponse(result);
     }
   );
+  names.push('kio_get_judgment');
 
   // Register kio_get_source_links tool
   server.tool(
     'kio_get_source_links',
     'Get canonical source URLs for a KIO judgment. Use these links for citations and references to the original sources.',
     {
-      provider: z.enum(['saos', 'uzp']).describe('Data provider'),
+      provider: z.enum(['saos', 'uzp', 'local']).describe('Data provider'),
       provider_id: z.string().min(1).describe('Provider-specific judgment ID'),
     },
     async (params) => {
@@ -108,19 +126,45 @@ export function registerKioTools(server: McpServer, context: ToolContext): void
       return formatToolResponse(result);
     }
   );
+  names.push('kio_get_source_links');
 
   // Register kio_health tool
   server.tool(
     'kio_health',
     'Check health status of the KIO MCP server, including provider availability, cache status, and server uptime.',
     {
-      provider: z.enum(['saos', 'uzp']).optional().describe('Check specific provider only'),
+      provider: z.enum(['saos', 'uzp', 'local']).optional().describe('Check specific provider only'),
     },
     async (params) => {
       const result = await executeKioHealth(params, context);
       return formatToolResponse(result);
     }
   );
+  names.push('kio_health');
+
+  // Register kio_cache_admin tool (operators only)
+  if (context.config.cacheAdmin) {
+    server.tool(
+      'kio_cache_admin',
+      'Administer the KIO cache: show statistics, invalidate entries by tag (e.g. provider:saos, judgment:saos:123) or key prefix (e.g. search:), or warm it with judgments.',
+      {
+        action: z.enum(['stats', 'invalidate', 'warm']).describe('stats, invalidate (requires tag or key_prefix) or warm (requires judgments)'),
+        tag: z.string().min(1).max(200).optional().describe('Tag to invalidate, e.g. provider:saos or judgment:saos:123'),
+        key_prefix: z.string().min(1).max(200).optional().describe('Key prefix to invalidate, e.g. search: or judgment:uzp:'),
+        judgments: z.array(z.object({
+          provider: z.enum(['saos', 'uzp', 'local']),
+          provider_id: z.string().min(1),
+        })).min(1).max(50).optional().describe('Judgments to fetch into the cache'),
+      },
+      async (params) => {
+        const result = await executeKioCacheAdmin(params, context);
+        return formatToolResponse(result);
+      }
+    );
+    names.push('kio_cache_admin');
+  }
+
+  return names;
 }
 
 /**
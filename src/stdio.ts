@@ -6,19 +6,18 @@
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createKioServer } from './server/index.js';
-
-// Get version from package.json
-const VERSION = process.env.npm_package_version ?? '1.0.0';
+import { loadConfig, ConfigError } from './config/env.js';
+import { parseConfigArgs } from './config/args.js';
+import { runSyncCommand } from './sync.js';
+import { runWarmCommand } from './warm.js';
 
 /**
  * Start the MCP server with stdio transport
  */
 async function main(): Promise<void> {
-  // Create the KIO server
-  const kioServer = createKioServer({
-    name: 'mcp-kio',
-    version: VERSION,
-  });
+  // Create the KIO server (config file < environment < CLI flags)
+  const config = loadConfig(parseConfigArgs(process.argv.slice(2)));
+  const kioServer = createKioServer({ config });
 
   // Create stdio transport
   const transport = new StdioServerTransport();
@@ -36,12 +35,25 @@ async function main(): Promise<void> {
   await kioServer.server.connect(transport);
 
   // Log startup (to stderr to avoid interfering with stdio protocol)
-  console.error(`[mcp-kio] Server started (version ${VERSION})`);
-  console.error('[mcp-kio] Available tools: kio_search, kio_get_judgment, kio_get_source_links, kio_health');
+  console.error(`[mcp-kio] Server started (version ${kioServer.context.version})`);
+  console.error(`[mcp-kio] Available tools: ${kioServer.tools.join(', ')}`);
 }
 
-// Run
-main().catch((error) => {
-  console.error('[mcp-kio] Fatal error:', error);
-  process.exit(1);
-});
+// Run (`mcp-kio sync` mirrors judgments into the local corpus instead,
+// `mcp-kio warm` fetches judgments into the cache)
+if (process.argv[2] === 'sync') {
+  runSyncCommand(process.argv.slice(3)).catch((error) => {
+    console.error('[mcp-kio] Sync failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+} else if (process.argv[2] === 'warm') {
+  runWarmCommand(process.argv.slice(3)).catch((error) => {
+    console.error('[mcp-kio] Warm-up failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+} else {
+  main().catch((error) => {
+    console.error('[mcp-kio] Fatal error:', error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  });
+}
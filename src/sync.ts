@@ -0,0 +1,145 @@
+/**
+ * `mcp-kio sync` command
+ * Mirrors SAOS KIO judgments into the local corpus used by the local provider
+ */
+
+import { parseArgs } from 'node:util';
+import { loadConfig, ConfigError, type KioConfig } from './config/env.js';
+import { createCorpusSync } from './providers/local/sync.js';
+import { createRateLimiter } from './security/rate-limiter.js';
+import { createAllowlist } from './security/allowlist.js';
+
+/**
+ * Parsed sync command options
+ */
+export interface SyncCommandOptions {
+  /** Loaded configuration (config file < environment) */
+  config: KioConfig;
+  directory: string;
+  since?: string;
+  baseUrl: string;
+  pageSize?: number;
+  maxPages?: number;
+  ratePerMinute: number;
+}
+
+const USAGE = `Usage: mcp-kio sync [options]
+
+Options:
+  --config <path>       Config file (default: MCP_KIO_CONFIG or ./mcp-kio.config.{json,yaml,yml})
+  --dir <path>          Corpus directory (default: MCP_KIO_LOCAL_CORPUS_DIR)
+  --since <YYYY-MM-DD>  Sync judgments dated on or after this day
+  --base-url <url>      SAOS base URL (default: MCP_KIO_SAOS_BASE_URL)
+  --page-size <n>       Judgments per search page (default: 100)
+  --max-pages <n>       Stop after this many pages, resumable later
+  --rate-limit <n>      SAOS requests per minute (default: MCP_KIO_JUDGMENT_RATE_LIMIT)
+  --help                Show this help`;
+
+/**
+ * Parse a positive integer option
+ */
+function parsePositiveInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ConfigError(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse sync command arguments
+ * @returns undefined when help was requested
+ */
+export function parseSyncArgs(args: string[]): SyncCommandOptions | undefined {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        config: { type: 'string' },
+        dir: { type: 'string' },
+        since: { type: 'string' },
+        'base-url': { type: 'string' },
+        'page-size': { type: 'string' },
+        'max-pages': { type: 'string' },
+        'rate-limit': { type: 'string' },
+        help: { type: 'boolean' },
+      },
+    }));
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (values.help) {
+    return undefined;
+  }
+
+  const config = loadConfig({ configFile: values.config });
+  const directory = values.dir ?? config.localCorpusDir;
+  if (!directory) {
+    throw new ConfigError('--dir or MCP_KIO_LOCAL_CORPUS_DIR must be set');
+  }
+
+  if (values.since !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(values.since)) {
+    throw new ConfigError('--since must be a date in YYYY-MM-DD format');
+  }
+
+  return {
+    config,
+    directory,
+    since: values.since,
+    baseUrl: values['base-url'] ?? config.providers.saos?.baseUrl ?? config.saosBaseUrl,
+    pageSize: parsePositiveInt(values['page-size'], 'page-size'),
+    maxPages: parsePositiveInt(values['max-pages'], 'max-pages'),
+    ratePerMinute:
+      parsePositiveInt(values['rate-limit'], 'rate-limit') ?? config.judgmentRateLimitPerMinute,
+  };
+}
+
+/**
+ * Run the sync command
+ */
+export async function runSyncCommand(args: string[]): Promise<void> {
+  const options = parseSyncArgs(args);
+  if (!options) {
+    console.error(USAGE);
+    return;
+  }
+
+  const { config } = options;
+  const rateLimiter = createRateLimiter({
+    maxRequests: options.ratePerMinute,
+    windowMs: 60 * 1000,
+  });
+
+  try {
+    const sync = createCorpusSync({
+      directory: options.directory,
+      baseUrl: options.baseUrl,
+      timeoutMs: config.providers.saos?.timeoutMs ?? config.requestTimeoutMs,
+      allowlist: createAllowlist({ domains: config.allowedDomains }),
+      rateLimiter,
+      pageSize: options.pageSize,
+      onProgress: (progress) => {
+        console.error(
+          `[mcp-kio] Page ${progress.page + 1}: ${progress.stored} stored, ` +
+            `${progress.skipped} skipped, ${progress.failed} failed of ${progress.totalResults}`
+        );
+      },
+    });
+
+    const result = await sync.run({ since: options.since, maxPages: options.maxPages });
+    const status = result.completed ? 'finished' : 'stopped, run again to resume';
+    console.error(
+      `[mcp-kio] Sync ${status}: ` +
+        `${result.stored} stored, ${result.skipped} skipped, ${result.failed} failed` +
+        (result.dateFrom ? ` (since ${result.dateFrom})` : '') +
+        (result.resumed ? ', resumed from checkpoint' : '')
+    );
+  } finally {
+    rateLimiter.close();
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Cache warming
+ * Fetches judgments by case number, provider ID or judgment date window into the
+ * cache ahead of time, in the background and paced by a per-minute rate limit
+ */
+
+import type { ToolContext } from './types.js';
+import type { Provider, ProviderPreference } from '../providers/types.js';
+import type { KioGetJudgmentInput } from '../schemas/index.js';
+import { normalizeCaseNumber } from '../providers/federated.js';
+import { createRateLimiter, type RateLimiter } from '../security/rate-limiter.js';
+import { RateLimitError } from '../utils/errors.js';
+import { cacheJudgment } from './kio-get-judgment.js';
+
+/**
+ * Judgments to warm; every given criterion is used
+ */
+export interface CacheWarmRequest {
+  /** Case numbers (KIO 123/24); every judgment sharing one is cached */
+  caseNumbers?: string[];
+  /** SAOS judgment IDs */
+  saosIds?: string[];
+  /** Documents of any provider */
+  judgments?: { provider: Provider; providerId: string }[];
+  /** Judgments dated on or after this day (YYYY-MM-DD), found by SAOS search */
+  dateFrom?: string;
+  /** Judgments dated on or before this day (YYYY-MM-DD), found by SAOS search */
+  dateTo?: string;
+}
+
+/**
+ * Judgment that could not be warmed
+ */
+export interface CacheWarmFailure {
+  /** Case number, provider:id, or the date window whose search failed */
+  target: string;
+  error: string;
+}
+
+/**
+ * Warm-up progress, reported after every judgment
+ */
+export interface CacheWarmProgress {
+  /**
+   * Judgments queued so far (grows while a date window is searched; a case
+   * number shared by several judgments is replaced by them)
+   */
+  total: number;
+  /** Judgments processed */
+  done: number;
+  /** Judgments fetched into the cache */
+  fetched: number;
+  /** Judgments that were already cached */
+  skipped: number;
+  /** Judgments that could not be fetched */
+  failed: number;
+  /** Judgment just processed */
+  current?: string;
+}
+
+/**
+ * Outcome of a warm-up
+ */
+export interface CacheWarmResult extends CacheWarmProgress {
+  failures: CacheWarmFailure[];
+  /** Whether every judgment was processed (false when cancelled) */
+  completed: boolean;
+}
+
+export interface CacheWarmOptions {
+  /**
+   * Judgments, case number lookups and search pages per minute
+   * (default: judgmentRateLimitPerMinute)
+   */
+  ratePerMinute?: number;
+  /** Called after every judgment */
+  onProgress?: (progress: CacheWarmProgress) => void;
+}
+
+/**
+ * Queued judgment
+ */
+interface WarmTarget {
+  label: string;
+  target: Pick<KioGetJudgmentInput, 'provider_id' | 'case_number'>;
+  preference: ProviderPreference;
+}
+
+/** Search page size for date windows */
+const SEARCH_PAGE_SIZE = 100;
+
+/** Rate limiter key for warm-up requests */
+const RATE_LIMIT_KEY = 'warm';
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Background cache warm-up
+ * Judgments are loaded one at a time through the kio_get_judgment cache, so
+ * later tool calls for any page or section are cache hits
+ */
+export class CacheWarmJob {
+  /** Settles with the outcome once the job finishes or is cancelled */
+  readonly done: Promise<CacheWarmResult>;
+
+  private readonly context: ToolContext;
+  private readonly request: CacheWarmRequest;
+  private readonly options: CacheWarmOptions;
+  private readonly rateLimiter: RateLimiter;
+  private readonly pending: WarmTarget[] = [];
+  private readonly seen = new Set<string>();
+  private readonly failures: CacheWarmFailure[] = [];
+  private readonly state: CacheWarmProgress = {
+    total: 0,
+    done: 0,
+    fetched: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  private cancelled = false;
+
+  constructor(context: ToolContext, request: CacheWarmRequest, options: CacheWarmOptions = {}) {
+    this.context = context;
+    this.request = request;
+    this.options = options;
+    this.rateLimiter = createRateLimiter({
+      maxRequests: options.ratePerMinute ?? context.config.judgmentRateLimitPerMinute,
+      windowMs: 60 * 1000,
+    });
+    this.done = this.run();
+  }
+
+  /**
+   * Current progress
+   */
+  progress(): CacheWarmProgress {
+    return { ...this.state };
+  }
+
+  /**
+   * Stop before the next request
+   */
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  /**
+   * Warm explicit targets first, then the date window page by page
+   */
+  private async run(): Promise<CacheWarmResult> {
+    try {
+      for (const caseNumber of this.request.caseNumbers ?? []) {
+        this.enqueue(normalizeCaseNumber(caseNumber), { case_number: caseNumber }, 'auto');
+      }
+      for (const id of this.request.saosIds ?? []) {
+        this.enqueue(`saos:${id}`, { provider_id: id }, 'saos');
+      }
+      for (const { provider, providerId } of this.request.judgments ?? []) {
+        this.enqueue(`${provider}:${providerId}`, { provider_id: providerId }, provider);
+      }
+      await this.drain();
+
+      if (this.request.dateFrom || this.request.dateTo) {
+        await this.warmDateWindow();
+      }
+    } finally {
+      this.rateLimiter.close();
+    }
+
+    return {
+      ...this.state,
+      failures: this.failures,
+      completed: !this.cancelled,
+    };
+  }
+
+  /**
+   * Queue a judgment unless it was queued before
+   */
+  private enqueue(
+    label: string,
+    target: WarmTarget['target'],
+    preference: ProviderPreference
+  ): void {
+    if (this.seen.has(label)) {
+      return;
+    }
+    this.seen.add(label);
+    this.pending.push({ label, target, preference });
+    this.state.total++;
+  }
+
+  /**
+   * Warm every queued judgment
+   */
+  private async drain(): Promise<void> {
+    for (let next = this.pending.shift(); next && !this.cancelled; next = this.pending.shift()) {
+      await this.warm(next);
+    }
+  }
+
+  /**
+   * Load one judgment into the cache
+   * Case numbers shared by several judgments queue each of them in their place
+   */
+  private async warm({ label, target, preference }: WarmTarget): Promise<void> {
+    if (!(await this.acquire())) {
+      return;
+    }
+
+    try {
+      const { value, cached } = await cacheJudgment(target, preference, this.context);
+      if ('disambiguation' in value) {
+        // The judgments queued in its place are counted instead
+        this.state.total--;
+        for (const candidate of value.disambiguation.candidates) {
+          const source = candidate.sources[0];
+          if (source) {
+            const { provider, id } = source;
+            this.enqueue(`${provider}:${id}`, { provider_id: id }, provider);
+          }
+        }
+      } else {
+        this.state[cached ? 'skipped' : 'fetched']++;
+        this.state.done++;
+      }
+    } catch (error) {
+      this.state.failed++;
+      this.state.done++;
+      this.failures.push({
+        target: label,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.state.current = label;
+    this.options.onProgress?.(this.progress());
+  }
+
+  /**
+   * Search SAOS for judgments in the date window and warm them page by page
+   */
+  private async warmDateWindow(): Promise<void> {
+    const { dateFrom, dateTo } = this.request;
+
+    for (let page: number | undefined = 1; page !== undefined; ) {
+      if (!(await this.acquire())) {
+        return;
+      }
+
+      let response;
+      try {
+        ({ response } = await this.context.router.search('saos', {
+          dateFrom,
+          dateTo,
+          sort: 'date_asc',
+          limit: SEARCH_PAGE_SIZE,
+          page,
+          includeSnippets: false,
+        }));
+      } catch (error) {
+        this.failures.push({
+          target: `${dateFrom ?? ''}..${dateTo ?? ''}`,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return;
+      }
+
+      for (const result of response.results) {
+        this.enqueue(
+          `${result.provider}:${result.providerId}`,
+          { provider_id: result.providerId },
+          result.provider
+        );
+      }
+      await this.drain();
+
+      page = response.nextPage;
+    }
+  }
+
+  /**
+   * Wait until the rate limiter allows another request
+   * @returns false when the job was cancelled
+   */
+  private async acquire(): Promise<boolean> {
+    while (!this.cancelled) {
+      try {
+        this.rateLimiter.checkLimit(RATE_LIMIT_KEY);
+        return true;
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) {
+          throw error;
+        }
+        await sleep(Math.max(error.retryAfterMs, 1));
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Start warming the cache in the background
+ */
+export function warmCache(
+  context: ToolContext,
+  request: CacheWarmRequest,
+  options: CacheWarmOptions = {}
+): CacheWarmJob {
+  return new CacheWarmJob(context, request, options);
+}
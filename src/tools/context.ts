@@ -6,44 +6,140 @@ import type { ToolContext } from './types.js';
 import type { Provider, KioProvider } from '../providers/types.js';
 import { createSaosProvider } from '../providers/saos/index.js';
 import { createUzpProvider } from '../providers/uzp/index.js';
-import { createCache } from '../cache/index.js';
-import { createRateLimiters } from '../security/rate-limiter.js';
+import { createLocalProvider } from '../providers/local/index.js';
+import { createProviderRouter, DEFAULT_FALLBACK_ORDER } from '../providers/router.js';
+import { createIdentityResolver } from '../providers/identity.js';
+import { createCache, createCacheThrough } from '../cache/index.js';
+import { createRateLimiters, type RateLimitConfig } from '../security/rate-limiter.js';
 import { createAuditLogger } from '../security/audit-logger.js';
+import { createAllowlist } from '../security/allowlist.js';
+import { loadConfig, type KioConfig } from '../config/env.js';
 
 /**
  * Tool context configuration
  */
 export interface ToolContextConfig {
-  /** Server version */
+  /** Server version (defaults to config.serverVersion) */
   version?: string;
+  /** Server configuration (defaults to loadConfig()) */
+  config?: KioConfig;
+}
+
+/** Weight of providers without a configured weight */
+const DEFAULT_PROVIDER_WEIGHT = 1;
+
+/**
+ * Order providers for fallback by configured weight (highest first)
+ * Providers with equal weights keep the default order.
+ */
+function getFallbackOrder(config: KioConfig): Provider[] {
+  const weightOf = (provider: Provider): number =>
+    config.providers[provider]?.weight ?? DEFAULT_PROVIDER_WEIGHT;
+  return [...DEFAULT_FALLBACK_ORDER].sort((a, b) => weightOf(b) - weightOf(a));
+}
+
+/**
+ * Rate limit of a number of requests per minute
+ */
+function perMinute(maxRequests: number): RateLimitConfig {
+  return { maxRequests, windowMs: 60 * 1000 };
 }
 
 /**
  * Create a tool context with all dependencies initialized
  */
-export function createToolContext(config: ToolContextConfig = {}): ToolContext {
+export function createToolContext(options: ToolContextConfig = {}): ToolContext {
+  const config = options.config ?? loadConfig();
   const providers = new Map<Provider, KioProvider>();
 
+  // Initialize audit logger (also receives provider request timing)
+  const auditLogger = createAuditLogger({ minLevel: config.logLevel });
+
+  // Per-provider settings override the shared ones
+  const { saos, uzp, local } = config.providers;
+  const saosBaseUrl = saos?.baseUrl ?? config.saosBaseUrl;
+  const uzpBaseUrl = uzp?.baseUrl ?? config.uzpBaseUrl;
+
+  // Every outbound request (and redirect) must go to an allowed domain;
+  // the configured provider hosts are always allowed
+  const allowlist = createAllowlist({
+    domains: [
+      ...config.allowedDomains,
+      new URL(saosBaseUrl).hostname,
+      new URL(uzpBaseUrl).hostname,
+    ],
+  });
+
   // Initialize providers
-  providers.set('saos', createSaosProvider());
-  providers.set('uzp', createUzpProvider());
+  if (saos?.enabled !== false) {
+    providers.set(
+      'saos',
+      createSaosProvider({
+        baseUrl: saosBaseUrl,
+        timeoutMs: saos?.timeoutMs ?? config.requestTimeoutMs,
+        auditLogger,
+        allowlist,
+      })
+    );
+  }
+  if (uzp?.enabled !== false) {
+    providers.set(
+      'uzp',
+      createUzpProvider({
+        baseUrl: uzpBaseUrl,
+        timeoutMs: uzp?.timeoutMs ?? config.requestTimeoutMs,
+        auditLogger,
+        allowlist,
+      })
+    );
+  }
+  if (config.localCorpusDir && local?.enabled !== false) {
+    providers.set('local', createLocalProvider({ directory: config.localCorpusDir }));
+  }
+
+  // Initialize provider router (fallback + circuit breakers)
+  const router = createProviderRouter(providers, { fallbackOrder: getFallbackOrder(config) });
 
   // Initialize cache
-  const cache = createCache();
+  const cache = createCache(
+    { defaultTtlMs: config.searchCacheTtlMs, maxBytes: config.cacheMaxBytes },
+    {
+      type: config.cacheType,
+      redisUrl: config.redisUrl,
+      sqlitePath: config.sqlitePath,
+      onError: (error, operation) =>
+        auditLogger.logError({
+          operation: `cache_${operation}`,
+          error: error instanceof Error ? error : new Error(String(error)),
+        }),
+    }
+  );
 
-  // Initialize rate limiters
-  const rateLimiters = createRateLimiters();
+  // Initialize cross-provider identity resolver (mappings persist in the cache)
+  const resolver = createIdentityResolver(providers, router, cache);
 
-  // Initialize audit logger
-  const auditLogger = createAuditLogger();
+  // Initialize rate limiters (per-tool limits override the shared ones)
+  const { toolRateLimits } = config;
+  const rateLimiters = createRateLimiters({
+    search: perMinute(toolRateLimits.kio_search ?? config.searchRateLimitPerMinute),
+    judgment: perMinute(toolRateLimits.kio_get_judgment ?? config.judgmentRateLimitPerMinute),
+    sourceLinks: perMinute(
+      toolRateLimits.kio_get_source_links ?? config.judgmentRateLimitPerMinute
+    ),
+    health: toolRateLimits.kio_health ? perMinute(toolRateLimits.kio_health) : undefined,
+  });
 
   return {
     providers,
+    router,
+    resolver,
     cache,
+    cacheThrough: createCacheThrough(cache),
     rateLimiters,
     auditLogger,
+    config,
     startedAt: new Date(),
-    version: config.version ?? '1.0.0',
+    version: options.version ?? config.serverVersion,
   };
 }
 
@@ -57,5 +153,6 @@ export async function closeToolContext(context: ToolContext): Promise<void> {
   // Close rate limiters
   context.rateLimiters.search.close();
   context.rateLimiters.judgment.close();
+  context.rateLimiters.sourceLinks.close();
   context.rateLimiters.health.close();
 }
@@ -5,12 +5,22 @@
 // Types and context
 export * from './types.js';
 export { createToolContext, closeToolContext, type ToolContextConfig } from './context.js';
+export {
+  CacheWarmJob,
+  warmCache,
+  type CacheWarmRequest,
+  type CacheWarmOptions,
+  type CacheWarmProgress,
+  type CacheWarmResult,
+  type CacheWarmFailure,
+} from './cache-warm.js';
 
 // Individual tools
 export { executeKioSearch, kioSearchTool } from './kio-search.js';
 export { executeKioGetJudgment, kioGetJudgmentTool } from './kio-get-judgment.js';
 export { executeKioGetSourceLinks, kioGetSourceLinksTool } from './kio-get-source-links.js';
 export { executeKioHealth, kioHealthTool } from './kio-health.js';
+export { executeKioCacheAdmin, kioCacheAdminTool } from './kio-cache-admin.js';
 
 // All tools array for registration
 export const allTools = [
@@ -30,4 +40,8 @@ export const allTools = [
     name: 'kio_health',
     module: () => import('./kio-health.js'),
   },
+  {
+    name: 'kio_cache_admin',
+    module: () => import('./kio-cache-admin.js'),
+  },
 ];
@@ -0,0 +1,107 @@
+/**
+ * KIO Cache Admin Tool
+ * Reports cache statistics, invalidates entries by tag or key prefix and
+ * warms the cache; only available with cacheAdmin enabled in the config
+ */
+
+import type { ToolContext, ToolResponse } from './types.js';
+import { createToolResult, createToolError, getClientId } from './types.js';
+import type { KioCacheAdminOutput } from '../schemas/index.js';
+import { KioCacheAdminInputSchema } from '../schemas/index.js';
+import { warmCache } from './cache-warm.js';
+
+/**
+ * Execute KIO cache admin
+ */
+export async function executeKioCacheAdmin(
+  input: unknown,
+  context: ToolContext,
+  headers?: Record<string, string>
+): Promise<ToolResponse<KioCacheAdminOutput>> {
+  const startTime = Date.now();
+  const clientId = getClientId(headers);
+
+  if (!context.config.cacheAdmin) {
+    return createToolError(
+      'FORBIDDEN',
+      'Cache administration is disabled (set cacheAdmin in the configuration)',
+      false
+    );
+  }
+
+  // Validate input
+  const parseResult = KioCacheAdminInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    return createToolError(
+      'VALIDATION_ERROR',
+      `Invalid input: ${parseResult.error.message}`,
+      false
+    );
+  }
+
+  const validatedInput = parseResult.data;
+  let output: KioCacheAdminOutput;
+
+  try {
+    switch (validatedInput.action) {
+      case 'stats': {
+        const stats = context.cache.stats();
+        output = { action: 'stats', stats: { type: context.config.cacheType, ...stats } };
+        context.auditLogger.logCacheAdmin({ clientId, action: 'stats' });
+        break;
+      }
+
+      case 'invalidate': {
+        const invalidated = validatedInput.tag
+          ? await context.cache.invalidateTag(validatedInput.tag)
+          : await context.cache.invalidatePrefix(validatedInput.key_prefix!);
+        output = { action: 'invalidate', invalidated };
+        context.auditLogger.logCacheAdmin({
+          clientId,
+          action: 'invalidate',
+          target: validatedInput.tag ?? validatedInput.key_prefix,
+          count: invalidated,
+        });
+        break;
+      }
+
+      case 'warm': {
+        const judgments = validatedInput.judgments!.map(({ provider, provider_id }) => ({
+          provider,
+          providerId: provider_id,
+        }));
+        const { total, fetched, skipped, failed, failures } = await warmCache(context, {
+          judgments,
+        }).done;
+        output = { action: 'warm', warmed: { total, fetched, skipped, failed, failures } };
+        context.auditLogger.logCacheAdmin({ clientId, action: 'warm', count: fetched });
+        break;
+      }
+    }
+  } catch (error) {
+    context.auditLogger.logError({
+      clientId,
+      operation: 'cache_admin',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+
+    return createToolError(
+      'INTERNAL_ERROR',
+      'An unexpected error occurred',
+      true
+    );
+  }
+
+  return createToolResult(output, Date.now() - startTime, false);
+}
+
+/**
+ * Tool definition for MCP registration
+ */
+export const kioCacheAdminTool = {
+  name: 'kio_cache_admin',
+  description:
+    'Administer the KIO cache: statistics, invalidation by tag or key prefix, and warming.',
+  inputSchema: KioCacheAdminInputSchema,
+  execute: executeKioCacheAdmin,
+};
@@ -5,47 +5,237 @@
 
 import type { ToolContext, ToolResponse } from './types.js';
 import { createToolResult, createToolError, getClientId } from './types.js';
-import type { KioGetJudgmentInput, KioGetJudgmentOutput } from '../schemas/index.js';
+import type {
+  KioGetJudgmentInput,
+  KioGetJudgmentOutput,
+  KioGetJudgmentDisambiguation,
+} from '../schemas/index.js';
 import { KioGetJudgmentInputSchema } from '../schemas/index.js';
-import type { JudgmentParams, FormatPreference } from '../providers/types.js';
-import { CacheTTL } from '../cache/types.js';
-import { RateLimitError, ProviderError, ValidationError } from '../utils/errors.js';
+import type {
+  Provider,
+  ProviderPreference,
+  NormalizedJudgmentMetadata,
+  SourceLinks,
+} from '../providers/types.js';
+import type { JudgmentIdentity } from '../providers/identity.js';
+import { normalizeCaseNumber } from '../providers/federated.js';
+import { paginateJudgment } from '../normalization/judgment.js';
+import type { CacheThroughOptions, CacheThroughResult } from '../cache/cache-through.js';
+import { compressText, decompressText, type CompressedText } from '../cache/compression.js';
+import { providerTag, judgmentTag } from '../cache/tags.js';
+import {
+  RateLimitError,
+  ProviderError,
+  TimeoutError,
+  ValidationError,
+  NotFoundError,
+  DomainNotAllowedError,
+} from '../utils/errors.js';
+
+/** Cached judgments span the full text */
+const FULL_TEXT_CHARS = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Normalized full judgment, cached once per provider document
+ */
+interface CachedJudgment {
+  provider: Provider;
+  providerId: string;
+  metadata: NormalizedJudgmentMetadata;
+  /** Full text, compressed */
+  text: CompressedText;
+  htmlUrl?: string;
+  pdfUrl?: string;
+  /** Source links completed with the other providers' copies */
+  sourceLinks: SourceLinks;
+}
+
+/**
+ * Provider document an "auto" request was routed to
+ */
+export interface JudgmentRoute {
+  provider: Provider;
+  providerId: string;
+}
+
+/**
+ * Judgment requested by provider ID or case number
+ */
+type JudgmentTarget = Pick<KioGetJudgmentInput, 'provider_id' | 'case_number'>;
+
+/**
+ * Tags of the cache entries for a provider document
+ */
+function judgmentTags({ provider, providerId }: JudgmentRoute): string[] {
+  return [providerTag(provider), judgmentTag(provider, providerId)];
+}
+
+/**
+ * Generate cache key for a provider document
+ * Every page size and offset is served from the same entry
+ */
+function judgmentCacheKey(provider: Provider, providerId: string): string {
+  return `judgment:${provider}:${providerId}`;
+}
+
+/**
+ * Generate cache key for the document an "auto" request is routed to
+ */
+function routeCacheKey(input: JudgmentTarget): string {
+  const target = input.provider_id ?? `case=${normalizeCaseNumber(input.case_number ?? '')}`;
+  return `judgment-route:${target}`;
+}
+
+/**
+ * Build the disambiguation list for a case number with several judgments
+ */
+function buildDisambiguation(
+  caseNumber: string,
+  identities: JudgmentIdentity[]
+): KioGetJudgmentDisambiguation {
+  return {
+    disambiguation: {
+      caseNumber,
+      message: `${identities.length} judgments share case number ${caseNumber}. Call kio_get_judgment again with provider and provider_id of one candidate.`,
+      candidates: identities.map((identity) => ({
+        caseNumbers: identity.caseNumbers,
+        judgmentDate: identity.judgmentDate,
+        judgmentType: identity.judgmentType,
+        sources: (Object.entries(identity.ids) as [Provider, string][]).map(([provider, id]) => ({
+          provider,
+          id,
+        })),
+      })),
+    },
+  };
+}
+
+/**
+ * Fetch a full judgment from the providers
+ */
+async function fetchFullJudgment(
+  preference: ProviderPreference,
+  providerId: string,
+  context: ToolContext,
+  knownIds?: Partial<Record<Provider, string>>
+): Promise<CachedJudgment> {
+  const routed = await context.router.getJudgment(
+    preference,
+    { providerId, formatPreference: 'text', maxChars: FULL_TEXT_CHARS, offsetChars: 0 },
+    knownIds
+  );
+  const { provider, response } = routed;
+  const routedId = routed.providerId ?? providerId;
+
+  // Remember the mapping and complete links with other providers' copies
+  const identity = await context.resolver.recordJudgment(provider, routedId, response);
+
+  return {
+    provider,
+    providerId: routedId,
+    metadata: response.metadata,
+    text: compressText(response.content.text),
+    htmlUrl: response.content.htmlUrl,
+    pdfUrl: response.content.pdfUrl,
+    sourceLinks: context.resolver.completeSourceLinks(response.sourceLinks, identity),
+  };
+}
 
 /**
- * Generate cache key for judgment request
+ * Load a full judgment through the cache
+ * A case number matching several judgments yields a disambiguation list
  */
-function generateCacheKey(input: KioGetJudgmentInput): string {
-  const parts = [
-    'judgment',
-    input.provider,
-    input.provider_id,
-    input.format_preference,
-    String(input.max_chars),
-    String(input.offset_chars),
-  ];
-  return parts.join(':');
+async function loadJudgment(
+  input: JudgmentTarget,
+  preference: ProviderPreference,
+  context: ToolContext,
+  options: CacheThroughOptions<unknown>
+): Promise<CacheThroughResult<CachedJudgment | KioGetJudgmentDisambiguation>> {
+  // Resolve a case number to provider IDs
+  let knownIds: Partial<Record<Provider, string>> | undefined;
+  if (input.case_number) {
+    const identities = await context.resolver.resolveCaseNumber(input.case_number);
+    if (identities.length === 0) {
+      throw new NotFoundError('KIO judgment', input.case_number);
+    }
+    if (identities.length > 1) {
+      return {
+        value: buildDisambiguation(input.case_number, identities),
+        cached: false,
+        stale: false,
+      };
+    }
+    knownIds = identities[0]!.ids;
+  }
+
+  const target = input.provider_id ?? input.case_number!;
+  const tagged: CacheThroughOptions<JudgmentRoute> = { ...options, tags: judgmentTags };
+
+  // A document of an explicitly requested provider is looked up directly
+  if (preference !== 'auto') {
+    const providerId = knownIds ? knownIds[preference] : target;
+    if (providerId === undefined) {
+      throw new NotFoundError('judgment', target);
+    }
+    return context.cacheThrough.get(
+      judgmentCacheKey(preference, providerId),
+      () => fetchFullJudgment(preference, providerId, context),
+      tagged
+    );
+  }
+
+  // Otherwise the document the router chose is remembered
+  let fetched: CachedJudgment | undefined;
+  const route = await context.cacheThrough.get<JudgmentRoute>(
+    routeCacheKey(input),
+    async () => {
+      fetched = await fetchFullJudgment(preference, target, context, knownIds);
+      return { provider: fetched.provider, providerId: fetched.providerId };
+    },
+    tagged
+  );
+  const { provider, providerId } = route.value;
+  const judgment = await context.cacheThrough.get(
+    judgmentCacheKey(provider, providerId),
+    () => (fetched ? Promise.resolve(fetched) : fetchFullJudgment(provider, providerId, context)),
+    tagged
+  );
+
+  return {
+    value: judgment.value,
+    cached: route.cached && judgment.cached,
+    stale: route.stale || judgment.stale,
+  };
 }
 
 /**
- * Map format preference from schema to provider type
+ * Load a judgment into the cache, bypassing the tool's rate limit
+ * Used for cache warming; a case number matching several judgments yields a
+ * disambiguation list instead
  */
-function mapFormatPreference(
-  preference: 'text' | 'html' | 'auto'
-): FormatPreference {
-  if (preference === 'auto') {
-    return 'text'; // Default to text for LLM consumption
+export async function cacheJudgment(
+  target: JudgmentTarget,
+  preference: ProviderPreference,
+  context: ToolContext
+): Promise<CacheThroughResult<JudgmentRoute | KioGetJudgmentDisambiguation>> {
+  const { value, cached, stale } = await loadJudgment(target, preference, context, {
+    ttlMs: context.config.judgmentCacheTtlMs,
+  });
+  if ('disambiguation' in value) {
+    return { value, cached, stale };
   }
-  return preference;
+  return { value: { provider: value.provider, providerId: value.providerId }, cached, stale };
 }
 
 /**
  * Execute KIO get judgment
+ * A case number matching several judgments yields a disambiguation list
  */
 export async function executeKioGetJudgment(
   input: unknown,
   context: ToolContext,
   headers?: Record<string, string>
-): Promise<ToolResponse<KioGetJudgmentOutput>> {
+): Promise<ToolResponse<KioGetJudgmentOutput | KioGetJudgmentDisambiguation>> {
   const startTime = Date.now();
   const clientId = getClientId(headers);
 
@@ -81,117 +271,109 @@ export async function executeKioGetJudgment(
     throw error;
   }
 
-  // Get provider instance
-  const providerInstance = context.providers.get(validatedInput.provider);
+  // Explicitly requested providers must be registered; "auto" is resolved by the router
+  const preference = validatedInput.provider ?? 'auto';
+  const requestedProvider = preference === 'auto' ? undefined : preference;
 
-  if (!providerInstance) {
+  if (requestedProvider && !context.providers.has(requestedProvider)) {
     return createToolError(
       'PROVIDER_NOT_FOUND',
-      `Provider ${validatedInput.provider} not available`,
+      `Provider ${requestedProvider} not available`,
       false
     );
   }
 
-  // Check cache
-  const cacheKey = generateCacheKey(validatedInput);
-  let cached = false;
-
+  // Load the full judgment through the cache and paginate it
   try {
-    const cachedResult = await context.cache.get<KioGetJudgmentOutput>(cacheKey);
-    if (cachedResult) {
-      context.auditLogger.logCacheHit({
-        key: cacheKey,
-        provider: validatedInput.provider,
-      });
-      context.auditLogger.logJudgmentAccess({
-        clientId,
-        provider: validatedInput.provider,
-        resourceId: validatedInput.provider_id,
-        latencyMs: Date.now() - startTime,
-        cached: true,
-        offsetChars: validatedInput.offset_chars,
-      });
-      return createToolResult(cachedResult, Date.now() - startTime, true);
-    }
-    context.auditLogger.logCacheMiss({
-      key: cacheKey,
-      provider: validatedInput.provider,
+    const { value, cached, stale } = await loadJudgment(validatedInput, preference, context, {
+      ttlMs: context.config.judgmentCacheTtlMs,
+      onRefreshError: (error) =>
+        context.auditLogger.logError({
+          clientId,
+          provider: requestedProvider,
+          operation: 'get_judgment',
+          error: error instanceof Error ? error : new Error(String(error)),
+        }),
     });
-  } catch {
-    // Cache errors are non-fatal
-  }
+    if ('disambiguation' in value) {
+      return createToolResult(value, Date.now() - startTime, false);
+    }
 
-  // Build judgment params
-  const judgmentParams: JudgmentParams = {
-    providerId: validatedInput.provider_id,
-    formatPreference: mapFormatPreference(validatedInput.format_preference),
-    maxChars: validatedInput.max_chars,
-    offsetChars: validatedInput.offset_chars,
-  };
+    const { provider, providerId, metadata } = value;
+    if (cached) {
+      context.auditLogger.logCacheHit({ key: judgmentCacheKey(provider, providerId), provider });
+    } else {
+      context.auditLogger.logCacheMiss({
+        key: judgmentCacheKey(provider, providerId),
+        provider: requestedProvider,
+      });
+    }
 
-  // Execute judgment retrieval
-  try {
-    const response = await providerInstance.getJudgment(judgmentParams);
+    // Segment and apply pagination (char-based, optionally within one section)
+    const { text, continuation, segments } = paginateJudgment(decompressText(value.text), {
+      maxChars: validatedInput.max_chars,
+      offsetChars: validatedInput.offset_chars,
+      section: validatedInput.section,
+    });
 
     // Build output
     const output: KioGetJudgmentOutput = {
       metadata: {
-        caseNumbers: response.metadata.caseNumbers,
-        judgmentDate: response.metadata.judgmentDate,
-        judgmentType: response.metadata.judgmentType,
-        decision: response.metadata.decision,
-        legalBases: response.metadata.legalBases,
-        judges: response.metadata.judges,
-        keywords: response.metadata.keywords,
-        courtName: response.metadata.courtName,
+        caseNumbers: metadata.caseNumbers,
+        judgmentDate: metadata.judgmentDate,
+        judgmentType: metadata.judgmentType,
+        decision: metadata.decision,
+        outcome: metadata.outcome,
+        outcomeConfidence: metadata.outcomeConfidence,
+        legalBases: metadata.legalBases,
+        structuredLegalBases: metadata.structuredLegalBases,
+        judges: metadata.judges,
+        keywords: metadata.keywords,
+        courtName: metadata.courtName,
+        parties: metadata.parties,
       },
       content: {
-        text: response.content.text,
-        htmlUrl: response.content.htmlUrl,
-        pdfUrl: response.content.pdfUrl,
+        text,
+        htmlUrl: value.htmlUrl,
+        pdfUrl: value.pdfUrl,
       },
       continuation: {
-        truncated: response.continuation.truncated,
-        nextOffsetChars: response.continuation.nextOffsetChars,
-        totalChars: response.continuation.totalChars,
+        truncated: continuation.truncated,
+        nextOffsetChars: continuation.nextOffsetChars,
+        totalChars: continuation.totalChars,
       },
       sourceLinks: {
-        saosHref: response.sourceLinks.saosHref,
-        saosSourceUrl: response.sourceLinks.saosSourceUrl,
-        uzpHtml: response.sourceLinks.uzpHtml,
-        uzpPdf: response.sourceLinks.uzpPdf,
+        saosHref: value.sourceLinks.saosHref,
+        saosSourceUrl: value.sourceLinks.saosSourceUrl,
+        uzpHtml: value.sourceLinks.uzpHtml,
+        uzpPdf: value.sourceLinks.uzpPdf,
       },
+      segments,
       retrievalMetadata: {
-        provider: validatedInput.provider,
-        providerId: validatedInput.provider_id,
+        provider,
+        providerId,
         queryTimeMs: Date.now() - startTime,
-        cached: false,
+        cached,
+        ...(stale && { stale }),
       },
     };
 
-    // Cache result
-    try {
-      await context.cache.set(cacheKey, output, CacheTTL.JUDGMENT);
-    } catch {
-      // Cache errors are non-fatal
-    }
-
     // Log success
     context.auditLogger.logJudgmentAccess({
       clientId,
-      provider: validatedInput.provider,
-      resourceId: validatedInput.provider_id,
+      provider,
+      resourceId: providerId,
       latencyMs: Date.now() - startTime,
-      cached: false,
+      cached,
       offsetChars: validatedInput.offset_chars,
     });
 
-    return createToolResult(output, Date.now() - startTime, cached);
+    return createToolResult(output, Date.now() - startTime, cached, stale);
   } catch (error) {
     // Log error
     context.auditLogger.logError({
       clientId,
-      provider: validatedInput.provider,
+      provider: requestedProvider,
       operation: 'get_judgment',
       error: error instanceof Error ? error : new Error(String(error)),
     });
@@ -204,10 +386,22 @@ export async function executeKioGetJudgment(
       );
     }
 
+    if (error instanceof TimeoutError) {
+      return createToolError('TIMEOUT', error.message, true);
+    }
+
+    if (error instanceof DomainNotAllowedError) {
+      return createToolError('DOMAIN_NOT_ALLOWED', error.message, false);
+    }
+
     if (error instanceof ValidationError) {
       return createToolError('VALIDATION_ERROR', error.message, false);
     }
 
+    if (error instanceof NotFoundError) {
+      return createToolError('NOT_FOUND', error.message, false);
+    }
+
     return createToolError(
       'INTERNAL_ERROR',
       'An unexpected error occurred',
@@ -222,7 +416,7 @@ export async function executeKioGetJudgment(
 export const kioGetJudgmentTool = {
   name: 'kio_get_judgment',
   description:
-    'Retrieve full content of a KIO judgment by provider and ID. Supports character-based pagination for long documents.',
+    'Retrieve full content of a KIO judgment by provider and ID, or by case number. With provider "auto", SAOS is tried first and UZP serves as fallback. Supports character-based pagination for long documents.',
   inputSchema: KioGetJudgmentInputSchema,
   execute: executeKioGetJudgment,
 };
@@ -1,6 +1,6 @@
 /**
  * KIO Get Source Links Tool
- * Returns canonical URLs for citing judgments
+ * Returns canonical URLs for citing judgments from every provider
  */
 
 import type { ToolContext, ToolResponse } from './types.js';
@@ -8,6 +8,7 @@ import { createToolResult, createToolError, getClientId } from './types.js';
 import type { KioGetSourceLinksOutput } from '../schemas/index.js';
 import { KioGetSourceLinksInputSchema } from '../schemas/index.js';
 import { RateLimitError } from '../utils/errors.js';
+import { providerTag, judgmentTag } from '../cache/tags.js';
 
 /**
  * Execute KIO get source links
@@ -34,7 +35,7 @@ export async function executeKioGetSourceLinks(
 
   // Check rate limit (uses judgment rate limit as it's related)
   try {
-    context.rateLimiters.judgment.checkLimit(clientId);
+    context.rateLimiters.sourceLinks.checkLimit(clientId);
   } catch (error) {
     if (error instanceof RateLimitError) {
       context.auditLogger.logRateLimitExceeded({
@@ -52,10 +53,8 @@ export async function executeKioGetSourceLinks(
     throw error;
   }
 
-  // Get provider instance
-  const providerInstance = context.providers.get(validatedInput.provider);
-
-  if (!providerInstance) {
+  // Provider must be registered
+  if (!context.providers.has(validatedInput.provider)) {
     return createToolError(
       'PROVIDER_NOT_FOUND',
       `Provider ${validatedInput.provider} not available`,
@@ -63,10 +62,25 @@ export async function executeKioGetSourceLinks(
     );
   }
 
-  // Get source links (synchronous operation)
+  // Get source links, completed with the other providers' copies when resolvable
+  const cacheKey = `source-links:${validatedInput.provider}:${validatedInput.provider_id}`;
+
   try {
-    const links = providerInstance.getSourceLinks(validatedInput.provider_id);
+    const { value, cached, stale } = await context.cacheThrough.get(
+      cacheKey,
+      () => context.resolver.getSourceLinks(validatedInput.provider, validatedInput.provider_id),
+      {
+        ttlMs: context.config.judgmentCacheTtlMs,
+        // Links missing other providers' copies are retried on the next call
+        shouldCache: (resolved) => !resolved.partial,
+        tags: () => [
+          providerTag(validatedInput.provider),
+          judgmentTag(validatedInput.provider, validatedInput.provider_id),
+        ],
+      }
+    );
 
+    const { links } = value;
     const output: KioGetSourceLinksOutput = {
       provider: validatedInput.provider,
       providerId: validatedInput.provider_id,
@@ -78,10 +92,11 @@ export async function executeKioGetSourceLinks(
       },
       metadata: {
         queryTimeMs: Date.now() - startTime,
+        ...(stale && { stale }),
       },
     };
 
-    return createToolResult(output, Date.now() - startTime, false);
+    return createToolResult(output, Date.now() - startTime, cached, stale);
   } catch (error) {
     // Log error
     context.auditLogger.logError({
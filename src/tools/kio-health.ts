@@ -25,63 +25,16 @@ function mapHealthStatus(status: HealthStatus): ProviderHealthStatus {
 }
 
 /**
- * Execute KIO health check
+ * Check the health of the providers, the cache and the server
  */
-export async function executeKioHealth(
-  input: unknown,
+async function checkHealth(
+  providerFilter: Provider | undefined,
   context: ToolContext,
-  headers?: Record<string, string>
-): Promise<ToolResponse<KioHealthOutput>> {
-  const startTime = Date.now();
-  const clientId = getClientId(headers);
-
-  // Validate input
-  const parseResult = KioHealthInputSchema.safeParse(input);
-  if (!parseResult.success) {
-    return createToolError(
-      'VALIDATION_ERROR',
-      `Invalid input: ${parseResult.error.message}`,
-      false
-    );
-  }
-
-  const validatedInput = parseResult.data;
-
-  // Check rate limit
-  try {
-    context.rateLimiters.health.checkLimit(clientId);
-  } catch (error) {
-    if (error instanceof RateLimitError) {
-      context.auditLogger.logRateLimitExceeded({
-        clientId,
-        operation: 'health',
-        retryAfterSeconds: Math.ceil(error.retryAfterMs / 1000),
-      });
-      return createToolError(
-        'RATE_LIMIT_EXCEEDED',
-        error.message,
-        true,
-        error.retryAfterMs
-      );
-    }
-    throw error;
-  }
-
-  // Check cache for recent health status
-  const cacheKey = `health:${validatedInput.provider ?? 'all'}`;
-
-  try {
-    const cachedResult = await context.cache.get<KioHealthOutput>(cacheKey);
-    if (cachedResult) {
-      return createToolResult(cachedResult, Date.now() - startTime, true);
-    }
-  } catch {
-    // Cache errors are non-fatal
-  }
-
+  startTime: number
+): Promise<KioHealthOutput> {
   // Determine which providers to check
-  const providersToCheck: Provider[] = validatedInput.provider
-    ? [validatedInput.provider]
+  const providersToCheck: Provider[] = providerFilter
+    ? [providerFilter]
     : Array.from(context.providers.keys());
 
   // Execute health checks in parallel
@@ -101,6 +54,9 @@ export async function executeKioHealth(
     try {
       const status = await provider.healthCheck();
 
+      // Feed the provider's circuit breaker
+      context.router.recordHealth(status);
+
       // Log health check
       context.auditLogger.logHealthCheck({
         provider: providerName,
@@ -108,11 +64,21 @@ export async function executeKioHealth(
         latencyMs: status.latencyMs ?? 0,
       });
 
-      return mapHealthStatus(status);
+      return {
+        ...mapHealthStatus(status),
+        circuitState: context.router.getCircuitState(providerName),
+      };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
 
+      context.router.recordHealth({
+        provider: providerName,
+        available: false,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      });
+
       // Log failed health check
       context.auditLogger.logHealthCheck({
         provider: providerName,
@@ -125,6 +91,7 @@ export async function executeKioHealth(
         healthy: false,
         error: errorMessage,
         lastChecked: new Date().toISOString(),
+        circuitState: context.router.getCircuitState(providerName),
       } as ProviderHealthStatus;
     }
   });
@@ -140,8 +107,7 @@ export async function executeKioHealth(
   const cacheHealthy = true; // Memory cache is always healthy
 
   // Determine cache type
-  const cacheType =
-    process.env.REDIS_URL ? 'redis' : 'memory';
+  const cacheType = context.config.cacheType;
 
   // Build output
   const output: KioHealthOutput = {
@@ -154,6 +120,7 @@ export async function executeKioHealth(
         hits: cacheStats.hits,
         misses: cacheStats.misses,
         size: cacheStats.size,
+        evictions: cacheStats.evictions,
       },
     },
     server: {
@@ -163,14 +130,61 @@ export async function executeKioHealth(
     },
   };
 
-  // Cache result briefly
+  return output;
+}
+
+/**
+ * Execute KIO health check
+ */
+export async function executeKioHealth(
+  input: unknown,
+  context: ToolContext,
+  headers?: Record<string, string>
+): Promise<ToolResponse<KioHealthOutput>> {
+  const startTime = Date.now();
+  const clientId = getClientId(headers);
+
+  // Validate input
+  const parseResult = KioHealthInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    return createToolError(
+      'VALIDATION_ERROR',
+      `Invalid input: ${parseResult.error.message}`,
+      false
+    );
+  }
+
+  const validatedInput = parseResult.data;
+
+  // Check rate limit
   try {
-    await context.cache.set(cacheKey, output, CacheTTL.HEALTH);
-  } catch {
-    // Cache errors are non-fatal
+    context.rateLimiters.health.checkLimit(clientId);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      context.auditLogger.logRateLimitExceeded({
+        clientId,
+        operation: 'health',
+        retryAfterSeconds: Math.ceil(error.retryAfterMs / 1000),
+      });
+      return createToolError(
+        'RATE_LIMIT_EXCEEDED',
+        error.message,
+        true,
+        error.retryAfterMs
+      );
+    }
+    throw error;
   }
 
-  return createToolResult(output, Date.now() - startTime, false);
+  // Recent health status is cached briefly and never served stale
+  const cacheKey = `health:${validatedInput.provider ?? 'all'}`;
+  const { value: output, cached } = await context.cacheThrough.get(
+    cacheKey,
+    () => checkHealth(validatedInput.provider, context, startTime),
+    { ttlMs: CacheTTL.HEALTH, graceMs: 0, staleIfErrorMs: 0 }
+  );
+
+  return createToolResult(output, Date.now() - startTime, cached);
 }
 
 /**
@@ -7,14 +7,32 @@ import type { ToolContext, ToolResponse } from './types.js';
 import { createToolResult, createToolError, getClientId } from './types.js';
 import type { KioSearchInput, KioSearchOutput, SearchResultItem } from '../schemas/index.js';
 import { KioSearchInputSchema } from '../schemas/index.js';
-import type { Provider, NormalizedSearchResult, SearchParams } from '../providers/types.js';
-import { CacheTTL } from '../cache/types.js';
-import { RateLimitError, ProviderError, ValidationError } from '../utils/errors.js';
+import type {
+  SearchProviderPreference,
+  NormalizedSearchResult,
+  MergedSearchResult,
+  SearchParams,
+  LegalBasisFilter,
+} from '../providers/types.js';
+import {
+  parseLegalBasisFilter,
+  buildQueryText,
+  scoreResults,
+  rankByRelevance,
+} from '../normalization/index.js';
+import {
+  RateLimitError,
+  ProviderError,
+  TimeoutError,
+  ValidationError,
+  DomainNotAllowedError,
+} from '../utils/errors.js';
+import { providerTag } from '../cache/tags.js';
 
 /**
  * Generate cache key for search request
  */
-function generateCacheKey(input: KioSearchInput, provider: Provider): string {
+function generateCacheKey(input: KioSearchInput, provider: SearchProviderPreference): string {
   const parts = [
     'search',
     provider,
@@ -23,24 +41,25 @@ function generateCacheKey(input: KioSearchInput, provider: Provider): string {
     input.date_from ?? '',
     input.date_to ?? '',
     input.judgment_type ?? '',
+    input.outcome ?? '',
+    input.legal_basis ?? '',
+    input.judge ?? '',
+    (input.keywords ?? []).join(','),
+    input.phrase ?? '',
+    (input.exclude_terms ?? []).join(','),
+    input.sort,
     String(input.limit),
     String(input.page),
+    input.cursor ?? '',
+    input.include_snippets ? String(input.snippet_fragments) : '',
   ];
   return parts.join(':');
 }
 
-/**
- * Map provider preference to actual provider
- */
-function resolveProvider(preference: 'auto' | 'saos' | 'uzp'): Provider {
-  // Auto defaults to SAOS as it has the most comprehensive data
-  return preference === 'auto' ? 'saos' : preference;
-}
-
 /**
  * Map normalized search result to output schema format
  */
-function mapToOutputResult(result: NormalizedSearchResult): SearchResultItem {
+function mapToOutputResult(result: NormalizedSearchResult | MergedSearchResult): SearchResultItem {
   return {
     id: result.providerId,
     provider: result.provider,
@@ -49,8 +68,83 @@ function mapToOutputResult(result: NormalizedSearchResult): SearchResultItem {
     judgmentType: result.judgmentType,
     courtName: undefined, // Not available in normalized result
     decision: result.decision,
+    outcome: result.outcome,
+    outcomeConfidence: result.outcomeConfidence,
     snippet: result.snippet,
-    relevanceScore: undefined, // Not available in normalized result
+    relevanceScore: result.relevanceScore,
+    sources:
+      'sources' in result
+        ? result.sources.map((s) => ({ provider: s.provider, id: s.providerId, url: s.sourceUrl }))
+        : undefined,
+  };
+}
+
+/**
+ * Score results against the query text and order them for `sort: "relevance"`
+ * Without query text (case number or filter-only searches), results are left unscored.
+ */
+function applyRelevance<T extends NormalizedSearchResult>(results: T[], params: SearchParams): T[] {
+  const query = buildQueryText(params);
+  if (!query) {
+    return results;
+  }
+  return params.sort === 'relevance' ? rankByRelevance(results, query) : scoreResults(results, query);
+}
+
+/**
+ * Search a single provider (explicit or with "auto" fallback)
+ */
+async function searchProvider(
+  input: KioSearchInput,
+  searchParams: SearchParams,
+  preference: Exclude<SearchProviderPreference, 'all'>,
+  context: ToolContext,
+  startTime: number
+): Promise<KioSearchOutput> {
+  const { provider, response } = await context.router.search(preference, searchParams);
+
+  return {
+    results: applyRelevance(response.results, searchParams).map(mapToOutputResult),
+    pagination: {
+      page: input.page,
+      limit: input.limit,
+      total: response.totalCount,
+      hasMore: response.nextPage !== undefined,
+    },
+    metadata: {
+      provider,
+      queryTimeMs: Date.now() - startTime,
+      cached: false,
+    },
+  };
+}
+
+/**
+ * Search every provider and merge results, paginating with a cursor
+ */
+async function searchAllProviders(
+  input: KioSearchInput,
+  searchParams: SearchParams,
+  context: ToolContext,
+  startTime: number
+): Promise<KioSearchOutput> {
+  const response = await context.router.searchAll(searchParams, input.cursor);
+
+  return {
+    results: applyRelevance(response.results, searchParams).map(mapToOutputResult),
+    pagination: {
+      page: input.page,
+      limit: input.limit,
+      hasMore: response.nextCursor !== undefined,
+      nextCursor: response.nextCursor,
+    },
+    metadata: {
+      provider: 'all',
+      queryTimeMs: Date.now() - startTime,
+      cached: false,
+      providers: response.providers,
+      failedProviders: response.failedProviders,
+    },
   };
 }
 
@@ -97,39 +191,30 @@ export async function executeKioSearch(
     throw error;
   }
 
-  // Resolve provider
-  const provider = resolveProvider(validatedInput.provider);
-  const providerInstance = context.providers.get(provider);
+  // Explicitly requested providers must be registered; "auto" and "all" are resolved by the router
+  const preference = validatedInput.provider;
+  const requestedProvider =
+    preference === 'auto' || preference === 'all' ? undefined : preference;
 
-  if (!providerInstance) {
+  if (requestedProvider && !context.providers.has(requestedProvider)) {
     return createToolError(
       'PROVIDER_NOT_FOUND',
-      `Provider ${provider} not available`,
+      `Provider ${requestedProvider} not available`,
       false
     );
   }
 
-  // Check cache
-  const cacheKey = generateCacheKey(validatedInput, provider);
-  let cached = false;
-
-  try {
-    const cachedResult = await context.cache.get<KioSearchOutput>(cacheKey);
-    if (cachedResult) {
-      context.auditLogger.logCacheHit({ key: cacheKey, provider });
-      context.auditLogger.logSearch({
-        clientId,
-        provider,
-        query: validatedInput.query,
-        resultCount: cachedResult.results.length,
-        latencyMs: Date.now() - startTime,
-        cached: true,
-      });
-      return createToolResult(cachedResult, Date.now() - startTime, true);
+  // Parse the cited provision filter (either act unless one is named)
+  let legalBasis: LegalBasisFilter | undefined;
+  if (validatedInput.legal_basis) {
+    legalBasis = parseLegalBasisFilter(validatedInput.legal_basis);
+    if (!legalBasis) {
+      return createToolError(
+        'VALIDATION_ERROR',
+        `Invalid input: legal_basis "${validatedInput.legal_basis}" is not a Pzp provision (e.g. "art. 226 ust. 1 pkt 5")`,
+        false
+      );
     }
-    context.auditLogger.logCacheMiss({ key: cacheKey, provider });
-  } catch {
-    // Cache errors are non-fatal, continue with fresh fetch
   }
 
   // Build search params
@@ -139,54 +224,72 @@ export async function executeKioSearch(
     dateFrom: validatedInput.date_from,
     dateTo: validatedInput.date_to,
     judgmentType: validatedInput.judgment_type,
+    outcome: validatedInput.outcome,
+    legalBasis,
+    judge: validatedInput.judge,
+    keywords: validatedInput.keywords,
+    phrase: validatedInput.phrase,
+    excludeTerms: validatedInput.exclude_terms,
+    sort: validatedInput.sort,
     limit: validatedInput.limit,
     page: validatedInput.page,
     includeSnippets: validatedInput.include_snippets,
+    snippetFragments: validatedInput.snippet_fragments,
   };
 
-  // Execute search
+  // Execute search through the cache (partial federated results are not cached)
+  const cacheKey = generateCacheKey(validatedInput, preference);
   try {
-    const response = await providerInstance.search(searchParams);
-
-    // Build output
-    const output: KioSearchOutput = {
-      results: response.results.map(mapToOutputResult),
-      pagination: {
-        page: validatedInput.page,
-        limit: validatedInput.limit,
-        total: response.totalCount,
-        hasMore: response.nextPage !== undefined,
-      },
-      metadata: {
-        provider,
-        queryTimeMs: Date.now() - startTime,
-        cached: false,
-      },
-    };
-
-    // Cache result
-    try {
-      await context.cache.set(cacheKey, output, CacheTTL.SEARCH);
-    } catch {
-      // Cache errors are non-fatal
+    const { value, cached, stale } = await context.cacheThrough.get(
+      cacheKey,
+      () =>
+        preference === 'all'
+          ? searchAllProviders(validatedInput, searchParams, context, startTime)
+          : searchProvider(validatedInput, searchParams, preference, context, startTime),
+      {
+        ttlMs: context.config.searchCacheTtlMs,
+        shouldCache: (output) => !output.metadata.failedProviders?.length,
+        tags: (output) =>
+          (output.metadata.providers ?? [output.metadata.provider])
+            .filter((provider) => provider !== 'all')
+            .map(providerTag),
+        onRefreshError: (error) =>
+          context.auditLogger.logError({
+            clientId,
+            provider: requestedProvider,
+            operation: 'search',
+            error: error instanceof Error ? error : new Error(String(error)),
+          }),
+      }
+    );
+    const output: KioSearchOutput = stale
+      ? { ...value, metadata: { ...value.metadata, stale: true } }
+      : value;
+
+    const provider = output.metadata.provider === 'all' ? undefined : output.metadata.provider;
+    if (cached) {
+      context.auditLogger.logCacheHit({ key: cacheKey, provider });
+    } else {
+      context.auditLogger.logCacheMiss({ key: cacheKey, provider: requestedProvider });
     }
 
     // Log success
     context.auditLogger.logSearch({
       clientId,
       provider,
+      providers: output.metadata.providers,
       query: validatedInput.query,
       resultCount: output.results.length,
       latencyMs: Date.now() - startTime,
-      cached: false,
+      cached,
     });
 
-    return createToolResult(output, Date.now() - startTime, cached);
+    return createToolResult(output, Date.now() - startTime, cached, stale);
   } catch (error) {
     // Log error
     context.auditLogger.logError({
       clientId,
-      provider,
+      provider: requestedProvider,
       operation: 'search',
       error: error instanceof Error ? error : new Error(String(error)),
     });
@@ -199,6 +302,14 @@ export async function executeKioSearch(
       );
     }
 
+    if (error instanceof TimeoutError) {
+      return createToolError('TIMEOUT', error.message, true);
+    }
+
+    if (error instanceof DomainNotAllowedError) {
+      return createToolError('DOMAIN_NOT_ALLOWED', error.message, false);
+    }
+
     if (error instanceof ValidationError) {
       return createToolError('VALIDATION_ERROR', error.message, false);
     }
@@ -3,9 +3,13 @@
  */
 
 import type { KioProvider, Provider } from '../providers/types.js';
+import type { ProviderRouter } from '../providers/router.js';
+import type { IdentityResolver } from '../providers/identity.js';
 import type { Cache } from '../cache/types.js';
+import type { CacheThrough } from '../cache/cache-through.js';
 import type { RateLimiter } from '../security/rate-limiter.js';
 import type { AuditLogger } from '../security/audit-logger.js';
+import type { KioConfig } from '../config/env.js';
 
 /**
  * Tool execution context
@@ -15,19 +19,32 @@ export interface ToolContext {
   /** Provider instances by name */
   providers: Map<Provider, KioProvider>;
 
+  /** Router handling provider fallback and circuit breaking */
+  router: ProviderRouter;
+
+  /** Resolver mapping case numbers to IDs across providers */
+  resolver: IdentityResolver;
+
   /** Cache instance */
   cache: Cache;
 
+  /** Cache-through layer over the cache (coalescing, stale-while-revalidate) */
+  cacheThrough: CacheThrough;
+
   /** Rate limiters by operation type */
   rateLimiters: {
     search: RateLimiter;
     judgment: RateLimiter;
+    sourceLinks: RateLimiter;
     health: RateLimiter;
   };
 
   /** Audit logger */
   auditLogger: AuditLogger;
 
+  /** Server configuration (cache TTLs, limits, provider settings) */
+  config: KioConfig;
+
   /** Server start time for uptime calculation */
   startedAt: Date;
 
@@ -44,6 +61,8 @@ export interface ToolResult<T> {
   metadata: {
     queryTimeMs: number;
     cached: boolean;
+    /** Set when cached data past its TTL was served */
+    stale?: boolean;
   };
 }
 
@@ -71,7 +90,8 @@ export type ToolResponse<T> = ToolResult<T> | ToolError;
 export function createToolResult<T>(
   data: T,
   queryTimeMs: number,
-  cached: boolean
+  cached: boolean,
+  stale?: boolean
 ): ToolResult<T> {
   return {
     success: true,
@@ -79,6 +99,7 @@ export function createToolResult<T>(
     metadata: {
       queryTimeMs,
       cached,
+      ...(stale && { stale }),
     },
   };
 }
@@ -39,22 +39,27 @@ export class KioError extends Error {
  */
 export class ProviderError extends KioError {
   readonly provider: string;
+  /** Delay requested by the provider (Retry-After), if any */
+  readonly retryAfterMs?: number;
 
   constructor(
     message: string,
     provider: string,
     statusCode: number = 503,
-    isRetryable: boolean = true
+    isRetryable: boolean = true,
+    retryAfterMs?: number
   ) {
     super(message, 'PROVIDER_ERROR', statusCode, isRetryable);
     this.name = 'ProviderError';
     this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
   }
 
   toJSON() {
     return {
       ...super.toJSON(),
       provider: this.provider,
+      ...(this.retryAfterMs !== undefined && { retryAfterMs: this.retryAfterMs }),
     };
   }
 }
@@ -1,13 +1,45 @@
 /**
- * Shared HTTP client with timeout handling and error wrapping
+ * Shared HTTP client with timeout handling, retries and error wrapping
  */
 
-import { ProviderError, TimeoutError } from './errors.js';
+import type { Provider } from '../providers/types.js';
+import type { AuditLogger } from '../security/audit-logger.js';
+import { DomainAllowlist, createDefaultAllowlist } from '../security/allowlist.js';
+import { DomainNotAllowedError, KioError, ProviderError, TimeoutError } from './errors.js';
+
+/**
+ * Retry configuration
+ */
+export interface RetryConfig {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for every further retry */
+  baseDelayMs: number;
+  /** Longest delay between attempts; a longer Retry-After is not waited for */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+/** Redirects followed per request */
+const MAX_REDIRECTS = 5;
 
 export interface HttpClientConfig {
   baseUrl: string;
   timeoutMs: number;
   headers?: Record<string, string>;
+  /** Provider served by this client (reported in errors and audit entries) */
+  provider?: Provider;
+  /** Retry settings for failed requests */
+  retry?: Partial<RetryConfig>;
+  /** Audit logger receiving the timing of every attempt and blocked domains */
+  auditLogger?: AuditLogger;
+  /** Domains requests and redirects may go to (defaults to the KIO sources) */
+  allowlist?: DomainAllowlist;
 }
 
 export interface HttpResponse<T> {
@@ -18,17 +50,62 @@ export interface HttpResponse<T> {
 
 export interface HttpRequestOptions {
   headers?: Record<string, string>;
-  params?: Record<string, string | number | boolean | undefined>;
+  /** Query parameters; arrays are sent as one parameter per element */
+  params?: Record<string, string | number | boolean | string[] | undefined>;
   signal?: AbortSignal;
 }
 
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Wait for a number of milliseconds, or until the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = (): void => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
 /**
  * HTTP client with timeout support and standardized error handling
+ *
+ * GET requests are retried on errors marked as retryable, with jittered
+ * exponential backoff or the delay the server asks for in Retry-After.
+ * Every URL, including each redirect hop, must pass the domain allowlist.
  */
 export class HttpClient {
   private readonly baseUrl: string;
   private readonly timeoutMs: number;
   private readonly defaultHeaders: Record<string, string>;
+  private readonly provider?: Provider;
+  private readonly retry: RetryConfig;
+  private readonly auditLogger?: AuditLogger;
+  private readonly allowlist: DomainAllowlist;
 
   constructor(config: HttpClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
@@ -38,18 +115,39 @@ export class HttpClient {
       'User-Agent': 'mcp-kio/0.1.0',
       ...config.headers,
     };
+    this.provider = config.provider;
+    this.retry = { ...DEFAULT_RETRY_CONFIG, ...config.retry };
+    this.auditLogger = config.auditLogger;
+    this.allowlist = config.allowlist ?? createDefaultAllowlist();
+  }
+
+  /**
+   * Check a URL against the allowlist, logging blocked requests
+   * @throws DomainNotAllowedError if the domain is not allowed
+   */
+  private checkUrl(url: string): void {
+    try {
+      this.allowlist.checkUrl(url);
+    } catch (error) {
+      if (error instanceof DomainNotAllowedError) {
+        this.auditLogger?.logDomainBlocked({ url, reason: error.message });
+      }
+      throw error;
+    }
   }
 
   /**
    * Build URL with query parameters
    */
-  private buildUrl(path: string, params?: Record<string, string | number | boolean | undefined>): string {
+  private buildUrl(path: string, params?: HttpRequestOptions['params']): string {
     const url = new URL(path, this.baseUrl);
 
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null && value !== '') {
-          url.searchParams.append(key, String(value));
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item !== undefined && item !== null && item !== '') {
+            url.searchParams.append(key, String(item));
+          }
         }
       });
     }
@@ -82,87 +180,134 @@ export class HttpClient {
    * Perform a GET request
    */
   async get<T>(path: string, options: HttpRequestOptions = {}): Promise<HttpResponse<T>> {
-    const url = this.buildUrl(path, options.params);
-    const { controller, timeoutId } = this.createTimeoutController(options.signal);
-
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          ...this.defaultHeaders,
-          ...options.headers,
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new ProviderError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          this.getProviderName(),
-          response.status,
-          response.status >= 500 || response.status === 429
-        );
-      }
-
-      const data = await response.json() as T;
+    return this.requestWithRetry(path, options, {}, async (response) => await response.json() as T);
+  }
 
-      return {
-        data,
-        status: response.status,
-        headers: response.headers,
-      };
-    } catch (error) {
-      clearTimeout(timeoutId);
+  /**
+   * Perform a GET request expecting HTML response
+   */
+  async getHtml(path: string, options: HttpRequestOptions = {}): Promise<HttpResponse<string>> {
+    return this.requestWithRetry(path, options, { 'Accept': 'text/html' }, (response) => response.text());
+  }
 
-      if (error instanceof ProviderError) {
-        throw error;
-      }
+  /**
+   * Run a GET request, retrying retryable failures
+   */
+  private async requestWithRetry<T>(
+    path: string,
+    options: HttpRequestOptions,
+    headers: Record<string, string>,
+    parse: (response: Response) => Promise<T>
+  ): Promise<HttpResponse<T>> {
+    const url = this.buildUrl(path, options.params);
 
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new TimeoutError(
-            `Request to ${this.baseUrl} timed out after ${this.timeoutMs}ms`,
-            this.timeoutMs
-          );
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+
+      try {
+        const response = await this.request(url, options, headers, parse);
+        this.auditLogger?.logHttpAttempt({
+          provider: this.provider,
+          url,
+          attempt,
+          status: response.status,
+          latencyMs: Date.now() - startTime,
+          success: true,
+        });
+        return response;
+      } catch (error) {
+        const delayMs = this.getRetryDelay(error, attempt, options.signal);
+        this.auditLogger?.logHttpAttempt({
+          provider: this.provider,
+          url,
+          attempt,
+          status: error instanceof KioError ? error.statusCode : undefined,
+          latencyMs: Date.now() - startTime,
+          success: false,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          retryDelayMs: delayMs,
+        });
+
+        if (delayMs === undefined) {
+          throw error;
+        }
+        await sleep(delayMs, options.signal);
+        if (options.signal?.aborted) {
+          throw error;
         }
-
-        // Network errors (DNS, connection refused, etc.)
-        throw new ProviderError(
-          `Network error: ${error.message}`,
-          this.getProviderName(),
-          503,
-          true
-        );
       }
+    }
+  }
 
-      throw new ProviderError(
-        'Unknown error occurred',
-        this.getProviderName(),
-        500,
-        false
-      );
+  /**
+   * Delay before retrying a failed attempt
+   * @returns undefined when the request should not be retried
+   */
+  private getRetryDelay(error: unknown, attempt: number, signal?: AbortSignal): number | undefined {
+    if (
+      !(error instanceof KioError) ||
+      !error.isRetryable ||
+      attempt > this.retry.maxRetries ||
+      signal?.aborted
+    ) {
+      return undefined;
     }
+
+    if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= this.retry.maxDelayMs ? error.retryAfterMs : undefined;
+    }
+
+    // Equal jitter: half the backoff plus a random share of the other half
+    const backoff = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
   }
 
   /**
-   * Perform a GET request expecting HTML response
+   * Perform a single GET attempt
+   * Redirects are followed manually so that every hop is checked.
    */
-  async getHtml(path: string, options: HttpRequestOptions = {}): Promise<HttpResponse<string>> {
-    const url = this.buildUrl(path, options.params);
+  private async request<T>(
+    url: string,
+    options: HttpRequestOptions,
+    headers: Record<string, string>,
+    parse: (response: Response) => Promise<T>
+  ): Promise<HttpResponse<T>> {
+    this.checkUrl(url);
     const { controller, timeoutId } = this.createTimeoutController(options.signal);
 
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          ...this.defaultHeaders,
-          'Accept': 'text/html',
-          ...options.headers,
-        },
-        signal: controller.signal,
-      });
+      let currentUrl = url;
+      let response: Response;
+      for (let redirects = 0; ; redirects++) {
+        response = await fetch(currentUrl, {
+          method: 'GET',
+          headers: {
+            ...this.defaultHeaders,
+            ...headers,
+            ...options.headers,
+          },
+          redirect: 'manual',
+          signal: controller.signal,
+        });
+
+        const location = response.status >= 300 && response.status < 400
+          ? response.headers.get('Location')
+          : null;
+        if (!location) {
+          break;
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          throw new ProviderError(
+            `Too many redirects (more than ${MAX_REDIRECTS})`,
+            this.getProviderName(),
+            502,
+            false
+          );
+        }
+
+        currentUrl = new URL(location, currentUrl).toString();
+        this.checkUrl(currentUrl);
+      }
 
       clearTimeout(timeoutId);
 
@@ -171,11 +316,26 @@ export class HttpClient {
           `HTTP ${response.status}: ${response.statusText}`,
           this.getProviderName(),
           response.status,
-          response.status >= 500 || response.status === 429
+          response.status >= 500 || response.status === 429,
+          parseRetryAfter(response.headers.get('Retry-After'))
         );
       }
 
-      const data = await response.text();
+      let data: T;
+      try {
+        data = await parse(response);
+      } catch (error) {
+        // A malformed body will not parse on a retry either
+        if (error instanceof SyntaxError) {
+          throw new ProviderError(
+            `Invalid response body: ${error.message}`,
+            this.getProviderName(),
+            502,
+            false
+          );
+        }
+        throw error;
+      }
 
       return {
         data,
@@ -185,7 +345,7 @@ export class HttpClient {
     } catch (error) {
       clearTimeout(timeoutId);
 
-      if (error instanceof ProviderError) {
+      if (error instanceof ProviderError || error instanceof DomainNotAllowedError) {
         throw error;
       }
 
@@ -197,6 +357,7 @@ export class HttpClient {
           );
         }
 
+        // Network errors (DNS, connection refused, etc.)
         throw new ProviderError(
           `Network error: ${error.message}`,
           this.getProviderName(),
@@ -215,9 +376,13 @@ export class HttpClient {
   }
 
   /**
-   * Extract provider name from base URL for error messages
+   * Provider name for error messages (configured, or derived from the base URL)
    */
   private getProviderName(): string {
+    if (this.provider) {
+      return this.provider;
+    }
+
     try {
       const url = new URL(this.baseUrl);
       if (url.hostname.includes('saos')) return 'saos';
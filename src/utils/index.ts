@@ -19,6 +19,9 @@ export { sha256, shortHash, cacheKey, generateRequestId } from './hash.js';
 export {
   HttpClient,
   createHttpClient,
+  parseRetryAfter,
+  DEFAULT_RETRY_CONFIG,
+  type RetryConfig,
   type HttpClientConfig,
   type HttpResponse,
   type HttpRequestOptions,
@@ -0,0 +1,142 @@
+/**
+ * `mcp-kio warm` command
+ * Fetches judgments into the configured persistent cache ahead of time
+ */
+
+import { parseArgs } from 'node:util';
+import { loadConfig, ConfigError, type KioConfig } from './config/env.js';
+import { createToolContext, closeToolContext } from './tools/context.js';
+import { warmCache, type CacheWarmRequest } from './tools/cache-warm.js';
+
+/**
+ * Parsed warm command options
+ */
+export interface WarmCommandOptions {
+  /** Loaded configuration (config file < environment) */
+  config: KioConfig;
+  request: CacheWarmRequest;
+  ratePerMinute: number;
+}
+
+const USAGE = `Usage: mcp-kio warm [options]
+
+Options:
+  --config <path>           Config file (default: MCP_KIO_CONFIG or ./mcp-kio.config.{json,yaml,yml})
+  --case <number>           Case number to warm, e.g. "KIO 123/24" (repeatable)
+  --saos-id <id>            SAOS judgment ID to warm (repeatable)
+  --date-from <YYYY-MM-DD>  Warm judgments dated on or after this day
+  --date-to <YYYY-MM-DD>    Warm judgments dated on or before this day
+  --rate-limit <n>          Requests per minute (default: MCP_KIO_JUDGMENT_RATE_LIMIT)
+  --help                    Show this help
+
+The cache must be persistent (cacheType sqlite or redis).`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a date option
+ */
+function parseDate(value: string | undefined, name: string): string | undefined {
+  if (value !== undefined && !DATE_PATTERN.test(value)) {
+    throw new ConfigError(`--${name} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+/**
+ * Parse warm command arguments
+ * @returns undefined when help was requested
+ */
+export function parseWarmArgs(args: string[]): WarmCommandOptions | undefined {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        config: { type: 'string' },
+        case: { type: 'string', multiple: true },
+        'saos-id': { type: 'string', multiple: true },
+        'date-from': { type: 'string' },
+        'date-to': { type: 'string' },
+        'rate-limit': { type: 'string' },
+        help: { type: 'boolean' },
+      },
+    }));
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (values.help) {
+    return undefined;
+  }
+
+  const request: CacheWarmRequest = {
+    caseNumbers: values.case,
+    saosIds: values['saos-id'],
+    dateFrom: parseDate(values['date-from'], 'date-from'),
+    dateTo: parseDate(values['date-to'], 'date-to'),
+  };
+  if (!request.caseNumbers && !request.saosIds && !request.dateFrom && !request.dateTo) {
+    throw new ConfigError('Give --case, --saos-id, --date-from or --date-to');
+  }
+
+  // Warming an in-memory cache would be lost when the command exits
+  const config = loadConfig({ configFile: values.config });
+  if (config.cacheType === 'memory') {
+    throw new ConfigError('mcp-kio warm needs a persistent cache (cacheType sqlite or redis)');
+  }
+
+  let ratePerMinute = config.judgmentRateLimitPerMinute;
+  if (values['rate-limit'] !== undefined) {
+    ratePerMinute = Number(values['rate-limit']);
+    if (!Number.isInteger(ratePerMinute) || ratePerMinute < 1) {
+      throw new ConfigError('--rate-limit must be a positive integer');
+    }
+  }
+
+  return { config, request, ratePerMinute };
+}
+
+/**
+ * Run the warm command
+ */
+export async function runWarmCommand(args: string[]): Promise<void> {
+  const options = parseWarmArgs(args);
+  if (!options) {
+    console.error(USAGE);
+    return;
+  }
+
+  const context = createToolContext({ config: options.config });
+
+  try {
+    const job = warmCache(context, options.request, {
+      ratePerMinute: options.ratePerMinute,
+      onProgress: (progress) => {
+        console.error(
+          `[mcp-kio] ${progress.done}/${progress.total} ${progress.current ?? ''}: ` +
+            `${progress.fetched} fetched, ${progress.skipped} already cached, ` +
+            `${progress.failed} failed`
+        );
+      },
+    });
+
+    // Ctrl+C stops after the judgment in flight
+    const cancel = () => job.cancel();
+    process.once('SIGINT', cancel);
+
+    const result = await job.done;
+    process.off('SIGINT', cancel);
+
+    for (const failure of result.failures) {
+      console.error(`[mcp-kio] Failed ${failure.target}: ${failure.error}`);
+    }
+    console.error(
+      `[mcp-kio] Warm-up ${result.completed ? 'finished' : 'cancelled'}: ` +
+        `${result.fetched} fetched, ${result.skipped} already cached, ` +
+        `${result.failures.length} failed`
+    );
+  } finally {
+    await closeToolContext(context);
+  }
+}
@@ -38,6 +38,7 @@ describe('Server Integration', () => {
     it('should initialize rate limiters', () => {
       expect(kioServer.context.rateLimiters.search).toBeDefined();
       expect(kioServer.context.rateLimiters.judgment).toBeDefined();
+      expect(kioServer.context.rateLimiters.sourceLinks).toBeDefined();
       expect(kioServer.context.rateLimiters.health).toBeDefined();
     });
 
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  CacheThrough,
+  createCacheThrough,
+  isProviderUnavailable,
+} from '../../../src/cache/cache-through.js';
+import { MemoryCache } from '../../../src/cache/memory-cache.js';
+import { ProviderError, TimeoutError, NotFoundError } from '../../../src/utils/errors.js';
+
+describe('CacheThrough', () => {
+  let cache: MemoryCache;
+  let cacheThrough: CacheThrough;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    cache = new MemoryCache({ defaultTtlMs: 60000 });
+    cacheThrough = new CacheThrough(cache);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    vi.useRealTimers();
+  });
+
+  describe('get', () => {
+    it('should fetch on a miss and serve the cached value afterwards', async () => {
+      const fetch = vi.fn().mockResolvedValue('value1');
+
+      expect(await cacheThrough.get('key1', fetch, { ttlMs: 1000 })).toEqual({
+        value: 'value1',
+        cached: false,
+        stale: false,
+      });
+      expect(await cacheThrough.get('key1', fetch, { ttlMs: 1000 })).toEqual({
+        value: 'value1',
+        cached: true,
+        stale: false,
+      });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should coalesce concurrent fetches for the same key', async () => {
+      let resolve: (value: string) => void = () => {};
+      const fetch = vi.fn(
+        () => new Promise<string>((r) => { resolve = r; })
+      );
+
+      const first = cacheThrough.get('key1', fetch, { ttlMs: 1000 });
+      const second = cacheThrough.get('key1', fetch, { ttlMs: 1000 });
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+      resolve('value1');
+
+      expect((await first).value).toBe('value1');
+      expect((await second).value).toBe('value1');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache values rejected by shouldCache', async () => {
+      const fetch = vi.fn().mockResolvedValue({ partial: true });
+
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000, shouldCache: (v) => !v.partial });
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000, shouldCache: (v) => !v.partial });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache values with their tags', async () => {
+      const fetch = vi.fn().mockResolvedValue({ provider: 'saos' });
+
+      await cacheThrough.get('key1', fetch, {
+        ttlMs: 1000,
+        tags: (value) => [`provider:${value.provider}`],
+      });
+      expect(await cache.invalidateTag('provider:saos')).toBe(1);
+    });
+
+    it('should treat entries not written by the layer as misses', async () => {
+      await cache.set('key1', 'legacy');
+      const fetch = vi.fn().mockResolvedValue('value1');
+
+      const result = await cacheThrough.get('key1', fetch, { ttlMs: 1000 });
+
+      expect(result).toEqual({ value: 'value1', cached: false, stale: false });
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    it('should serve a stale value within the grace window and refresh it', async () => {
+      const fetch = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000 });
+
+      vi.advanceTimersByTime(1500);
+      const result = await cacheThrough.get('key1', fetch, { ttlMs: 1000 });
+
+      expect(result).toEqual({ value: 'old', cached: true, stale: true });
+      await vi.waitFor(async () => {
+        expect((await cacheThrough.get('key1', fetch, { ttlMs: 1000 })).value).toBe('new');
+      });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report background refresh errors', async () => {
+      const error = new Error('refresh failed');
+      const fetch = vi.fn().mockResolvedValueOnce('old').mockRejectedValueOnce(error);
+      const onRefreshError = vi.fn();
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000 });
+
+      vi.advanceTimersByTime(1500);
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000, onRefreshError });
+
+      await vi.waitFor(() => expect(onRefreshError).toHaveBeenCalledWith(error));
+    });
+
+    it('should not scale the default grace window with the TTL', async () => {
+      const day = 24 * 60 * 60 * 1000;
+      const fetch = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+      await cacheThrough.get('key1', fetch, { ttlMs: day });
+
+      vi.advanceTimersByTime(day + 10 * 60 * 1000);
+      const result = await cacheThrough.get('key1', fetch, { ttlMs: day });
+
+      expect(result).toEqual({ value: 'new', cached: false, stale: false });
+    });
+
+    it('should refetch past the grace window', async () => {
+      const fetch = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000, graceMs: 0 });
+
+      vi.advanceTimersByTime(1500);
+      const result = await cacheThrough.get('key1', fetch, { ttlMs: 1000, graceMs: 0 });
+
+      expect(result).toEqual({ value: 'new', cached: false, stale: false });
+    });
+  });
+
+  describe('stale-if-error', () => {
+    it('should serve a stale value when the provider is unavailable', async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce('old')
+        .mockRejectedValueOnce(new ProviderError('Service unavailable', 'saos'));
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000, graceMs: 0 });
+
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      const result = await cacheThrough.get('key1', fetch, { ttlMs: 1000, graceMs: 0 });
+
+      expect(result).toEqual({ value: 'old', cached: true, stale: true });
+    });
+
+    it('should rethrow other errors', async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce('old')
+        .mockRejectedValueOnce(new NotFoundError('KIO judgment', '123'));
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000, graceMs: 0 });
+
+      vi.advanceTimersByTime(1500);
+
+      await expect(
+        cacheThrough.get('key1', fetch, { ttlMs: 1000, graceMs: 0 })
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should rethrow once the stale-if-error window has passed', async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce('old')
+        .mockRejectedValueOnce(new ProviderError('Service unavailable', 'saos'));
+      await cacheThrough.get('key1', fetch, { ttlMs: 1000, graceMs: 0, staleIfErrorMs: 0 });
+
+      vi.advanceTimersByTime(1500);
+
+      await expect(
+        cacheThrough.get('key1', fetch, { ttlMs: 1000, graceMs: 0, staleIfErrorMs: 0 })
+      ).rejects.toBeInstanceOf(ProviderError);
+    });
+  });
+});
+
+describe('isProviderUnavailable', () => {
+  it('should accept retryable provider errors and timeouts only', () => {
+    expect(isProviderUnavailable(new ProviderError('Down', 'saos'))).toBe(true);
+    expect(isProviderUnavailable(new TimeoutError('Timed out', 1000))).toBe(true);
+    expect(isProviderUnavailable(new ProviderError('Bad request', 'saos', 400, false))).toBe(false);
+    expect(isProviderUnavailable(new Error('Other'))).toBe(false);
+  });
+});
+
+describe('createCacheThrough', () => {
+  it('should create a cache-through layer', () => {
+    expect(createCacheThrough(new MemoryCache({ defaultTtlMs: 1000 }))).toBeInstanceOf(
+      CacheThrough
+    );
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { compressText, decompressText } from '../../../src/cache/compression.js';
+
+describe('compressText', () => {
+  it('should round-trip text including Polish characters', () => {
+    const text = 'Krajowa Izba Odwoławcza zważyła, co następuje: ' + 'ąćęłńóśźż\n'.repeat(50);
+
+    expect(decompressText(compressText(text))).toBe(text);
+  });
+
+  it('should shrink repetitive judgment text', () => {
+    const text = 'Izba oddala odwołanie. '.repeat(10000);
+    const compressed = compressText(text);
+
+    expect(compressed.encoding).toBe('gzip');
+    expect(compressed.data.length).toBeLessThan(text.length / 10);
+  });
+
+  it('should handle empty text', () => {
+    expect(decompressText(compressText(''))).toBe('');
+  });
+});
@@ -152,6 +152,37 @@ describe('MemoryCache', () => {
     });
   });
 
+  describe('invalidation', () => {
+    it('should delete entries by tag', async () => {
+      await cache.set('judgment:saos:1', 'a', 1000, ['provider:saos', 'judgment:saos:1']);
+      await cache.set('search:x', 'b', 1000, ['provider:saos', 'provider:uzp']);
+      await cache.set('judgment:uzp:2', 'c', 1000, ['provider:uzp']);
+
+      expect(await cache.invalidateTag('provider:saos')).toBe(2);
+      expect(await cache.has('judgment:saos:1')).toBe(false);
+      expect(await cache.has('search:x')).toBe(false);
+      expect(await cache.has('judgment:uzp:2')).toBe(true);
+      expect(await cache.invalidateTag('provider:saos')).toBe(0);
+    });
+
+    it('should drop the tags of replaced entries', async () => {
+      await cache.set('key1', 'a', 1000, ['old']);
+      await cache.set('key1', 'b', 1000, ['new']);
+
+      expect(await cache.invalidateTag('old')).toBe(0);
+      expect(await cache.invalidateTag('new')).toBe(1);
+    });
+
+    it('should delete entries by key prefix', async () => {
+      await cache.set('judgment:saos:1', 'a');
+      await cache.set('judgment:uzp:2', 'b');
+      await cache.set('search:x', 'c');
+
+      expect(await cache.invalidatePrefix('judgment:')).toBe(2);
+      expect(await cache.has('search:x')).toBe(true);
+    });
+  });
+
   describe('max entries', () => {
     it('should evict oldest entries when over capacity', async () => {
       const smallCache = new MemoryCache({
@@ -170,6 +201,97 @@ describe('MemoryCache', () => {
 
       await smallCache.close();
     });
+
+    it('should evict least recently read entries first', async () => {
+      const smallCache = new MemoryCache({
+        defaultTtlMs: 10000,
+        maxEntries: 3,
+      });
+
+      await smallCache.set('key1', 'value1');
+      await smallCache.set('key2', 'value2');
+      await smallCache.set('key3', 'value3');
+      await smallCache.get('key1');
+      await smallCache.set('key4', 'value4'); // Should evict key2
+
+      expect(await smallCache.has('key1')).toBe(true);
+      expect(await smallCache.has('key2')).toBe(false);
+      expect(await smallCache.has('key4')).toBe(true);
+
+      await smallCache.close();
+    });
+
+    it('should count evictions', async () => {
+      const smallCache = new MemoryCache({
+        defaultTtlMs: 10000,
+        maxEntries: 1,
+      });
+
+      await smallCache.set('key1', 'value1');
+      await smallCache.set('key2', 'value2');
+      await smallCache.set('key2', 'value2b'); // Replacing is not an eviction
+
+      expect(smallCache.stats().evictions).toBe(1);
+
+      await smallCache.clear();
+      expect(smallCache.stats().evictions).toBe(0);
+
+      await smallCache.close();
+    });
+  });
+
+  describe('max bytes', () => {
+    it('should evict least recently used entries over the byte budget', async () => {
+      const smallCache = new MemoryCache({
+        defaultTtlMs: 10000,
+        maxBytes: 250,
+      });
+
+      // Each value serializes to 100 bytes
+      await smallCache.set('key1', 'x'.repeat(98));
+      await smallCache.set('key2', 'x'.repeat(98));
+      await smallCache.get('key1');
+      await smallCache.set('key3', 'x'.repeat(98)); // Should evict key2
+
+      expect(await smallCache.has('key1')).toBe(true);
+      expect(await smallCache.has('key2')).toBe(false);
+      expect(await smallCache.has('key3')).toBe(true);
+      expect(smallCache.stats()).toMatchObject({ size: 2, evictions: 1 });
+
+      await smallCache.close();
+    });
+
+    it('should release the budget of deleted and replaced entries', async () => {
+      const smallCache = new MemoryCache({
+        defaultTtlMs: 10000,
+        maxBytes: 250,
+      });
+
+      await smallCache.set('key1', 'x'.repeat(98));
+      await smallCache.set('key1', 'x'.repeat(98));
+      await smallCache.set('key2', 'x'.repeat(98));
+      await smallCache.delete('key2');
+      await smallCache.set('key3', 'x'.repeat(98));
+
+      expect(smallCache.stats()).toMatchObject({ size: 2, evictions: 0 });
+
+      await smallCache.close();
+    });
+
+    it('should not store values larger than the budget', async () => {
+      const smallCache = new MemoryCache({
+        defaultTtlMs: 10000,
+        maxBytes: 50,
+      });
+
+      await smallCache.set('small', 'value');
+      await smallCache.set('large', 'x'.repeat(100));
+
+      expect(await smallCache.has('small')).toBe(true);
+      expect(await smallCache.has('large')).toBe(false);
+
+      await smallCache.close();
+    });
   });
 });
 
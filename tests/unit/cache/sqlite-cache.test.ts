@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Sqlite from 'better-sqlite3';
+import { SqliteCache, createSqliteCache } from '../../../src/cache/sqlite-cache.js';
+import { createCache } from '../../../src/cache/index.js';
+
+describe('SqliteCache', () => {
+  let directory: string;
+  let path: string;
+  let cache: SqliteCache;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    directory = await mkdtemp(join(tmpdir(), 'mcp-kio-sqlite-'));
+    path = join(directory, 'cache', 'kio.db');
+    cache = new SqliteCache(path, { defaultTtlMs: 1000 });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('get/set', () => {
+    it('should store and retrieve values', async () => {
+      await cache.set('key1', { data: 'value1' });
+
+      expect(await cache.get<{ data: string }>('key1')).toEqual({ data: 'value1' });
+    });
+
+    it('should return undefined for non-existent keys', async () => {
+      expect(await cache.get('nonexistent')).toBeUndefined();
+    });
+
+    it('should expire entries after TTL', async () => {
+      await cache.set('key1', 'value1', 500);
+      expect(await cache.get('key1')).toBe('value1');
+
+      vi.advanceTimersByTime(600);
+      expect(await cache.get('key1')).toBeUndefined();
+    });
+
+    it('should use default TTL when not specified', async () => {
+      await cache.set('key1', 'value1');
+
+      vi.advanceTimersByTime(900);
+      expect(await cache.get('key1')).toBe('value1');
+
+      vi.advanceTimersByTime(200);
+      expect(await cache.get('key1')).toBeUndefined();
+    });
+  });
+
+  describe('persistence', () => {
+    it('should keep entries across instances of the same file', async () => {
+      await cache.set('judgment:1', { id: 1 }, 60000);
+      await cache.close();
+
+      cache = new SqliteCache(path, { defaultTtlMs: 1000 });
+      expect(await cache.get('judgment:1')).toEqual({ id: 1 });
+    });
+  });
+
+  describe('has/delete', () => {
+    it('should report existing and expired keys', async () => {
+      await cache.set('key1', 'value1', 500);
+      expect(await cache.has('key1')).toBe(true);
+
+      vi.advanceTimersByTime(600);
+      expect(await cache.has('key1')).toBe(false);
+    });
+
+    it('should delete existing keys', async () => {
+      await cache.set('key1', 'value1');
+
+      expect(await cache.delete('key1')).toBe(true);
+      expect(await cache.delete('key1')).toBe(false);
+      expect(await cache.get('key1')).toBeUndefined();
+    });
+  });
+
+  describe('stats', () => {
+    it('should track hits, misses and size', async () => {
+      await cache.set('key1', 'value1');
+      await cache.set('key2', 'value2');
+      await cache.get('key1');
+      await cache.get('missing');
+
+      expect(cache.stats()).toEqual({ hits: 1, misses: 1, size: 2, hitRate: 0.5, evictions: 0 });
+    });
+  });
+
+  describe('key prefix', () => {
+    it('should separate and clear entries by prefix', async () => {
+      const other = new SqliteCache(path, { defaultTtlMs: 1000, keyPrefix: 'other' });
+      try {
+        await cache.set('key1', 'plain');
+        await other.set('key1', 'prefixed');
+
+        expect(await cache.get('key1')).toBe('plain');
+        expect(await other.get('key1')).toBe('prefixed');
+
+        await other.clear();
+        expect(await other.get('key1')).toBeUndefined();
+        expect(await cache.get('key1')).toBe('plain');
+      } finally {
+        await other.close();
+      }
+    });
+  });
+
+  describe('invalidation', () => {
+    it('should delete entries by tag', async () => {
+      await cache.set('judgment:saos:1', 'a', 1000, ['provider:saos', 'judgment:saos:1']);
+      await cache.set('search:x', 'b', 1000, ['provider:saos', 'provider:uzp']);
+      await cache.set('judgment:uzp:2', 'c', 1000, ['provider:uzp']);
+
+      expect(await cache.invalidateTag('provider:saos')).toBe(2);
+      expect(await cache.has('judgment:saos:1')).toBe(false);
+      expect(await cache.has('search:x')).toBe(false);
+      expect(await cache.has('judgment:uzp:2')).toBe(true);
+    });
+
+    it('should drop the tags of replaced entries', async () => {
+      await cache.set('key1', 'a', 1000, ['old']);
+      await cache.set('key1', 'b', 1000, ['new']);
+
+      expect(await cache.invalidateTag('old')).toBe(0);
+      expect(await cache.invalidateTag('new')).toBe(1);
+    });
+
+    it('should delete entries by key prefix within its own prefix', async () => {
+      const other = new SqliteCache(path, { defaultTtlMs: 1000, keyPrefix: 'other' });
+      try {
+        await cache.set('judgment:saos:1', 'a');
+        await cache.set('search:x', 'b');
+        await other.set('judgment:saos:1', 'c', 1000, ['provider:saos']);
+
+        expect(await cache.invalidatePrefix('judgment:')).toBe(1);
+        expect(await cache.has('search:x')).toBe(true);
+        expect(await other.has('judgment:saos:1')).toBe(true);
+        expect(await other.invalidateTag('provider:saos')).toBe(1);
+      } finally {
+        await other.close();
+      }
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict least recently read entries over maxEntries', async () => {
+      await cache.close();
+      cache = new SqliteCache(path, { defaultTtlMs: 60000, maxEntries: 2 });
+
+      await cache.set('key1', 'value1');
+      vi.advanceTimersByTime(10);
+      await cache.set('key2', 'value2');
+      vi.advanceTimersByTime(10);
+      await cache.get('key1');
+      vi.advanceTimersByTime(10);
+      await cache.set('key3', 'value3');
+
+      expect(await cache.has('key1')).toBe(true);
+      expect(await cache.has('key2')).toBe(false);
+      expect(await cache.has('key3')).toBe(true);
+      expect(cache.stats().evictions).toBe(1);
+    });
+
+    it('should evict entries over maxBytes', async () => {
+      await cache.close();
+      cache = new SqliteCache(path, { defaultTtlMs: 60000, maxBytes: 250 });
+
+      for (let i = 0; i < 5; i++) {
+        await cache.set(`key${i}`, 'x'.repeat(98));
+        vi.advanceTimersByTime(10);
+      }
+
+      expect(cache.stats().size).toBe(2);
+      expect(await cache.has('key4')).toBe(true);
+      expect(await cache.has('key0')).toBe(false);
+    });
+
+    it('should remove expired entries first', async () => {
+      await cache.close();
+      cache = new SqliteCache(path, { defaultTtlMs: 60000, maxEntries: 2 });
+
+      await cache.set('short', 'value', 5);
+      await cache.set('key1', 'value1');
+      vi.advanceTimersByTime(10);
+      await cache.set('key2', 'value2');
+
+      expect(await cache.has('key1')).toBe(true);
+      expect(await cache.has('key2')).toBe(true);
+    });
+
+    it('should not count replaced entries twice', async () => {
+      await cache.close();
+      cache = new SqliteCache(path, { defaultTtlMs: 60000, maxEntries: 2 });
+
+      for (let i = 0; i < 3; i++) {
+        await cache.set('key1', `value${i}`);
+      }
+      await cache.set('key2', 'value');
+
+      expect(await cache.get('key1')).toBe('value2');
+      expect(cache.stats().evictions).toBe(0);
+    });
+
+    it('should count the entries already in the file', async () => {
+      await cache.set('key1', 'value1', 60000);
+      vi.advanceTimersByTime(10);
+      await cache.set('key2', 'value2', 60000);
+      await cache.close();
+
+      cache = new SqliteCache(path, { defaultTtlMs: 60000, maxEntries: 2 });
+      vi.advanceTimersByTime(10);
+      await cache.set('key3', 'value3');
+
+      expect(await cache.has('key1')).toBe(false);
+      expect(cache.stats().evictions).toBe(1);
+    });
+
+    it('should purge expired entries periodically', async () => {
+      const storedKeys = (): string[] => {
+        const db = new Sqlite(path, { readonly: true });
+        try {
+          return (
+            db.prepare('SELECT key FROM cache_entries ORDER BY key').all() as { key: string }[]
+          ).map((row) => row.key);
+        } finally {
+          db.close();
+        }
+      };
+
+      await cache.set('short', 'value', 5);
+      vi.advanceTimersByTime(10);
+      await cache.set('key1', 'value1', 60 * 60 * 1000);
+      expect(storedKeys()).toEqual(['key1', 'short']);
+
+      vi.advanceTimersByTime(5 * 60 * 1000);
+      await cache.set('key2', 'value2', 60 * 60 * 1000);
+      expect(storedKeys()).toEqual(['key1', 'key2']);
+    });
+  });
+
+  describe('errors', () => {
+    it('should report failed operations to onError', async () => {
+      const onError = vi.fn();
+      await cache.close();
+      cache = new SqliteCache(path, { defaultTtlMs: 60000, onError });
+
+      // BigInt values cannot be serialized
+      await cache.set('key1', { id: 1n });
+
+      expect(onError).toHaveBeenCalledWith(expect.any(TypeError), 'set');
+      expect(await cache.has('key1')).toBe(false);
+    });
+  });
+});
+
+describe('createSqliteCache', () => {
+  it('should create a cache for a backend of type sqlite', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'mcp-kio-sqlite-'));
+    const cache = createCache(
+      { defaultTtlMs: 1000 },
+      { type: 'sqlite', sqlitePath: join(directory, 'kio.db') }
+    );
+
+    try {
+      expect(cache).toBeInstanceOf(SqliteCache);
+      expect(createSqliteCache(':memory:')).toBeInstanceOf(SqliteCache);
+    } finally {
+      await cache.close();
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseConfigArgs } from '../../../src/config/args.js';
+import { ConfigError } from '../../../src/config/errors.js';
+
+describe('parseConfigArgs', () => {
+  it('should parse config flags', () => {
+    expect(
+      parseConfigArgs(['--config', './kio.yaml', '--port', '8080', '--host', '0.0.0.0', '--log-level', 'DEBUG'])
+    ).toEqual({
+      configFile: './kio.yaml',
+      overrides: { httpPort: 8080, httpHost: '0.0.0.0', logLevel: 'debug' },
+    });
+  });
+
+  it('should return empty overrides without flags', () => {
+    expect(parseConfigArgs([])).toEqual({ configFile: undefined, overrides: {} });
+  });
+
+  it('should reject invalid values naming the flag', () => {
+    expect(() => parseConfigArgs(['--port', 'abc'])).toThrow('--port must be an integer');
+    expect(() => parseConfigArgs(['--port', '70000'])).toThrow(/--port: /);
+    expect(() => parseConfigArgs(['--cache-type', 'disk'])).toThrow(/--cache-type: /);
+  });
+
+  it('should reject unknown flags', () => {
+    expect(() => parseConfigArgs(['--verbose'])).toThrow(ConfigError);
+  });
+});
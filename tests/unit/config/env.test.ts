@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { loadConfig, ConfigError } from '../../../src/config/index.js';
 import { defaults } from '../../../src/config/defaults.js';
 
@@ -14,6 +17,9 @@ describe('loadConfig', () => {
       .forEach((key) => {
         delete process.env[key];
       });
+    delete process.env['REDIS_URL'];
+    delete process.env['PORT'];
+    delete process.env['HOST'];
   });
 
   afterEach(() => {
@@ -62,12 +68,17 @@ describe('loadConfig', () => {
       expect(config.searchRateLimitPerMinute).toBe(100);
     });
 
-    it('should use default for invalid integer values', () => {
+    it('should reject invalid integer values', () => {
       process.env['MCP_KIO_SEARCH_CACHE_TTL_MS'] = 'not-a-number';
 
-      const config = loadConfig();
+      expect(() => loadConfig()).toThrow(ConfigError);
+      expect(() => loadConfig()).toThrow('MCP_KIO_SEARCH_CACHE_TTL_MS must be an integer');
+    });
 
-      expect(config.searchCacheTtlMs).toBe(defaults.searchCacheTtlMs);
+    it('should reject out-of-range integer values', () => {
+      process.env['MCP_KIO_SEARCH_RATE_LIMIT'] = '0';
+
+      expect(() => loadConfig()).toThrow(/environment: MCP_KIO_SEARCH_RATE_LIMIT/);
     });
 
     it('should parse log level', () => {
@@ -84,12 +95,10 @@ describe('loadConfig', () => {
       expect(loadConfig().logLevel).toBe('error');
     });
 
-    it('should use default for invalid log level', () => {
+    it('should reject invalid log level', () => {
       process.env['MCP_KIO_LOG_LEVEL'] = 'invalid';
 
-      const config = loadConfig();
-
-      expect(config.logLevel).toBe(defaults.logLevel);
+      expect(() => loadConfig()).toThrow(/MCP_KIO_LOG_LEVEL/);
     });
 
     it('should parse cache type', () => {
@@ -100,12 +109,10 @@ describe('loadConfig', () => {
       expect(loadConfig().cacheType).toBe('memory');
     });
 
-    it('should use default for invalid cache type', () => {
+    it('should reject invalid cache type', () => {
       process.env['MCP_KIO_CACHE_TYPE'] = 'invalid';
 
-      const config = loadConfig();
-
-      expect(config.cacheType).toBe(defaults.cacheType);
+      expect(() => loadConfig()).toThrow(/MCP_KIO_CACHE_TYPE/);
     });
   });
 
@@ -138,6 +145,99 @@ describe('loadConfig', () => {
     });
   });
 
+  describe('SQLite configuration', () => {
+    it('should require a SQLite path when cache type is sqlite', () => {
+      process.env['MCP_KIO_CACHE_TYPE'] = 'sqlite';
+
+      expect(() => loadConfig()).toThrow('MCP_KIO_SQLITE_PATH must be set');
+    });
+
+    it('should accept a SQLite path when cache type is sqlite', () => {
+      process.env['MCP_KIO_CACHE_TYPE'] = 'sqlite';
+      process.env['MCP_KIO_SQLITE_PATH'] = '/var/cache/mcp-kio.db';
+
+      const config = loadConfig();
+
+      expect(config.cacheType).toBe('sqlite');
+      expect(config.sqlitePath).toBe('/var/cache/mcp-kio.db');
+    });
+  });
+
+  describe('cache admin', () => {
+    it('should disable the cache admin tool by default', () => {
+      expect(loadConfig().cacheAdmin).toBe(false);
+    });
+
+    it('should read boolean variables', () => {
+      process.env['MCP_KIO_CACHE_ADMIN'] = 'TRUE';
+      expect(loadConfig().cacheAdmin).toBe(true);
+
+      process.env['MCP_KIO_CACHE_ADMIN'] = '0';
+      expect(loadConfig().cacheAdmin).toBe(false);
+    });
+
+    it('should reject invalid boolean variables', () => {
+      process.env['MCP_KIO_CACHE_ADMIN'] = 'yes please';
+
+      expect(() => loadConfig()).toThrow('MCP_KIO_CACHE_ADMIN must be true or false');
+    });
+  });
+
+  describe('cache size', () => {
+    it('should leave the cache size budget unset by default', () => {
+      expect(loadConfig().cacheMaxBytes).toBeUndefined();
+    });
+
+    it('should read the cache size budget', () => {
+      process.env['MCP_KIO_CACHE_MAX_BYTES'] = '1048576';
+
+      expect(loadConfig().cacheMaxBytes).toBe(1048576);
+    });
+
+    it('should reject a non-positive cache size budget', () => {
+      process.env['MCP_KIO_CACHE_MAX_BYTES'] = '0';
+
+      expect(() => loadConfig()).toThrow(ConfigError);
+    });
+  });
+
+  describe('legacy variables', () => {
+    it('should use REDIS_URL when MCP_KIO_REDIS_URL is not set', () => {
+      process.env['REDIS_URL'] = 'redis://legacy:6379';
+
+      const config = loadConfig();
+
+      expect(config.cacheType).toBe('redis');
+      expect(config.redisUrl).toBe('redis://legacy:6379');
+    });
+
+    it('should prefer MCP_KIO_ variables over legacy ones', () => {
+      process.env['REDIS_URL'] = 'redis://legacy:6379';
+      process.env['MCP_KIO_CACHE_TYPE'] = 'memory';
+      process.env['PORT'] = '8080';
+      process.env['MCP_KIO_HTTP_PORT'] = '9090';
+
+      const config = loadConfig();
+
+      expect(config.cacheType).toBe('memory');
+      expect(config.httpPort).toBe(9090);
+    });
+
+    it('should listen on every interface by default', () => {
+      expect(loadConfig().httpHost).toBe('0.0.0.0');
+    });
+
+    it('should use PORT and HOST for the HTTP server', () => {
+      process.env['PORT'] = '8080';
+      process.env['HOST'] = '127.0.0.1';
+
+      const config = loadConfig();
+
+      expect(config.httpPort).toBe(8080);
+      expect(config.httpHost).toBe('127.0.0.1');
+    });
+  });
+
   describe('provider URLs', () => {
     it('should use default provider URLs', () => {
       const config = loadConfig();
@@ -156,4 +256,83 @@ describe('loadConfig', () => {
       expect(config.uzpBaseUrl).toBe('https://custom-uzp.example.com');
     });
   });
+
+  describe('config file', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'mcp-kio-env-'));
+      writeFileSync(
+        join(directory, 'mcp-kio.config.yaml'),
+        [
+          'logLevel: warn',
+          'httpPort: 4000',
+          'searchRateLimitPerMinute: 5',
+          'providers:',
+          '  uzp:',
+          '    enabled: false',
+        ].join('\n')
+      );
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should read a config file from the working directory', () => {
+      const config = loadConfig({ cwd: directory });
+
+      expect(config.logLevel).toBe('warn');
+      expect(config.httpPort).toBe(4000);
+      expect(config.providers).toEqual({ uzp: { enabled: false } });
+      expect(config.cacheType).toBe(defaults.cacheType);
+    });
+
+    it('should keep the file cache type with the legacy REDIS_URL', () => {
+      process.env['REDIS_URL'] = 'redis://legacy:6379';
+      writeFileSync(
+        join(directory, 'mcp-kio.config.yaml'),
+        ['cacheType: sqlite', 'sqlitePath: /var/kio/cache.db'].join('\n')
+      );
+
+      const config = loadConfig({ cwd: directory });
+
+      expect(config.cacheType).toBe('sqlite');
+      expect(config.redisUrl).toBe('redis://legacy:6379');
+    });
+
+    it('should read the file named by MCP_KIO_CONFIG', () => {
+      process.env['MCP_KIO_CONFIG'] = join(directory, 'mcp-kio.config.yaml');
+
+      expect(loadConfig().httpPort).toBe(4000);
+    });
+
+    it('should apply file < environment < CLI flags', () => {
+      process.env['MCP_KIO_HTTP_PORT'] = '5000';
+      process.env['MCP_KIO_LOG_LEVEL'] = 'error';
+
+      const config = loadConfig({ cwd: directory, overrides: { logLevel: 'debug' } });
+
+      expect(config.searchRateLimitPerMinute).toBe(5);
+      expect(config.httpPort).toBe(5000);
+      expect(config.logLevel).toBe('debug');
+    });
+
+    it('should merge per-provider settings across sources', () => {
+      const config = loadConfig({
+        cwd: directory,
+        overrides: { providers: { uzp: { weight: 2 } } },
+      });
+
+      expect(config.providers).toEqual({ uzp: { enabled: false, weight: 2 } });
+    });
+
+    it('should fail on an invalid config file', () => {
+      writeFileSync(join(directory, 'bad.json'), JSON.stringify({ logLevel: 'loud' }));
+
+      expect(() => loadConfig({ configFile: join(directory, 'bad.json') })).toThrow(
+        /Invalid configuration in config file .*bad\.json: logLevel: /
+      );
+    });
+  });
 });
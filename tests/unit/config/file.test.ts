@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { findConfigFile, readConfigFile } from '../../../src/config/file.js';
+import { ConfigError } from '../../../src/config/errors.js';
+
+describe('config file', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-kio-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should return undefined when there is no config file', () => {
+      expect(findConfigFile(directory)).toBeUndefined();
+    });
+
+    it('should prefer the JSON file', async () => {
+      await writeFile(join(directory, 'mcp-kio.config.yaml'), 'logLevel: warn\n');
+      await writeFile(join(directory, 'mcp-kio.config.json'), '{}');
+
+      expect(findConfigFile(directory)).toBe(join(directory, 'mcp-kio.config.json'));
+    });
+  });
+
+  describe('readConfigFile', () => {
+    it('should read JSON', async () => {
+      const path = join(directory, 'mcp-kio.config.json');
+      await writeFile(
+        path,
+        JSON.stringify({
+          logLevel: 'debug',
+          providers: { uzp: { enabled: false }, saos: { timeoutMs: 5000, weight: 2 } },
+          toolRateLimits: { kio_search: 10 },
+        })
+      );
+
+      expect(readConfigFile(path)).toEqual({
+        logLevel: 'debug',
+        providers: { uzp: { enabled: false }, saos: { timeoutMs: 5000, weight: 2 } },
+        toolRateLimits: { kio_search: 10 },
+      });
+    });
+
+    it('should read YAML', async () => {
+      const path = join(directory, 'mcp-kio.config.yaml');
+      await writeFile(
+        path,
+        ['cacheType: memory', 'httpPort: 8080', 'providers:', '  saos:', '    baseUrl: https://saos.example.com'].join('\n')
+      );
+
+      expect(readConfigFile(path)).toEqual({
+        cacheType: 'memory',
+        httpPort: 8080,
+        providers: { saos: { baseUrl: 'https://saos.example.com' } },
+      });
+    });
+
+    it('should treat an empty YAML file as empty configuration', async () => {
+      const path = join(directory, 'mcp-kio.config.yml');
+      await writeFile(path, '');
+
+      expect(readConfigFile(path)).toEqual({});
+    });
+
+    it('should report invalid values with their path', async () => {
+      const path = join(directory, 'mcp-kio.config.json');
+      await writeFile(path, JSON.stringify({ httpPort: 'abc', providers: { saos: { timeoutMs: -1 } } }));
+
+      expect(() => readConfigFile(path)).toThrow(ConfigError);
+      expect(() => readConfigFile(path)).toThrow(/httpPort: Expected number/);
+      expect(() => readConfigFile(path)).toThrow(/providers\.saos\.timeoutMs: /);
+    });
+
+    it('should reject unknown keys', async () => {
+      const path = join(directory, 'mcp-kio.config.json');
+      await writeFile(path, JSON.stringify({ cacheTtl: 100 }));
+
+      expect(() => readConfigFile(path)).toThrow(/cacheTtl/);
+    });
+
+    it('should reject unparseable and missing files', async () => {
+      const path = join(directory, 'mcp-kio.config.json');
+      await writeFile(path, '{ not json');
+
+      expect(() => readConfigFile(path)).toThrow(/Cannot parse config file/);
+      expect(() => readConfigFile(join(directory, 'missing.json'))).toThrow(/Cannot read config file/);
+      expect(() => readConfigFile(join(directory, 'config.toml'))).toThrow(ConfigError);
+    });
+  });
+});
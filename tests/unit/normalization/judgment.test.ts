@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   paginateContent,
+  paginateJudgment,
   normalizeHtmlContent,
   mergeMetadata,
   extractCaseNumbersFromText,
@@ -61,6 +62,24 @@ describe('paginateContent', () => {
   });
 });
 
+describe('paginateJudgment', () => {
+  const text = 'WYROK\n\norzeka:\n\n1. oddala odwołanie\n\nUZASADNIENIE\n\nIzba zważyła, co następuje:';
+
+  it('should paginate the full text with segments', () => {
+    const result = paginateJudgment(text, { maxChars: 1000, offsetChars: 0 });
+
+    expect(result.text).toBe(text);
+    expect(result.segments.map((s) => s.type)).toEqual(['header', 'sentencja', 'uzasadnienie']);
+  });
+
+  it('should paginate within the requested section', () => {
+    const result = paginateJudgment(text, { maxChars: 1000, offsetChars: 9, section: 'sentencja' });
+
+    expect(result.text).toBe('1. oddala odwołanie\n\n');
+    expect(result.continuation.totalChars).toBe('orzeka:\n\n1. oddala odwołanie\n\n'.length);
+  });
+});
+
 describe('normalizeHtmlContent', () => {
   it('should convert HTML to text and paginate', () => {
     const html = '<p>First paragraph</p><p>Second paragraph</p>';
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseLegalBases,
+  parseLegalBasis,
+  parseLegalBasisFilter,
+  formatLegalBasis,
+  resolvePzpAct,
+  matchesLegalBasis,
+  filterByLegalBasis,
+} from '../../../src/normalization/legal-basis.js';
+import type { NormalizedSearchResult } from '../../../src/providers/types.js';
+import judgmentFixture from '../../fixtures/saos/judgment-response.json';
+
+describe('parseLegalBases', () => {
+  it('should parse a full citation', () => {
+    expect(parseLegalBases('na podstawie art. 226 ust. 1 pkt 5 ustawy Pzp', '2023-05-10')).toEqual([
+      { act: 'PZP_2019', article: '226', paragraph: '1', point: '5' },
+    ]);
+  });
+
+  it('should parse letters and article suffixes', () => {
+    expect(parseLegalBases('art. 24aa ust. 1 oraz art. 89 ust. 1 pkt 2 lit. a p.z.p.', '2019-03-01')).toEqual([
+      { act: 'PZP_2004', article: '24aa', paragraph: '1' },
+      { act: 'PZP_2004', article: '89', paragraph: '1', point: '2', letter: 'a' },
+    ]);
+  });
+
+  it('should share the act along a "w zw. z" chain', () => {
+    const bases = parseLegalBases(
+      'naruszył art. 226 ust. 1 pkt 8 w zw. z art. 224 ust. 6 ustawy Pzp',
+      '2023-12-15'
+    );
+
+    expect(bases.map((b) => b.article)).toEqual(['226', '224']);
+  });
+
+  it('should skip citations of other acts', () => {
+    expect(parseLegalBases('art. 6 k.c. oraz art. 471 k.c.', '2023-01-01')).toEqual([]);
+  });
+
+  it('should name the act explicitly cited', () => {
+    const bases = parseLegalBases(
+      'art. 89 ust. 1 pkt 4 ustawy z dnia 29 stycznia 2004 r. - Prawo zamówień publicznych',
+      '2021-06-01'
+    );
+
+    expect(bases[0]?.act).toBe('PZP_2004');
+  });
+
+  it('should parse the SAOS fixture text', () => {
+    const bases = parseLegalBases(judgmentFixture.textContent, judgmentFixture.judgmentDate);
+
+    expect(bases.map(formatLegalBasis)).toEqual([
+      'art. 226 ust. 1 pkt 8 Pzp',
+      'art. 224 ust. 1 Pzp',
+      'art. 224 ust. 6 Pzp',
+      'art. 575 Pzp',
+    ]);
+  });
+});
+
+describe('resolvePzpAct', () => {
+  it('should use the judgment date', () => {
+    expect(resolvePzpAct('ustawy Pzp', '2020-12-31')).toBe('PZP_2004');
+    expect(resolvePzpAct('ustawy Pzp', '2021-01-01')).toBe('PZP_2019');
+  });
+
+  it('should prefer the act defined in the text', () => {
+    const text =
+      'ustawy z dnia 29 stycznia 2004 r. - Prawo zamówień publicznych (dalej: ustawa Pzp)';
+
+    expect(resolvePzpAct(text, '2022-03-01')).toBe('PZP_2004');
+  });
+});
+
+describe('parseLegalBasis', () => {
+  it('should parse a bare provision as the 2019 act', () => {
+    expect(parseLegalBasis('art. 226 ust. 1 pkt 5')).toEqual({
+      act: 'PZP_2019',
+      article: '226',
+      paragraph: '1',
+      point: '5',
+    });
+  });
+
+  it('should use the given default act', () => {
+    expect(parseLegalBasis('Art. 89 ust. 1 pkt 2 ustawy Pzp', 'PZP_2004')?.act).toBe('PZP_2004');
+  });
+
+  it('should round-trip formatted 2004 citations', () => {
+    expect(parseLegalBasis('art. 89 ust. 1 pkt 2 Pzp (2004)')?.act).toBe('PZP_2004');
+  });
+
+  it('should reject other acts and non-citations', () => {
+    expect(parseLegalBasis('art. 6 k.c.')).toBeUndefined();
+    expect(parseLegalBasis('rażąco niska cena')).toBeUndefined();
+  });
+});
+
+describe('parseLegalBasisFilter', () => {
+  it('should leave the act open for bare and generic citations', () => {
+    expect(parseLegalBasisFilter('art. 89 ust. 1 pkt 2')).toEqual({
+      article: '89',
+      paragraph: '1',
+      point: '2',
+    });
+    expect(parseLegalBasisFilter('art. 226 ustawy Pzp')).toEqual({ article: '226' });
+  });
+
+  it('should keep a named act', () => {
+    expect(parseLegalBasisFilter('art. 89 ust. 1 pkt 2 Pzp (2004)')?.act).toBe('PZP_2004');
+    expect(parseLegalBasisFilter('art. 226 ustawy z dnia 11 września 2019 r.')?.act).toBe(
+      'PZP_2019'
+    );
+  });
+
+  it('should reject other acts and non-citations', () => {
+    expect(parseLegalBasisFilter('art. 6 k.c.')).toBeUndefined();
+    expect(parseLegalBasisFilter('rażąco niska cena')).toBeUndefined();
+  });
+});
+
+describe('matchesLegalBasis', () => {
+  const basis = { act: 'PZP_2019', article: '226', paragraph: '1', point: '5' } as const;
+
+  it('should match less specific filters', () => {
+    expect(matchesLegalBasis(basis, { act: 'PZP_2019', article: '226', paragraph: '1' })).toBe(true);
+    expect(matchesLegalBasis(basis, basis)).toBe(true);
+  });
+
+  it('should not match other provisions or acts', () => {
+    expect(matchesLegalBasis(basis, { ...basis, point: '8' })).toBe(false);
+    expect(matchesLegalBasis(basis, { ...basis, act: 'PZP_2004' })).toBe(false);
+    expect(matchesLegalBasis({ act: 'PZP_2019', article: '226' }, basis)).toBe(false);
+  });
+
+  it('should match either act without one in the filter', () => {
+    expect(matchesLegalBasis(basis, { article: '226' })).toBe(true);
+    expect(matchesLegalBasis({ ...basis, act: 'PZP_2004' }, { article: '226' })).toBe(true);
+  });
+});
+
+describe('filterByLegalBasis', () => {
+  const results = [
+    { providerId: '1', structuredLegalBases: [{ act: 'PZP_2019', article: '226', paragraph: '1', point: '5' }] },
+    { providerId: '2', structuredLegalBases: [{ act: 'PZP_2019', article: '224', paragraph: '6' }] },
+    { providerId: '3' },
+  ] as NormalizedSearchResult[];
+
+  it('should keep results citing the provision', () => {
+    const filtered = filterByLegalBasis(results, { act: 'PZP_2019', article: '226' });
+
+    expect(filtered.map((r) => r.providerId)).toEqual(['1']);
+  });
+
+  it('should keep everything without a filter', () => {
+    expect(filterByLegalBasis(results, undefined)).toHaveLength(3);
+  });
+});
+
+describe('formatLegalBasis', () => {
+  it('should mark the 2004 act', () => {
+    expect(formatLegalBasis({ act: 'PZP_2004', article: '89', paragraph: '1', point: '2', letter: 'a' }))
+      .toBe('art. 89 ust. 1 pkt 2 lit. a Pzp (2004)');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import {
+  classifyOutcome,
+  classifyJudgmentOutcome,
+  filterByOutcome,
+} from '../../../src/normalization/outcome.js';
+import { extractTextFromHtml } from '../../../src/normalization/text-extractor.js';
+import type { NormalizedSearchResult } from '../../../src/providers/types.js';
+import judgmentFixture from '../../fixtures/saos/judgment-response.json';
+
+describe('classifyOutcome', () => {
+  it.each([
+    ['1. Uwzględnia odwołanie w całości.', 'UPHELD'],
+    ['1. Oddala odwołanie.', 'DISMISSED'],
+    ['umorzyć postępowanie odwoławcze', 'DISCONTINUED'],
+    ['1. odrzucić odwołanie', 'REJECTED'],
+    ['zwraca odwołanie', 'RETURNED'],
+    ['1. Uwzględnia odwołanie w części dotyczącej zarzutu nr 2', 'PARTIALLY_UPHELD'],
+    ['Częściowo uwzględnia odwołanie', 'PARTIALLY_UPHELD'],
+  ] as const)('should classify "%s"', (text, outcome) => {
+    expect(classifyOutcome(text)).toEqual({ outcome, confidence: 0.95 });
+  });
+
+  it('should treat upheld and dismissed parts as partially upheld', () => {
+    const result = classifyOutcome(
+      '1. Uwzględnia odwołanie i nakazuje powtórzenie badania ofert.\n2. W pozostałym zakresie oddala odwołanie.'
+    );
+
+    expect(result).toEqual({ outcome: 'PARTIALLY_UPHELD', confidence: 0.75 });
+  });
+
+  it('should prefer the ruling on the merits over partial discontinuation', () => {
+    const result = classifyOutcome(
+      '1. Umarza postępowanie w zakresie zarzutu nr 1.\n2. W pozostałym zakresie oddala odwołanie.'
+    );
+
+    expect(result).toEqual({ outcome: 'DISMISSED', confidence: 0.75 });
+  });
+
+  it('should not mistake rejection of an offer for rejection of the appeal', () => {
+    expect(classifyOutcome('Nakazuje Zamawiającemu odrzucenie oferty wykonawcy X.')).toBeUndefined();
+  });
+
+  it('should give nominal forms low confidence', () => {
+    expect(classifyOutcome('Cofnięcie odwołania skutkuje umorzeniem postępowania.')).toEqual({
+      outcome: 'DISCONTINUED',
+      confidence: 0.5,
+    });
+  });
+
+  it('should scale confidence by weight', () => {
+    expect(classifyOutcome('Izba oddaliła odwołanie.', 0.6)?.confidence).toBe(0.57);
+  });
+});
+
+describe('classifyJudgmentOutcome', () => {
+  it('should classify the SAOS fixture from its sentencja', () => {
+    expect(classifyJudgmentOutcome(judgmentFixture.textContent)).toEqual({
+      outcome: 'UPHELD',
+      confidence: 0.95,
+    });
+  });
+
+  it('should classify the UZP fixture', () => {
+    const html = readFileSync(new URL('../../fixtures/uzp/content-html.html', import.meta.url), 'utf8');
+    const text = extractTextFromHtml(html, { preserveParagraphs: true, preserveLists: true });
+
+    expect(classifyJudgmentOutcome(text)?.outcome).toBe('UPHELD');
+  });
+
+  it('should ignore outcome wording in the reasoning', () => {
+    const text =
+      'orzeka:\n\n1. Oddala odwołanie.\n\nUZASADNIENIE\n\nOdwołujący wniósł o uwzględnienie odwołania. Zamawiający wniósł o oddalenie odwołania.';
+
+    expect(classifyJudgmentOutcome(text)).toEqual({ outcome: 'DISMISSED', confidence: 0.95 });
+  });
+
+  it('should lower confidence without a sentencja', () => {
+    expect(classifyJudgmentOutcome('Izba oddala odwołanie.')?.confidence).toBe(0.57);
+  });
+});
+
+describe('filterByOutcome', () => {
+  const results = [
+    { providerId: '1', outcome: 'UPHELD' },
+    { providerId: '2', outcome: 'DISMISSED' },
+    { providerId: '3' },
+  ] as NormalizedSearchResult[];
+
+  it('should keep matching results only', () => {
+    expect(filterByOutcome(results, 'UPHELD').map((r) => r.providerId)).toEqual(['1']);
+  });
+
+  it('should keep everything without a filter', () => {
+    expect(filterByOutcome(results, undefined)).toHaveLength(3);
+  });
+});
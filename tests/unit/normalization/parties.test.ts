@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { extractParties } from '../../../src/normalization/parties.js';
+import { extractTextFromHtml } from '../../../src/normalization/text-extractor.js';
+import judgmentFixture from '../../fixtures/saos/judgment-response.json';
+
+const JOINED_APPEALS = `Sygn. akt: KIO 100/24, KIO 101/24
+
+WYROK
+z dnia 5 lutego 2024 r.
+
+Krajowa Izba Odwoławcza w składzie:
+Przewodniczący: Jan Kowalski
+Protokolant: Ewa Nowak
+
+po rozpoznaniu na rozprawie w dniu 1 lutego 2024 r. odwołań wniesionych do Prezesa Krajowej Izby Odwoławczej:
+A. w dniu 10 stycznia 2024 r. przez wykonawcę Budimex S.A. z siedzibą w Warszawie,
+B. w dniu 11 stycznia 2024 r. przez wykonawców wspólnie ubiegających się o udzielenie zamówienia: Alfa Sp. z o.o. z siedzibą w Krakowie oraz Beta S.A. z siedzibą w Gdańsku,
+w postępowaniu prowadzonym przez zamawiającego: Gminę Miasta Gdańsk,
+przy udziale:
+A. wykonawcy Gamma Sp. z o.o. z siedzibą w Poznaniu zgłaszającego przystąpienie do postępowania odwoławczego o sygn. akt KIO 100/24 po stronie zamawiającego,
+B. wykonawcy Delta S.A. z siedzibą w Łodzi zgłaszającego przystąpienie do postępowania odwoławczego o sygn. akt KIO 101/24 po stronie odwołującego,
+
+orzeka:
+
+1. Oddala odwołania.`;
+
+describe('extractParties', () => {
+  it('should extract parties from SAOS text content', () => {
+    expect(extractParties(judgmentFixture.textContent)).toEqual({
+      appellants: [{ name: 'ABC Sp. z o.o.', seat: 'Warszawie' }],
+      contractingAuthorities: [{ name: 'Urząd Miasta Krakowa' }],
+      interveners: [],
+    });
+  });
+
+  it('should extract parties from UZP HTML content', () => {
+    const html = readFileSync(new URL('../../fixtures/uzp/content-html.html', import.meta.url), 'utf8');
+    const text = extractTextFromHtml(html, { preserveParagraphs: true, preserveLists: true });
+
+    expect(extractParties(text).appellants).toEqual([{ name: 'ABC Sp. z o.o.' }]);
+  });
+
+  it('should extract an appellant per joined appeal', () => {
+    const { appellants } = extractParties(JOINED_APPEALS);
+
+    expect(appellants).toEqual([
+      { name: 'Budimex S.A.', seat: 'Warszawie' },
+      {
+        name: 'Alfa Sp. z o.o. z siedzibą w Krakowie oraz Beta S.A. z siedzibą w Gdańsku',
+      },
+    ]);
+  });
+
+  it('should strip the role from the contracting authority', () => {
+    expect(extractParties(JOINED_APPEALS).contractingAuthorities).toEqual([
+      { name: 'Gminę Miasta Gdańsk' },
+    ]);
+  });
+
+  it('should extract interveners with their side', () => {
+    expect(extractParties(JOINED_APPEALS).interveners).toEqual([
+      { name: 'Gamma Sp. z o.o.', seat: 'Poznaniu', side: 'contracting_authority' },
+      { name: 'Delta S.A.', seat: 'Łodzi', side: 'appellant' },
+    ]);
+  });
+
+  it('should extract a single intervener after the contracting authority', () => {
+    const text =
+      'Krajowa Izba Odwoławcza w składzie:\nPrzewodniczący: Jan Kowalski\n\n' +
+      'po rozpoznaniu na posiedzeniu niejawnym odwołania wniesionego przez Omega Sp. z o.o. ' +
+      'w postępowaniu prowadzonym przez Skarb Państwa - Generalnego Dyrektora Dróg Krajowych i Autostrad ' +
+      'przy udziale uczestnika postępowania: wykonawcy Sigma S.A., który zgłosił przystąpienie ' +
+      'po stronie zamawiającego\n\npostanawia:\n\n1. umorzyć postępowanie odwoławcze';
+
+    expect(extractParties(text)).toEqual({
+      appellants: [{ name: 'Omega Sp. z o.o.' }],
+      contractingAuthorities: [
+        { name: 'Skarb Państwa - Generalnego Dyrektora Dróg Krajowych i Autostrad' },
+      ],
+      interveners: [{ name: 'Sigma S.A.', side: 'contracting_authority' }],
+    });
+  });
+
+  it('should return empty lists when no komparycja is found', () => {
+    expect(extractParties('Brak treści.')).toEqual({
+      appellants: [],
+      contractingAuthorities: [],
+      interveners: [],
+    });
+  });
+});
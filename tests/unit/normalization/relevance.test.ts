@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  foldDiacritics,
+  stemToken,
+  analyzeText,
+  bm25TermScore,
+  scoreResults,
+  rankByRelevance,
+} from '../../../src/normalization/relevance.js';
+import type { NormalizedSearchResult } from '../../../src/providers/types.js';
+
+function result(
+  providerId: string,
+  extra: Partial<NormalizedSearchResult> = {}
+): NormalizedSearchResult {
+  return {
+    provider: 'saos',
+    providerId,
+    caseNumbers: [`KIO ${providerId}/23`],
+    judgmentDate: '2023-06-15',
+    judgmentType: 'SENTENCE',
+    sourceUrl: `https://example.test/${providerId}`,
+    ...extra,
+  };
+}
+
+describe('foldDiacritics', () => {
+  it('should fold Polish letters to ASCII', () => {
+    expect(foldDiacritics('Zażółć gęślą jaźń ŁÓDŹ')).toBe('Zazolc gesla jazn LODZ');
+  });
+});
+
+describe('stemToken', () => {
+  it.each([
+    ['cena', 'cen'],
+    ['ceny', 'cen'],
+    ['cenie', 'cen'],
+    ['odwolanie', 'odwol'],
+    ['odwolania', 'odwol'],
+    ['wykonawcow', 'wykonawc'],
+    ['niskiej', 'nisk'],
+  ])('should stem %s to %s', (token, stem) => {
+    expect(stemToken(token)).toBe(stem);
+  });
+
+  it('should keep short tokens and numbers', () => {
+    expect(stemToken('cen')).toBe('cen');
+    expect(stemToken('2023')).toBe('2023');
+  });
+});
+
+describe('analyzeText', () => {
+  it('should fold, stem and drop stopwords', () => {
+    expect(analyzeText('Rażąco niskiej ceny w ofercie')).toEqual(['razac', 'nisk', 'cen', 'oferc']);
+  });
+
+  it('should split case numbers', () => {
+    expect(analyzeText('KIO 123/23')).toEqual(['kio', '123', '23']);
+  });
+});
+
+describe('bm25TermScore', () => {
+  it('should weigh rare terms and short documents higher', () => {
+    const base = bm25TermScore(1, 10, 10, 5, 10);
+
+    expect(base).toBeGreaterThan(0);
+    expect(bm25TermScore(1, 10, 10, 1, 10)).toBeGreaterThan(base);
+    expect(bm25TermScore(1, 5, 10, 5, 10)).toBeGreaterThan(base);
+    expect(bm25TermScore(3, 10, 10, 5, 10)).toBeGreaterThan(base);
+  });
+});
+
+describe('scoreResults', () => {
+  it('should match inflected forms and keep the order', () => {
+    const results = [
+      result('1', { snippet: 'Zwrot wadium po unieważnieniu postępowania' }),
+      result('2', { snippet: 'Wyjaśnienia rażąco niskiej ceny oferty' }),
+    ];
+
+    const scored = scoreResults(results, 'rażąco niska cena');
+
+    expect(scored.map((r) => r.providerId)).toEqual(['1', '2']);
+    expect(scored[0]?.relevanceScore).toBe(0);
+    expect(scored[1]?.relevanceScore).toBe(1);
+  });
+
+  it('should score keywords and case numbers', () => {
+    const scored = scoreResults(
+      [
+        result('100', { snippet: 'Odwołanie dotyczy wadium' }),
+        result('200', { keywords: ['wadium'] }),
+        result('300'),
+      ],
+      'wadium KIO 300/23'
+    );
+
+    expect(scored.every((r) => r.relevanceScore! > 0)).toBe(true);
+    expect(scored[2]?.relevanceScore).toBe(1);
+  });
+
+  it('should score 0 when nothing matches', () => {
+    const scored = scoreResults([result('1', { snippet: 'wadium' })], 'kryteria oceny');
+    expect(scored[0]?.relevanceScore).toBe(0);
+  });
+});
+
+describe('rankByRelevance', () => {
+  it('should order results by score', () => {
+    const ranked = rankByRelevance(
+      [
+        result('1', { snippet: 'Zwrot wadium' }),
+        result('2', { snippet: 'Cena oferty' }),
+        result('3', { snippet: 'Rażąco niska cena oferty', decision: 'Izba oddala odwołanie' }),
+      ],
+      'rażąco niska cena'
+    );
+
+    expect(ranked.map((r) => r.providerId)).toEqual(['3', '2', '1']);
+    expect(ranked[0]?.relevanceScore).toBe(1);
+  });
+
+  it('should keep the provider order on ties', () => {
+    const ranked = rankByRelevance([result('1'), result('2')], 'wadium');
+    expect(ranked.map((r) => r.providerId)).toEqual(['1', '2']);
+  });
+});
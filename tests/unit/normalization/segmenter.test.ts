@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import {
+  segmentJudgment,
+  findSegment,
+  extractSection,
+} from '../../../src/normalization/segmenter.js';
+import { extractTextFromHtml } from '../../../src/normalization/text-extractor.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
+import judgmentFixture from '../../fixtures/saos/judgment-response.json';
+
+const saosText = judgmentFixture.textContent;
+const uzpText = extractTextFromHtml(
+  readFileSync(new URL('../../fixtures/uzp/content-html.html', import.meta.url), 'utf8')
+);
+
+describe('segmentJudgment', () => {
+  it('should split SAOS text into top-level sections', () => {
+    const segments = segmentJudgment(saosText);
+
+    expect(segments.map((s) => s.type)).toEqual([
+      'header',
+      'komparycja',
+      'sentencja',
+      'uzasadnienie',
+    ]);
+    expect(segments[0]?.start).toBe(0);
+    expect(segments[segments.length - 1]?.end).toBe(saosText.length);
+  });
+
+  it('should produce contiguous offsets', () => {
+    const segments = segmentJudgment(saosText);
+
+    for (let i = 1; i < segments.length; i++) {
+      expect(segments[i]?.start).toBe(segments[i - 1]?.end);
+    }
+  });
+
+  it('should start sections at their headings', () => {
+    const segments = segmentJudgment(saosText);
+    const textOf = (type: string) => {
+      const segment = segments.find((s) => s.type === type)!;
+      return saosText.slice(segment.start, segment.end);
+    };
+
+    expect(textOf('header')).toMatch(/^Sygn\. akt: KIO 3177\/23/);
+    expect(textOf('komparycja')).toMatch(/^Krajowa Izba Odwoławcza w składzie:/);
+    expect(textOf('sentencja')).toMatch(/^orzeka:/);
+    expect(textOf('uzasadnienie')).toMatch(/^UZASADNIENIE/);
+  });
+
+  it('should split the sentencja into numbered points', () => {
+    const sentencja = findSegment(segmentJudgment(saosText), 'sentencja')!;
+
+    expect(sentencja.children?.map((p) => p.label)).toEqual(['1', '2', '3']);
+    const point2 = sentencja.children![1]!;
+    expect(saosText.slice(point2.start, point2.end)).toContain('b) powtórzenie czynności');
+  });
+
+  it('should split the uzasadnienie into sub-sections', () => {
+    const uzasadnienie = findSegment(segmentJudgment(saosText), 'uzasadnienie')!;
+
+    expect(uzasadnienie.children?.map((s) => s.type)).toEqual([
+      'stan_faktyczny',
+      'ocena_izby',
+      'koszty',
+    ]);
+    const ocena = uzasadnienie.children![1]!;
+    expect(saosText.slice(ocena.start, ocena.end)).toMatch(/^Izba zważyła, co następuje:/);
+  });
+
+  it('should segment text extracted from UZP HTML', () => {
+    const segments = segmentJudgment(uzpText);
+
+    expect(segments.map((s) => s.type)).toEqual([
+      'header',
+      'komparycja',
+      'sentencja',
+      'uzasadnienie',
+    ]);
+    expect(findSegment(segments, 'sentencja')?.children).toHaveLength(3);
+    expect(findSegment(segments, 'ocena_izby')).toBeDefined();
+  });
+
+  it('should recognize spaced headings', () => {
+    const text = 'Sygn. akt KIO 1/24\n\np o s t a n a w i a :\n\n1. umorzyć postępowanie\n\nU z a s a d n i e n i e\n\nOdwołanie cofnięto.';
+
+    expect(segmentJudgment(text).map((s) => s.type)).toEqual([
+      'header',
+      'sentencja',
+      'uzasadnienie',
+    ]);
+  });
+
+  it('should return no segments for unstructured text', () => {
+    expect(segmentJudgment('Brak treści orzeczenia.')).toEqual([]);
+  });
+});
+
+describe('extractSection', () => {
+  it('should return the text of a nested section', () => {
+    const segments = segmentJudgment(saosText);
+
+    expect(extractSection(saosText, segments, 'koszty')).toMatch(/^O kosztach postępowania/);
+  });
+
+  it('should throw NotFoundError for a missing section', () => {
+    expect(() => extractSection('tekst', [], 'sentencja')).toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnippet } from '../../../src/normalization/snippets.js';
+
+const filler = 'Lorem ipsum dolor sit amet. '.repeat(20);
+const text =
+  'Zamawiający wezwał wykonawcę do złożenia wyjaśnień w zakresie rażąco niskiej ceny. ' +
+  filler +
+  'Izba uznała, że cena oferty nie jest rażąco niska, a wyjaśnienia były wystarczające. ' +
+  filler +
+  'Odwołujący wniósł wadium w formie gwarancji.';
+
+describe('buildSnippet', () => {
+  it('should centre the fragment on inflected hits and mark them', () => {
+    const snippet = buildSnippet(text, 'rażąco niska cena');
+
+    expect(snippet).toContain('**rażąco niskiej ceny**');
+    expect(snippet!.length).toBeLessThanOrEqual(200 + 2 * '...'.length + 4 * '**'.length);
+  });
+
+  it('should elide text cut from the fragment', () => {
+    const snippet = buildSnippet(text, 'wadium', { fragmentLength: 80 });
+
+    expect(snippet).toMatch(/^\.\.\./);
+    expect(snippet).toContain('**wadium**');
+    expect(snippet).not.toMatch(/\.\.\.$/);
+  });
+
+  it('should return several fragments in text order', () => {
+    const snippet = buildSnippet(text, 'cena wadium', { fragments: 3, fragmentLength: 60 });
+    const fragments = snippet!.split(/\.\.\.\s*\.\.\./);
+
+    expect(fragments.length).toBe(3);
+    expect(snippet!.indexOf('**ceny**')).toBeLessThan(snippet!.indexOf('**cena**'));
+    expect(snippet!.indexOf('**cena**')).toBeLessThan(snippet!.indexOf('**wadium**'));
+  });
+
+  it('should prefer fragments with more distinct query terms', () => {
+    const snippet = buildSnippet(text, 'cena oferty', { fragmentLength: 60 });
+
+    expect(snippet).toContain('**cena oferty**');
+  });
+
+  it('should match without diacritics in the query', () => {
+    expect(buildSnippet(text, 'razaco niska')).toContain('**rażąco niskiej**');
+  });
+
+  it('should cut snippets from long texts with frequent hits quickly', () => {
+    const long = 'Wykonawca zaoferował rażąco niską cenę, a zamawiający wezwał go do wyjaśnień. '.repeat(3000);
+
+    const startedAt = Date.now();
+    const snippet = buildSnippet(long, 'rażąco niska cena wyjaśnienia', { fragments: 3 });
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(snippet).toContain('**rażąco niską cenę**');
+    expect(snippet!.split(/\.\.\.\s*\.\.\./)).toHaveLength(3);
+  });
+
+  it('should return undefined without hits or query terms', () => {
+    expect(buildSnippet(text, 'kryteria oceny')).toBeUndefined();
+    expect(buildSnippet(text, 'w na do')).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CircuitBreaker,
+  createCircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from '../../../src/providers/circuit-breaker.js';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = createCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start closed', () => {
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('should open after reaching the failure threshold', () => {
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should reset failure count on success', () => {
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getFailureCount()).toBe(1);
+  });
+
+  it('should become half-open after the reset timeout', () => {
+    breaker.trip();
+    expect(breaker.getState()).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('should reopen on failure while half-open', () => {
+    breaker.trip();
+    vi.advanceTimersByTime(1000);
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should close on success while half-open', () => {
+    breaker.trip();
+    vi.advanceTimersByTime(1000);
+
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should use default config', () => {
+    const defaultBreaker = new CircuitBreaker();
+
+    for (let i = 0; i < DEFAULT_CIRCUIT_BREAKER_CONFIG.failureThreshold; i++) {
+      defaultBreaker.recordFailure();
+    }
+
+    expect(defaultBreaker.getState()).toBe('open');
+  });
+});
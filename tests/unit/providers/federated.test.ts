@@ -0,0 +1,229 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  federatedSearch,
+  normalizeCaseNumber,
+  encodeSearchCursor,
+  decodeSearchCursor,
+  type SearchPageFetcher,
+} from '../../../src/providers/federated.js';
+import type {
+  Provider,
+  NormalizedSearchResult,
+  SearchResponse,
+} from '../../../src/providers/types.js';
+import { ProviderError, ValidationError } from '../../../src/utils/errors.js';
+
+function result(
+  provider: Provider,
+  providerId: string,
+  caseNumber: string,
+  judgmentDate: string,
+  extra: Partial<NormalizedSearchResult> = {}
+): NormalizedSearchResult {
+  return {
+    provider,
+    providerId,
+    caseNumbers: [caseNumber],
+    judgmentDate,
+    judgmentType: 'SENTENCE',
+    sourceUrl: `https://example.test/${provider}/${providerId}`,
+    ...extra,
+  };
+}
+
+/**
+ * Build a fetcher serving fixed pages per provider (pages are 1-based)
+ */
+function pagedFetcher(pages: Partial<Record<Provider, NormalizedSearchResult[][]>>) {
+  return vi.fn<SearchPageFetcher>(
+    async (provider, page): Promise<SearchResponse> => {
+      const providerPages = pages[provider] ?? [];
+      return {
+        results: providerPages[page - 1] ?? [],
+        nextPage: page < providerPages.length ? page + 1 : undefined,
+      };
+    }
+  );
+}
+
+describe('normalizeCaseNumber', () => {
+  it.each([
+    ['KIO 123/23', 'KIO 123/23'],
+    ['KIO/123/23', 'KIO 123/23'],
+    ['kio 123/2023', 'KIO 123/23'],
+    ['KIO123/23', 'KIO 123/23'],
+    ['KIO/KU 5/22', 'KIO/KU 5/22'],
+  ])('should normalize %s', (input, expected) => {
+    expect(normalizeCaseNumber(input)).toBe(expected);
+  });
+
+  it('should uppercase unknown formats', () => {
+    expect(normalizeCaseNumber(' sygn.  xyz ')).toBe('SYGN. XYZ');
+  });
+});
+
+describe('search cursor', () => {
+  it('should round-trip', () => {
+    const cursor = { v: 1 as const, streams: { saos: { page: 2, skip: 3 } } };
+    expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeSearchCursor('not-a-cursor')).toThrow(ValidationError);
+    expect(() =>
+      decodeSearchCursor(Buffer.from('{"v":1,"streams":{"saos":{"page":-1,"skip":0}}}').toString('base64url'))
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('federatedSearch', () => {
+  it('should merge streams by date descending', async () => {
+    const fetchPage = pagedFetcher({
+      saos: [[result('saos', 's1', 'KIO 3/23', '2023-03-01'), result('saos', 's2', 'KIO 1/23', '2023-01-01')]],
+      uzp: [[result('uzp', 'u1', 'KIO 2/23', '2023-02-01')]],
+    });
+
+    const response = await federatedSearch(['saos', 'uzp'], fetchPage, 10);
+
+    expect(response.results.map((r) => r.providerId)).toEqual(['s1', 'u1', 's2']);
+    expect(response.nextCursor).toBeUndefined();
+    expect(response.failedProviders).toEqual([]);
+  });
+
+  it('should merge streams by date ascending when requested', async () => {
+    const fetchPage = pagedFetcher({
+      saos: [[result('saos', 's1', 'KIO 1/23', '2023-01-01'), result('saos', 's2', 'KIO 3/23', '2023-03-01')]],
+      uzp: [[result('uzp', 'u1', 'KIO 2/23', '2023-02-01')]],
+    });
+
+    const response = await federatedSearch(['saos', 'uzp'], fetchPage, 10, undefined, 'date_asc');
+
+    expect(response.results.map((r) => r.providerId)).toEqual(['s1', 'u1', 's2']);
+  });
+
+  it('should de-duplicate by normalized case number and date', async () => {
+    const fetchPage = pagedFetcher({
+      saos: [[result('saos', 's1', 'KIO 123/23', '2023-05-10')]],
+      uzp: [[result('uzp', 'u1', 'KIO/123/23', '2023-05-10', { decision: 'Oddala odwołanie' })]],
+    });
+
+    const response = await federatedSearch(['saos', 'uzp'], fetchPage, 10);
+
+    expect(response.results).toHaveLength(1);
+    const merged = response.results[0]!;
+    expect(merged.provider).toBe('saos');
+    expect(merged.caseNumbers).toEqual(['KIO 123/23']);
+    expect(merged.decision).toBe('Oddala odwołanie');
+    expect(merged.sources).toEqual([
+      { provider: 'saos', providerId: 's1', sourceUrl: 'https://example.test/saos/s1' },
+      { provider: 'uzp', providerId: 'u1', sourceUrl: 'https://example.test/uzp/u1' },
+    ]);
+  });
+
+  it('should keep same case number with different dates apart', async () => {
+    const fetchPage = pagedFetcher({
+      saos: [[result('saos', 's1', 'KIO 123/23', '2023-05-10')]],
+      uzp: [[result('uzp', 'u1', 'KIO 123/23', '2023-06-01')]],
+    });
+
+    const response = await federatedSearch(['saos', 'uzp'], fetchPage, 10);
+
+    expect(response.results).toHaveLength(2);
+  });
+
+  it('should paginate with a cursor without repeating results', async () => {
+    const fetchPage = pagedFetcher({
+      saos: [
+        [result('saos', 's1', 'KIO 6/23', '2023-06-01'), result('saos', 's2', 'KIO 4/23', '2023-04-01')],
+        [result('saos', 's3', 'KIO 2/23', '2023-02-01')],
+      ],
+      uzp: [[result('uzp', 'u1', 'KIO 5/23', '2023-05-01'), result('uzp', 'u2', 'KIO 3/23', '2023-03-01')]],
+    });
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const response = await federatedSearch(['saos', 'uzp'], fetchPage, 2, cursor);
+      seen.push(...response.results.map((r) => r.providerId));
+      cursor = response.nextCursor;
+      pages++;
+    } while (cursor && pages < 10);
+
+    expect(seen).toEqual(['s1', 'u1', 's2', 'u2', 's3']);
+    expect(pages).toBe(3);
+  });
+
+  it('should keep paging past a page its filters left empty', async () => {
+    const fetchPage = pagedFetcher({
+      uzp: [[], [result('uzp', 'u1', 'KIO 1/23', '2023-01-01')]],
+    });
+
+    const response = await federatedSearch(['uzp'], fetchPage, 10);
+
+    expect(response.results.map((r) => r.providerId)).toEqual(['u1']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should hand off to the cursor when every fetched page was empty', async () => {
+    const fetchPage = vi.fn<SearchPageFetcher>(async (_provider, page) => ({
+      results: [],
+      nextPage: page + 1,
+    }));
+
+    const response = await federatedSearch(['uzp'], fetchPage, 10);
+
+    expect(response.results).toEqual([]);
+    expect(fetchPage).toHaveBeenCalledTimes(10);
+    expect(decodeSearchCursor(response.nextCursor!).streams.uzp).toEqual({ page: 11, skip: 0 });
+  });
+
+  it('should fold duplicates at the page boundary into the last result', async () => {
+    const fetchPage = pagedFetcher({
+      saos: [[result('saos', 's1', 'KIO 1/23', '2023-01-01')]],
+      uzp: [[result('uzp', 'u1', 'KIO 1/23', '2023-01-01')]],
+    });
+
+    const response = await federatedSearch(['saos', 'uzp'], fetchPage, 1);
+
+    expect(response.results[0]?.sources).toHaveLength(2);
+    expect(response.nextCursor).toBeUndefined();
+  });
+
+  it('should skip failing providers', async () => {
+    const fetchPage = vi.fn<SearchPageFetcher>(
+      async (provider) => {
+        if (provider === 'uzp') {
+          throw new ProviderError('HTTP 503', 'uzp');
+        }
+        return { results: [result('saos', 's1', 'KIO 1/23', '2023-01-01')] };
+      }
+    );
+
+    const response = await federatedSearch(['saos', 'uzp'], fetchPage, 10);
+
+    expect(response.results).toHaveLength(1);
+    expect(response.providers).toEqual(['saos']);
+    expect(response.failedProviders).toEqual(['uzp']);
+  });
+
+  it('should throw when every provider fails', async () => {
+    const fetchPage = vi.fn<SearchPageFetcher>(
+      async (provider) => {
+        throw new ProviderError(`${provider} down`, provider);
+      }
+    );
+
+    await expect(federatedSearch(['saos', 'uzp'], fetchPage, 10)).rejects.toThrow('saos down');
+  });
+
+  it('should rethrow unexpected errors', async () => {
+    const fetchPage = vi.fn<SearchPageFetcher>(
+      async () => {
+        throw new Error('bug');
+      }
+    );
+
+    await expect(federatedSearch(['saos'], fetchPage, 10)).rejects.toThrow('bug');
+  });
+});
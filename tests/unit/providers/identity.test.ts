@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IdentityResolver, createIdentityResolver } from '../../../src/providers/identity.js';
+import { createProviderRouter } from '../../../src/providers/router.js';
+import { createSaosProvider } from '../../../src/providers/saos/provider.js';
+import { MemoryCache, createMemoryCache } from '../../../src/cache/memory-cache.js';
+import type {
+  KioProvider,
+  Provider,
+  JudgmentResponse,
+  NormalizedSearchResult,
+} from '../../../src/providers/types.js';
+import { NotFoundError, ProviderError } from '../../../src/utils/errors.js';
+import saosSearchFixture from '../../fixtures/saos/search-response.json';
+
+function createMockProvider(name: Provider): KioProvider {
+  return {
+    name,
+    search: vi.fn().mockResolvedValue({ results: [] }),
+    getJudgment: vi.fn(),
+    getSourceLinks: vi.fn((id: string) =>
+      name === 'saos'
+        ? { saosHref: `https://www.saos.org.pl/judgments/${id}` }
+        : {
+            uzpHtml: `https://orzeczenia.uzp.gov.pl/Home/ContentHtml/${id}?Kind=KIO`,
+            uzpPdf: `https://orzeczenia.uzp.gov.pl/Home/PdfContent/${id}?Kind=KIO`,
+          }
+    ),
+    healthCheck: vi.fn(),
+  };
+}
+
+function searchResult(
+  provider: Provider,
+  providerId: string,
+  caseNumber: string,
+  judgmentDate = '2023-12-15'
+): NormalizedSearchResult {
+  return {
+    provider,
+    providerId,
+    caseNumbers: [caseNumber],
+    judgmentDate,
+    judgmentType: 'SENTENCE',
+    sourceUrl: `https://example.test/${provider}/${providerId}`,
+  };
+}
+
+function judgmentResponse(saosSourceUrl?: string): JudgmentResponse {
+  return {
+    metadata: {
+      caseNumbers: ['KIO 3177/23'],
+      judgmentDate: '2023-12-15',
+      judgmentType: 'SENTENCE',
+      legalBases: [],
+      judges: [],
+      keywords: [],
+    },
+    content: { text: 'WYROK' },
+    continuation: { truncated: false },
+    sourceLinks: { saosHref: 'https://www.saos.org.pl/judgments/524389', saosSourceUrl },
+  };
+}
+
+describe('IdentityResolver', () => {
+  let saos: KioProvider;
+  let uzp: KioProvider;
+  let cache: MemoryCache;
+  let resolver: IdentityResolver;
+
+  beforeEach(() => {
+    saos = createMockProvider('saos');
+    uzp = createMockProvider('uzp');
+    cache = createMemoryCache();
+    const providers = new Map<Provider, KioProvider>([
+      ['saos', saos],
+      ['uzp', uzp],
+    ]);
+    resolver = createIdentityResolver(providers, createProviderRouter(providers), cache);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  describe('resolveCaseNumber', () => {
+    it('should map a case number to both provider IDs', async () => {
+      vi.mocked(saos.search).mockResolvedValue({
+        results: [searchResult('saos', '524389', 'KIO 3177/23')],
+      });
+      vi.mocked(uzp.search).mockResolvedValue({
+        results: [searchResult('uzp', '10471', 'KIO/3177/23')],
+      });
+
+      const identities = await resolver.resolveCaseNumber('KIO 3177/2023');
+
+      expect(identities).toEqual([
+        {
+          caseNumbers: ['KIO 3177/23'],
+          judgmentDate: '2023-12-15',
+          judgmentType: 'SENTENCE',
+          ids: { saos: '524389', uzp: '10471' },
+        },
+      ]);
+    });
+
+    it('should ignore results for other case numbers', async () => {
+      vi.mocked(saos.search).mockResolvedValue({
+        results: [searchResult('saos', '1', 'KIO 31/23')],
+      });
+
+      expect(await resolver.resolveCaseNumber('KIO 3177/23')).toEqual([]);
+    });
+
+    it('should find a case number published after a missed lookup', async () => {
+      vi.mocked(saos.search)
+        .mockResolvedValueOnce({ results: [] })
+        .mockResolvedValueOnce({ results: [searchResult('saos', '524389', 'KIO 3177/23')] });
+      vi.mocked(uzp.search).mockResolvedValue({ results: [] });
+
+      expect(await resolver.resolveCaseNumber('KIO 3177/23')).toEqual([]);
+      const identities = await resolver.resolveCaseNumber('KIO 3177/23');
+
+      expect(identities.map((identity) => identity.ids)).toEqual([{ saos: '524389' }]);
+      expect(saos.search).toHaveBeenCalledTimes(2);
+    });
+
+    it('should persist mappings in the cache', async () => {
+      vi.mocked(saos.search).mockResolvedValue({
+        results: [searchResult('saos', '524389', 'KIO 3177/23')],
+      });
+
+      await resolver.resolveCaseNumber('KIO 3177/23');
+      await resolver.resolveCaseNumber('KIO/3177/23');
+
+      expect(saos.search).toHaveBeenCalledTimes(1);
+      expect(await cache.get('identity:saos:524389')).toMatchObject({
+        ids: { saos: '524389' },
+      });
+    });
+
+    it('should not persist answers missing a failed provider', async () => {
+      vi.mocked(saos.search).mockResolvedValue({
+        results: [searchResult('saos', '524389', 'KIO 3177/23')],
+      });
+      vi.mocked(uzp.search).mockRejectedValue(new ProviderError('HTTP 503', 'uzp'));
+
+      await resolver.resolveCaseNumber('KIO 3177/23');
+
+      expect(await cache.get('identity:case:KIO 3177/23')).toBeUndefined();
+    });
+
+    it('should find the SAOS copy through the SAOS query mapping', async () => {
+      const fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => saosSearchFixture,
+      });
+      vi.stubGlobal('fetch', fetch);
+      const providers = new Map<Provider, KioProvider>([
+        ['saos', createSaosProvider({ retry: { maxRetries: 0 } })],
+        ['uzp', uzp],
+      ]);
+      const saosResolver = createIdentityResolver(
+        providers,
+        createProviderRouter(providers),
+        cache
+      );
+
+      try {
+        const identities = await saosResolver.resolveCaseNumber('KIO 3177/23');
+
+        const url = new URL(fetch.mock.calls[0]?.[0] as string);
+        expect(url.searchParams.get('caseNumber')).toBe('KIO 3177/23');
+        expect(url.searchParams.get('pageNumber')).toBe('0');
+        expect(identities.map((identity) => identity.ids)).toEqual([{ saos: '524389' }]);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('resolveProviderId', () => {
+    it('should take the UZP ID from the SAOS source URL', async () => {
+      vi.mocked(saos.getJudgment).mockResolvedValue(
+        judgmentResponse('https://orzeczenia.uzp.gov.pl/Home/PdfContent/10471?Kind=KIO')
+      );
+
+      const identity = await resolver.resolveProviderId('saos', '524389');
+
+      expect(identity.ids).toEqual({ saos: '524389', uzp: '10471' });
+      expect(saos.search).not.toHaveBeenCalled();
+    });
+
+    it('should search by case number for the missing provider', async () => {
+      vi.mocked(saos.getJudgment).mockResolvedValue(judgmentResponse());
+      vi.mocked(saos.search).mockResolvedValue({
+        results: [searchResult('saos', '524389', 'KIO 3177/23')],
+      });
+      vi.mocked(uzp.search).mockResolvedValue({
+        results: [searchResult('uzp', '10471', 'KIO 3177/23')],
+      });
+
+      const identity = await resolver.resolveProviderId('saos', '524389');
+
+      expect(identity.ids).toEqual({ saos: '524389', uzp: '10471' });
+    });
+
+    it('should reuse cached identities', async () => {
+      vi.mocked(saos.getJudgment).mockResolvedValue(
+        judgmentResponse('https://orzeczenia.uzp.gov.pl/Home/PdfContent/10471?Kind=KIO')
+      );
+
+      await resolver.resolveProviderId('saos', '524389');
+      const identity = await resolver.resolveProviderId('uzp', '10471');
+
+      expect(identity.ids.saos).toBe('524389');
+      expect(uzp.getJudgment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSourceLinks', () => {
+    it('should complete SAOS links with UZP links', async () => {
+      vi.mocked(saos.getJudgment).mockResolvedValue(
+        judgmentResponse('https://orzeczenia.uzp.gov.pl/Home/PdfContent/10471?Kind=KIO')
+      );
+
+      const { links, partial } = await resolver.getSourceLinks('saos', '524389');
+
+      expect(partial).toBe(false);
+      expect(links).toEqual({
+        saosHref: 'https://www.saos.org.pl/judgments/524389',
+        uzpHtml: 'https://orzeczenia.uzp.gov.pl/Home/ContentHtml/10471?Kind=KIO',
+        uzpPdf: 'https://orzeczenia.uzp.gov.pl/Home/PdfContent/10471?Kind=KIO',
+      });
+    });
+
+    it('should return own links when the judgment cannot be resolved', async () => {
+      vi.mocked(uzp.getJudgment).mockRejectedValue(new NotFoundError('UZP judgment', 'x'));
+
+      const { links, partial } = await resolver.getSourceLinks('uzp', 'x');
+
+      expect(partial).toBe(true);
+      expect(links.uzpHtml).toContain('/ContentHtml/x');
+      expect(links.saosHref).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  LocalProvider,
+  createLocalProvider,
+  createLocalStore,
+  type LocalJudgmentRecord,
+} from '../../../../src/providers/local/index.js';
+import type { SearchParams } from '../../../../src/providers/types.js';
+import { NotFoundError } from '../../../../src/utils/errors.js';
+
+const records: LocalJudgmentRecord[] = [
+  {
+    id: '101',
+    source: { provider: 'saos', providerId: '101' },
+    metadata: {
+      caseNumbers: ['KIO 101/24'],
+      judgmentDate: '2024-01-10',
+      judgmentType: 'SENTENCE',
+      outcome: 'UPHELD',
+      legalBases: ['art. 226 ust. 1 pkt 8 Pzp'],
+      structuredLegalBases: [{ act: 'PZP_2019', article: '226', paragraph: '1', point: '8' }],
+      judges: ['Anna Kowalska'],
+      keywords: ['rażąco niska cena'],
+    },
+    content: {
+      text:
+        'Izba uwzględniła odwołanie. Zamawiający zaniechał odrzucenia oferty z rażąco niską ceną. ' +
+        'Cena oferty była rażąco niska w stosunku do przedmiotu zamówienia.',
+    },
+    sourceLinks: { saosHref: 'https://www.saos.org.pl/judgments/101' },
+    storedAt: '2024-02-01T00:00:00.000Z',
+  },
+  {
+    id: '102',
+    metadata: {
+      caseNumbers: ['KIO 102/24'],
+      judgmentDate: '2024-02-15',
+      judgmentType: 'SENTENCE',
+      outcome: 'DISMISSED',
+      legalBases: [],
+      judges: ['Jan Nowak'],
+      keywords: ['wadium'],
+    },
+    content: {
+      text: 'Izba oddaliła odwołanie. Wadium wniesiono w formie gwarancji. Cena nie była niska.',
+    },
+    sourceLinks: {},
+    storedAt: '2024-03-01T00:00:00.000Z',
+  },
+  {
+    id: '103',
+    metadata: {
+      caseNumbers: ['KIO 103/24'],
+      judgmentDate: '2024-03-20',
+      judgmentType: 'DECISION',
+      legalBases: [],
+      judges: ['Anna Kowalska'],
+      keywords: [],
+    },
+    content: { text: 'Postępowanie odwoławcze umorzono. Rażąco niska cena nie była przedmiotem sporu.' },
+    sourceLinks: {},
+    storedAt: '2024-04-01T00:00:00.000Z',
+  },
+];
+
+function searchParams(params: Partial<SearchParams>): SearchParams {
+  return { limit: 10, page: 1, includeSnippets: false, ...params };
+}
+
+async function ids(provider: LocalProvider, params: Partial<SearchParams>): Promise<string[]> {
+  const response = await provider.search(searchParams(params));
+  return response.results.map((result) => result.providerId);
+}
+
+describe('LocalProvider', () => {
+  let directory: string;
+  let provider: LocalProvider;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-kio-local-'));
+    await createLocalStore(directory).upsert(records);
+    provider = createLocalProvider({ directory });
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should create provider instance', () => {
+    expect(provider).toBeInstanceOf(LocalProvider);
+    expect(provider.name).toBe('local');
+  });
+
+  describe('search', () => {
+    it('should require every query term, matching inflected forms', async () => {
+      expect(await ids(provider, { query: 'rażąco niska cena' })).toEqual(['103', '101']);
+    });
+
+    it('should rank by relevance', async () => {
+      expect(await ids(provider, { query: 'rażąco niska cena', sort: 'relevance' })).toEqual([
+        '101',
+        '103',
+      ]);
+    });
+
+    it('should match the phrase in the text', async () => {
+      expect(await ids(provider, { phrase: 'zaniechał odrzucenia oferty' })).toEqual(['101']);
+    });
+
+    it('should drop judgments with excluded terms', async () => {
+      expect(await ids(provider, { query: 'cena', excludeTerms: ['umorzono'] })).toEqual([
+        '102',
+        '101',
+      ]);
+    });
+
+    it('should apply metadata filters', async () => {
+      expect(await ids(provider, { caseNumber: 'kio 102/24' })).toEqual(['102']);
+      expect(await ids(provider, { dateFrom: '2024-02-01', dateTo: '2024-02-28' })).toEqual(['102']);
+      expect(await ids(provider, { judgmentType: 'DECISION' })).toEqual(['103']);
+      expect(await ids(provider, { outcome: 'UPHELD' })).toEqual(['101']);
+      expect(await ids(provider, { judge: 'kowalska' })).toEqual(['103', '101']);
+      expect(await ids(provider, { keywords: ['Wadium'] })).toEqual(['102']);
+      expect(
+        await ids(provider, { legalBasis: { act: 'PZP_2019', article: '226', paragraph: '1' } })
+      ).toEqual(['101']);
+    });
+
+    it('should paginate from page 1 with an exact total', async () => {
+      const first = await provider.search(searchParams({ limit: 2, sort: 'date_asc' }));
+      const second = await provider.search(searchParams({ limit: 2, page: 2, sort: 'date_asc' }));
+
+      expect(first.results.map((r) => r.providerId)).toEqual(['101', '102']);
+      expect(first.nextPage).toBe(2);
+      expect(first.totalCount).toBe(3);
+      expect(second.results.map((r) => r.providerId)).toEqual(['103']);
+      expect(second.nextPage).toBeUndefined();
+    });
+
+    it('should map results with highlighted snippets and source URLs', async () => {
+      const response = await provider.search(
+        searchParams({ query: 'wadium', includeSnippets: true })
+      );
+      const result = response.results[0]!;
+
+      expect(result.provider).toBe('local');
+      expect(result.snippet).toContain('**Wadium**');
+      expect(result.sourceUrl).toBe('local:102');
+      expect((await provider.search(searchParams({ outcome: 'UPHELD' }))).results[0]?.sourceUrl).toBe(
+        'https://www.saos.org.pl/judgments/101'
+      );
+    });
+  });
+
+  describe('getJudgment', () => {
+    it('should return the stored judgment with continuation', async () => {
+      const response = await provider.getJudgment({
+        providerId: '102',
+        formatPreference: 'text',
+        maxChars: 1000,
+        offsetChars: 0,
+      });
+
+      expect(response.metadata.caseNumbers).toEqual(['KIO 102/24']);
+      expect(response.content.text).toContain('Wadium wniesiono');
+      expect(response.continuation.truncated).toBe(false);
+    });
+
+    it('should throw NotFoundError for unknown IDs', async () => {
+      await expect(
+        provider.getJudgment({ providerId: '999', formatPreference: 'text', maxChars: 1000, offsetChars: 0 })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getSourceLinks', () => {
+    it('should return the links of the original source', () => {
+      expect(provider.getSourceLinks('101')).toEqual({
+        saosHref: 'https://www.saos.org.pl/judgments/101',
+      });
+      expect(provider.getSourceLinks('999')).toEqual({});
+    });
+  });
+
+  describe('healthCheck', () => {
+    it('should report the corpus as available', async () => {
+      const status = await provider.healthCheck();
+
+      expect(status.provider).toBe('local');
+      expect(status.available).toBe(true);
+    });
+  });
+});
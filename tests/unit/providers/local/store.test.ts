@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile, appendFile, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  LocalStore,
+  createLocalStore,
+  RECORDS_FILE,
+  INDEX_FILE,
+  type LocalJudgmentRecord,
+} from '../../../../src/providers/local/index.js';
+import { ProviderError } from '../../../../src/utils/errors.js';
+
+function createRecord(id: string, text: string): LocalJudgmentRecord {
+  return {
+    id,
+    metadata: {
+      caseNumbers: [`KIO ${id}/24`],
+      judgmentDate: '2024-03-01',
+      judgmentType: 'SENTENCE',
+      legalBases: [],
+      judges: [],
+      keywords: [],
+    },
+    content: { text },
+    sourceLinks: {},
+    storedAt: '2024-03-02T00:00:00.000Z',
+  };
+}
+
+describe('LocalStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-kio-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should load an empty corpus from a missing directory', async () => {
+    const store = createLocalStore(join(directory, 'missing'));
+    await store.load();
+
+    expect(store).toBeInstanceOf(LocalStore);
+    expect(store.size).toBe(0);
+  });
+
+  it('should index stored records and read them back', async () => {
+    const store = createLocalStore(directory);
+    await store.upsert([createRecord('1', 'Oferta z rażąco niską ceną'), createRecord('2', 'Wadium')]);
+
+    expect(store.size).toBe(2);
+    expect([...store.lookup('wadium').keys()].map((doc) => doc.id)).toEqual(['2']);
+    expect((await store.read('1'))?.content.text).toBe('Oferta z rażąco niską ceną');
+    expect(await store.read('3')).toBeUndefined();
+  });
+
+  it('should replace records with the same ID', async () => {
+    const store = createLocalStore(directory);
+    await store.upsert([createRecord('1', 'Wadium')]);
+    await store.upsert([createRecord('1', 'Gwarancja')]);
+
+    expect(store.size).toBe(1);
+    expect(store.lookup('wadium').size).toBe(0);
+    expect((await store.read('1'))?.content.text).toBe('Gwarancja');
+  });
+
+  it('should persist the index', async () => {
+    const writer = createLocalStore(directory);
+    await writer.upsert([createRecord('1', 'Wadium')]);
+    await writer.save();
+
+    const index = JSON.parse(await readFile(join(directory, INDEX_FILE), 'utf8'));
+    const store = createLocalStore(directory);
+    await store.load();
+
+    expect(index.version).toBe(2);
+    expect(store.has('1')).toBe(true);
+    expect(store.lookup('wadium').size).toBe(1);
+  });
+
+  it('should index records appended after the index was saved', async () => {
+    const writer = createLocalStore(directory);
+    await writer.upsert([createRecord('1', 'Wadium')]);
+    await writer.save();
+    await writer.upsert([createRecord('2', 'Gwarancja')]);
+    const saved = JSON.parse(await readFile(join(directory, INDEX_FILE), 'utf8'));
+
+    const store = createLocalStore(directory);
+    await store.load();
+
+    expect(saved.documents).toHaveLength(1);
+    expect(store.size).toBe(2);
+    expect([...store.lookup('gwarancj').keys()].map((doc) => doc.id)).toEqual(['2']);
+  });
+
+  it('should keep the average term count in the index', async () => {
+    const writer = createLocalStore(directory);
+    await writer.upsert([createRecord('1', 'Wadium'), createRecord('2', 'Gwarancja wadialna')]);
+    await writer.upsert([createRecord('1', 'Oferta wykonawcy odrzucona')]);
+    await writer.save();
+
+    const index = JSON.parse(await readFile(join(directory, INDEX_FILE), 'utf8'));
+    const store = createLocalStore(directory);
+    await store.load();
+
+    expect(index.totalTerms).toBe(writer.averageTermCount() * 2);
+    expect(store.averageTermCount()).toBe(writer.averageTermCount());
+    expect(store.averageTermCount()).toBe(
+      (store.getDocument('1')!.termCount + store.getDocument('2')!.termCount) / 2
+    );
+  });
+
+  it('should reload when the records change', async () => {
+    const store = createLocalStore(directory);
+    await store.upsert([createRecord('1', 'Wadium')]);
+
+    await createLocalStore(directory).upsert([createRecord('2', 'Gwarancja')]);
+    await store.load();
+
+    expect(store.has('2')).toBe(true);
+    expect((await store.read('2'))?.content.text).toBe('Gwarancja');
+  });
+
+  it('should serialize concurrent upserts', async () => {
+    const store = createLocalStore(directory);
+    await Promise.all([
+      store.upsert([createRecord('1', 'Wadium')]),
+      store.upsert([createRecord('2', 'Gwarancja')]),
+      store.upsert([createRecord('3', 'Oferta')]),
+    ]);
+
+    const reloaded = createLocalStore(directory);
+    await reloaded.load();
+
+    expect(reloaded.size).toBe(3);
+    for (const id of ['1', '2', '3']) {
+      expect((await reloaded.read(id))?.id).toBe(id);
+    }
+  });
+
+  it('should compact replaced records', async () => {
+    const store = createLocalStore(directory);
+    await store.upsert([createRecord('1', 'Wadium'), createRecord('2', 'Gwarancja')]);
+    await store.upsert([createRecord('1', 'Oferta')]);
+    const before = (await stat(join(directory, RECORDS_FILE))).size;
+
+    await store.compact();
+
+    const lines = (await readFile(join(directory, RECORDS_FILE), 'utf8')).trim().split('\n');
+    expect((await stat(join(directory, RECORDS_FILE))).size).toBeLessThan(before);
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['2', '1']);
+    expect((await store.read('1'))?.content.text).toBe('Oferta');
+    expect([...store.lookup('gwarancj').keys()].map((doc) => doc.id)).toEqual(['2']);
+
+    const reloaded = createLocalStore(directory);
+    await reloaded.load();
+    expect((await reloaded.read('2'))?.content.text).toBe('Gwarancja');
+  });
+
+  it('should compact once replaced records take up half the records', async () => {
+    const store = createLocalStore(directory);
+    await store.upsert([createRecord('1', 'Wadium')]);
+    await store.upsert([createRecord('1', 'Oferta')]);
+
+    const lines = (await readFile(join(directory, RECORDS_FILE), 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect((await store.read('1'))?.content.text).toBe('Oferta');
+  });
+
+  it('should rebuild a stale index from the records', async () => {
+    await createLocalStore(directory).upsert([createRecord('1', 'Wadium')]);
+    await appendFile(
+      join(directory, RECORDS_FILE),
+      `${JSON.stringify(createRecord('2', 'Gwarancja wadialna'))}\n`
+    );
+
+    const store = createLocalStore(directory);
+    await store.load();
+
+    expect(store.size).toBe(2);
+    expect((await store.read('2'))?.content.text).toBe('Gwarancja wadialna');
+  });
+
+  it('should reject corrupt records', async () => {
+    await writeFile(join(directory, RECORDS_FILE), '{"id":\n');
+
+    await expect(createLocalStore(directory).load()).rejects.toThrow(ProviderError);
+  });
+});
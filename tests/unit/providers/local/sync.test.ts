@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+import {
+  createCorpusSync,
+  createLocalProvider,
+  SYNC_STATE_FILE,
+  type CorpusSyncConfig,
+} from '../../../../src/providers/local/index.js';
+import type {
+  SaosSearchResponse,
+  SaosSearchResultItem,
+  SaosJudgmentResponse,
+} from '../../../../src/providers/saos/types.js';
+import { createRateLimiter, type RateLimiter } from '../../../../src/security/rate-limiter.js';
+import { createAllowlist } from '../../../../src/security/allowlist.js';
+
+const searchFixture = JSON.parse(
+  readFileSync(new URL('../../../fixtures/saos/search-response.json', import.meta.url), 'utf8')
+) as SaosSearchResponse;
+const judgmentFixture = JSON.parse(
+  readFileSync(new URL('../../../fixtures/saos/judgment-response.json', import.meta.url), 'utf8')
+) as SaosJudgmentResponse;
+
+/**
+ * Stand-in for the SAOS API serving the fixture payloads
+ */
+function createSaosStandIn(items: SaosSearchResultItem[]): { server: Server; requests: string[] } {
+  const requests: string[] = [];
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push(url.pathname);
+    res.setHeader('Content-Type', 'application/json');
+
+    if (url.pathname === '/api/search/judgments') {
+      const pageSize = Number(url.searchParams.get('pageSize'));
+      const pageNumber = Number(url.searchParams.get('pageNumber'));
+      const dateFrom = url.searchParams.get('judgmentDateFrom') ?? '';
+      const matching = items
+        .filter((item) => item.judgmentDate >= dateFrom)
+        .sort((a, b) => a.judgmentDate.localeCompare(b.judgmentDate));
+      const body: SaosSearchResponse = {
+        ...searchFixture,
+        items: matching.slice(pageNumber * pageSize, (pageNumber + 1) * pageSize),
+        info: { totalResults: matching.length, pageSize, pageNumber },
+      };
+      res.end(JSON.stringify(body));
+      return;
+    }
+
+    const id = Number(url.pathname.match(/^\/api\/judgments\/(\d+)$/)?.[1]);
+    const item = items.find((i) => i.id === id);
+    if (!item || item.id === 404) {
+      res.statusCode = 404;
+      res.end('{}');
+      return;
+    }
+    const judgment: SaosJudgmentResponse = {
+      ...judgmentFixture,
+      id: item.id,
+      judgmentDate: item.judgmentDate,
+      courtCases: item.courtCases,
+    };
+    res.end(JSON.stringify({ data: judgment }));
+  });
+  return { server, requests };
+}
+
+function createItem(id: number, judgmentDate: string): SaosSearchResultItem {
+  return {
+    ...searchFixture.items[0]!,
+    id,
+    judgmentDate,
+    courtCases: [{ caseNumber: `KIO ${id}/23` }],
+  };
+}
+
+describe('CorpusSync', () => {
+  let directory: string;
+  let items: SaosSearchResultItem[];
+  let standIn: ReturnType<typeof createSaosStandIn>;
+  let rateLimiter: RateLimiter;
+  let config: CorpusSyncConfig;
+
+  beforeEach(async () => {
+    // Other suites stub fetch; the stand-in needs the real one
+    vi.unstubAllGlobals();
+    directory = await mkdtemp(join(tmpdir(), 'mcp-kio-sync-'));
+    items = searchFixture.items.map((item) => ({ ...item }));
+    standIn = createSaosStandIn(items);
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+    const { port } = standIn.server.address() as AddressInfo;
+
+    rateLimiter = createRateLimiter({ maxRequests: 100, windowMs: 60 * 1000 });
+    config = {
+      directory,
+      baseUrl: `http://127.0.0.1:${port}`,
+      timeoutMs: 5000,
+      allowlist: createAllowlist({ domains: ['127.0.0.1'] }),
+      rateLimiter,
+      pageSize: 1,
+    };
+  });
+
+  afterEach(async () => {
+    rateLimiter.close();
+    await new Promise((resolve) => standIn.server.close(resolve));
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should mirror judgments end to end', async () => {
+    const result = await createCorpusSync(config).run();
+
+    expect(result).toMatchObject({ stored: 2, skipped: 0, failed: 0, completed: true });
+
+    const provider = createLocalProvider({ directory });
+    const search = await provider.search({ limit: 10, page: 1, includeSnippets: false });
+    expect(search.results.map((r) => r.providerId)).toEqual(['524389', '524123']);
+
+    const judgment = await provider.getJudgment({
+      providerId: '524389',
+      formatPreference: 'text',
+      maxChars: 100000,
+      offsetChars: 0,
+    });
+    expect(judgment.content.text).toBe(judgmentFixture.textContent);
+    expect(judgment.metadata.caseNumbers).toEqual(searchFixture.items[0]!.courtCases.map((c) => c.caseNumber));
+    expect(judgment.sourceLinks.saosHref).toBe(`${config.baseUrl}/judgments/524389`);
+  });
+
+  it('should resume from the checkpoint', async () => {
+    const first = await createCorpusSync(config).run({ maxPages: 1 });
+    const state = JSON.parse(await readFile(join(directory, SYNC_STATE_FILE), 'utf8'));
+
+    expect(first).toMatchObject({ stored: 1, completed: false });
+    expect(state.nextPage).toBe(1);
+
+    const second = await createCorpusSync(config).run();
+
+    expect(second).toMatchObject({ resumed: true, stored: 1, skipped: 0, completed: true });
+  });
+
+  it('should only fetch new judgments on later runs', async () => {
+    await createCorpusSync(config).run();
+    items.push(createItem(600001, '2024-01-05'));
+    standIn.requests.length = 0;
+
+    const result = await createCorpusSync(config).run();
+
+    expect(result).toMatchObject({ dateFrom: '2023-12-15', stored: 1, skipped: 1 });
+    expect(standIn.requests.filter((path) => path.startsWith('/api/judgments/'))).toEqual([
+      '/api/judgments/600001',
+    ]);
+  });
+
+  it('should sync from the --since date', async () => {
+    const result = await createCorpusSync(config).run({ since: '2023-12-12' });
+
+    expect(result).toMatchObject({ dateFrom: '2023-12-12', stored: 1, totalResults: 1 });
+  });
+
+  it('should count judgments missing at SAOS as failed', async () => {
+    items.push(createItem(404, '2024-02-01'));
+
+    const result = await createCorpusSync(config).run();
+
+    expect(result).toMatchObject({ stored: 2, failed: 1, completed: true });
+  });
+
+  it('should wait for the rate limiter instead of failing', async () => {
+    rateLimiter.close();
+    rateLimiter = createRateLimiter({ maxRequests: 2, windowMs: 50 });
+
+    const result = await createCorpusSync({ ...config, rateLimiter }).run();
+
+    expect(result).toMatchObject({ stored: 2, completed: true });
+  });
+});
@@ -0,0 +1,441 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ProviderRouter,
+  createProviderRouter,
+  extractUzpId,
+} from '../../../src/providers/router.js';
+import type {
+  KioProvider,
+  Provider,
+  JudgmentResponse,
+  SearchResponse,
+} from '../../../src/providers/types.js';
+import { createSaosProvider } from '../../../src/providers/saos/provider.js';
+import {
+  NotFoundError,
+  ProviderError,
+  TimeoutError,
+  ValidationError,
+} from '../../../src/utils/errors.js';
+import searchFixture from '../../fixtures/saos/search-response.json';
+
+function createMockProvider(name: Provider): KioProvider {
+  return {
+    name,
+    search: vi.fn(),
+    getJudgment: vi.fn(),
+    getSourceLinks: vi.fn(),
+    healthCheck: vi.fn().mockResolvedValue({
+      provider: name,
+      available: true,
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+function createJudgmentResponse(text: string, saosSourceUrl?: string): JudgmentResponse {
+  return {
+    metadata: {
+      caseNumbers: ['KIO 3177/23'],
+      judgmentDate: '2023-12-15',
+      judgmentType: 'SENTENCE',
+      legalBases: [],
+      judges: [],
+      keywords: [],
+    },
+    content: { text },
+    continuation: { truncated: false, totalChars: text.length },
+    sourceLinks: { saosSourceUrl },
+  };
+}
+
+const searchParams = { query: 'test', limit: 10, page: 1, includeSnippets: true };
+const judgmentParams = {
+  providerId: '524389',
+  formatPreference: 'text' as const,
+  maxChars: 40000,
+  offsetChars: 0,
+};
+
+describe('ProviderRouter', () => {
+  let saos: KioProvider;
+  let uzp: KioProvider;
+  let router: ProviderRouter;
+
+  beforeEach(() => {
+    saos = createMockProvider('saos');
+    uzp = createMockProvider('uzp');
+    router = createProviderRouter(
+      new Map([
+        ['saos', saos],
+        ['uzp', uzp],
+      ]),
+      { circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } }
+    );
+  });
+
+  describe('search', () => {
+    const emptyResponse: SearchResponse = { results: [], totalCount: 0 };
+
+    it('should use SAOS first for auto', async () => {
+      vi.mocked(saos.search).mockResolvedValue(emptyResponse);
+
+      const result = await router.search('auto', searchParams);
+
+      expect(result.provider).toBe('saos');
+      expect(result.fallbackFrom).toBeUndefined();
+      expect(uzp.search).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to UZP on ProviderError', async () => {
+      vi.mocked(saos.search).mockRejectedValue(new ProviderError('HTTP 503', 'saos'));
+      vi.mocked(uzp.search).mockResolvedValue(emptyResponse);
+
+      const result = await router.search('auto', searchParams);
+
+      expect(result.provider).toBe('uzp');
+      expect(result.fallbackFrom).toBe('saos');
+    });
+
+    it('should fall back to UZP on TimeoutError', async () => {
+      vi.mocked(saos.search).mockRejectedValue(new TimeoutError('timed out', 30000));
+      vi.mocked(uzp.search).mockResolvedValue(emptyResponse);
+
+      const result = await router.search('auto', searchParams);
+
+      expect(result.provider).toBe('uzp');
+    });
+
+    it('should skip providers that cannot apply the filters', async () => {
+      const local = createMockProvider('local');
+      uzp.supportsSearch = vi.fn().mockReturnValue(false);
+      vi.mocked(saos.search).mockRejectedValue(new ProviderError('HTTP 503', 'saos'));
+      vi.mocked(local.search).mockResolvedValue(emptyResponse);
+      router = createProviderRouter(
+        new Map([
+          ['saos', saos],
+          ['uzp', uzp],
+          ['local', local],
+        ])
+      );
+
+      const result = await router.search('auto', { ...searchParams, judge: 'Anna Kowalska' });
+
+      expect(result).toMatchObject({ provider: 'local', fallbackFrom: 'saos' });
+      expect(uzp.search).not.toHaveBeenCalled();
+      expect(router.getCircuitState('uzp')).toBe('closed');
+    });
+
+    it('should reject filters no candidate supports', async () => {
+      uzp.supportsSearch = vi.fn().mockReturnValue(false);
+
+      await expect(
+        router.search('uzp', { ...searchParams, keywords: ['wadium'] })
+      ).rejects.toThrow(ValidationError);
+      expect(uzp.search).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back for explicit provider', async () => {
+      const error = new ProviderError('HTTP 503', 'saos');
+      vi.mocked(saos.search).mockRejectedValue(error);
+
+      await expect(router.search('saos', searchParams)).rejects.toBe(error);
+      expect(uzp.search).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow non-provider errors without fallback', async () => {
+      vi.mocked(saos.search).mockRejectedValue(new Error('bug'));
+
+      await expect(router.search('auto', searchParams)).rejects.toThrow('bug');
+      expect(uzp.search).not.toHaveBeenCalled();
+    });
+
+    it('should throw last error when every provider fails', async () => {
+      vi.mocked(saos.search).mockRejectedValue(new ProviderError('saos down', 'saos'));
+      vi.mocked(uzp.search).mockRejectedValue(new ProviderError('uzp down', 'uzp'));
+
+      await expect(router.search('auto', searchParams)).rejects.toThrow('uzp down');
+    });
+  });
+
+  describe('searchAll', () => {
+    it('should merge results from every provider', async () => {
+      vi.mocked(saos.search).mockResolvedValue({
+        results: [
+          {
+            provider: 'saos',
+            providerId: '1',
+            caseNumbers: ['KIO 123/23'],
+            judgmentDate: '2023-05-10',
+            judgmentType: 'SENTENCE',
+            sourceUrl: 'https://www.saos.org.pl/judgments/1',
+          },
+        ],
+      });
+      vi.mocked(uzp.search).mockResolvedValue({
+        results: [
+          {
+            provider: 'uzp',
+            providerId: 'abc',
+            caseNumbers: ['KIO/123/23'],
+            judgmentDate: '2023-05-10',
+            judgmentType: 'SENTENCE',
+            sourceUrl: 'https://orzeczenia.uzp.gov.pl/Home/Details/abc',
+          },
+        ],
+      });
+
+      const result = await router.searchAll(searchParams);
+
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0]?.sources.map((s) => s.provider)).toEqual(['saos', 'uzp']);
+      expect(result.providers).toEqual(['saos', 'uzp']);
+    });
+
+    it('should skip providers with open circuits', async () => {
+      vi.mocked(saos.search).mockResolvedValue({ results: [] });
+      vi.mocked(uzp.search).mockResolvedValue({ results: [] });
+      router.recordHealth({ provider: 'uzp', available: false, timestamp: '' });
+
+      const result = await router.searchAll(searchParams);
+
+      expect(result.providers).toEqual(['saos']);
+      expect(uzp.search).not.toHaveBeenCalled();
+    });
+
+    it('should record failures of skipped providers', async () => {
+      vi.mocked(saos.search).mockRejectedValue(new ProviderError('HTTP 503', 'saos'));
+      vi.mocked(uzp.search).mockResolvedValue({ results: [] });
+
+      await router.searchAll(searchParams);
+      const result = await router.searchAll(searchParams);
+
+      expect(result.failedProviders).toEqual(['saos']);
+      expect(router.getCircuitState('saos')).toBe('open');
+    });
+
+    it('should request the first SAOS page', async () => {
+      const fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => searchFixture,
+      });
+      vi.stubGlobal('fetch', fetch);
+      const saosRouter = createProviderRouter(
+        new Map([['saos', createSaosProvider({ retry: { maxRetries: 0 } })]])
+      );
+
+      try {
+        const result = await saosRouter.searchAll(searchParams);
+
+        const url = new URL(fetch.mock.calls[0]?.[0] as string);
+        expect(url.searchParams.get('pageNumber')).toBe('0');
+        expect(result.results).toHaveLength(2);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('getJudgment', () => {
+    it('should return SAOS judgment when text is present', async () => {
+      vi.mocked(saos.getJudgment).mockResolvedValue(createJudgmentResponse('WYROK'));
+
+      const result = await router.getJudgment('auto', judgmentParams);
+
+      expect(result.provider).toBe('saos');
+      expect(result.providerId).toBe('524389');
+    });
+
+    it('should fall back to UZP when SAOS text is empty', async () => {
+      vi.mocked(saos.getJudgment).mockResolvedValue(
+        createJudgmentResponse('', 'https://orzeczenia.uzp.gov.pl/Home/PdfContent/10471?Kind=KIO')
+      );
+      vi.mocked(uzp.getJudgment).mockResolvedValue(createJudgmentResponse('WYROK z UZP'));
+
+      const result = await router.getJudgment('auto', judgmentParams);
+
+      expect(result.provider).toBe('uzp');
+      expect(result.providerId).toBe('10471');
+      expect(result.fallbackFrom).toBe('saos');
+      expect(uzp.getJudgment).toHaveBeenCalledWith(
+        expect.objectContaining({ providerId: '10471' })
+      );
+    });
+
+    it('should fall back to the local copy on provider error', async () => {
+      const local = createMockProvider('local');
+      vi.mocked(saos.getJudgment).mockRejectedValue(new ProviderError('HTTP 500', 'saos', 500));
+      vi.mocked(local.getJudgment).mockResolvedValue(createJudgmentResponse('WYROK'));
+      router = createProviderRouter(
+        new Map([
+          ['saos', saos],
+          ['uzp', uzp],
+          ['local', local],
+        ])
+      );
+
+      const result = await router.getJudgment('auto', judgmentParams);
+
+      expect(result).toMatchObject({ provider: 'local', providerId: '524389' });
+      expect(uzp.getJudgment).not.toHaveBeenCalled();
+    });
+
+    it('should not pass a SAOS ID to UZP', async () => {
+      const error = new ProviderError('HTTP 500', 'saos', 500);
+      vi.mocked(saos.getJudgment).mockRejectedValue(error);
+
+      await expect(router.getJudgment('auto', judgmentParams)).rejects.toBe(error);
+      expect(uzp.getJudgment).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to UZP with a resolved ID', async () => {
+      vi.mocked(saos.getJudgment).mockRejectedValue(new ProviderError('HTTP 500', 'saos', 500));
+      vi.mocked(uzp.getJudgment).mockResolvedValue(createJudgmentResponse('WYROK'));
+
+      const result = await router.getJudgment('auto', judgmentParams, {
+        saos: '524389',
+        uzp: '10471',
+      });
+
+      expect(result).toMatchObject({ provider: 'uzp', providerId: '10471', fallbackFrom: 'saos' });
+    });
+
+    it('should return empty SAOS response if fallback fails', async () => {
+      vi.mocked(saos.getJudgment).mockResolvedValue(
+        createJudgmentResponse('', 'https://orzeczenia.uzp.gov.pl/Home/PdfContent/10471?Kind=KIO')
+      );
+      vi.mocked(uzp.getJudgment).mockRejectedValue(new ProviderError('HTTP 503', 'uzp'));
+
+      const result = await router.getJudgment('auto', judgmentParams);
+
+      expect(result.provider).toBe('saos');
+    });
+
+    it('should not fall back on NotFoundError', async () => {
+      vi.mocked(saos.getJudgment).mockRejectedValue(new NotFoundError('judgment', '524389'));
+
+      await expect(router.getJudgment('auto', judgmentParams)).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+      expect(uzp.getJudgment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should not count client errors as provider failures', async () => {
+      const error = new ProviderError('HTTP 400: Bad Request', 'saos', 400, false);
+      vi.mocked(saos.search).mockRejectedValue(error);
+
+      await expect(router.search('auto', searchParams)).rejects.toBe(error);
+      await expect(router.search('auto', searchParams)).rejects.toBe(error);
+
+      expect(router.getCircuitState('saos')).toBe('closed');
+      expect(uzp.search).not.toHaveBeenCalled();
+    });
+
+    it('should skip a provider after repeated failures', async () => {
+      vi.mocked(saos.search).mockRejectedValue(new ProviderError('HTTP 503', 'saos'));
+      vi.mocked(uzp.search).mockResolvedValue({ results: [] });
+
+      await router.search('auto', searchParams);
+      await router.search('auto', searchParams);
+      expect(router.getCircuitState('saos')).toBe('open');
+
+      vi.mocked(saos.search).mockClear();
+      const result = await router.search('auto', searchParams);
+
+      expect(saos.search).not.toHaveBeenCalled();
+      expect(result.provider).toBe('uzp');
+    });
+
+    it('should open circuit from failed health check', async () => {
+      router.recordHealth({
+        provider: 'saos',
+        available: false,
+        timestamp: new Date().toISOString(),
+      });
+      vi.mocked(uzp.search).mockResolvedValue({ results: [] });
+
+      const result = await router.search('auto', searchParams);
+
+      expect(router.getCircuitState('saos')).toBe('open');
+      expect(result.provider).toBe('uzp');
+    });
+
+    it('should close circuit from healthy check', () => {
+      router.recordHealth({ provider: 'saos', available: false, timestamp: '' });
+      router.recordHealth({ provider: 'saos', available: true, timestamp: '' });
+
+      expect(router.getCircuitState('saos')).toBe('closed');
+    });
+
+    it('should reject explicit provider with open circuit', async () => {
+      router.recordHealth({ provider: 'saos', available: false, timestamp: '' });
+
+      await expect(router.search('saos', searchParams)).rejects.toBeInstanceOf(ProviderError);
+      expect(saos.search).not.toHaveBeenCalled();
+    });
+
+    it('should send a single probe to a half-open provider', async () => {
+      vi.useFakeTimers();
+      try {
+        router.recordHealth({ provider: 'saos', available: false, timestamp: '' });
+        vi.advanceTimersByTime(60000);
+        let finishProbe!: (available: boolean) => void;
+        vi.mocked(saos.healthCheck).mockReturnValue(
+          new Promise((resolve) => {
+            finishProbe = (available) =>
+              resolve({ provider: 'saos', available, timestamp: '' });
+          })
+        );
+        vi.mocked(uzp.search).mockResolvedValue({ results: [] });
+
+        const first = router.search('auto', searchParams);
+        const second = router.search('auto', searchParams);
+        finishProbe(false);
+
+        expect((await first).provider).toBe('uzp');
+        expect((await second).provider).toBe('uzp');
+        expect(saos.healthCheck).toHaveBeenCalledTimes(1);
+        expect(saos.search).not.toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should probe half-open provider with health check', async () => {
+      vi.useFakeTimers();
+      try {
+        router.recordHealth({ provider: 'saos', available: false, timestamp: '' });
+        vi.advanceTimersByTime(60000);
+        vi.mocked(saos.search).mockResolvedValue({ results: [] });
+
+        const result = await router.search('auto', searchParams);
+
+        expect(saos.healthCheck).toHaveBeenCalled();
+        expect(result.provider).toBe('saos');
+        expect(router.getCircuitState('saos')).toBe('closed');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
+
+describe('extractUzpId', () => {
+  it('should extract ID from UZP URLs', () => {
+    expect(
+      extractUzpId({ saosSourceUrl: 'https://orzeczenia.uzp.gov.pl/Home/PdfContent/524389' })
+    ).toBe('524389');
+    expect(
+      extractUzpId({ uzpHtml: 'https://orzeczenia.uzp.gov.pl/Home/ContentHtml/10471?Kind=KIO' })
+    ).toBe('10471');
+  });
+
+  it('should return undefined for non-UZP URLs', () => {
+    expect(extractUzpId({ saosSourceUrl: 'https://example.com/doc/1' })).toBeUndefined();
+    expect(extractUzpId({})).toBeUndefined();
+  });
+});
@@ -9,6 +9,7 @@ import {
   buildSourceLinks,
 } from '../../../../src/providers/saos/mapper.js';
 import type { SaosSearchResultItem, SaosJudgmentResponse } from '../../../../src/providers/saos/types.js';
+import judgmentFixture from '../../../fixtures/saos/judgment-response.json';
 
 describe('mapJudgmentType', () => {
   it('should map SENTENCE to SENTENCE', () => {
@@ -83,6 +84,9 @@ describe('mapSearchResult', () => {
       judgmentDate: '2023-12-15',
       judgmentType: 'SENTENCE',
       decision: 'uwzględnia odwołanie',
+      outcome: 'UPHELD',
+      outcomeConfidence: 0.86,
+      structuredLegalBases: [],
       snippet: 'Test summary content',
       sourceUrl: 'https://www.saos.org.pl/judgments/524389',
     });
@@ -105,6 +109,39 @@ describe('mapSearchResult', () => {
     expect(result.snippet).toBe('This is a thesis');
   });
 
+  it('should build the snippet around query hits', () => {
+    const item: SaosSearchResultItem = {
+      id: 12345,
+      courtType: 'NATIONAL_APPEAL_CHAMBER',
+      courtCases: [{ caseNumber: 'KIO 100/23' }],
+      judgmentType: 'SENTENCE',
+      judgmentDate: '2023-06-01',
+      judges: [],
+      source: { code: 'KIO' },
+      summary: 'Odwołanie dotyczyło odrzucenia oferty.',
+      textContent: `${'Wstęp uzasadnienia. '.repeat(30)}Wykonawca nie wykazał, że cena oferty nie jest rażąco niska. ${'Dalsza treść. '.repeat(30)}`,
+    };
+
+    const result = mapSearchResult(item, baseUrl, 'rażąco niska cena', { fragments: 1 });
+
+    expect(result.snippet).toMatch(/^\.\.\..*\*\*cena\*\* oferty nie jest \*\*rażąco niska\*\*.*\.\.\.$/);
+  });
+
+  it('should fall back to the truncated summary without query hits', () => {
+    const item: SaosSearchResultItem = {
+      id: 12345,
+      courtType: 'NATIONAL_APPEAL_CHAMBER',
+      courtCases: [{ caseNumber: 'KIO 100/23' }],
+      judgmentType: 'SENTENCE',
+      judgmentDate: '2023-06-01',
+      judges: [],
+      source: { code: 'KIO' },
+      summary: 'Odwołanie dotyczyło odrzucenia oferty.',
+    };
+
+    expect(mapSearchResult(item, baseUrl, 'wadium').snippet).toBe('Odwołanie dotyczyło odrzucenia oferty.');
+  });
+
   it('should truncate long snippets', () => {
     const longText = 'A'.repeat(500);
     const item: SaosSearchResultItem = {
@@ -170,13 +207,55 @@ describe('mapJudgmentMetadata', () => {
       judgmentDate: '2023-12-15',
       judgmentType: 'SENTENCE',
       decision: 'uwzględnia odwołanie',
-      legalBases: ['Art. 226 ust. 1 pkt 8 ustawy Pzp'],
+      outcome: 'UPHELD',
+      outcomeConfidence: 0.86,
+      legalBases: ['art. 226 ust. 1 pkt 8 Pzp'],
+      structuredLegalBases: [{ act: 'PZP_2019', article: '226', paragraph: '1', point: '8' }],
       judges: ['Jan Kowalski', 'Anna Nowak'],
       keywords: ['rażąco niska cena'],
       courtName: 'Krajowa Izba Odwoławcza',
+      parties: { appellants: [], contractingAuthorities: [], interveners: [] },
     });
   });
 
+  it('should extract parties from the text content', () => {
+    const metadata = mapJudgmentMetadata(judgmentFixture as SaosJudgmentResponse);
+
+    expect(metadata.parties?.appellants).toEqual([{ name: 'ABC Sp. z o.o.', seat: 'Warszawie' }]);
+    expect(metadata.parties?.contractingAuthorities).toEqual([{ name: 'Urząd Miasta Krakowa' }]);
+  });
+
+  it('should merge legal bases from fields and text', () => {
+    const metadata = mapJudgmentMetadata(judgmentFixture as SaosJudgmentResponse);
+
+    expect(metadata.legalBases).toEqual([
+      'art. 226 ust. 1 pkt 8 Pzp',
+      'art. 224 ust. 1 Pzp',
+      'art. 224 ust. 6 Pzp',
+      'art. 575 Pzp',
+    ]);
+    expect(metadata.structuredLegalBases?.every((b) => b.act === 'PZP_2019')).toBe(true);
+  });
+
+  it('should keep legal bases of other acts as raw strings', () => {
+    const metadata = mapJudgmentMetadata({
+      ...(judgmentFixture as SaosJudgmentResponse),
+      legalBases: ['art. 6 k.c.'],
+      referencedRegulations: [],
+      textContent: 'Brak treści.',
+    });
+
+    expect(metadata.legalBases).toEqual(['art. 6 k.c.']);
+    expect(metadata.structuredLegalBases).toEqual([]);
+  });
+
+  it('should classify the outcome from the sentencja', () => {
+    const metadata = mapJudgmentMetadata(judgmentFixture as SaosJudgmentResponse);
+
+    expect(metadata.outcome).toBe('UPHELD');
+    expect(metadata.outcomeConfidence).toBe(0.95);
+  });
+
   it('should handle missing optional fields', () => {
     const response: SaosJudgmentResponse = {
       id: 12345,
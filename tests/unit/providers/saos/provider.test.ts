@@ -12,6 +12,7 @@ describe('SaosProvider', () => {
   const config = {
     baseUrl: 'https://www.saos.org.pl',
     timeoutMs: 30000,
+    retry: { maxRetries: 0 },
   };
 
   let provider: SaosProvider;
@@ -37,13 +38,13 @@ describe('SaosProvider', () => {
       const result = await provider.search({
         query: 'rażąco niska cena',
         limit: 10,
-        page: 0,
+        page: 1,
         includeSnippets: true,
       });
 
       expect(result.results).toHaveLength(2);
       expect(result.totalCount).toBe(156);
-      expect(result.nextPage).toBe(1);
+      expect(result.nextPage).toBe(2);
 
       // Check first result
       const first = result.results[0];
@@ -55,6 +56,28 @@ describe('SaosProvider', () => {
       expect(first?.decision).toBe('uwzględnia odwołanie');
     });
 
+    it('should filter results by outcome', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => searchFixture,
+      });
+
+      const result = await provider.search({
+        query: 'rażąco niska cena',
+        outcome: 'DISCONTINUED',
+        limit: 10,
+        page: 1,
+        includeSnippets: true,
+      });
+
+      expect(result.results.map((r) => r.providerId)).toEqual(['524123']);
+      expect(result.results[0]?.outcome).toBe('DISCONTINUED');
+      expect(result.totalCount).toBeUndefined();
+      expect(result.nextPage).toBe(2);
+    });
+
     it('should include KIO court type filter', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -65,7 +88,7 @@ describe('SaosProvider', () => {
 
       await provider.search({
         limit: 10,
-        page: 0,
+        page: 1,
         includeSnippets: true,
       });
 
@@ -75,6 +98,107 @@ describe('SaosProvider', () => {
       expect(url.searchParams.get('courtType')).toBe('NATIONAL_APPEAL_CHAMBER');
     });
 
+    it('should map legal basis filter to referencedRegulation', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({ items: [], info: { totalResults: 0, pageSize: 10, pageNumber: 0 }, queryTemplate: {} }),
+      });
+
+      await provider.search({
+        legalBasis: { act: 'PZP_2019', article: '226', paragraph: '1', point: '5' },
+        limit: 10,
+        page: 1,
+        includeSnippets: true,
+      });
+
+      const url = new URL(mockFetch.mock.calls[0]?.[0] as string);
+      expect(url.searchParams.get('referencedRegulation')).toBe('art. 226 ust. 1 pkt 5');
+      expect(url.searchParams.has('legalBase')).toBe(false);
+    });
+
+    it('should keep only results citing the provision of the requested act', async () => {
+      const regulation = (act: string) => ({
+        journalTitle: `Ustawa z dnia ${act} r. - Prawo zamówień publicznych`,
+        text: 'art. 89 ust. 1 pkt 2',
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({
+          ...searchFixture,
+          items: [
+            { ...searchFixture.items[0], referencedRegulations: [regulation('29 stycznia 2004')] },
+            { ...searchFixture.items[1], referencedRegulations: [regulation('11 września 2019')] },
+          ],
+        }),
+      });
+
+      const result = await provider.search({
+        legalBasis: { act: 'PZP_2004', article: '89', paragraph: '1', point: '2' },
+        limit: 10,
+        page: 1,
+        includeSnippets: false,
+      });
+
+      expect(result.results.map((r) => r.providerId)).toEqual(['524389']);
+      expect(result.totalCount).toBeUndefined();
+    });
+
+    it('should map judge, keywords, phrase and excluded terms', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({ items: [], info: { totalResults: 0, pageSize: 10, pageNumber: 0 }, queryTemplate: {} }),
+      });
+
+      await provider.search({
+        query: 'rażąco niska cena',
+        phrase: 'wyjaśnienia ceny',
+        excludeTerms: ['konsorcjum', 'wadium bankowe'],
+        judge: 'Anna Kowalska',
+        keywords: ['cena rażąco niska', 'wyjaśnienia'],
+        limit: 10,
+        page: 1,
+        includeSnippets: true,
+      });
+
+      const url = new URL(mockFetch.mock.calls[0]?.[0] as string);
+      expect(url.searchParams.get('all')).toBe(
+        'rażąco niska cena "wyjaśnienia ceny" -konsorcjum -"wadium bankowe"'
+      );
+      expect(url.searchParams.get('judgeName')).toBe('Anna Kowalska');
+      expect(url.searchParams.getAll('keywords')).toEqual(['cena rażąco niska', 'wyjaśnienia']);
+    });
+
+    it('should sort by judgment date, newest first by default', async () => {
+      const emptyResponse = {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({ items: [], info: { totalResults: 0, pageSize: 10, pageNumber: 0 }, queryTemplate: {} }),
+      };
+      mockFetch
+        .mockResolvedValueOnce(emptyResponse)
+        .mockResolvedValueOnce(emptyResponse)
+        .mockResolvedValueOnce(emptyResponse);
+
+      await provider.search({ query: 'test', limit: 10, page: 1, includeSnippets: true });
+      await provider.search({ query: 'test', sort: 'date_asc', limit: 10, page: 1, includeSnippets: true });
+      await provider.search({ query: 'test', sort: 'relevance', limit: 10, page: 1, includeSnippets: true });
+
+      const [byDefault, ascending, relevance] = mockFetch.mock.calls.map(
+        (call) => new URL(call[0] as string).searchParams
+      );
+      expect(byDefault?.get('sortingField')).toBe('JUDGMENT_DATE');
+      expect(byDefault?.get('sortingDirection')).toBe('DESC');
+      expect(ascending?.get('sortingDirection')).toBe('ASC');
+      expect(relevance?.has('sortingField')).toBe(false);
+    });
+
     it('should apply date filters', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -87,7 +211,7 @@ describe('SaosProvider', () => {
         dateFrom: '2023-01-01',
         dateTo: '2023-12-31',
         limit: 10,
-        page: 0,
+        page: 1,
         includeSnippets: true,
       });
 
@@ -113,12 +237,26 @@ describe('SaosProvider', () => {
 
       const result = await provider.search({
         limit: 10,
-        page: 1,
+        page: 2,
         includeSnippets: true,
       });
 
       expect(result.nextPage).toBeUndefined();
     });
+
+    it('should map 1-based pages to SAOS page numbers', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => searchFixture,
+      });
+
+      await provider.search({ limit: 10, page: 1, includeSnippets: true });
+
+      const url = new URL(mockFetch.mock.calls[0]?.[0] as string);
+      expect(url.searchParams.get('pageNumber')).toBe('0');
+    });
   });
 
   describe('getJudgment', () => {
@@ -164,6 +302,28 @@ describe('SaosProvider', () => {
       expect(result.content.text).toBe(fullText.substring(100, 600));
     });
 
+    it('should return segments and paginate within a section', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({ data: judgmentFixture }),
+      });
+
+      const result = await provider.getJudgment({
+        providerId: '524389',
+        formatPreference: 'text',
+        maxChars: 40000,
+        offsetChars: 0,
+        section: 'sentencja',
+      });
+
+      expect(result.segments?.map((s) => s.type)).toContain('sentencja');
+      expect(result.content.text).toMatch(/^orzeka:/);
+      expect(result.content.text).not.toContain('UZASADNIENIE');
+      expect(result.continuation.totalChars).toBe(result.content.text.length);
+    });
+
     it('should throw NotFoundError for invalid provider ID', async () => {
       await expect(
         provider.getJudgment({
@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
 import {
   mapUzpMetadata,
+  mapUzpSearchResult,
+  mapUzpDocumentType,
+  normalizeUzpDate,
+  parseUzpSearchResults,
   mapUzpContent,
   buildUzpSourceLinks,
   inferJudgmentType,
@@ -92,6 +97,29 @@ describe('mapUzpMetadata', () => {
 
     expect(metadata.judgmentDate).toBe('');
   });
+
+  it('should parse legal bases from the content', () => {
+    const html = readFileSync(new URL('../../../fixtures/uzp/content-html.html', import.meta.url), 'utf8');
+
+    const metadata = mapUzpMetadata(html, '10471');
+
+    expect(metadata.legalBases).toEqual(['art. 226 ust. 1 pkt 8 Pzp']);
+    expect(metadata.structuredLegalBases).toEqual([
+      { act: 'PZP_2019', article: '226', paragraph: '1', point: '8' },
+    ]);
+  });
+
+  it('should extract parties from the content', () => {
+    const html = readFileSync(new URL('../../../fixtures/uzp/content-html.html', import.meta.url), 'utf8');
+
+    const metadata = mapUzpMetadata(html, '10471');
+
+    expect(metadata.parties).toEqual({
+      appellants: [{ name: 'ABC Sp. z o.o.' }],
+      contractingAuthorities: [],
+      interveners: [],
+    });
+  });
 });
 
 describe('mapUzpContent', () => {
@@ -142,3 +170,109 @@ describe('buildUzpSourceLinks', () => {
     expect(links.saosSourceUrl).toBeUndefined();
   });
 });
+
+describe('parseUzpSearchResults', () => {
+  const html = readFileSync(
+    new URL('../../../fixtures/uzp/search-results.html', import.meta.url),
+    'utf8'
+  );
+
+  it('should parse total count and items', () => {
+    const result = parseUzpSearchResults(html);
+
+    expect(result.totalResults).toBe(42);
+    expect(result.items).toHaveLength(3);
+  });
+
+  it('should split joined case numbers', () => {
+    const result = parseUzpSearchResults(html);
+
+    expect(result.items[1]?.caseNumbers).toEqual(['KIO 3100/23', 'KIO 3101/23']);
+  });
+
+  it('should keep non-standard signatures verbatim', () => {
+    const result = parseUzpSearchResults(html);
+
+    expect(result.items[2]?.caseNumbers).toEqual(['KIO/KU 12/23']);
+    expect(result.items[2]?.excerpt).toBeUndefined();
+  });
+
+  it('should fall back to item count when total is missing', () => {
+    const result = parseUzpSearchResults(
+      '<div class="search-list-item"><a href="/Home/Details/1?Kind=KIO">KIO 1/23</a></div>'
+    );
+
+    expect(result.totalResults).toBe(1);
+    expect(result.items[0]?.id).toBe('1');
+  });
+});
+
+describe('normalizeUzpDate', () => {
+  it('should accept DD-MM-YYYY and DD.MM.YYYY', () => {
+    expect(normalizeUzpDate('15-12-2023')).toBe('2023-12-15');
+    expect(normalizeUzpDate('5.1.2024')).toBe('2024-01-05');
+  });
+
+  it('should pass ISO dates through', () => {
+    expect(normalizeUzpDate('2023-06-02')).toBe('2023-06-02');
+  });
+
+  it('should return undefined for unparseable values', () => {
+    expect(normalizeUzpDate('brak')).toBeUndefined();
+  });
+});
+
+describe('mapUzpDocumentType', () => {
+  it('should map Polish labels', () => {
+    expect(mapUzpDocumentType('Wyrok')).toBe('SENTENCE');
+    expect(mapUzpDocumentType('Postanowienie')).toBe('DECISION');
+    expect(mapUzpDocumentType('Uchwała')).toBe('RESOLUTION');
+    expect(mapUzpDocumentType(undefined)).toBe('DECISION');
+  });
+});
+
+describe('mapUzpSearchResult', () => {
+  it('should map listing item to normalized result', () => {
+    const result = mapUzpSearchResult(
+      {
+        id: '10398',
+        kind: 'KIO',
+        caseNumbers: ['KIO 3100/23'],
+        judgmentDate: '2023-12-10',
+        documentType: 'Postanowienie',
+        excerpt: 'Umorzenie postępowania',
+      },
+      'https://orzeczenia.uzp.gov.pl'
+    );
+
+    expect(result).toEqual({
+      provider: 'uzp',
+      providerId: '10398',
+      caseNumbers: ['KIO 3100/23'],
+      judgmentDate: '2023-12-10',
+      judgmentType: 'DECISION',
+      decision: undefined,
+      outcome: 'DISCONTINUED',
+      outcomeConfidence: 0.3,
+      structuredLegalBases: [],
+      snippet: 'Umorzenie postępowania',
+      sourceUrl: 'https://orzeczenia.uzp.gov.pl/Home/ContentHtml/10398?Kind=KIO',
+    });
+  });
+
+  it('should highlight query hits in the excerpt', () => {
+    const item = {
+      id: '10471',
+      kind: 'KIO' as const,
+      caseNumbers: ['KIO 3177/23'],
+      excerpt: 'Izba nakazała powtórzenie badania ofert z powodu rażąco niskiej ceny.',
+    };
+
+    expect(mapUzpSearchResult(item, 'https://orzeczenia.uzp.gov.pl', 'niska cena').snippet).toBe(
+      'Izba nakazała powtórzenie badania ofert z powodu rażąco **niskiej ceny**.'
+    );
+    expect(mapUzpSearchResult(item, 'https://orzeczenia.uzp.gov.pl', 'wadium').snippet).toBe(
+      item.excerpt
+    );
+  });
+});
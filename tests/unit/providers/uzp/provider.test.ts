@@ -1,5 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
 import { UzpProvider, createUzpProvider } from '../../../../src/providers/uzp/index.js';
+import { ValidationError } from '../../../../src/utils/errors.js';
+
+const searchFixture = readFileSync(
+  new URL('../../../fixtures/uzp/search-results.html', import.meta.url),
+  'utf8'
+);
+const emptySearchFixture = readFileSync(
+  new URL('../../../fixtures/uzp/search-results-empty.html', import.meta.url),
+  'utf8'
+);
 
 // Shared mock function for getHtml
 const mockGetHtml = vi.fn();
@@ -44,31 +55,210 @@ describe('UzpProvider', () => {
   });
 
   describe('search', () => {
-    it('should return empty results (search not supported)', async () => {
-      const provider = new UzpProvider();
+    it('should parse listing into normalized results', async () => {
+      mockGetHtml.mockResolvedValue({
+        data: searchFixture,
+        status: 200,
+        headers: new Headers(),
+      });
 
+      const provider = new UzpProvider();
       const result = await provider.search({
-        query: 'test',
+        query: 'rażąco niska cena',
         limit: 10,
         page: 1,
+        includeSnippets: true,
+      });
+
+      expect(result.results).toHaveLength(3);
+      expect(result.totalCount).toBe(42);
+
+      const first = result.results[0];
+      expect(first?.provider).toBe('uzp');
+      expect(first?.providerId).toBe('10471');
+      expect(first?.caseNumbers).toEqual(['KIO 3177/23']);
+      expect(first?.judgmentDate).toBe('2023-12-15');
+      expect(first?.judgmentType).toBe('SENTENCE');
+      expect(first?.snippet).toContain('rażąco niskiej ceny');
+      expect(first?.sourceUrl).toBe(
+        'https://orzeczenia.uzp.gov.pl/Home/ContentHtml/10471?Kind=KIO'
+      );
+    });
+
+    it('should send filters as listing query parameters', async () => {
+      mockGetHtml.mockResolvedValue({
+        data: emptySearchFixture,
+        status: 200,
+        headers: new Headers(),
+      });
+
+      const provider = new UzpProvider();
+      await provider.search({
+        query: 'odwołanie',
+        caseNumber: 'KIO 3177/23',
+        dateFrom: '2023-01-01',
+        dateTo: '2023-12-31',
+        judgmentType: 'SENTENCE',
+        limit: 20,
+        page: 2,
         includeSnippets: false,
       });
 
-      expect(result.results).toEqual([]);
-      expect(result.totalCount).toBe(0);
+      expect(mockGetHtml).toHaveBeenCalledWith('/Home/GetResults', {
+        params: expect.objectContaining({
+          Kind: 'KIO',
+          Phrase: 'odwołanie',
+          SignatureNumber: 'KIO 3177/23',
+          JudgmentDateFrom: '2023-01-01',
+          JudgmentDateTo: '2023-12-31',
+          JudgmentType: 'Wyrok',
+          CurrentPage: 2,
+          PageSize: 20,
+        }),
+      });
     });
 
-    it('should return nextPage as undefined', async () => {
+    it('should search the provision text and keep excerpts that do not quote it', async () => {
+      mockGetHtml.mockResolvedValue({
+        data: searchFixture,
+        status: 200,
+        headers: new Headers(),
+      });
+
       const provider = new UzpProvider();
+      const result = await provider.search({
+        legalBasis: { act: 'PZP_2019', article: '226', paragraph: '1', point: '5' },
+        limit: 10,
+        page: 1,
+        includeSnippets: true,
+      });
 
+      expect(mockGetHtml).toHaveBeenCalledWith('/Home/GetResults', {
+        params: expect.objectContaining({ Phrase: 'art. 226 ust. 1 pkt 5' }),
+      });
+      // The listing excerpts do not quote the provision; the portal match is trusted
+      expect(result.results).toHaveLength(3);
+      expect(result.totalCount).toBe(42);
+      expect(result.nextPage).toBe(2);
+    });
+
+    it('should search the phrase and drop excerpts with excluded terms', async () => {
+      mockGetHtml.mockResolvedValue({
+        data: searchFixture,
+        status: 200,
+        headers: new Headers(),
+      });
+
+      const provider = new UzpProvider();
       const result = await provider.search({
+        phrase: 'rażąco niskiej ceny',
+        excludeTerms: ['Umorzeniem'],
+        limit: 10,
+        page: 1,
+        includeSnippets: false,
+      });
+
+      expect(mockGetHtml).toHaveBeenCalledWith('/Home/GetResults', {
+        params: expect.objectContaining({ Phrase: 'rażąco niskiej ceny' }),
+      });
+      expect(result.results.map((r) => r.providerId)).not.toContain('10398');
+      expect(result.results).toHaveLength(2);
+      expect(result.results[0]?.snippet).toBeUndefined();
+      expect(result.totalCount).toBeUndefined();
+    });
+
+    it('should search the query, phrase and provision text together', async () => {
+      mockGetHtml.mockResolvedValue({
+        data: searchFixture,
+        status: 200,
+        headers: new Headers(),
+      });
+
+      const provider = new UzpProvider();
+      await provider.search({
         query: 'odwołanie',
+        phrase: 'rażąco niskiej ceny',
+        legalBasis: { article: '226', paragraph: '1', point: '8' },
         limit: 10,
         page: 1,
         includeSnippets: false,
       });
 
-      expect(result.results).toHaveLength(0);
+      expect(mockGetHtml).toHaveBeenCalledWith('/Home/GetResults', {
+        params: expect.objectContaining({
+          Phrase: 'odwołanie rażąco niskiej ceny art. 226 ust. 1 pkt 8',
+        }),
+      });
+    });
+
+    it('should reject judge and keywords filters', async () => {
+      const provider = new UzpProvider();
+
+      await expect(
+        provider.search({ judge: 'Anna Kowalska', limit: 10, page: 1, includeSnippets: true })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        provider.search({ keywords: ['wadium'], limit: 10, page: 1, includeSnippets: true })
+      ).rejects.toThrow(ValidationError);
+      expect(mockGetHtml).not.toHaveBeenCalled();
+      expect(
+        provider.supportsSearch({ judge: 'Anna Kowalska', limit: 10, page: 1, includeSnippets: true })
+      ).toBe(false);
+      expect(
+        provider.supportsSearch({ query: 'wadium', limit: 10, page: 1, includeSnippets: true })
+      ).toBe(true);
+    });
+
+    it('should calculate next page from total count', async () => {
+      mockGetHtml.mockResolvedValue({
+        data: searchFixture,
+        status: 200,
+        headers: new Headers(),
+      });
+
+      const provider = new UzpProvider();
+      const firstPage = await provider.search({ query: 'test', limit: 20, page: 1, includeSnippets: true });
+      const lastPage = await provider.search({ query: 'test', limit: 20, page: 3, includeSnippets: true });
+
+      expect(firstPage.nextPage).toBe(2);
+      expect(lastPage.nextPage).toBeUndefined();
+    });
+
+    it('should omit snippets when not requested', async () => {
+      mockGetHtml.mockResolvedValue({
+        data: searchFixture,
+        status: 200,
+        headers: new Headers(),
+      });
+
+      const provider = new UzpProvider();
+      const result = await provider.search({
+        query: 'test',
+        limit: 10,
+        page: 1,
+        includeSnippets: false,
+      });
+
+      expect(result.results.every((r) => r.snippet === undefined)).toBe(true);
+    });
+
+    it('should return empty results when nothing matches', async () => {
+      mockGetHtml.mockResolvedValue({
+        data: emptySearchFixture,
+        status: 200,
+        headers: new Headers(),
+      });
+
+      const provider = new UzpProvider();
+      const result = await provider.search({
+        query: 'xyznonexistentquery123',
+        limit: 10,
+        page: 1,
+        includeSnippets: false,
+      });
+
+      expect(result.results).toEqual([]);
+      expect(result.totalCount).toBe(0);
       expect(result.nextPage).toBeUndefined();
     });
   });
@@ -4,6 +4,7 @@ import {
   JudgmentMetadataSchema,
   JudgmentContentSchema,
   KioGetJudgmentOutputSchema,
+  isJudgmentDisambiguation,
 } from '../../../src/schemas/judgment.schema.js';
 
 describe('KioGetJudgmentInputSchema', () => {
@@ -52,9 +53,102 @@ describe('KioGetJudgmentInputSchema', () => {
       provider_id: '123',
     })).toThrow();
   });
+
+  it('should accept case number without provider', () => {
+    const result = KioGetJudgmentInputSchema.parse({
+      case_number: 'KIO 1234/23',
+    });
+    expect(result.case_number).toBe('KIO 1234/23');
+    expect(result.provider).toBeUndefined();
+  });
+
+  it('should reject malformed case number', () => {
+    expect(() => KioGetJudgmentInputSchema.parse({
+      case_number: '1234/23',
+    })).toThrow();
+  });
+
+  it('should reject case number together with provider_id', () => {
+    expect(() => KioGetJudgmentInputSchema.parse({
+      provider: 'saos',
+      provider_id: '123',
+      case_number: 'KIO 1234/23',
+    })).toThrow();
+  });
+
+  it('should accept a section', () => {
+    const result = KioGetJudgmentInputSchema.parse({
+      provider: 'saos',
+      provider_id: '123',
+      section: 'sentencja',
+    });
+    expect(result.section).toBe('sentencja');
+  });
+
+  it('should reject unknown section', () => {
+    expect(() => KioGetJudgmentInputSchema.parse({
+      provider: 'saos',
+      provider_id: '123',
+      section: 'wstep',
+    })).toThrow();
+  });
+});
+
+describe('isJudgmentDisambiguation', () => {
+  it('should detect disambiguation output', () => {
+    expect(isJudgmentDisambiguation({
+      disambiguation: { caseNumber: 'KIO 1/23', message: '', candidates: [] },
+    })).toBe(true);
+  });
 });
 
 describe('JudgmentMetadataSchema', () => {
+  it('should accept structured legal bases', () => {
+    const result = JudgmentMetadataSchema.parse({
+      caseNumbers: ['KIO 1/24'],
+      judgmentDate: '2024-01-10',
+      judgmentType: 'SENTENCE',
+      legalBases: ['art. 226 ust. 1 pkt 5 Pzp'],
+      structuredLegalBases: [{ act: 'PZP_2019', article: '226', paragraph: '1', point: '5' }],
+      judges: [],
+      keywords: [],
+    });
+    expect(result.structuredLegalBases?.[0]?.point).toBe('5');
+  });
+
+  it('should accept parties', () => {
+    const result = JudgmentMetadataSchema.parse({
+      caseNumbers: ['KIO 1/24'],
+      judgmentDate: '2024-01-10',
+      judgmentType: 'SENTENCE',
+      legalBases: [],
+      judges: [],
+      keywords: [],
+      parties: {
+        appellants: [{ name: 'ABC Sp. z o.o.', seat: 'Warszawie' }],
+        contractingAuthorities: [{ name: 'Gmina Kraków' }],
+        interveners: [{ name: 'XYZ S.A.', side: 'contracting_authority' }],
+      },
+    });
+    expect(result.parties?.interveners[0]?.side).toBe('contracting_authority');
+  });
+
+  it('should reject unknown intervener side', () => {
+    expect(() => JudgmentMetadataSchema.parse({
+      caseNumbers: [],
+      judgmentDate: '',
+      judgmentType: 'SENTENCE',
+      legalBases: [],
+      judges: [],
+      keywords: [],
+      parties: {
+        appellants: [],
+        contractingAuthorities: [],
+        interveners: [{ name: 'XYZ S.A.', side: 'neutral' }],
+      },
+    })).toThrow();
+  });
+
   it('should accept valid metadata', () => {
     const result = JudgmentMetadataSchema.parse({
       caseNumbers: ['KIO 123/23', 'KIO 124/23'],
@@ -46,6 +46,46 @@ describe('KioSearchInputSchema', () => {
     expect(result.include_snippets).toBe(false);
   });
 
+  it('should accept outcome filter', () => {
+    const result = KioSearchInputSchema.parse({ query: 'test', outcome: 'PARTIALLY_UPHELD' });
+    expect(result.outcome).toBe('PARTIALLY_UPHELD');
+  });
+
+  it('should reject unknown outcome', () => {
+    expect(() => KioSearchInputSchema.parse({ query: 'test', outcome: 'WON' })).toThrow();
+  });
+
+  it('should accept legal_basis as the only criterion', () => {
+    const result = KioSearchInputSchema.parse({ legal_basis: 'art. 226 ust. 1 pkt 5' });
+    expect(result.legal_basis).toBe('art. 226 ust. 1 pkt 5');
+  });
+
+  it('should accept phrase, judge or keywords as the only criterion', () => {
+    expect(KioSearchInputSchema.parse({ phrase: 'rażąco niska cena' }).phrase).toBe('rażąco niska cena');
+    expect(KioSearchInputSchema.parse({ judge: 'Anna Kowalska' }).judge).toBe('Anna Kowalska');
+    expect(KioSearchInputSchema.parse({ keywords: ['wadium'] }).keywords).toEqual(['wadium']);
+  });
+
+  it('should not accept exclude_terms as the only criterion', () => {
+    expect(() => KioSearchInputSchema.parse({ exclude_terms: ['wadium'] })).toThrow();
+  });
+
+  it('should default sort to date_desc and reject unknown orders', () => {
+    expect(KioSearchInputSchema.parse({ query: 'test' }).sort).toBe('date_desc');
+    expect(KioSearchInputSchema.parse({ query: 'test', sort: 'relevance' }).sort).toBe('relevance');
+    expect(() => KioSearchInputSchema.parse({ query: 'test', sort: 'newest' })).toThrow();
+  });
+
+  it('should default snippet_fragments to 1 and cap it at 5', () => {
+    expect(KioSearchInputSchema.parse({ query: 'test' }).snippet_fragments).toBe(1);
+    expect(KioSearchInputSchema.parse({ query: 'test', snippet_fragments: 3 }).snippet_fragments).toBe(3);
+    expect(() => KioSearchInputSchema.parse({ query: 'test', snippet_fragments: 6 })).toThrow();
+  });
+
+  it('should reject empty keyword lists', () => {
+    expect(() => KioSearchInputSchema.parse({ query: 'test', keywords: [] })).toThrow();
+  });
+
   it('should reject search without query or case_number', () => {
     expect(() => KioSearchInputSchema.parse({})).toThrow();
   });
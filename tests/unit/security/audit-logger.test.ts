@@ -200,6 +200,32 @@ describe('AuditLogger', () => {
     });
   });
 
+  describe('logHttpAttempt', () => {
+    it('should log attempts without the query string', () => {
+      logger.logHttpAttempt({
+        provider: 'saos',
+        url: 'https://www.saos.org.pl/api/search/judgments?all=wadium',
+        attempt: 1,
+        status: 503,
+        latencyMs: 120,
+        success: false,
+        errorMessage: 'HTTP 503: Service Unavailable',
+        retryDelayMs: 400,
+      });
+
+      const entry = mockHandler.mock.calls[0][0] as AuditEntry;
+
+      expect(entry.eventType).toBe('http_request');
+      expect(entry.latencyMs).toBe(120);
+      expect(entry.metadata).toEqual({
+        url: 'https://www.saos.org.pl/api/search/judgments',
+        attempt: 1,
+        status: 503,
+        retryDelayMs: 400,
+      });
+    });
+  });
+
   describe('getRecentEntries', () => {
     it('should return recent entries', () => {
       logger.logSearch({
@@ -52,6 +52,7 @@ describe('createKioServer', () => {
     expect(kioServer.context.rateLimiters).toBeDefined();
     expect(kioServer.context.rateLimiters.search).toBeDefined();
     expect(kioServer.context.rateLimiters.judgment).toBeDefined();
+    expect(kioServer.context.rateLimiters.sourceLinks).toBeDefined();
     expect(kioServer.context.rateLimiters.health).toBeDefined();
   });
 
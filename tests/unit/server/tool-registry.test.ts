@@ -2,6 +2,10 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerKioTools, getToolDefinitions } from '../../../src/server/tool-registry.js';
 import type { ToolContext } from '../../../src/tools/types.js';
+import { loadConfig } from '../../../src/config/env.js';
+import { createCacheThrough } from '../../../src/cache/cache-through.js';
+import { createProviderRouter } from '../../../src/providers/router.js';
+import { createIdentityResolver } from '../../../src/providers/identity.js';
 import type { KioProvider } from '../../../src/providers/types.js';
 
 // Mock provider
@@ -22,6 +26,8 @@ function createMockCache() {
     set: vi.fn().mockResolvedValue(undefined),
     delete: vi.fn().mockResolvedValue(true),
     has: vi.fn().mockResolvedValue(false),
+    invalidateTag: vi.fn().mockResolvedValue(0),
+    invalidatePrefix: vi.fn().mockResolvedValue(0),
     clear: vi.fn().mockResolvedValue(undefined),
     stats: vi.fn().mockReturnValue({ hits: 0, misses: 0, size: 0, hitRate: 0 }),
     close: vi.fn().mockResolvedValue(undefined),
@@ -68,18 +74,28 @@ describe('registerKioTools', () => {
       version: '1.0.0',
     });
 
+    const providers: ToolContext['providers'] = new Map([
+      ['saos', createMockProvider()],
+      ['uzp', createMockProvider()],
+    ]);
+
+    const router = createProviderRouter(providers);
+    const cache = createMockCache();
+
     context = {
-      providers: new Map([
-        ['saos', createMockProvider()],
-        ['uzp', createMockProvider()],
-      ]),
-      cache: createMockCache(),
+      providers,
+      router,
+      resolver: createIdentityResolver(providers, router, cache),
+      cache,
+      cacheThrough: createCacheThrough(cache),
       rateLimiters: {
         search: createMockRateLimiter(),
         judgment: createMockRateLimiter(),
+        sourceLinks: createMockRateLimiter(),
         health: createMockRateLimiter(),
       },
       auditLogger: createMockAuditLogger(),
+      config: loadConfig(),
       startedAt: new Date(),
       version: '1.0.0',
     };
@@ -147,6 +163,29 @@ describe('registerKioTools', () => {
 
     expect(toolSpy).toHaveBeenCalledTimes(4);
   });
+
+  it('should return the names of the registered tools', () => {
+    expect(registerKioTools(server, context)).toEqual([
+      'kio_search',
+      'kio_get_judgment',
+      'kio_get_source_links',
+      'kio_health',
+    ]);
+  });
+
+  it('should register kio_cache_admin only with cacheAdmin enabled', () => {
+    const toolSpy = vi.spyOn(server, 'tool');
+    context.config = { ...context.config, cacheAdmin: true };
+    expect(registerKioTools(server, context)).toContain('kio_cache_admin');
+
+    expect(toolSpy).toHaveBeenCalledTimes(5);
+    expect(toolSpy).toHaveBeenCalledWith(
+      'kio_cache_admin',
+      expect.any(String),
+      expect.any(Object),
+      expect.any(Function)
+    );
+  });
 });
 
 describe('getToolDefinitions', () => {
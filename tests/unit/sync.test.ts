@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseSyncArgs } from '../../src/sync.js';
+import { ConfigError } from '../../src/config/env.js';
+
+describe('parseSyncArgs', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env['MCP_KIO_LOCAL_CORPUS_DIR'];
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should parse options', () => {
+    expect(
+      parseSyncArgs(['--dir', '/data/kio', '--since', '2024-05-01', '--page-size', '50', '--rate-limit', '30'])
+    ).toMatchObject({
+      directory: '/data/kio',
+      since: '2024-05-01',
+      pageSize: 50,
+      ratePerMinute: 30,
+      baseUrl: 'https://www.saos.org.pl',
+    });
+  });
+
+  it('should default the directory and rate limit from the environment', () => {
+    process.env['MCP_KIO_LOCAL_CORPUS_DIR'] = '/var/kio';
+
+    expect(parseSyncArgs([])).toMatchObject({ directory: '/var/kio', ratePerMinute: 20 });
+  });
+
+  it('should return undefined for --help', () => {
+    expect(parseSyncArgs(['--help'])).toBeUndefined();
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => parseSyncArgs([])).toThrow(ConfigError);
+    expect(() => parseSyncArgs(['--dir', '/d', '--since', '05/2024'])).toThrow(ConfigError);
+    expect(() => parseSyncArgs(['--dir', '/d', '--max-pages', '0'])).toThrow(ConfigError);
+    expect(() => parseSyncArgs(['--dir', '/d', '--unknown'])).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { warmCache } from '../../../src/tools/cache-warm.js';
+import type { ToolContext } from '../../../src/tools/types.js';
+import { loadConfig } from '../../../src/config/env.js';
+import { MemoryCache } from '../../../src/cache/memory-cache.js';
+import { createCacheThrough } from '../../../src/cache/cache-through.js';
+import { createProviderRouter } from '../../../src/providers/router.js';
+import { createIdentityResolver } from '../../../src/providers/identity.js';
+import type {
+  KioProvider,
+  JudgmentResponse,
+  NormalizedSearchResult,
+} from '../../../src/providers/types.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
+
+// Mock provider
+function createMockProvider(): KioProvider {
+  return {
+    name: 'saos',
+    search: vi.fn(),
+    getJudgment: vi.fn(),
+    getSourceLinks: vi.fn(),
+    healthCheck: vi.fn(),
+  };
+}
+
+// Mock rate limiter
+function createMockRateLimiter() {
+  return {
+    checkLimit: vi.fn().mockReturnValue(true),
+    getRemainingRequests: vi.fn().mockReturnValue(20),
+    getResetTime: vi.fn().mockReturnValue(0),
+    reset: vi.fn(),
+    clear: vi.fn(),
+    close: vi.fn(),
+  };
+}
+
+// Mock audit logger
+function createMockAuditLogger() {
+  return {
+    logSearch: vi.fn(),
+    logJudgmentAccess: vi.fn(),
+    logRateLimitExceeded: vi.fn(),
+    logDomainBlocked: vi.fn(),
+    logCacheHit: vi.fn(),
+    logCacheMiss: vi.fn(),
+    logCacheAdmin: vi.fn(),
+    logError: vi.fn(),
+    logHealthCheck: vi.fn(),
+    getRecentEntries: vi.fn().mockReturnValue([]),
+    getEntriesByType: vi.fn().mockReturnValue([]),
+    getStats: vi.fn().mockReturnValue({}),
+    clear: vi.fn(),
+  };
+}
+
+function searchResult(providerId: string, judgmentDate: string): NormalizedSearchResult {
+  return {
+    provider: 'saos',
+    providerId,
+    caseNumbers: ['KIO 123/24'],
+    judgmentDate,
+    judgmentType: 'SENTENCE',
+    sourceUrl: `https://www.saos.org.pl/judgments/${providerId}`,
+  };
+}
+
+describe('warmCache', () => {
+  let context: ToolContext;
+  let cache: MemoryCache;
+  let mockProvider: KioProvider;
+
+  const mockJudgmentResponse: JudgmentResponse = {
+    metadata: {
+      caseNumbers: ['KIO 123/24'],
+      judgmentDate: '2024-02-15',
+      judgmentType: 'SENTENCE',
+      legalBases: [],
+      judges: [],
+      keywords: [],
+    },
+    content: { text: 'Treść orzeczenia...' },
+    continuation: { truncated: false },
+    sourceLinks: { saosHref: 'https://saos.org.pl/judgments/1' },
+  };
+
+  beforeEach(() => {
+    mockProvider = createMockProvider();
+    vi.mocked(mockProvider.getJudgment).mockResolvedValue(mockJudgmentResponse);
+    cache = new MemoryCache({ defaultTtlMs: 60000 });
+
+    const providers: ToolContext['providers'] = new Map([['saos', mockProvider]]);
+    const router = createProviderRouter(providers);
+
+    context = {
+      providers,
+      router,
+      resolver: createIdentityResolver(providers, router, cache),
+      cache,
+      cacheThrough: createCacheThrough(cache),
+      rateLimiters: {
+        search: createMockRateLimiter(),
+        judgment: createMockRateLimiter(),
+        sourceLinks: createMockRateLimiter(),
+        health: createMockRateLimiter(),
+      },
+      auditLogger: createMockAuditLogger(),
+      config: loadConfig(),
+      startedAt: new Date(),
+      version: '1.0.0',
+    };
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await cache.close();
+    vi.clearAllMocks();
+  });
+
+  it('should cache judgments by SAOS ID and report progress', async () => {
+    const onProgress = vi.fn();
+
+    const result = await warmCache(context, { saosIds: ['1', '2'] }, { onProgress }).done;
+
+    expect(result).toMatchObject({ total: 2, done: 2, fetched: 2, completed: true, failures: [] });
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ total: 2, done: 2, current: 'saos:2' })
+    );
+    expect(await cache.has('judgment:saos:1')).toBe(true);
+    expect(await cache.has('judgment:saos:2')).toBe(true);
+  });
+
+  it('should skip judgments that are already cached', async () => {
+    await warmCache(context, { saosIds: ['1'] }).done;
+
+    const result = await warmCache(context, { saosIds: ['1'] }).done;
+
+    expect(result).toMatchObject({ fetched: 0, skipped: 1 });
+    expect(mockProvider.getJudgment).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report failures and continue', async () => {
+    vi.mocked(mockProvider.getJudgment).mockImplementation((params) =>
+      params.providerId === '1'
+        ? Promise.reject(new NotFoundError('judgment', '1'))
+        : Promise.resolve(mockJudgmentResponse)
+    );
+
+    const result = await warmCache(context, { saosIds: ['1', '2'] }).done;
+
+    expect(result).toMatchObject({ fetched: 1, failed: 1 });
+    expect(result.failures).toEqual([{ target: 'saos:1', error: 'judgment not found: 1' }]);
+  });
+
+  it('should cache every judgment sharing a case number', async () => {
+    vi.mocked(mockProvider.search).mockResolvedValue({
+      results: [searchResult('1', '2024-02-15'), searchResult('2', '2024-03-01')],
+    });
+
+    const onProgress = vi.fn();
+
+    const result = await warmCache(context, { caseNumbers: ['KIO 123/24'] }, { onProgress }).done;
+
+    expect(result).toMatchObject({ total: 2, done: 2, fetched: 2, skipped: 0, failed: 0 });
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { total: 2, done: 0, fetched: 0, skipped: 0, failed: 0, current: 'KIO 123/24' },
+      { total: 2, done: 1, fetched: 1, skipped: 0, failed: 0, current: 'saos:2' },
+      { total: 2, done: 2, fetched: 2, skipped: 0, failed: 0, current: 'saos:1' },
+    ]);
+    expect(await cache.has('judgment:saos:1')).toBe(true);
+    expect(await cache.has('judgment:saos:2')).toBe(true);
+  });
+
+  it('should cache judgments in a date window page by page', async () => {
+    vi.mocked(mockProvider.search)
+      .mockResolvedValueOnce({ results: [searchResult('1', '2024-01-10')], nextPage: 2 })
+      .mockResolvedValueOnce({ results: [searchResult('2', '2024-01-20')] });
+
+    const result = await warmCache(context, { dateFrom: '2024-01-01', dateTo: '2024-01-31' }).done;
+
+    expect(mockProvider.search).toHaveBeenCalledWith(
+      expect.objectContaining({ dateFrom: '2024-01-01', dateTo: '2024-01-31', page: 1 })
+    );
+    expect(mockProvider.search).toHaveBeenCalledWith(expect.objectContaining({ page: 2 }));
+    expect(result).toMatchObject({ total: 2, fetched: 2, completed: true });
+  });
+
+  it('should keep searching a date window past an empty page', async () => {
+    vi.mocked(mockProvider.search)
+      .mockResolvedValueOnce({ results: [], nextPage: 2 })
+      .mockResolvedValueOnce({ results: [searchResult('2', '2024-01-20')] });
+
+    const result = await warmCache(context, { dateFrom: '2024-01-01', dateTo: '2024-01-31' }).done;
+
+    expect(mockProvider.search).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ total: 1, fetched: 1, completed: true });
+  });
+
+  it('should wait for the rate limit between judgments', async () => {
+    vi.useFakeTimers();
+
+    const job = warmCache(context, { saosIds: ['1', '2'] }, { ratePerMinute: 1 });
+    await vi.waitFor(() => expect(job.progress().done).toBe(1));
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(job.progress().done).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect((await job.done).fetched).toBe(2);
+  });
+
+  it('should stop when cancelled', async () => {
+    vi.useFakeTimers();
+
+    const job = warmCache(context, { saosIds: ['1', '2'] }, { ratePerMinute: 1 });
+    await vi.waitFor(() => expect(job.progress().done).toBe(1));
+    job.cancel();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(await job.done).toMatchObject({ done: 1, completed: false });
+  });
+});
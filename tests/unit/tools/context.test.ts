@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createToolContext, closeToolContext } from '../../../src/tools/context.js';
+import type { ToolContext } from '../../../src/tools/types.js';
+import { loadConfig, type KioConfig } from '../../../src/config/env.js';
+import { MemoryCache } from '../../../src/cache/memory-cache.js';
+
+describe('createToolContext', () => {
+  let context: ToolContext | undefined;
+
+  afterEach(async () => {
+    if (context) {
+      await closeToolContext(context);
+      context = undefined;
+    }
+  });
+
+  function configWith(overrides: Partial<KioConfig>): KioConfig {
+    return { ...loadConfig(), ...overrides };
+  }
+
+  it('should expose the configuration and its server version', () => {
+    const config = configWith({ serverVersion: '9.9.9' });
+
+    context = createToolContext({ config });
+
+    expect(context.config).toBe(config);
+    expect(context.version).toBe('9.9.9');
+  });
+
+  it('should prefer an explicit version', () => {
+    context = createToolContext({ version: 'test', config: configWith({ serverVersion: '9.9.9' }) });
+
+    expect(context.version).toBe('test');
+  });
+
+  it('should apply configured rate limits', () => {
+    context = createToolContext({
+      config: configWith({ searchRateLimitPerMinute: 3, judgmentRateLimitPerMinute: 2 }),
+    });
+
+    expect(context.rateLimiters.search.getRemainingRequests('client')).toBe(3);
+    expect(context.rateLimiters.judgment.getRemainingRequests('client')).toBe(2);
+  });
+
+  it('should use the memory cache for the memory backend', () => {
+    context = createToolContext({ config: configWith({ cacheType: 'memory' }) });
+
+    expect(context.cache).toBeInstanceOf(MemoryCache);
+  });
+
+  it('should register the local provider only when a corpus directory is set', async () => {
+    context = createToolContext({ config: configWith({ localCorpusDir: undefined }) });
+    expect(context.providers.has('local')).toBe(false);
+
+    await closeToolContext(context);
+    context = createToolContext({ config: configWith({ localCorpusDir: '/tmp/mcp-kio-corpus' }) });
+    expect(context.providers.has('local')).toBe(true);
+  });
+
+  it('should apply per-tool rate limits', () => {
+    context = createToolContext({
+      config: configWith({
+        judgmentRateLimitPerMinute: 2,
+        toolRateLimits: { kio_get_source_links: 7, kio_health: 4 },
+      }),
+    });
+
+    expect(context.rateLimiters.judgment.getRemainingRequests('client')).toBe(2);
+    expect(context.rateLimiters.sourceLinks.getRemainingRequests('client')).toBe(7);
+    expect(context.rateLimiters.health.getRemainingRequests('client')).toBe(4);
+  });
+
+  it('should skip disabled providers', () => {
+    context = createToolContext({
+      config: configWith({
+        localCorpusDir: '/tmp/mcp-kio-corpus',
+        providers: { uzp: { enabled: false }, local: { enabled: false } },
+      }),
+    });
+
+    expect([...context.providers.keys()]).toEqual(['saos']);
+  });
+
+  it('should allow requests to configured provider hosts', async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      headers: new Headers(),
+      json: async () => ({}),
+    });
+    vi.stubGlobal('fetch', fetch);
+    context = createToolContext({
+      config: configWith({
+        saosBaseUrl: 'https://saos.mirror.example.test',
+        providers: { uzp: { baseUrl: 'https://uzp.mirror.example.test' } },
+      }),
+    });
+
+    try {
+      const params = { query: 'przetarg', limit: 10, page: 1, includeSnippets: false };
+      for (const provider of context.providers.values()) {
+        await provider.search(params).catch(() => undefined);
+      }
+
+      const hosts = fetch.mock.calls.map(([url]) => new URL(url as string).hostname);
+      expect(hosts).toContain('saos.mirror.example.test');
+      expect(hosts).toContain('uzp.mirror.example.test');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should try providers with a higher weight first', async () => {
+    context = createToolContext({
+      config: configWith({ providers: { uzp: { weight: 5 } } }),
+    });
+
+    const response = { results: [] };
+    const uzpSearch = vi.spyOn(context.providers.get('uzp')!, 'search').mockResolvedValue(response);
+    const saosSearch = vi.spyOn(context.providers.get('saos')!, 'search').mockResolvedValue(response);
+
+    const routed = await context.router.search('auto', { query: 'przetarg' });
+
+    expect(routed.provider).toBe('uzp');
+    expect(uzpSearch).toHaveBeenCalled();
+    expect(saosSearch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { executeKioCacheAdmin } from '../../../src/tools/kio-cache-admin.js';
+import type { ToolContext } from '../../../src/tools/types.js';
+import { loadConfig } from '../../../src/config/env.js';
+import { MemoryCache } from '../../../src/cache/memory-cache.js';
+import { createCacheThrough } from '../../../src/cache/cache-through.js';
+import { createProviderRouter } from '../../../src/providers/router.js';
+import { createIdentityResolver } from '../../../src/providers/identity.js';
+import type { KioProvider, JudgmentResponse } from '../../../src/providers/types.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
+
+// Mock provider
+function createMockProvider(): KioProvider {
+  return {
+    name: 'saos',
+    search: vi.fn(),
+    getJudgment: vi.fn(),
+    getSourceLinks: vi.fn(),
+    healthCheck: vi.fn(),
+  };
+}
+
+// Mock rate limiter
+function createMockRateLimiter() {
+  return {
+    checkLimit: vi.fn().mockReturnValue(true),
+    getRemainingRequests: vi.fn().mockReturnValue(20),
+    getResetTime: vi.fn().mockReturnValue(0),
+    reset: vi.fn(),
+    clear: vi.fn(),
+    close: vi.fn(),
+  };
+}
+
+// Mock audit logger
+function createMockAuditLogger() {
+  return {
+    logSearch: vi.fn(),
+    logJudgmentAccess: vi.fn(),
+    logRateLimitExceeded: vi.fn(),
+    logDomainBlocked: vi.fn(),
+    logCacheHit: vi.fn(),
+    logCacheMiss: vi.fn(),
+    logCacheAdmin: vi.fn(),
+    logError: vi.fn(),
+    logHealthCheck: vi.fn(),
+    getRecentEntries: vi.fn().mockReturnValue([]),
+    getEntriesByType: vi.fn().mockReturnValue([]),
+    getStats: vi.fn().mockReturnValue({}),
+    clear: vi.fn(),
+  };
+}
+
+describe('executeKioCacheAdmin', () => {
+  let context: ToolContext;
+  let cache: MemoryCache;
+  let mockProvider: KioProvider;
+
+  const mockJudgmentResponse: JudgmentResponse = {
+    metadata: {
+      caseNumbers: ['KIO 123/23'],
+      judgmentDate: '2023-06-15',
+      judgmentType: 'SENTENCE',
+      legalBases: [],
+      judges: [],
+      keywords: [],
+    },
+    content: { text: 'Treść orzeczenia...' },
+    continuation: { truncated: false },
+    sourceLinks: { saosHref: 'https://saos.org.pl/judgments/123' },
+  };
+
+  beforeEach(() => {
+    mockProvider = createMockProvider();
+    cache = new MemoryCache({ defaultTtlMs: 60000 });
+
+    const providers: ToolContext['providers'] = new Map([['saos', mockProvider]]);
+    const router = createProviderRouter(providers);
+
+    context = {
+      providers,
+      router,
+      resolver: createIdentityResolver(providers, router, cache),
+      cache,
+      cacheThrough: createCacheThrough(cache),
+      rateLimiters: {
+        search: createMockRateLimiter(),
+        judgment: createMockRateLimiter(),
+        sourceLinks: createMockRateLimiter(),
+        health: createMockRateLimiter(),
+      },
+      auditLogger: createMockAuditLogger(),
+      config: { ...loadConfig(), cacheAdmin: true },
+      startedAt: new Date(),
+      version: '1.0.0',
+    };
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    vi.clearAllMocks();
+  });
+
+  describe('access', () => {
+    it('should refuse when cache administration is disabled', async () => {
+      context.config = { ...context.config, cacheAdmin: false };
+
+      const result = await executeKioCacheAdmin({ action: 'stats' }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('FORBIDDEN');
+      }
+    });
+  });
+
+  describe('input validation', () => {
+    it('should require a tag or key prefix to invalidate', async () => {
+      const result = await executeKioCacheAdmin({ action: 'invalidate' }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('VALIDATION_ERROR');
+      }
+    });
+
+    it('should reject both a tag and a key prefix', async () => {
+      const result = await executeKioCacheAdmin(
+        { action: 'invalidate', tag: 'provider:saos', key_prefix: 'search:' },
+        context
+      );
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should require judgments to warm', async () => {
+      const result = await executeKioCacheAdmin({ action: 'warm' }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('VALIDATION_ERROR');
+      }
+    });
+  });
+
+  describe('stats', () => {
+    it('should report cache statistics', async () => {
+      await cache.set('key1', 'value1');
+
+      const result = await executeKioCacheAdmin({ action: 'stats' }, context);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.stats).toMatchObject({ type: 'memory', size: 1, evictions: 0 });
+      }
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should invalidate entries by tag', async () => {
+      vi.mocked(mockProvider.getJudgment).mockResolvedValue(mockJudgmentResponse);
+      await executeKioCacheAdmin(
+        { action: 'warm', judgments: [{ provider: 'saos', provider_id: '123' }] },
+        context
+      );
+
+      const result = await executeKioCacheAdmin(
+        { action: 'invalidate', tag: 'judgment:saos:123' },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.invalidated).toBe(1);
+      }
+      expect(await cache.has('judgment:saos:123')).toBe(false);
+      expect(context.auditLogger.logCacheAdmin).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'invalidate', target: 'judgment:saos:123', count: 1 })
+      );
+    });
+
+    it('should invalidate entries by key prefix', async () => {
+      await cache.set('search:a', 'a');
+      await cache.set('search:b', 'b');
+      await cache.set('judgment:saos:1', 'c');
+
+      const result = await executeKioCacheAdmin(
+        { action: 'invalidate', key_prefix: 'search:' },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.invalidated).toBe(2);
+      }
+      expect(await cache.has('judgment:saos:1')).toBe(true);
+    });
+  });
+
+  describe('warm', () => {
+    it('should fetch judgments into the cache and report failures', async () => {
+      vi.mocked(mockProvider.getJudgment).mockImplementation((params) =>
+        params.providerId === '123'
+          ? Promise.resolve(mockJudgmentResponse)
+          : Promise.reject(new NotFoundError('judgment', params.providerId))
+      );
+
+      const result = await executeKioCacheAdmin(
+        {
+          action: 'warm',
+          judgments: [
+            { provider: 'saos', provider_id: '123' },
+            { provider: 'saos', provider_id: '999' },
+          ],
+        },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.warmed).toEqual({
+          total: 2,
+          fetched: 1,
+          skipped: 0,
+          failed: 1,
+          failures: [{ target: 'saos:999', error: 'judgment not found: 999' }],
+        });
+      }
+      expect(await cache.has('judgment:saos:123')).toBe(true);
+    });
+  });
+});
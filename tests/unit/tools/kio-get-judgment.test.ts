@@ -1,8 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { executeKioGetJudgment } from '../../../src/tools/kio-get-judgment.js';
+import { isJudgmentDisambiguation } from '../../../src/schemas/judgment.schema.js';
 import type { ToolContext } from '../../../src/tools/types.js';
+import { loadConfig } from '../../../src/config/env.js';
+import { createCacheThrough } from '../../../src/cache/cache-through.js';
+import { compressText } from '../../../src/cache/compression.js';
+import { createProviderRouter } from '../../../src/providers/router.js';
+import { createIdentityResolver } from '../../../src/providers/identity.js';
+import { createSaosProvider } from '../../../src/providers/saos/provider.js';
+import { MemoryCache } from '../../../src/cache/memory-cache.js';
 import type { KioProvider, JudgmentResponse } from '../../../src/providers/types.js';
 import { RateLimitError, ProviderError } from '../../../src/utils/errors.js';
+import saosSearchFixture from '../../fixtures/saos/search-response.json';
+import saosJudgmentFixture from '../../fixtures/saos/judgment-response.json';
 
 // Mock provider
 function createMockProvider(): KioProvider {
@@ -22,6 +32,8 @@ function createMockCache() {
     set: vi.fn().mockResolvedValue(undefined),
     delete: vi.fn().mockResolvedValue(true),
     has: vi.fn().mockResolvedValue(false),
+    invalidateTag: vi.fn().mockResolvedValue(0),
+    invalidatePrefix: vi.fn().mockResolvedValue(0),
     clear: vi.fn().mockResolvedValue(undefined),
     stats: vi.fn().mockReturnValue({ hits: 0, misses: 0, size: 0, hitRate: 0 }),
     close: vi.fn().mockResolvedValue(undefined),
@@ -89,15 +101,25 @@ describe('executeKioGetJudgment', () => {
   beforeEach(() => {
     mockProvider = createMockProvider();
 
+    const providers: ToolContext['providers'] = new Map([['saos', mockProvider], ['uzp', createMockProvider()]]);
+
+    const router = createProviderRouter(providers);
+    const cache = createMockCache();
+
     context = {
-      providers: new Map([['saos', mockProvider], ['uzp', createMockProvider()]]),
-      cache: createMockCache(),
+      providers,
+      router,
+      resolver: createIdentityResolver(providers, router, cache),
+      cache,
+      cacheThrough: createCacheThrough(cache),
       rateLimiters: {
         search: createMockRateLimiter(),
         judgment: createMockRateLimiter(),
+        sourceLinks: createMockRateLimiter(),
         health: createMockRateLimiter(),
       },
       auditLogger: createMockAuditLogger(),
+      config: loadConfig(),
       startedAt: new Date(),
       version: '1.0.0',
     };
@@ -181,20 +203,20 @@ describe('executeKioGetJudgment', () => {
   });
 
   describe('caching', () => {
+    const cachedJudgment = {
+      provider: 'saos',
+      providerId: '123',
+      metadata: mockJudgmentResponse.metadata,
+      text: compressText(mockJudgmentResponse.content.text),
+      htmlUrl: mockJudgmentResponse.content.htmlUrl,
+      sourceLinks: mockJudgmentResponse.sourceLinks,
+    };
+
     it('should return cached result if available', async () => {
-      const cachedResult = {
-        metadata: mockJudgmentResponse.metadata,
-        content: mockJudgmentResponse.content,
-        continuation: mockJudgmentResponse.continuation,
-        sourceLinks: mockJudgmentResponse.sourceLinks,
-        retrievalMetadata: {
-          provider: 'saos',
-          providerId: '123',
-          queryTimeMs: 100,
-          cached: true,
-        },
-      };
-      vi.mocked(context.cache.get).mockResolvedValue(cachedResult);
+      vi.mocked(context.cache.get).mockResolvedValue({
+        value: cachedJudgment,
+        freshUntil: Date.now() + 60000,
+      });
 
       const result = await executeKioGetJudgment({
         provider: 'saos',
@@ -204,11 +226,56 @@ describe('executeKioGetJudgment', () => {
       expect(result.success).toBe(true);
       if (result.success) {
         expect(result.metadata.cached).toBe(true);
+        expect(result.data.content.text).toBe('Treść orzeczenia...');
+        expect(result.data.retrievalMetadata.cached).toBe(true);
       }
+      expect(context.cache.get).toHaveBeenCalledWith('judgment:saos:123');
       expect(mockProvider.getJudgment).not.toHaveBeenCalled();
     });
 
-    it('should cache results after successful retrieval', async () => {
+    it('should serve every page from the cached full judgment', async () => {
+      vi.mocked(context.cache.get).mockResolvedValue({
+        value: cachedJudgment,
+        freshUntil: Date.now() + 60000,
+      });
+
+      const result = await executeKioGetJudgment({
+        provider: 'saos',
+        provider_id: '123',
+        max_chars: 1000,
+        offset_chars: 6,
+      }, context);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.content.text).toBe('orzeczenia...');
+        expect(result.data.continuation.totalChars).toBe('Treść orzeczenia...'.length);
+      }
+      expect(mockProvider.getJudgment).not.toHaveBeenCalled();
+    });
+
+    it('should serve an expired result as stale while refreshing it', async () => {
+      vi.mocked(mockProvider.getJudgment).mockResolvedValue(mockJudgmentResponse);
+      vi.mocked(context.cache.get).mockResolvedValueOnce({
+        value: cachedJudgment,
+        freshUntil: Date.now() - 1000,
+      });
+
+      const result = await executeKioGetJudgment({
+        provider: 'saos',
+        provider_id: '123',
+      }, context);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.metadata.cached).toBe(true);
+        expect(result.metadata.stale).toBe(true);
+        expect(result.data.retrievalMetadata.stale).toBe(true);
+      }
+      await vi.waitFor(() => expect(context.cache.set).toHaveBeenCalled());
+    });
+
+    it('should cache the compressed full judgment under its provider ID', async () => {
       vi.mocked(mockProvider.getJudgment).mockResolvedValue(mockJudgmentResponse);
 
       await executeKioGetJudgment({
@@ -216,11 +283,63 @@ describe('executeKioGetJudgment', () => {
         provider_id: '123',
       }, context);
 
-      expect(context.cache.set).toHaveBeenCalled();
+      expect(context.cache.set).toHaveBeenCalledWith(
+        'judgment:saos:123',
+        expect.objectContaining({
+          value: expect.objectContaining({
+            provider: 'saos',
+            providerId: '123',
+            text: compressText(mockJudgmentResponse.content.text),
+          }),
+        }),
+        expect.any(Number),
+        ['provider:saos', 'judgment:saos:123']
+      );
+    });
+
+    it('should remember the provider document an auto request was routed to', async () => {
+      vi.mocked(mockProvider.getJudgment).mockResolvedValue(mockJudgmentResponse);
+
+      await executeKioGetJudgment({
+        provider: 'auto',
+        provider_id: '123',
+      }, context);
+
+      expect(context.cache.set).toHaveBeenCalledWith(
+        'judgment-route:123',
+        expect.objectContaining({ value: { provider: 'saos', providerId: '123' } }),
+        expect.any(Number),
+        ['provider:saos', 'judgment:saos:123']
+      );
+      expect(context.cache.set).toHaveBeenCalledWith(
+        'judgment:saos:123',
+        expect.anything(),
+        expect.any(Number),
+        ['provider:saos', 'judgment:saos:123']
+      );
+      expect(mockProvider.getJudgment).toHaveBeenCalledTimes(1);
     });
   });
 
   describe('provider selection', () => {
+    it('should not look up a SAOS ID at UZP for auto when SAOS fails', async () => {
+      const uzpProvider = context.providers.get('uzp')!;
+      vi.mocked(mockProvider.getJudgment).mockRejectedValue(
+        new ProviderError('Provider unavailable', 'saos', 503, true)
+      );
+
+      const result = await executeKioGetJudgment({
+        provider: 'auto',
+        provider_id: '123',
+      }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('PROVIDER_ERROR');
+      }
+      expect(uzpProvider.getJudgment).not.toHaveBeenCalled();
+    });
+
     it('should return error for unavailable provider', async () => {
       context.providers.delete('saos');
 
@@ -236,8 +355,158 @@ describe('executeKioGetJudgment', () => {
     });
   });
 
+  describe('case number lookup', () => {
+    it('should reject case_number together with provider_id', async () => {
+      const result = await executeKioGetJudgment({
+        provider: 'saos',
+        provider_id: '123',
+        case_number: 'KIO 123/23',
+      }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('VALIDATION_ERROR');
+      }
+    });
+
+    it('should resolve case number to provider IDs', async () => {
+      const uzpProvider = context.providers.get('uzp')!;
+      vi.mocked(mockProvider.search).mockResolvedValue({ results: [] });
+      vi.mocked(uzpProvider.search).mockResolvedValue({
+        results: [
+          {
+            provider: 'uzp',
+            providerId: 'abc',
+            caseNumbers: ['KIO 123/23'],
+            judgmentDate: '2023-06-15',
+            judgmentType: 'SENTENCE',
+            sourceUrl: 'https://orzeczenia.uzp.gov.pl/Home/Details/abc',
+          },
+        ],
+      });
+      vi.mocked(uzpProvider.getJudgment).mockResolvedValue(mockJudgmentResponse);
+      vi.mocked(uzpProvider.getSourceLinks).mockReturnValue({});
+
+      const result = await executeKioGetJudgment({ case_number: 'KIO 123/23' }, context);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.retrievalMetadata.provider).toBe('uzp');
+        expect(result.data.retrievalMetadata.providerId).toBe('abc');
+      }
+      expect(mockProvider.getJudgment).not.toHaveBeenCalled();
+    });
+
+    it('should return a disambiguation list for several judgments', async () => {
+      vi.mocked(mockProvider.search).mockResolvedValue({
+        results: [
+          {
+            provider: 'saos',
+            providerId: '2',
+            caseNumbers: ['KIO 123/23'],
+            judgmentDate: '2023-06-20',
+            judgmentType: 'DECISION',
+            sourceUrl: 'https://www.saos.org.pl/judgments/2',
+          },
+          {
+            provider: 'saos',
+            providerId: '1',
+            caseNumbers: ['KIO 123/23', 'KIO 124/23'],
+            judgmentDate: '2023-06-15',
+            judgmentType: 'SENTENCE',
+            sourceUrl: 'https://www.saos.org.pl/judgments/1',
+          },
+        ],
+      });
+      vi.mocked(context.providers.get('uzp')!.search).mockResolvedValue({ results: [] });
+
+      const result = await executeKioGetJudgment({ case_number: 'KIO 123/23' }, context);
+
+      expect(result.success).toBe(true);
+      if (result.success && isJudgmentDisambiguation(result.data)) {
+        expect(result.data.disambiguation.candidates).toEqual([
+          {
+            caseNumbers: ['KIO 123/23'],
+            judgmentDate: '2023-06-20',
+            judgmentType: 'DECISION',
+            sources: [{ provider: 'saos', id: '2' }],
+          },
+          {
+            caseNumbers: ['KIO 123/23', 'KIO 124/23'],
+            judgmentDate: '2023-06-15',
+            judgmentType: 'SENTENCE',
+            sources: [{ provider: 'saos', id: '1' }],
+          },
+        ]);
+      } else {
+        expect.fail('expected a disambiguation list');
+      }
+      expect(mockProvider.getJudgment).not.toHaveBeenCalled();
+    });
+
+    it('should return NOT_FOUND for unknown case number', async () => {
+      vi.mocked(mockProvider.search).mockResolvedValue({ results: [] });
+      vi.mocked(context.providers.get('uzp')!.search).mockResolvedValue({ results: [] });
+
+      const result = await executeKioGetJudgment({ case_number: 'KIO 999/23' }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('NOT_FOUND');
+      }
+    });
+
+    it('should find a SAOS judgment by case number end to end', async () => {
+      // SAOS pages count from 0; later pages are empty
+      const fetch = vi.fn((url: string) => {
+        const { pathname, searchParams } = new URL(url);
+        const body = !pathname.startsWith('/api/search/judgments')
+          ? { data: saosJudgmentFixture }
+          : searchParams.get('pageNumber') === '0'
+            ? saosSearchFixture
+            : { ...saosSearchFixture, items: [] };
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: async () => body,
+        });
+      });
+      vi.stubGlobal('fetch', fetch);
+      const providers: ToolContext['providers'] = new Map([
+        ['saos', createSaosProvider({ retry: { maxRetries: 0 } })],
+      ]);
+      const router = createProviderRouter(providers);
+      const cache = new MemoryCache({ defaultTtlMs: 60000 });
+      context = {
+        ...context,
+        providers,
+        router,
+        resolver: createIdentityResolver(providers, router, cache),
+        cache,
+        cacheThrough: createCacheThrough(cache),
+      };
+
+      try {
+        const result = await executeKioGetJudgment(
+          { provider: 'saos', case_number: 'KIO 3177/23' },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        if (result.success && !isJudgmentDisambiguation(result.data)) {
+          expect(result.data.retrievalMetadata.providerId).toBe('524389');
+          expect(result.data.metadata.caseNumbers).toEqual(['KIO 3177/23']);
+        }
+      } finally {
+        vi.unstubAllGlobals();
+        await cache.close();
+      }
+    });
+  });
+
   describe('judgment retrieval', () => {
-    it('should pass parameters to provider', async () => {
+    it('should fetch the full judgment from provider', async () => {
       vi.mocked(mockProvider.getJudgment).mockResolvedValue(mockJudgmentResponse);
 
       await executeKioGetJudgment({
@@ -251,11 +520,36 @@ describe('executeKioGetJudgment', () => {
       expect(mockProvider.getJudgment).toHaveBeenCalledWith({
         providerId: '123456',
         formatPreference: 'text',
-        maxChars: 50000,
-        offsetChars: 10000,
+        maxChars: Number.MAX_SAFE_INTEGER,
+        offsetChars: 0,
       });
     });
 
+    it('should paginate within the requested section', async () => {
+      const text = 'WYROK\n\norzeka:\n\n1. oddala odwołanie\n\nUZASADNIENIE\n\nIzba zważyła, co następuje:';
+      vi.mocked(mockProvider.getJudgment).mockResolvedValue({
+        ...mockJudgmentResponse,
+        content: { text },
+      });
+
+      const result = await executeKioGetJudgment({
+        provider: 'saos',
+        provider_id: '123456',
+        section: 'sentencja',
+        offset_chars: 9,
+      }, context);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.content.text).toBe('1. oddala odwołanie\n\n');
+        expect(result.data.segments?.map((s) => s.type)).toEqual([
+          'header',
+          'sentencja',
+          'uzasadnienie',
+        ]);
+      }
+    });
+
     it('should return mapped judgment data', async () => {
       vi.mocked(mockProvider.getJudgment).mockResolvedValue(mockJudgmentResponse);
 
@@ -1,8 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { executeKioGetSourceLinks } from '../../../src/tools/kio-get-source-links.js';
 import type { ToolContext } from '../../../src/tools/types.js';
+import { loadConfig } from '../../../src/config/env.js';
+import { createCacheThrough } from '../../../src/cache/cache-through.js';
+import { createProviderRouter } from '../../../src/providers/router.js';
+import { createIdentityResolver } from '../../../src/providers/identity.js';
 import type { KioProvider } from '../../../src/providers/types.js';
-import { RateLimitError } from '../../../src/utils/errors.js';
+import { RateLimitError, NotFoundError, ProviderError } from '../../../src/utils/errors.js';
 
 // Mock provider
 function createMockProvider(): KioProvider {
@@ -22,6 +26,8 @@ function createMockCache() {
     set: vi.fn().mockResolvedValue(undefined),
     delete: vi.fn().mockResolvedValue(true),
     has: vi.fn().mockResolvedValue(false),
+    invalidateTag: vi.fn().mockResolvedValue(0),
+    invalidatePrefix: vi.fn().mockResolvedValue(0),
     clear: vi.fn().mockResolvedValue(undefined),
     stats: vi.fn().mockReturnValue({ hits: 0, misses: 0, size: 0, hitRate: 0 }),
     close: vi.fn().mockResolvedValue(undefined),
@@ -64,16 +70,28 @@ describe('executeKioGetSourceLinks', () => {
 
   beforeEach(() => {
     mockProvider = createMockProvider();
+    // Identity resolution fails by default, leaving the provider's own links
+    vi.mocked(mockProvider.getJudgment).mockRejectedValue(new NotFoundError('judgment', '123'));
+
+    const providers: ToolContext['providers'] = new Map([['saos', mockProvider]]);
+
+    const router = createProviderRouter(providers);
+    const cache = createMockCache();
 
     context = {
-      providers: new Map([['saos', mockProvider]]),
-      cache: createMockCache(),
+      providers,
+      router,
+      resolver: createIdentityResolver(providers, router, cache),
+      cache,
+      cacheThrough: createCacheThrough(cache),
       rateLimiters: {
         search: createMockRateLimiter(),
         judgment: createMockRateLimiter(),
+        sourceLinks: createMockRateLimiter(),
         health: createMockRateLimiter(),
       },
       auditLogger: createMockAuditLogger(),
+      config: loadConfig(),
       startedAt: new Date(),
       version: '1.0.0',
     };
@@ -128,11 +146,11 @@ describe('executeKioGetSourceLinks', () => {
         context
       );
 
-      expect(context.rateLimiters.judgment.checkLimit).toHaveBeenCalledWith('default');
+      expect(context.rateLimiters.sourceLinks.checkLimit).toHaveBeenCalledWith('default');
     });
 
     it('should return error when rate limited', async () => {
-      vi.mocked(context.rateLimiters.judgment.checkLimit).mockImplementation(() => {
+      vi.mocked(context.rateLimiters.sourceLinks.checkLimit).mockImplementation(() => {
         throw new RateLimitError('Rate limit exceeded', 5000);
       });
 
@@ -173,6 +191,65 @@ describe('executeKioGetSourceLinks', () => {
       }
     });
 
+    it('should complete links with the other provider copy', async () => {
+      const uzpProvider = createMockProvider();
+      vi.mocked(uzpProvider.getSourceLinks).mockReturnValue({
+        uzpHtml: 'https://orzeczenia.uzp.gov.pl/Home/ContentHtml/10471?Kind=KIO',
+      });
+      context.providers.set('uzp', uzpProvider);
+      vi.mocked(mockProvider.getSourceLinks).mockReturnValue({
+        saosHref: 'https://saos.org.pl/judgments/123',
+      });
+      vi.mocked(mockProvider.getJudgment).mockResolvedValue({
+        metadata: {
+          caseNumbers: ['KIO 3177/23'],
+          judgmentDate: '2023-12-15',
+          judgmentType: 'SENTENCE',
+          legalBases: [],
+          judges: [],
+          keywords: [],
+        },
+        content: { text: 'WYROK' },
+        continuation: { truncated: false },
+        sourceLinks: {
+          saosSourceUrl: 'https://orzeczenia.uzp.gov.pl/Home/PdfContent/10471?Kind=KIO',
+        },
+      });
+
+      const result = await executeKioGetSourceLinks(
+        { provider: 'saos', provider_id: '123' },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.links.saosHref).toBe('https://saos.org.pl/judgments/123');
+        expect(result.data.links.uzpHtml).toBe(
+          'https://orzeczenia.uzp.gov.pl/Home/ContentHtml/10471?Kind=KIO'
+        );
+      }
+      expect(uzpProvider.getSourceLinks).toHaveBeenCalledWith('10471');
+    });
+
+    it('should not cache links the resolver could not complete', async () => {
+      vi.mocked(mockProvider.getSourceLinks).mockReturnValue({
+        saosHref: 'https://saos.org.pl/judgments/123',
+      });
+      vi.mocked(mockProvider.getJudgment).mockRejectedValue(
+        new ProviderError('HTTP 503', 'saos')
+      );
+
+      const first = await executeKioGetSourceLinks({ provider: 'saos', provider_id: '123' }, context);
+      const second = await executeKioGetSourceLinks({ provider: 'saos', provider_id: '123' }, context);
+
+      expect(first.success && second.success).toBe(true);
+      if (second.success) {
+        expect(second.data.links.saosHref).toBe('https://saos.org.pl/judgments/123');
+        expect(second.metadata.cached).toBe(false);
+      }
+      expect(mockProvider.getJudgment).toHaveBeenCalledTimes(2);
+    });
+
     it('should return error for unavailable provider', async () => {
       context.providers.delete('saos');
 
@@ -206,7 +283,7 @@ describe('executeKioGetSourceLinks', () => {
 
   describe('audit logging', () => {
     it('should log rate limit exceeded', async () => {
-      vi.mocked(context.rateLimiters.judgment.checkLimit).mockImplementation(() => {
+      vi.mocked(context.rateLimiters.sourceLinks.checkLimit).mockImplementation(() => {
         throw new RateLimitError('Rate limit exceeded', 5000);
       });
 
@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { executeKioHealth } from '../../../src/tools/kio-health.js';
 import type { ToolContext } from '../../../src/tools/types.js';
+import { loadConfig } from '../../../src/config/env.js';
+import { createCacheThrough } from '../../../src/cache/cache-through.js';
+import { createProviderRouter } from '../../../src/providers/router.js';
+import { createIdentityResolver } from '../../../src/providers/identity.js';
 import type { KioProvider, HealthStatus } from '../../../src/providers/types.js';
 import { RateLimitError } from '../../../src/utils/errors.js';
 
@@ -22,6 +26,8 @@ function createMockCache() {
     set: vi.fn().mockResolvedValue(undefined),
     delete: vi.fn().mockResolvedValue(true),
     has: vi.fn().mockResolvedValue(false),
+    invalidateTag: vi.fn().mockResolvedValue(0),
+    invalidatePrefix: vi.fn().mockResolvedValue(0),
     clear: vi.fn().mockResolvedValue(undefined),
     stats: vi.fn().mockReturnValue({ hits: 10, misses: 5, size: 100, hitRate: 0.67 }),
     close: vi.fn().mockResolvedValue(undefined),
@@ -67,18 +73,28 @@ describe('executeKioHealth', () => {
     mockSaosProvider = createMockProvider('saos');
     mockUzpProvider = createMockProvider('uzp');
 
+    const providers: ToolContext['providers'] = new Map([
+      ['saos', mockSaosProvider],
+      ['uzp', mockUzpProvider],
+    ]);
+
+    const router = createProviderRouter(providers);
+    const cache = createMockCache();
+
     context = {
-      providers: new Map([
-        ['saos', mockSaosProvider],
-        ['uzp', mockUzpProvider],
-      ]),
-      cache: createMockCache(),
+      providers,
+      router,
+      resolver: createIdentityResolver(providers, router, cache),
+      cache,
+      cacheThrough: createCacheThrough(cache),
       rateLimiters: {
         search: createMockRateLimiter(),
         judgment: createMockRateLimiter(),
+        sourceLinks: createMockRateLimiter(),
         health: createMockRateLimiter(),
       },
       auditLogger: createMockAuditLogger(),
+      config: loadConfig(),
       startedAt: new Date(Date.now() - 3600000), // 1 hour ago
       version: '1.0.0',
     };
@@ -160,6 +176,22 @@ describe('executeKioHealth', () => {
   });
 
   describe('health checks', () => {
+    it('should open the circuit for unhealthy providers', async () => {
+      vi.mocked(mockSaosProvider.healthCheck).mockResolvedValue({
+        provider: 'saos',
+        available: false,
+        error: 'Connection refused',
+        timestamp: new Date().toISOString(),
+      });
+
+      const result = await executeKioHealth({ provider: 'saos' }, context);
+
+      expect(context.router.getCircuitState('saos')).toBe('open');
+      if (result.success) {
+        expect(result.data.providers[0].circuitState).toBe('open');
+      }
+    });
+
     it('should check all providers when no specific provider requested', async () => {
       const healthyStatus: HealthStatus = {
         provider: 'saos',
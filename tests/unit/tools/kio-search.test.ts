@@ -1,8 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { executeKioSearch } from '../../../src/tools/kio-search.js';
 import type { ToolContext } from '../../../src/tools/types.js';
+import { loadConfig } from '../../../src/config/env.js';
+import { createCacheThrough } from '../../../src/cache/cache-through.js';
+import { createProviderRouter } from '../../../src/providers/router.js';
+import { createIdentityResolver } from '../../../src/providers/identity.js';
 import type { KioProvider, SearchResponse } from '../../../src/providers/types.js';
-import { RateLimitError } from '../../../src/utils/errors.js';
+import { RateLimitError, ProviderError, DomainNotAllowedError } from '../../../src/utils/errors.js';
 
 // Mock provider
 function createMockProvider(): KioProvider {
@@ -22,6 +26,8 @@ function createMockCache() {
     set: vi.fn().mockResolvedValue(undefined),
     delete: vi.fn().mockResolvedValue(true),
     has: vi.fn().mockResolvedValue(false),
+    invalidateTag: vi.fn().mockResolvedValue(0),
+    invalidatePrefix: vi.fn().mockResolvedValue(0),
     clear: vi.fn().mockResolvedValue(undefined),
     stats: vi.fn().mockReturnValue({ hits: 0, misses: 0, size: 0, hitRate: 0 }),
     close: vi.fn().mockResolvedValue(undefined),
@@ -65,15 +71,25 @@ describe('executeKioSearch', () => {
   beforeEach(() => {
     mockProvider = createMockProvider();
 
+    const providers: ToolContext['providers'] = new Map([['saos', mockProvider], ['uzp', createMockProvider()]]);
+
+    const router = createProviderRouter(providers);
+    const cache = createMockCache();
+
     context = {
-      providers: new Map([['saos', mockProvider], ['uzp', createMockProvider()]]),
-      cache: createMockCache(),
+      providers,
+      router,
+      resolver: createIdentityResolver(providers, router, cache),
+      cache,
+      cacheThrough: createCacheThrough(cache),
       rateLimiters: {
         search: createMockRateLimiter(),
         judgment: createMockRateLimiter(),
+        sourceLinks: createMockRateLimiter(),
         health: createMockRateLimiter(),
       },
       auditLogger: createMockAuditLogger(),
+      config: loadConfig(),
       startedAt: new Date(),
       version: '1.0.0',
     };
@@ -168,7 +184,10 @@ describe('executeKioSearch', () => {
         pagination: { page: 1, limit: 20, hasMore: false },
         metadata: { provider: 'saos', queryTimeMs: 100, cached: true },
       };
-      vi.mocked(context.cache.get).mockResolvedValue(cachedResult);
+      vi.mocked(context.cache.get).mockResolvedValue({
+        value: cachedResult,
+        freshUntil: Date.now() + 60000,
+      });
 
       const result = await executeKioSearch({ query: 'test' }, context);
 
@@ -211,6 +230,83 @@ describe('executeKioSearch', () => {
       expect(mockProvider.search).toHaveBeenCalled();
     });
 
+    it('should fall back to UZP and report it in metadata', async () => {
+      const uzpProvider = context.providers.get('uzp')!;
+      vi.mocked(mockProvider.search).mockRejectedValue(new ProviderError('HTTP 503', 'saos'));
+      vi.mocked(uzpProvider.search).mockResolvedValue({ results: [], totalCount: 0 });
+
+      const result = await executeKioSearch({ query: 'test', provider: 'auto' }, context);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.metadata.provider).toBe('uzp');
+      }
+    });
+
+    it('should merge all providers and return a cursor', async () => {
+      const uzpProvider = context.providers.get('uzp')!;
+      vi.mocked(mockProvider.search).mockResolvedValue({
+        results: [
+          {
+            provider: 'saos',
+            providerId: '1',
+            caseNumbers: ['KIO 2/23'],
+            judgmentDate: '2023-02-01',
+            judgmentType: 'SENTENCE',
+            sourceUrl: 'https://www.saos.org.pl/judgments/1',
+          },
+        ],
+        nextPage: 2,
+      });
+      vi.mocked(uzpProvider.search).mockResolvedValue({
+        results: [
+          {
+            provider: 'uzp',
+            providerId: 'abc',
+            caseNumbers: ['KIO/2/23'],
+            judgmentDate: '2023-02-01',
+            judgmentType: 'SENTENCE',
+            sourceUrl: 'https://orzeczenia.uzp.gov.pl/Home/Details/abc',
+          },
+        ],
+      });
+
+      const result = await executeKioSearch({ query: 'test', provider: 'all', limit: 1 }, context);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.metadata.provider).toBe('all');
+        expect(result.data.metadata.providers).toEqual(['saos', 'uzp']);
+        expect(result.data.results[0]?.sources).toEqual([
+          { provider: 'saos', id: '1', url: 'https://www.saos.org.pl/judgments/1' },
+          { provider: 'uzp', id: 'abc', url: 'https://orzeczenia.uzp.gov.pl/Home/Details/abc' },
+        ]);
+        expect(result.data.pagination.hasMore).toBe(true);
+        expect(result.data.pagination.nextCursor).toBeDefined();
+      }
+    });
+
+    it('should reject cursor without provider all', async () => {
+      const result = await executeKioSearch({ query: 'test', cursor: 'abc' }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('VALIDATION_ERROR');
+      }
+    });
+
+    it('should reject malformed cursor', async () => {
+      const result = await executeKioSearch(
+        { query: 'test', provider: 'all', cursor: 'garbage' },
+        context
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('VALIDATION_ERROR');
+      }
+    });
+
     it('should return error for unavailable provider', async () => {
       context.providers.delete('saos');
 
@@ -221,6 +317,20 @@ describe('executeKioSearch', () => {
         expect(result.error.code).toBe('PROVIDER_NOT_FOUND');
       }
     });
+
+    it('should report blocked provider domains without falling back', async () => {
+      const uzpProvider = context.providers.get('uzp')!;
+      vi.mocked(mockProvider.search).mockRejectedValue(new DomainNotAllowedError('evil.example.org'));
+
+      const result = await executeKioSearch({ query: 'test', provider: 'auto' }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('DOMAIN_NOT_ALLOWED');
+        expect(result.error.retryable).toBe(false);
+      }
+      expect(uzpProvider.search).not.toHaveBeenCalled();
+    });
   });
 
   describe('search execution', () => {
@@ -243,12 +353,80 @@ describe('executeKioSearch', () => {
         dateFrom: '2023-01-01',
         dateTo: '2023-12-31',
         judgmentType: 'SENTENCE',
+        sort: 'date_desc',
         limit: 50,
         page: 2,
         includeSnippets: true,
+        snippetFragments: 1,
       });
     });
 
+    it('should pass judge, keywords, phrase, excluded terms and sort to provider', async () => {
+      vi.mocked(mockProvider.search).mockResolvedValue({ results: [] });
+
+      await executeKioSearch({
+        phrase: 'rażąco niska cena',
+        exclude_terms: ['konsorcjum'],
+        judge: 'Anna Kowalska',
+        keywords: ['wadium'],
+        sort: 'date_asc',
+      }, context);
+
+      expect(mockProvider.search).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phrase: 'rażąco niska cena',
+          excludeTerms: ['konsorcjum'],
+          judge: 'Anna Kowalska',
+          keywords: ['wadium'],
+          sort: 'date_asc',
+        })
+      );
+    });
+
+    it('should pass the outcome filter to provider', async () => {
+      vi.mocked(mockProvider.search).mockResolvedValue({ results: [] });
+
+      await executeKioSearch({ query: 'test', outcome: 'DISMISSED' }, context);
+
+      expect(mockProvider.search).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'DISMISSED' })
+      );
+    });
+
+    it('should parse the legal basis filter', async () => {
+      vi.mocked(mockProvider.search).mockResolvedValue({ results: [] });
+
+      await executeKioSearch({ legal_basis: 'art. 226 ust. 1 pkt 5 ustawy Pzp' }, context);
+
+      expect(mockProvider.search).toHaveBeenCalledWith(
+        expect.objectContaining({
+          legalBasis: { article: '226', paragraph: '1', point: '5' },
+        })
+      );
+    });
+
+    it('should keep the act named in the legal basis filter', async () => {
+      vi.mocked(mockProvider.search).mockResolvedValue({ results: [] });
+
+      await executeKioSearch({ legal_basis: 'art. 89 ust. 1 pkt 2 Pzp (2004)' }, context);
+
+      expect(mockProvider.search).toHaveBeenCalledWith(
+        expect.objectContaining({
+          legalBasis: { act: 'PZP_2004', article: '89', paragraph: '1', point: '2' },
+        })
+      );
+    });
+
+    it('should reject a legal basis that is not a Pzp provision', async () => {
+      const result = await executeKioSearch({ legal_basis: 'art. 6 k.c.' }, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('VALIDATION_ERROR');
+      }
+      expect(mockProvider.search).not.toHaveBeenCalled();
+    });
+
     it('should return mapped results', async () => {
       const mockResponse: SearchResponse = {
         results: [
@@ -278,6 +456,39 @@ describe('executeKioSearch', () => {
         expect(result.data.pagination.hasMore).toBe(true);
       }
     });
+
+    it('should score results against the query', async () => {
+      vi.mocked(mockProvider.search).mockResolvedValue({
+        results: [
+          { provider: 'saos', providerId: '1', caseNumbers: ['KIO 1/23'], judgmentDate: '2023-06-15', judgmentType: 'SENTENCE', snippet: 'Zwrot wadium', sourceUrl: 'https://example.com/1' },
+          { provider: 'saos', providerId: '2', caseNumbers: ['KIO 2/23'], judgmentDate: '2023-06-14', judgmentType: 'SENTENCE', snippet: 'Rażąco niskiej ceny', sourceUrl: 'https://example.com/2' },
+        ],
+      });
+
+      const byDate = await executeKioSearch({ query: 'rażąco niska cena' }, context);
+      const byRelevance = await executeKioSearch(
+        { query: 'rażąco niska cena', sort: 'relevance' },
+        context
+      );
+
+      expect(byDate.success && byDate.data.results.map((r) => [r.id, r.relevanceScore])).toEqual([
+        ['1', 0],
+        ['2', 1],
+      ]);
+      expect(byRelevance.success && byRelevance.data.results.map((r) => r.id)).toEqual(['2', '1']);
+    });
+
+    it('should leave results unscored without query text', async () => {
+      vi.mocked(mockProvider.search).mockResolvedValue({
+        results: [
+          { provider: 'saos', providerId: '1', caseNumbers: ['KIO 1/23'], judgmentDate: '2023-06-15', judgmentType: 'SENTENCE', sourceUrl: 'https://example.com/1' },
+        ],
+      });
+
+      const result = await executeKioSearch({ case_number: 'KIO 1/23' }, context);
+
+      expect(result.success && result.data.results[0]?.relevanceScore).toBeUndefined();
+    });
   });
 
   describe('audit logging', () => {
@@ -1,15 +1,21 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { HttpClient, createHttpClient } from '../../../src/utils/http-client.js';
-import { ProviderError, TimeoutError } from '../../../src/utils/errors.js';
+import { HttpClient, createHttpClient, parseRetryAfter } from '../../../src/utils/http-client.js';
+import { createAuditLogger } from '../../../src/security/audit-logger.js';
+import { createAllowlist } from '../../../src/security/allowlist.js';
+import { ProviderError, TimeoutError, DomainNotAllowedError } from '../../../src/utils/errors.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
 vi.stubGlobal('fetch', mockFetch);
 
+const allowlist = createAllowlist({ domains: ['api.example.com', 'test.com'] });
+
 describe('HttpClient', () => {
   const config = {
     baseUrl: 'https://api.example.com',
     timeoutMs: 5000,
+    retry: { maxRetries: 0 },
+    allowlist,
   };
 
   let client: HttpClient;
@@ -62,6 +68,7 @@ describe('HttpClient', () => {
           limit: 10,
           active: true,
           empty: undefined,
+          tags: ['a', 'b'],
         },
       });
 
@@ -72,6 +79,7 @@ describe('HttpClient', () => {
       expect(url.searchParams.get('limit')).toBe('10');
       expect(url.searchParams.get('active')).toBe('true');
       expect(url.searchParams.has('empty')).toBe(false);
+      expect(url.searchParams.getAll('tags')).toEqual(['a', 'b']);
     });
 
     it('should throw ProviderError on HTTP error', async () => {
@@ -144,6 +152,23 @@ describe('HttpClient', () => {
       });
     });
 
+    it('should report malformed JSON as a non-retryable ProviderError', async () => {
+      const client = createHttpClient({ ...config, retry: { maxRetries: 2, baseDelayMs: 1 } });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => JSON.parse('<html>'),
+      });
+
+      await expect(client.get('/broken')).rejects.toMatchObject({
+        name: 'ProviderError',
+        statusCode: 502,
+        isRetryable: false,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
     it('should include custom headers', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -198,11 +223,190 @@ describe('HttpClient', () => {
     });
   });
 
+  describe('retries', () => {
+    const retryConfig = {
+      ...config,
+      retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1000 },
+    };
+
+    function errorResponse(status: number, headers: Record<string, string> = {}) {
+      return { ok: false, status, statusText: 'Error', headers: new Headers(headers) };
+    }
+
+    function okResponse() {
+      return { ok: true, status: 200, headers: new Headers(), json: async () => ({ ok: 1 }) };
+    }
+
+    it('should retry retryable errors until a request succeeds', async () => {
+      const client = createHttpClient(retryConfig);
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce(okResponse());
+
+      const result = await client.get('/flaky');
+
+      expect(result.data).toEqual({ ok: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const client = createHttpClient(retryConfig);
+      mockFetch.mockResolvedValue(errorResponse(502));
+
+      await expect(client.get('/down')).rejects.toMatchObject({ statusCode: 502 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const client = createHttpClient(retryConfig);
+      mockFetch.mockResolvedValue(errorResponse(404));
+
+      await expect(client.getHtml('/missing')).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for Retry-After', async () => {
+      const client = createHttpClient(retryConfig);
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '0' }))
+        .mockResolvedValueOnce(okResponse());
+
+      await client.get('/limited');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not wait for a Retry-After longer than maxDelayMs', async () => {
+      const client = createHttpClient(retryConfig);
+      mockFetch.mockResolvedValue(errorResponse(429, { 'Retry-After': '120' }));
+
+      await expect(client.get('/limited')).rejects.toMatchObject({
+        statusCode: 429,
+        retryAfterMs: 120000,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting for a retry when the signal aborts', async () => {
+      const client = createHttpClient({
+        ...retryConfig,
+        retry: { maxRetries: 2, maxDelayMs: 120000 },
+      });
+      mockFetch.mockResolvedValue(errorResponse(429, { 'Retry-After': '60' }));
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(client.get('/limited', { signal: controller.signal })).rejects.toMatchObject({
+        statusCode: 429,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log every attempt to the audit logger', async () => {
+      const auditLogger = createAuditLogger({ consoleOutput: false });
+      const client = createHttpClient({ ...retryConfig, provider: 'saos', auditLogger });
+      mockFetch.mockResolvedValueOnce(errorResponse(500)).mockResolvedValueOnce(okResponse());
+
+      await client.get('/search', { params: { all: 'wadium' } });
+      const entries = auditLogger.getEntriesByType('http_request');
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({
+        provider: 'saos',
+        success: false,
+        metadata: { url: 'https://api.example.com/search', attempt: 1, status: 500 },
+      });
+      expect(entries[0]?.metadata?.['retryDelayMs']).toEqual(expect.any(Number));
+      expect(entries[1]).toMatchObject({
+        success: true,
+        metadata: { attempt: 2, status: 200 },
+      });
+      expect(entries[1]?.latencyMs).toEqual(expect.any(Number));
+    });
+  });
+
+  describe('domain allowlist', () => {
+    function redirectResponse(location: string) {
+      return { ok: false, status: 302, statusText: 'Found', headers: new Headers({ Location: location }) };
+    }
+
+    it('should block requests outside the allowlist', async () => {
+      const auditLogger = createAuditLogger({ consoleOutput: false });
+      const client = createHttpClient({ baseUrl: 'https://evil.example.org', timeoutMs: 5000, auditLogger });
+
+      await expect(client.get('/api/search/judgments')).rejects.toThrow(DomainNotAllowedError);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(auditLogger.getEntriesByType('domain_blocked')[0]?.metadata).toEqual({
+        blockedUrl: 'https://evil.example.org/api/search/judgments',
+      });
+    });
+
+    it('should allow the KIO sources by default', async () => {
+      const client = createHttpClient({ baseUrl: 'https://www.saos.org.pl', timeoutMs: 5000 });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: async () => ({}) });
+
+      await client.get('/api/judgments/1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://www.saos.org.pl/api/judgments/1',
+        expect.objectContaining({ redirect: 'manual' })
+      );
+    });
+
+    it('should follow allowed redirects', async () => {
+      const client = createHttpClient(config);
+      mockFetch
+        .mockResolvedValueOnce(redirectResponse('/moved?id=1'))
+        .mockResolvedValueOnce(redirectResponse('https://test.com/final'))
+        .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: async () => ({ id: 1 }) });
+
+      const result = await client.get('/start');
+
+      expect(result.data).toEqual({ id: 1 });
+      expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+        'https://api.example.com/start',
+        'https://api.example.com/moved?id=1',
+        'https://test.com/final',
+      ]);
+    });
+
+    it('should block redirects outside the allowlist', async () => {
+      const auditLogger = createAuditLogger({ consoleOutput: false });
+      const client = createHttpClient({ ...config, auditLogger });
+      mockFetch.mockResolvedValueOnce(redirectResponse('http://169.254.169.254/latest/meta-data'));
+
+      await expect(client.getHtml('/start')).rejects.toThrow(DomainNotAllowedError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(auditLogger.getEntriesByType('domain_blocked')).toHaveLength(1);
+    });
+
+    it('should stop after too many redirects', async () => {
+      const client = createHttpClient(config);
+      mockFetch.mockResolvedValue(redirectResponse('/loop'));
+
+      await expect(client.get('/loop')).rejects.toThrow('Too many redirects');
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2024-05-01T12:00:00Z');
+
+      expect(parseRetryAfter('30', now)).toBe(30000);
+      expect(parseRetryAfter('Wed, 01 May 2024 12:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
+
   describe('createHttpClient', () => {
     it('should create a new HttpClient instance', () => {
       const client = createHttpClient({
         baseUrl: 'https://test.com',
         timeoutMs: 10000,
+        allowlist,
       });
 
       expect(client).toBeInstanceOf(HttpClient);
@@ -212,6 +416,7 @@ describe('HttpClient', () => {
       const client = createHttpClient({
         baseUrl: 'https://test.com/',
         timeoutMs: 10000,
+        allowlist,
       });
 
       mockFetch.mockResolvedValueOnce({
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseWarmArgs } from '../../src/warm.js';
+import { ConfigError } from '../../src/config/env.js';
+
+describe('parseWarmArgs', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      MCP_KIO_CACHE_TYPE: 'sqlite',
+      MCP_KIO_SQLITE_PATH: '/var/kio/cache.db',
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should parse options', () => {
+    expect(
+      parseWarmArgs([
+        '--case', 'KIO 123/24',
+        '--case', 'KIO 456/24',
+        '--saos-id', '98765',
+        '--date-from', '2024-01-01',
+        '--date-to', '2024-03-31',
+        '--rate-limit', '10',
+      ])
+    ).toMatchObject({
+      request: {
+        caseNumbers: ['KIO 123/24', 'KIO 456/24'],
+        saosIds: ['98765'],
+        dateFrom: '2024-01-01',
+        dateTo: '2024-03-31',
+      },
+      ratePerMinute: 10,
+    });
+  });
+
+  it('should default the rate limit from the environment', () => {
+    expect(parseWarmArgs(['--saos-id', '1'])).toMatchObject({ ratePerMinute: 20 });
+  });
+
+  it('should return undefined for --help', () => {
+    expect(parseWarmArgs(['--help'])).toBeUndefined();
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => parseWarmArgs([])).toThrow(ConfigError);
+    expect(() => parseWarmArgs(['--date-from', '01/2024'])).toThrow(ConfigError);
+    expect(() => parseWarmArgs(['--saos-id', '1', '--rate-limit', '0'])).toThrow(ConfigError);
+    expect(() => parseWarmArgs(['--unknown'])).toThrow(ConfigError);
+  });
+
+  it('should require a persistent cache', () => {
+    delete process.env['MCP_KIO_CACHE_TYPE'];
+
+    expect(() => parseWarmArgs(['--saos-id', '1'])).toThrow(/persistent cache/);
+  });
+});